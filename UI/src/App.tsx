@@ -8,8 +8,16 @@ import { AuthProvider, useAuth } from "@/lib/auth-context";
 import { BrowserRouter, Routes, Route, Navigate, Link } from "react-router-dom";
 import Login from "@/pages/Login";
 import Users from "@/pages/Users";
+import ApiKeys from "@/pages/ApiKeys";
+import Audit from "@/pages/Audit";
+import Alerts from "@/pages/Alerts";
+import Registries from "@/pages/Registries";
+import PendingChanges from "@/pages/PendingChanges";
+import EnvGroups from "@/pages/EnvGroups";
+import Projects from "@/pages/Projects";
+import Security from "@/pages/Security";
 import { Button } from "@/components/ui/button";
-import { Users as UsersIcon, LogOut } from "lucide-react";
+import { Users as UsersIcon, LogOut, KeyRound, ScrollText, Bell, Container, GitPullRequestArrow, Layers, FolderKanban, ShieldCheck } from "lucide-react";
 import type { JSX } from "react";
 
 // Wrapper for protected routes
@@ -43,11 +51,45 @@ function AppContent() {
               </Link>
               <nav className="flex items-center gap-4 text-sm font-medium">
                 <Link to="/" className="hover:text-primary">Dashboard</Link>
+                <Link to="/pending" className="hover:text-primary flex items-center gap-1">
+                  <GitPullRequestArrow className="h-4 w-4" /> Pending
+                </Link>
+                {(isAdmin || !!user?.admin_of?.length) && (
+                  <Link to="/projects" className="hover:text-primary flex items-center gap-1">
+                    <FolderKanban className="h-4 w-4" /> Projects
+                  </Link>
+                )}
                 {isAdmin && (
                   <Link to="/users" className="hover:text-primary flex items-center gap-1">
                     <UsersIcon className="h-4 w-4" /> Users
                   </Link>
                 )}
+                {isAdmin && (
+                  <Link to="/audit" className="hover:text-primary flex items-center gap-1">
+                    <ScrollText className="h-4 w-4" /> Audit
+                  </Link>
+                )}
+                {isAdmin && (
+                  <Link to="/alerts" className="hover:text-primary flex items-center gap-1">
+                    <Bell className="h-4 w-4" /> Alerts
+                  </Link>
+                )}
+                {isAdmin && (
+                  <Link to="/registries" className="hover:text-primary flex items-center gap-1">
+                    <Container className="h-4 w-4" /> Registries
+                  </Link>
+                )}
+                {isAdmin && (
+                  <Link to="/env-groups" className="hover:text-primary flex items-center gap-1">
+                    <Layers className="h-4 w-4" /> Env Groups
+                  </Link>
+                )}
+                <Link to="/api-keys" className="hover:text-primary flex items-center gap-1">
+                  <KeyRound className="h-4 w-4" /> API Keys
+                </Link>
+                <Link to="/security" className="hover:text-primary flex items-center gap-1">
+                  <ShieldCheck className="h-4 w-4" /> Security
+                </Link>
               </nav>
             </div>
             <div className="flex items-center gap-2">
@@ -76,6 +118,54 @@ function AppContent() {
               </div>
             </RequireAuth>
           } />
+          <Route path="/pending" element={
+            <RequireAuth>
+              <PendingChanges />
+            </RequireAuth>
+          } />
+          <Route path="/api-keys" element={
+            <RequireAuth>
+              <ApiKeys />
+            </RequireAuth>
+          } />
+          <Route path="/security" element={
+            <RequireAuth>
+              <Security />
+            </RequireAuth>
+          } />
+          <Route path="/projects" element={
+            <RequireAuth>
+              <Projects />
+            </RequireAuth>
+          } />
+          <Route path="/audit" element={
+            <RequireAuth>
+              <RequireAdmin>
+                <Audit />
+              </RequireAdmin>
+            </RequireAuth>
+          } />
+          <Route path="/alerts" element={
+            <RequireAuth>
+              <RequireAdmin>
+                <Alerts />
+              </RequireAdmin>
+            </RequireAuth>
+          } />
+          <Route path="/registries" element={
+            <RequireAuth>
+              <RequireAdmin>
+                <Registries />
+              </RequireAdmin>
+            </RequireAuth>
+          } />
+          <Route path="/env-groups" element={
+            <RequireAuth>
+              <RequireAdmin>
+                <EnvGroups />
+              </RequireAdmin>
+            </RequireAuth>
+          } />
           <Route path="/users" element={
             <RequireAuth>
               <RequireAdmin>
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Archive, RotateCcw, RefreshCw, Trash2, Save } from 'lucide-react';
+import { createBackup, deleteBackup, getServiceBackups, restoreBackup, saveBackupPolicy } from '@/lib/api';
+import { formatBytes } from '@/lib/utils';
+import type { Backup } from '@/types';
+import { toast } from 'sonner';
+
+interface BackupPanelProps {
+    serviceName: string;
+    canManage: boolean;
+    canEditPolicy: boolean;
+    onRestored: () => void;
+}
+
+type ApiError = { message?: string; response?: { data?: { error?: string; logs?: string } } };
+
+export function BackupPanel({ serviceName, canManage, canEditPolicy, onRestored }: BackupPanelProps) {
+    const [backups, setBackups] = useState<Backup[]>([]);
+    const [schedule, setSchedule] = useState('');
+    const [retention, setRetention] = useState('7');
+    const [loading, setLoading] = useState(false);
+    const [creating, setCreating] = useState(false);
+    const [savingPolicy, setSavingPolicy] = useState(false);
+    const [busyId, setBusyId] = useState<number | null>(null);
+
+    const fetchBackups = useCallback(async () => {
+        setLoading(true);
+        try {
+            const data = await getServiceBackups(serviceName);
+            setBackups(data.backups);
+            setSchedule(data.policy.schedule ?? '');
+            setRetention(String(data.policy.retention));
+        } catch {
+            toast.error("Failed to load backups");
+        } finally {
+            setLoading(false);
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchBackups();
+    }, [fetchBackups]);
+
+    const handleCreate = async () => {
+        setCreating(true);
+        try {
+            const res = await createBackup(serviceName);
+            toast.success(res.message);
+            fetchBackups();
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error("Backup failed: " + (error.response?.data?.error || error.message));
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleSavePolicy = async () => {
+        setSavingPolicy(true);
+        try {
+            await saveBackupPolicy(serviceName, { schedule: schedule.trim() || null, retention: parseInt(retention) || 1 });
+            toast.success("Backup schedule saved");
+            fetchBackups();
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error(error.response?.data?.error || "Failed to save schedule");
+        } finally {
+            setSavingPolicy(false);
+        }
+    };
+
+    const handleRestore = async (backup: Backup) => {
+        if (!confirm(`Restore ${serviceName} from the backup of ${new Date(backup.created_at).toLocaleString()}?\n\nThe service is stopped, its .env, config and volume contents are replaced, then it is redeployed.`)) return;
+        setBusyId(backup.id);
+        try {
+            const res = await restoreBackup(serviceName, backup.id);
+            toast.success(res.message);
+            onRestored();
+        } catch (e) {
+            const error = e as ApiError;
+            const logs: string | undefined = error.response?.data?.logs;
+            toast.error("Restore failed: " + (error.response?.data?.error || error.message), { description: logs?.split('\n').slice(-10).join('\n') });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (backup: Backup) => {
+        if (!confirm(`Delete this backup? The archive is removed from disk.`)) return;
+        setBusyId(backup.id);
+        try {
+            await deleteBackup(serviceName, backup.id);
+            setBackups(prev => prev.filter(b => b.id !== backup.id));
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error(error.response?.data?.error || "Failed to delete backup");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (loading && backups.length === 0) {
+        return (
+            <div className="h-32 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="rounded-lg border p-4 space-y-4">
+                <div className="grid grid-cols-[1fr_8rem] gap-4">
+                    <div className="space-y-2">
+                        <Label>Schedule</Label>
+                        <Input
+                            className="font-mono"
+                            value={schedule}
+                            onChange={e => setSchedule(e.target.value)}
+                            placeholder="0 3 * * * (empty = manual only)"
+                            disabled={!canEditPolicy}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Keep last</Label>
+                        <Input type="number" min={1} value={retention} onChange={e => setRetention(e.target.value)} disabled={!canEditPolicy} />
+                    </div>
+                </div>
+                <p className="text-xs text-muted-foreground">Cron syntax in server time, or @hourly / @daily / @weekly / @monthly. Backups include .env, config and named volumes.</p>
+                <div className="flex gap-2">
+                    {canEditPolicy && (
+                        <Button variant="outline" size="sm" onClick={handleSavePolicy} disabled={savingPolicy}>
+                            {savingPolicy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                            Save Schedule
+                        </Button>
+                    )}
+                    {canManage && (
+                        <Button size="sm" onClick={handleCreate} disabled={creating}>
+                            {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+                            Back Up Now
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <Archive className="h-4 w-4" /> {backups.length} backup{backups.length !== 1 ? 's' : ''}
+                </h3>
+                <Button variant="ghost" size="icon" onClick={fetchBackups} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            {backups.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">No backups yet.</p>
+            )}
+
+            {backups.map(backup => (
+                <div key={backup.id} className="rounded-lg border bg-card p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                            <span className="font-medium">{new Date(backup.created_at).toLocaleString()}</span>
+                            <Badge variant="outline" className="text-xs">{backup.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</Badge>
+                        </div>
+                        <p className="font-mono text-xs truncate text-muted-foreground" title={backup.file}>{backup.file}</p>
+                        <p className="text-xs text-muted-foreground">
+                            {formatBytes(backup.size)} • {backup.actor}
+                            {backup.volumes.length > 0 && <> • volumes: {backup.volumes.join(', ')}</>}
+                        </p>
+                    </div>
+                    {canManage && (
+                        <div className="flex gap-2 shrink-0">
+                            <Button variant="outline" size="sm" onClick={() => handleRestore(backup)} disabled={busyId !== null}>
+                                {busyId === backup.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                                Restore
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDelete(backup)} disabled={busyId !== null}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+    Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Check, Grid3x3, Loader2, X } from 'lucide-react';
+import { explainPermission, getEffectivePermissions } from '@/lib/api';
+import { cn } from "@/lib/utils";
+import type { EffectivePermissions, PermissionExplanation } from '@/types';
+import { toast } from 'sonner';
+
+const COLUMNS: Record<string, string> = {
+    view_status: 'Status',
+    manage: 'Manage',
+    view_configuration: 'View config',
+    edit_configuration: 'Edit config',
+    view_env: 'View env',
+    edit_env: 'Edit env',
+    reveal_secret: 'Secrets',
+    view_logs: 'Logs',
+    pull_new_image: 'Pull images',
+    add_new_service: 'Add services',
+};
+
+type Cell = { scope: string; action: string };
+
+// What a user may actually do on every service, after roles, groups, patterns and denies
+export function EffectivePermissionsDialog({ username }: { username: string }) {
+    const [matrix, setMatrix] = useState<EffectivePermissions | null>(null);
+    const [selected, setSelected] = useState<Cell | null>(null);
+    const [explanation, setExplanation] = useState<PermissionExplanation | null>(null);
+    const [explaining, setExplaining] = useState(false);
+
+    const handleOpenChange = async (open: boolean) => {
+        setSelected(null);
+        setExplanation(null);
+        if (!open) return;
+        setMatrix(null);
+        try {
+            setMatrix(await getEffectivePermissions(username));
+        } catch {
+            toast.error("Failed to load effective permissions");
+        }
+    };
+
+    const explain = async (cell: Cell) => {
+        setSelected(cell);
+        setExplanation(null);
+        setExplaining(true);
+        try {
+            setExplanation(await explainPermission(username, cell.scope, cell.action));
+        } catch {
+            toast.error("Failed to explain permission");
+        } finally {
+            setExplaining(false);
+        }
+    };
+
+    const renderCell = (scope: string, action: string, allowed: boolean) => (
+        <button
+            type="button"
+            title={`Why ${allowed ? 'allowed' : 'not allowed'}?`}
+            onClick={() => explain({ scope, action })}
+            className={cn(
+                "inline-flex h-7 w-7 items-center justify-center rounded-md hover:bg-muted",
+                selected?.scope === scope && selected.action === action && "ring-2 ring-primary"
+            )}
+        >
+            {allowed ? <Check className="h-4 w-4 text-green-600" /> : <X className="h-4 w-4 text-muted-foreground/50" />}
+        </button>
+    );
+
+    const serviceActions = matrix ? Object.keys(Object.values(matrix.services)[0] ?? {}) : [];
+
+    return (
+        <Dialog onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="icon" title="Effective permissions">
+                    <Grid3x3 className="h-4 w-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Effective permissions of {username}</DialogTitle>
+                    <DialogDescription>
+                        Everything the user's own grants and groups add up to. Click a cell to see which grant decides it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!matrix ? (
+                    <div className="flex items-center gap-2 text-muted-foreground text-sm py-4">
+                        <Loader2 className="h-4 w-4 animate-spin" /> Resolving permissions...
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <span className="font-medium">Global</span>
+                            {Object.entries(matrix.global).map(([action, allowed]) => (
+                                <div key={action} className="flex items-center gap-1">
+                                    {renderCell('global', action, allowed)}
+                                    <span className="text-xs text-muted-foreground">{COLUMNS[action] ?? action}</span>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="border rounded-lg">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Service</TableHead>
+                                        {serviceActions.map(action => (
+                                            <TableHead key={action} className="text-center text-xs whitespace-nowrap">{COLUMNS[action] ?? action}</TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {Object.keys(matrix.services).length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={serviceActions.length + 1} className="text-center py-6 text-muted-foreground">
+                                                No services yet.
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {Object.entries(matrix.services).map(([service, actions]) => (
+                                        <TableRow key={service}>
+                                            <TableCell className="font-mono text-xs">{service}</TableCell>
+                                            {Object.entries(actions).map(([action, allowed]) => (
+                                                <TableCell key={action} className="p-1 text-center">{renderCell(`service:${service}`, action, allowed)}</TableCell>
+                                            ))}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        {selected && (
+                            <div className={cn(
+                                "rounded-md border p-3 text-sm",
+                                explanation?.allowed === true && "border-green-500/30 bg-green-500/5",
+                                explanation?.allowed === false && "border-red-500/30 bg-red-500/5"
+                            )}>
+                                <p className="font-mono text-xs text-muted-foreground mb-1">{selected.action} on {selected.scope}</p>
+                                {explaining ? <Loader2 className="h-4 w-4 animate-spin" /> : explanation?.message}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
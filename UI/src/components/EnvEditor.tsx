@@ -16,10 +16,14 @@ import {
     Check,
     Search,
     Lock,
-    Unlock
+    Unlock,
+    Minus,
+    ArrowRight,
+    Info
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from "@/lib/utils";
+import type { EnvChange, EnvSchemaEntry } from '@/types';
 
 interface EnvVar {
     key: string;
@@ -32,6 +36,8 @@ interface EnvEditorProps {
     value: string;
     onChange: (value: string) => void;
     disabled?: boolean;
+    schema?: EnvSchemaEntry[];
+    inheritedKeys?: string[]; // Set by the service's env groups, so not missing when absent here
 }
 
 function parseEnvContent(content: string): EnvVar[] {
@@ -82,6 +88,7 @@ function serializeEnvVars(vars: EnvVar[]): string {
         .join('\n');
 }
 
+// Keep in sync with the backend copy in src/envfile.ts
 function isSecretKey(key: string): boolean {
     const secretPatterns = [
         /password/i,
@@ -100,6 +107,38 @@ function isSecretKey(key: string): boolean {
     return secretPatterns.some(pattern => pattern.test(key));
 }
 
+const REDACTED = '********';
+const SECRET_REF = /\$\{secret:[A-Za-z0-9_.-]+\}/;
+
+// Keep in sync with validateValue in src/envschema.ts
+function validateSchemaValue(entry: EnvSchemaEntry, value: string): string | null {
+    if (value === REDACTED || SECRET_REF.test(value)) return null;
+    switch (entry.type ?? 'string') {
+        case 'int':
+            return /^-?\d+$/.test(value) ? null : 'Must be a whole number';
+        case 'bool':
+            return /^(true|false|1|0|yes|no|on|off)$/i.test(value) ? null : 'Must be true/false (also 1/0, yes/no, on/off)';
+        case 'url':
+            try {
+                new URL(value);
+                return null;
+            } catch {
+                return 'Must be a URL with a scheme, e.g. https://example.com';
+            }
+        case 'enum':
+            return entry.values?.includes(value) ? null : `Must be one of: ${entry.values?.join(', ')}`;
+        default:
+            return null;
+    }
+}
+
+// Same rules as validateEnv on the server: empty counts as missing, a default satisfies required
+function schemaError(entry: EnvSchemaEntry | undefined, value: string): string | null {
+    if (!entry) return null;
+    if (!value) return entry.required && entry.default === undefined ? 'Required' : null;
+    return validateSchemaValue(entry, value);
+}
+
 function getEnvCategoryColor(key: string): string {
     const upper = key.toUpperCase();
 
@@ -121,7 +160,7 @@ function getEnvCategoryColor(key: string): string {
     return 'bg-muted text-muted-foreground border-border';
 }
 
-export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps) {
+export function EnvEditor({ value, onChange, disabled = false, schema = [], inheritedKeys = [] }: EnvEditorProps) {
     const [isVisualMode, setIsVisualMode] = useState(true);
     const [envVars, setEnvVars] = useState<EnvVar[]>([]);
     const [rawContent, setRawContent] = useState(value);
@@ -171,6 +210,23 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
        
     };
 
+    const schemaByKey = useMemo(() => new Map(schema.map(entry => [entry.key, entry])), [schema]);
+
+    // Required keys without a default that neither the file nor an env group sets
+    const missingRequired = useMemo(
+        () => schema.filter(e => e.required && e.default === undefined && !inheritedKeys.includes(e.key) && !envVars.some(v => v.key.trim() === e.key)),
+        [schema, envVars, inheritedKeys]
+    );
+
+    const addMissing = () => {
+        const newVars = [
+            ...envVars,
+            ...missingRequired.map((entry, i) => ({ key: entry.key, value: '', id: `env-new-${Date.now()}-${i}`, isSecret: isSecretKey(entry.key) })),
+        ];
+        setEnvVars(newVars);
+        syncToParent(newVars);
+    };
+
     const updateVariable = (id: string, field: 'key' | 'value', newValue: string) => {
         const newVars = envVars.map(v => {
             if (v.id === id) {
@@ -281,6 +337,20 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
                 </div>
             )}
 
+            {missingRequired.length > 0 && (
+                <div className="flex items-center justify-between gap-2 text-xs text-destructive bg-destructive/10 p-2 rounded-md border border-destructive/20">
+                    <span className="flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4 shrink-0" />
+                        Missing required: <span className="font-mono">{missingRequired.map(e => e.key).join(', ')}</span>
+                    </span>
+                    {isVisualMode && !disabled && (
+                        <Button variant="outline" size="sm" className="h-6 text-xs" onClick={addMissing}>
+                            <Plus className="h-3 w-3 mr-1" /> Add
+                        </Button>
+                    )}
+                </div>
+            )}
+
             {/* Editor Area */}
             <div className="flex-1 min-h-0 border rounded-lg bg-card/40 overflow-hidden relative">
                 {isVisualMode ? (
@@ -343,6 +413,8 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
                                         const isVisible = visibleSecrets.has(envVar.id);
                                         const isCopied = copiedId === envVar.id;
                                         const categoryClass = getEnvCategoryColor(envVar.key);
+                                        const entry = schemaByKey.get(envVar.key.trim());
+                                        const error = schemaError(entry, envVar.value);
 
                                         return (
                                             <div
@@ -367,8 +439,8 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
                                                         type={envVar.isSecret && !isVisible ? "password" : "text"}
                                                         value={envVar.value}
                                                         onChange={(e) => updateVariable(envVar.id, 'value', e.target.value)}
-                                                        placeholder="Value"
-                                                        className="h-8 font-mono text-xs pr-14 bg-transparent border-0 ring-1 ring-border/50 focus-visible:ring-2 focus-visible:ring-ring focus-visible:bg-background transition-all"
+                                                        placeholder={entry?.default !== undefined ? `Default: ${entry.default}` : "Value"}
+                                                        className={cn("h-8 font-mono text-xs pr-14 bg-transparent border-0 ring-1 ring-border/50 focus-visible:ring-2 focus-visible:ring-ring focus-visible:bg-background transition-all", error && "ring-destructive/60")}
                                                         disabled={disabled}
                                                     />
 
@@ -405,6 +477,22 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
                                                 >
                                                     <Trash2 className="h-4 w-4" />
                                                 </Button>
+
+                                                {(error || entry?.description || (schema.length > 0 && !entry && envVar.key.trim())) && (
+                                                    <div className="col-span-3 -mt-2 pl-3 text-[11px] space-y-0.5">
+                                                        {error && (
+                                                            <p className="flex items-center gap-1 text-destructive">
+                                                                <AlertCircle className="h-3 w-3 shrink-0" /> {error}
+                                                            </p>
+                                                        )}
+                                                        {entry?.description && (
+                                                            <p className="flex items-center gap-1 text-muted-foreground">
+                                                                <Info className="h-3 w-3 shrink-0" /> {entry.description}
+                                                            </p>
+                                                        )}
+                                                        {!entry && <p className="text-amber-500">Not in the env schema</p>}
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     })
@@ -435,3 +523,46 @@ export function EnvEditor({ value, onChange, disabled = false }: EnvEditorProps)
         </div>
     );
 }
+
+const CHANGE_STYLES: Record<EnvChange['type'], string> = {
+    added: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+    removed: 'bg-red-500/10 text-red-500 border-red-500/20',
+    changed: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+};
+
+const CHANGE_ICONS: Record<EnvChange['type'], typeof Plus> = {
+    added: Plus,
+    removed: Minus,
+    changed: ArrowRight,
+};
+
+// Key-level diff as returned by the env diff endpoints (secret values already redacted server-side)
+export function EnvDiff({ changes, emptyText = 'No changes' }: { changes: EnvChange[]; emptyText?: string }) {
+    if (changes.length === 0) {
+        return <p className="text-xs text-muted-foreground py-2">{emptyText}</p>;
+    }
+
+    return (
+        <div className="rounded-md border divide-y font-mono text-xs">
+            {changes.map(change => {
+                const Icon = CHANGE_ICONS[change.type];
+                return (
+                    <div key={change.key} className="flex items-start gap-2 px-3 py-1.5">
+                        <span className={cn("mt-0.5 rounded border p-0.5", CHANGE_STYLES[change.type])}>
+                            <Icon className="h-3 w-3" />
+                        </span>
+                        <span className="font-medium flex items-center gap-1 shrink-0">
+                            {isSecretKey(change.key) && <Lock className="h-3 w-3 text-purple-500" />}
+                            {change.key}
+                        </span>
+                        <span className="min-w-0 break-all text-muted-foreground">
+                            {change.from !== undefined && <span className={cn(change.type === 'changed' && "line-through")}>{change.from}</span>}
+                            {change.type === 'changed' && ' → '}
+                            {change.to !== undefined && <span className="text-foreground">{change.to}</span>}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
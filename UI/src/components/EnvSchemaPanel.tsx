@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { ListChecks, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { saveEnvSchema } from '@/lib/api';
+import type { EnvSchemaEntry } from '@/types';
+import { toast } from 'sonner';
+
+interface EnvSchemaPanelProps {
+    serviceName: string;
+    schema: EnvSchemaEntry[];
+    canEdit: boolean;
+    onSaved: (schema: EnvSchemaEntry[]) => void;
+}
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+type Type = NonNullable<EnvSchemaEntry['type']>;
+
+const TYPES: Record<Type, string> = {
+    string: 'String',
+    int: 'Integer',
+    url: 'URL',
+    bool: 'Boolean',
+    enum: 'One of',
+};
+
+// Enum values are edited as a comma separated list
+type DraftEntry = Omit<EnvSchemaEntry, 'values'> & { values: string };
+
+const toDraft = (entry: EnvSchemaEntry): DraftEntry => ({ ...entry, values: entry.values?.join(', ') ?? '' });
+
+const fromDraft = (draft: DraftEntry): EnvSchemaEntry => ({
+    key: draft.key.trim(),
+    type: draft.type,
+    required: draft.required,
+    default: draft.default || undefined,
+    description: draft.description,
+    values: draft.type === 'enum' ? draft.values.split(',').map(v => v.trim()).filter(Boolean) : undefined,
+});
+
+export function EnvSchemaPanel({ serviceName, schema, canEdit, onSaved }: EnvSchemaPanelProps) {
+    const [draft, setDraft] = useState<DraftEntry[] | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const update = (index: number, patch: Partial<DraftEntry>) => {
+        setDraft(prev => prev && prev.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setSaving(true);
+        try {
+            const next = draft.filter(e => e.key.trim()).map(fromDraft);
+            const { errors } = await saveEnvSchema(serviceName, next);
+            const invalid = Object.keys(errors);
+            if (invalid.length) toast.warning(`Env schema saved. The current env file doesn't match it yet: ${invalid.join(', ')}`);
+            else toast.success("Env schema saved");
+            onSaved(next);
+            setDraft(null);
+        } catch (e) {
+            toast.error((e as ApiError).response?.data?.error || "Failed to save env schema");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <h3 className="text-sm font-medium flex items-center gap-2">
+                        <ListChecks className="h-4 w-4" /> Env Schema
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                        Every env save is checked against it. Defaults apply when a key is missing or empty.
+                    </p>
+                </div>
+                {canEdit && !draft && (
+                    <Button variant="outline" size="sm" onClick={() => setDraft(schema.map(toDraft))}>
+                        <Pencil className="mr-2 h-4 w-4" /> Edit
+                    </Button>
+                )}
+            </div>
+
+            {!draft && schema.length === 0 && (
+                <p className="text-xs text-muted-foreground">No schema. Any keys and values are accepted.</p>
+            )}
+
+            {!draft && schema.length > 0 && (
+                <div className="divide-y">
+                    {schema.map(entry => (
+                        <div key={entry.key} className="py-2 text-xs space-y-0.5">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-mono font-medium">{entry.key}</span>
+                                <Badge variant="outline" className="text-xs">
+                                    {TYPES[entry.type ?? 'string']}{entry.type === 'enum' && `: ${entry.values?.join(', ')}`}
+                                </Badge>
+                                {entry.required && <Badge variant="outline" className="text-xs bg-red-500/10 text-red-500 border-red-500/20">Required</Badge>}
+                                {entry.default !== undefined && <span className="text-muted-foreground">default <span className="font-mono">{entry.default}</span></span>}
+                            </div>
+                            {entry.description && <p className="text-muted-foreground">{entry.description}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {draft && (
+                <div className="space-y-2">
+                    {draft.map((entry, index) => (
+                        <div key={index} className="rounded-md border p-2 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    className="h-8 font-mono text-xs"
+                                    value={entry.key}
+                                    onChange={e => update(index, { key: e.target.value })}
+                                    placeholder="KEY"
+                                />
+                                <Select value={entry.type ?? 'string'} onValueChange={v => update(index, { type: v as Type })}>
+                                    <SelectTrigger className="h-8 w-[120px] text-xs"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(TYPES).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <label className="flex items-center gap-1 text-xs whitespace-nowrap">
+                                    <Checkbox checked={!!entry.required} onCheckedChange={v => update(index, { required: v === true })} />
+                                    Required
+                                </label>
+                                <Button variant="ghost" size="icon" title="Remove" onClick={() => setDraft(draft.filter((_, i) => i !== index))}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            {entry.type === 'enum' && (
+                                <Input
+                                    className="h-8 font-mono text-xs"
+                                    value={entry.values}
+                                    onChange={e => update(index, { values: e.target.value })}
+                                    placeholder="Allowed values, comma separated"
+                                />
+                            )}
+                            <div className="flex gap-2">
+                                <Input
+                                    className="h-8 font-mono text-xs w-1/3"
+                                    value={entry.default ?? ''}
+                                    onChange={e => update(index, { default: e.target.value })}
+                                    placeholder="Default"
+                                />
+                                <Input
+                                    className="h-8 text-xs"
+                                    value={entry.description ?? ''}
+                                    onChange={e => update(index, { description: e.target.value })}
+                                    placeholder="Description"
+                                />
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setDraft([...draft, { key: '', values: '' }])}>
+                            <Plus className="mr-2 h-4 w-4" /> Add Key
+                        </Button>
+                        <div className="flex-1" />
+                        <Button variant="ghost" size="sm" onClick={() => setDraft(null)} disabled={saving}>Cancel</Button>
+                        <Button size="sm" onClick={handleSave} disabled={saving}>
+                            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Schema
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, History, RotateCcw, RefreshCw, FileDiff } from 'lucide-react';
+import { getEnvDiff, getEnvVersions, revertEnv } from '@/lib/api';
+import type { EnvChange, EnvVersion } from '@/types';
+import { EnvDiff } from './EnvEditor';
+import { toast } from 'sonner';
+
+interface EnvVersionsProps {
+    serviceName: string;
+    canRevert: boolean;
+    onReverted: () => void;
+}
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const SOURCE_LABELS: Record<EnvVersion['source'], string> = {
+    initial: 'Before versioning',
+    save: 'Save',
+    revert: 'Revert',
+};
+
+export function EnvVersions({ serviceName, canRevert, onReverted }: EnvVersionsProps) {
+    const [versions, setVersions] = useState<EnvVersion[]>([]);
+    const [current, setCurrent] = useState<number | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [expanded, setExpanded] = useState<{ version: number; changes: EnvChange[]; first: boolean } | null>(null);
+    const [reverting, setReverting] = useState<number | null>(null);
+
+    const fetchVersions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const data = await getEnvVersions(serviceName);
+            setVersions(data.versions);
+            setCurrent(data.current);
+        } catch {
+            toast.error("Failed to load env versions");
+        } finally {
+            setLoading(false);
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchVersions();
+    }, [fetchVersions]);
+
+    // What the version changed compared to the one before it
+    const toggleDiff = async (version: EnvVersion) => {
+        if (expanded?.version === version.version) {
+            setExpanded(null);
+            return;
+        }
+        const previous = versions.find(v => v.version < version.version);
+        try {
+            const changes = previous
+                ? await getEnvDiff(serviceName, previous.version, version.version)
+                : [];
+            setExpanded({ version: version.version, changes, first: !previous });
+        } catch (e) {
+            toast.error((e as ApiError).response?.data?.error || "Failed to load diff");
+        }
+    };
+
+    const handleRevert = async (version: EnvVersion) => {
+        if (!confirm(`Revert the environment of ${serviceName} to version ${version.version}? The service will be restarted.`)) return;
+        setReverting(version.version);
+        try {
+            const res = await revertEnv(serviceName, version.version);
+            toast.success(res.message);
+            onReverted();
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error("Revert failed: " + (error.response?.data?.error || error.message));
+            fetchVersions();
+        } finally {
+            setReverting(null);
+        }
+    };
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium flex items-center gap-2">
+                    <History className="h-4 w-4" /> Env Versions
+                </h3>
+                <Button variant="ghost" size="icon" onClick={fetchVersions} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            {versions.length === 0 && !loading && (
+                <p className="text-xs text-muted-foreground">No versions yet. Every save is kept from now on.</p>
+            )}
+            {versions.length > 0 && current === null && (
+                <p className="text-xs text-amber-500">The env file was changed outside of Orchestr8 since the last version.</p>
+            )}
+
+            <div className="divide-y">
+                {versions.map(version => (
+                    <div key={version.id} className="py-2 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0 text-xs space-y-0.5">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-mono font-semibold">v{version.version}</span>
+                                    <Badge variant="outline" className="text-xs">
+                                        {SOURCE_LABELS[version.source]}{version.reverted_from !== null && ` to v${version.reverted_from}`}
+                                    </Badge>
+                                    {version.version === current && (
+                                        <Badge variant="outline" className="text-xs bg-emerald-500/10 text-emerald-500 border-emerald-500/20">Current</Badge>
+                                    )}
+                                </div>
+                                <p className="text-muted-foreground">{version.actor} • {new Date(version.created_at).toLocaleString()}</p>
+                            </div>
+                            <div className="flex gap-1">
+                                <Button variant="ghost" size="icon" title="Changes in this version" onClick={() => toggleDiff(version)}>
+                                    <FileDiff className="h-4 w-4" />
+                                </Button>
+                                {canRevert && version.version !== current && (
+                                    <Button variant="outline" size="sm" onClick={() => handleRevert(version)} disabled={reverting !== null}>
+                                        {reverting === version.version ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                                        Revert
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                        {expanded?.version === version.version && (
+                            <EnvDiff changes={expanded.changes} emptyText={expanded.first ? 'First recorded version' : 'No changes'} />
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
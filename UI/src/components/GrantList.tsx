@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { Plus, Trash2 } from 'lucide-react';
+import { cn, PERMISSION_ACTIONS } from "@/lib/utils";
+import type { Permission, Role } from '@/types';
+
+interface GrantListProps {
+    permissions: Permission[];
+    roles: Role[];
+    onChange: (permissions: Permission[]) => void;
+    defaultScope?: string; // Scope of newly added rows
+}
+
+// What a grant gives, as one select value
+const grantValue = (p: Permission) => p.role ? `role:${p.role}` : `action:${p.action}`;
+
+const fromGrantValue = (value: string): Pick<Permission, 'action' | 'role'> => {
+    const [kind, name] = value.split(/:(.*)/);
+    return kind === 'role' ? { role: name } : { action: name };
+};
+
+// Role and action grants on scopes like service:alumni-*, including explicit denies
+export function GrantList({ permissions, roles, onChange, defaultScope = 'service:' }: GrantListProps) {
+    const update = (index: number, patch: Partial<Permission>) => {
+        onChange(permissions.map((p, i) => {
+            if (i !== index) return p;
+            const next = { ...p, ...patch };
+            if (patch.role) delete next.action;
+            if (patch.action) delete next.role;
+            return next;
+        }));
+    };
+
+    const add = () => {
+        onChange([...permissions, roles.length ? { scope: defaultScope, role: roles[0].name } : { scope: defaultScope, action: 'view_status' }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            {permissions.map((p, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <Select value={p.effect ?? 'allow'} onValueChange={v => update(index, { effect: v === 'deny' ? 'deny' : undefined })}>
+                        <SelectTrigger className={cn("h-8 w-[88px] text-xs", p.effect === 'deny' && "text-red-500")}><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="allow">Allow</SelectItem>
+                            <SelectItem value="deny">Deny</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        className="h-8 font-mono text-xs"
+                        value={p.scope}
+                        onChange={e => update(index, { scope: e.target.value })}
+                        placeholder="service:alumni-*"
+                    />
+                    <Select value={grantValue(p)} onValueChange={v => update(index, fromGrantValue(v))}>
+                        <SelectTrigger className="h-8 w-[180px] text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {roles.length > 0 && (
+                                <SelectGroup>
+                                    <SelectLabel>Roles</SelectLabel>
+                                    {roles.map(r => <SelectItem key={r.id} value={`role:${r.name}`}>{r.name}</SelectItem>)}
+                                </SelectGroup>
+                            )}
+                            <SelectGroup>
+                                <SelectLabel>Actions</SelectLabel>
+                                {PERMISSION_ACTIONS.map(a => <SelectItem key={a.value} value={`action:${a.value}`}>{a.label}</SelectItem>)}
+                            </SelectGroup>
+                        </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" title="Remove" onClick={() => onChange(permissions.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={add}>
+                <Plus className="mr-2 h-4 w-4" /> Add Grant
+            </Button>
+            <p className="text-xs text-muted-foreground">
+                Scopes are <span className="font-mono">global</span>, <span className="font-mono">project:name</span> or <span className="font-mono">service:name</span>, where <span className="font-mono">*</span> matches anything. A deny beats every allow, and denying an action also denies the ones that include it.
+            </p>
+        </div>
+    );
+}
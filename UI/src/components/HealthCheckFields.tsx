@@ -0,0 +1,81 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import type { HealthCheckConfig } from '@/types';
+
+interface HealthCheckFieldsProps {
+    value?: HealthCheckConfig;
+    onChange: (value: HealthCheckConfig | undefined) => void;
+    disabled?: boolean;
+}
+
+export function HealthCheckFields({ value, onChange, disabled = false }: HealthCheckFieldsProps) {
+    const type = value?.type ?? 'none';
+    const update = (patch: Partial<HealthCheckConfig>) => onChange({ type: 'http', ...value, ...patch });
+
+    return (
+        <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <Label>Health Check</Label>
+                    <p className="text-xs text-muted-foreground mt-1">Deploys wait for the container to report healthy.</p>
+                </div>
+                <Select
+                    value={type}
+                    onValueChange={(t) => t === 'none' ? onChange(undefined) : update({ type: t as HealthCheckConfig['type'] })}
+                    disabled={disabled}
+                >
+                    <SelectTrigger className="w-36">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="http">HTTP</SelectItem>
+                        <SelectItem value="command">Command</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {value && (
+                <div className="grid grid-cols-2 gap-4">
+                    {value.type === 'http' ? (
+                        <div className="space-y-2 col-span-2">
+                            <Label>Path</Label>
+                            <Input value={value.path ?? ''} onChange={e => update({ path: e.target.value })} placeholder="/health" disabled={disabled} />
+                        </div>
+                    ) : (
+                        <div className="space-y-2 col-span-2">
+                            <Label>Command</Label>
+                            <Input className="font-mono" value={value.command ?? ''} onChange={e => update({ command: e.target.value })} placeholder="pg_isready -U postgres" disabled={disabled} />
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label>Interval</Label>
+                        <Input value={value.interval ?? ''} onChange={e => update({ interval: e.target.value || undefined })} placeholder="30s" disabled={disabled} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Timeout</Label>
+                        <Input value={value.timeout ?? ''} onChange={e => update({ timeout: e.target.value || undefined })} placeholder="5s" disabled={disabled} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Retries</Label>
+                        <Input
+                            type="number"
+                            min={1}
+                            value={value.retries ?? ''}
+                            onChange={e => update({ retries: e.target.value ? parseInt(e.target.value) : undefined })}
+                            placeholder="3"
+                            disabled={disabled}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Start Period</Label>
+                        <Input value={value.startPeriod ?? ''} onChange={e => update({ startPeriod: e.target.value || undefined })} placeholder="10s" disabled={disabled} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/drawer";
 import { Input } from "@/components/ui/input";
 import { Download, Loader2 } from 'lucide-react';
-import { getApiConfig } from '@/lib/api';
+import { getApiConfig, getAuthHeaders } from '@/lib/api';
 
 export function ImagePuller() {
     const [open, setOpen] = useState(false);
@@ -25,11 +25,11 @@ export function ImagePuller() {
         setLogs([]);
 
         abortController.current = new AbortController();
-        const { host, auth } = getApiConfig();
+        const { host } = getApiConfig();
 
         try {
             const response = await fetch(`${host}/images/pull?image=${image}`, {
-                headers: auth ? { 'Authorization': `Basic ${auth}` } : {},
+                headers: await getAuthHeaders(),
                 signal: abortController.current?.signal,
             });
 
@@ -0,0 +1,62 @@
+import { Badge } from "@/components/ui/badge";
+import { Layers } from 'lucide-react';
+import { cn, envKeys } from "@/lib/utils";
+import type { ServiceEnvGroup } from '@/types';
+
+interface InheritedEnvProps {
+    groups: ServiceEnvGroup[]; // In precedence order
+    envContent: string; // The service's own .env as currently edited
+}
+
+function parseKeys(content: string): [string, string][] {
+    return content.split('\n').flatMap(line => {
+        const match = line.trim().match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+        return match ? [[match[1], match[2].replace(/^(['"])(.*)\1$/, '$2')] as [string, string]] : [];
+    });
+}
+
+// Values the service gets from its env groups, and which of them a later group or the service's .env overrides
+export function InheritedEnv({ groups, envContent }: InheritedEnvProps) {
+    const own = new Set(envKeys(envContent));
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3">
+            <div>
+                <h3 className="text-sm font-medium flex items-center gap-2">
+                    <Layers className="h-4 w-4" /> Inherited from Env Groups
+                </h3>
+                <p className="text-xs text-muted-foreground">
+                    Later groups override earlier ones; keys set in this service's .env override all of them.
+                </p>
+            </div>
+            {groups.map((group, index) => {
+                const later = new Set(groups.slice(index + 1).flatMap(g => envKeys(g.content ?? '')));
+                const vars = parseKeys(group.content ?? '');
+                return (
+                    <div key={group.name} className="space-y-1">
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="text-muted-foreground">{index + 1}.</span>
+                            <span className="font-mono font-medium">{group.name}</span>
+                            {group.description && <span className="text-muted-foreground">{group.description}</span>}
+                            {group.content === null && <Badge variant="outline" className="text-xs text-red-500 border-red-500/20">Missing</Badge>}
+                        </div>
+                        {vars.length > 0 && (
+                            <div className="rounded-md border divide-y font-mono text-xs">
+                                {vars.map(([key, value], i) => {
+                                    const overriddenBy = own.has(key) ? 'service .env' : later.has(key) ? 'a later group' : null;
+                                    return (
+                                        <div key={`${key}-${i}`} className="flex items-center gap-2 px-3 py-1.5">
+                                            <span className={cn("font-medium shrink-0", overriddenBy && "line-through text-muted-foreground")}>{key}</span>
+                                            <span className={cn("min-w-0 break-all", overriddenBy ? "line-through text-muted-foreground" : "text-muted-foreground")}>{value}</span>
+                                            {overriddenBy && <span className="ml-auto shrink-0 font-sans text-muted-foreground">overridden by {overriddenBy}</span>}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -9,7 +9,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { getApiConfig } from '@/lib/api';
+import { getApiConfig, getAuthHeaders } from '@/lib/api';
 import { cn } from "@/lib/utils";
 import {
     Pause,
@@ -186,12 +186,12 @@ export function EmbeddedLogViewer({ serviceId, serviceName, className }: Embedde
         abortController.current = new AbortController();
 
         const fetchLogs = async () => {
-            const { host, auth } = getApiConfig();
+            const { host } = getApiConfig();
             const url = `${host}/services/${serviceId}/logs`;
 
             try {
                 const response = await fetch(url, {
-                    headers: auth ? { 'Authorization': `Basic ${auth}` } : {},
+                    headers: await getAuthHeaders(),
                     signal: abortController.current?.signal,
                 });
 
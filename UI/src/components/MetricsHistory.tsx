@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { Loader2, RefreshCw } from 'lucide-react';
+import { getServiceMetrics } from '@/lib/api';
+import { formatBytes } from '@/lib/utils';
+import type { MetricPoint, MetricSeries } from '@/types';
+import { Sparkline } from './Sparkline';
+import { toast } from 'sonner';
+
+const RANGES: Record<string, { label: string; ms: number }> = {
+    '1h': { label: 'Last hour', ms: 60 * 60 * 1000 },
+    '6h': { label: 'Last 6 hours', ms: 6 * 60 * 60 * 1000 },
+    '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+    '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    '30d': { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+};
+
+const STEP_LABELS: Record<MetricSeries['step'], string> = {
+    raw: 'raw samples',
+    '1m': '1 minute averages',
+    '1h': '1 hour averages',
+};
+
+interface ChartProps {
+    title: string;
+    points: MetricPoint[];
+    value: (p: MetricPoint) => number;
+    peak?: (p: MetricPoint) => number;
+    format: (v: number) => string;
+    max?: number;
+    className: string;
+}
+
+function MetricChart({ title, points, value, peak = value, format, max, className }: ChartProps) {
+    const values = points.map(value);
+    const avg = values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    const top = points.length ? Math.max(...points.map(peak)) : 0;
+
+    return (
+        <div className="rounded-lg border bg-card p-3 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+                <span className="font-medium">{title}</span>
+                <span className="text-muted-foreground font-mono">avg {format(avg)} • max {format(top)}</span>
+            </div>
+            <Sparkline values={values} max={max} className={className} height={64} />
+        </div>
+    );
+}
+
+export function MetricsHistory({ serviceName }: { serviceName: string }) {
+    const [range, setRange] = useState('1h');
+    const [customFrom, setCustomFrom] = useState('');
+    const [customTo, setCustomTo] = useState('');
+    const [series, setSeries] = useState<MetricSeries | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const fetchMetrics = useCallback(async () => {
+        const to = range === 'custom' && customTo ? new Date(customTo).getTime() : Date.now();
+        const from = range === 'custom'
+            ? (customFrom ? new Date(customFrom).getTime() : to - RANGES['1h'].ms)
+            : to - RANGES[range].ms;
+
+        setLoading(true);
+        try {
+            setSeries(await getServiceMetrics(serviceName, { from, to }));
+        } catch (error) {
+            toast.error("Failed to load metrics");
+            console.error(error);
+        } finally {
+            setLoading(false);
+        }
+    }, [serviceName, range, customFrom, customTo]);
+
+    useEffect(() => {
+        if (range !== 'custom') fetchMetrics();
+    }, [range, fetchMetrics]);
+
+    const points = series?.points ?? [];
+    const limit = points.length ? points[points.length - 1].memoryLimit : 0;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                <Select value={range} onValueChange={setRange}>
+                    <SelectTrigger className="w-44">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {Object.entries(RANGES).map(([key, r]) => (
+                            <SelectItem key={key} value={key}>{r.label}</SelectItem>
+                        ))}
+                        <SelectItem value="custom">Custom range</SelectItem>
+                    </SelectContent>
+                </Select>
+                {range === 'custom' && (
+                    <>
+                        <Input type="datetime-local" className="w-auto" value={customFrom} onChange={e => setCustomFrom(e.target.value)} title="From" />
+                        <Input type="datetime-local" className="w-auto" value={customTo} onChange={e => setCustomTo(e.target.value)} title="To" />
+                    </>
+                )}
+                <Button variant="outline" size="icon" onClick={fetchMetrics} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            {loading && !series ? (
+                <div className="h-32 flex items-center justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : points.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                    No samples in this range. The server records usage of running services in the background.
+                </p>
+            ) : (
+                <>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{new Date(points[0].ts).toLocaleString()}</span>
+                        <span>{points.length} points, {STEP_LABELS[series!.step]}</span>
+                        <span>{new Date(points[points.length - 1].ts).toLocaleString()}</span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <MetricChart
+                            title="CPU (% of one core)"
+                            points={points}
+                            value={p => p.cpu}
+                            peak={p => p.cpuMax}
+                            format={v => `${v.toFixed(1)}%`}
+                            className="text-emerald-500"
+                        />
+                        <MetricChart
+                            title={`Memory${limit ? ` (limit ${formatBytes(limit)})` : ''}`}
+                            points={points}
+                            value={p => p.memory}
+                            peak={p => p.memoryMax}
+                            format={formatBytes}
+                            max={limit || undefined}
+                            className="text-amber-500"
+                        />
+                        <MetricChart
+                            title="Network (rx + tx)"
+                            points={points}
+                            value={p => p.networkRx + p.networkTx}
+                            format={v => `${formatBytes(v)}/s`}
+                            className="text-sky-500"
+                        />
+                        <MetricChart
+                            title="Block I/O (read + write)"
+                            points={points}
+                            value={p => p.blockRead + p.blockWrite}
+                            format={v => `${formatBytes(v)}/s`}
+                            className="text-violet-500"
+                        />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
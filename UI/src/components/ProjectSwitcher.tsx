@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { FolderKanban } from 'lucide-react';
+import { listProjects } from '@/lib/api';
+import type { Project } from '@/types';
+
+const ALL = '__all__';
+
+interface ProjectSwitcherProps {
+    value: string; // '' for all services
+    onChange: (project: string) => void;
+}
+
+// Hidden until there is a project to switch to
+export function ProjectSwitcher({ value, onChange }: ProjectSwitcherProps) {
+    const [projects, setProjects] = useState<Project[]>([]);
+
+    useEffect(() => {
+        listProjects().then(setProjects).catch(() => setProjects([]));
+    }, []);
+
+    if (projects.length === 0) return null;
+
+    return (
+        <Select value={value || ALL} onValueChange={v => onChange(v === ALL ? '' : v)}>
+            <SelectTrigger className="h-8 w-[200px]">
+                <FolderKanban className="h-4 w-4 text-muted-foreground" />
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+                <SelectItem value={ALL}>All projects</SelectItem>
+                {projects.map(p => (
+                    <SelectItem key={p.id} value={p.name}>{p.name}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Shown once, right after they are generated
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+    const text = codes.join('\n');
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(text);
+        toast.success('Copied to clipboard');
+    };
+
+    const download = () => {
+        const url = URL.createObjectURL(new Blob([`${text}\n`], { type: 'text/plain' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'orchestr8-recovery-codes.txt';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+                Each code logs you in once if you lose your authenticator. Store them somewhere safe; they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+                {codes.map(code => <span key={code}>{code}</span>)}
+            </div>
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={copy}><Copy className="mr-2 h-4 w-4" /> Copy</Button>
+                <Button type="button" variant="outline" size="sm" onClick={download}><Download className="mr-2 h-4 w-4" /> Download</Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Cpu, MemoryStick, Network, HardDrive, Layers } from 'lucide-react';
+import { getServiceStats, streamServiceStats } from '@/lib/api';
+import { formatBytes } from '@/lib/utils';
+import type { ResourceStats } from '@/types';
+import { Sparkline } from './Sparkline';
+
+// CPU as a share of the configured limit when there is one, else of one core
+const cpuShare = (s: ResourceStats) => s.cpuLimit ? s.cpuPercent / s.cpuLimit : s.cpuPercent;
+
+// Turns green -> amber -> red as a resource approaches its limit
+const levelColor = (percent: number) =>
+    percent >= 90 ? 'text-red-500' : percent >= 70 ? 'text-amber-500' : 'text-emerald-500';
+
+/**
+ * Compact CPU / memory sparklines for dashboard cards. Polls single samples,
+ * so a grid of cards doesn't hold one open stream per service.
+ */
+export function ServiceStatsCompact({ serviceName, points = 30, interval = 5000 }: { serviceName: string; points?: number; interval?: number }) {
+    const [samples, setSamples] = useState<ResourceStats[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const poll = async () => {
+            try {
+                const sample = await getServiceStats(serviceName);
+                if (!cancelled) setSamples(prev => [...prev, sample].slice(-points));
+            } catch {
+                // Container gone or not permitted; the card shows its state anyway
+            }
+        };
+        poll();
+        const timer = setInterval(poll, interval);
+        return () => { cancelled = true; clearInterval(timer); };
+    }, [serviceName, points, interval]);
+
+    const latest = samples[samples.length - 1];
+    if (!latest) return null;
+
+    const cpu = cpuShare(latest);
+    return (
+        <div className="grid grid-cols-2 gap-3">
+            <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground">
+                    <span>CPU</span>
+                    <span className={levelColor(cpu)}>{cpu.toFixed(0)}%</span>
+                </div>
+                <Sparkline values={samples.map(cpuShare)} max={100} className={levelColor(cpu)} height={20} />
+            </div>
+            <div>
+                <div className="flex justify-between text-[10px] text-muted-foreground">
+                    <span>MEM</span>
+                    <span className={levelColor(latest.memoryPercent)}>{latest.memoryPercent.toFixed(0)}%</span>
+                </div>
+                <Sparkline values={samples.map(s => s.memoryPercent)} max={100} className={levelColor(latest.memoryPercent)} height={20} />
+            </div>
+        </div>
+    );
+}
+
+// Per-second rates between consecutive cumulative samples
+const rate = (samples: ResourceStats[], pick: (s: ResourceStats) => number) => samples.slice(1).map((s, i) => {
+    const seconds = (s.timestamp - samples[i].timestamp) / 1000;
+    return seconds > 0 ? Math.max(pick(s) - pick(samples[i]), 0) / seconds : 0;
+});
+
+/**
+ * Live resource panel for the service drawer, fed by the streaming stats endpoint.
+ */
+export function ServiceStatsPanel({ serviceName, points = 60 }: { serviceName: string; points?: number }) {
+    const [samples, setSamples] = useState<ResourceStats[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        streamServiceStats(serviceName, sample => setSamples(prev => [...prev, sample].slice(-points)), controller.signal)
+            .catch((err: Error) => { if (err.name !== 'AbortError') setError(err.message); });
+        return () => controller.abort();
+    }, [serviceName, points]);
+
+    const latest = samples[samples.length - 1];
+    if (error) return <p className="text-xs text-muted-foreground">Live stats unavailable: {error}</p>;
+    if (!latest) return <p className="text-xs text-muted-foreground">Waiting for stats…</p>;
+
+    const cpu = cpuShare(latest);
+    const rx = rate(samples, s => s.networkRx);
+    const tx = rate(samples, s => s.networkTx);
+    const reads = rate(samples, s => s.blockRead);
+    const writes = rate(samples, s => s.blockWrite);
+
+    const tiles = [
+        {
+            icon: Cpu,
+            label: 'CPU',
+            value: `${latest.cpuPercent.toFixed(1)}%${latest.cpuLimit ? ` of ${latest.cpuLimit * 100}%` : ''}`,
+            series: samples.map(cpuShare),
+            max: 100,
+            color: levelColor(cpu),
+        },
+        {
+            icon: MemoryStick,
+            label: 'Memory',
+            value: `${formatBytes(latest.memoryUsage)} / ${formatBytes(latest.memoryLimit)}`,
+            series: samples.map(s => s.memoryPercent),
+            max: 100,
+            color: levelColor(latest.memoryPercent),
+        },
+        {
+            icon: Network,
+            label: 'Network',
+            value: `↓ ${formatBytes(rx[rx.length - 1] ?? 0)}/s  ↑ ${formatBytes(tx[tx.length - 1] ?? 0)}/s`,
+            series: rx.map((r, i) => r + tx[i]),
+            color: 'text-sky-500',
+        },
+        {
+            icon: HardDrive,
+            label: 'Block I/O',
+            value: `R ${formatBytes(reads[reads.length - 1] ?? 0)}/s  W ${formatBytes(writes[writes.length - 1] ?? 0)}/s`,
+            series: reads.map((r, i) => r + writes[i]),
+            color: 'text-violet-500',
+        },
+        {
+            icon: Layers,
+            label: 'PIDs',
+            value: String(latest.pids),
+            series: samples.map(s => s.pids),
+            color: 'text-muted-foreground',
+        },
+    ];
+
+    return (
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+            {tiles.map(tile => (
+                <div key={tile.label} className="rounded-lg border bg-card p-3 space-y-1">
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <tile.icon className="h-3.5 w-3.5" /> {tile.label}
+                    </div>
+                    <p className="text-xs font-mono truncate" title={tile.value}>{tile.value}</p>
+                    <Sparkline values={tile.series} max={tile.max} className={tile.color} />
+                </div>
+            ))}
+        </div>
+    );
+}
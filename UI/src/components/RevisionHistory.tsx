@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, History, RotateCcw, RefreshCw } from 'lucide-react';
+import { getServiceRevisions, rollbackService } from '@/lib/api';
+import type { ServiceRevision } from '@/types';
+import { toast } from 'sonner';
+
+interface RevisionHistoryProps {
+    serviceName: string;
+    canRollback: boolean;
+    onRolledBack: () => void;
+}
+
+const SOURCE_LABELS: Record<ServiceRevision['source'], string> = {
+    deploy: 'Deploy',
+    env: 'Env change',
+    rollback: 'Rollback',
+    restore: 'Backup restore',
+    webhook: 'Registry push',
+    'auto-update': 'Auto-update',
+    staged: 'Staged changes',
+    env_group: 'Env group change',
+};
+
+export function RevisionHistory({ serviceName, canRollback, onRolledBack }: RevisionHistoryProps) {
+    const [revisions, setRevisions] = useState<ServiceRevision[]>([]);
+    const [currentEnvHash, setCurrentEnvHash] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [rollingBack, setRollingBack] = useState<number | null>(null);
+
+    const fetchRevisions = useCallback(async () => {
+        setLoading(true);
+        try {
+            const data = await getServiceRevisions(serviceName);
+            setRevisions(data.revisions);
+            setCurrentEnvHash(data.currentEnvHash);
+        } catch {
+            toast.error("Failed to load deployment history");
+        } finally {
+            setLoading(false);
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [fetchRevisions]);
+
+    const handleRollback = async (rev: ServiceRevision) => {
+        const envNote = rev.env_hash !== currentEnvHash
+            ? '\n\nNote: the .env file has changed since this revision and will NOT be rolled back.'
+            : '';
+        if (!confirm(`Roll ${serviceName} back to revision #${rev.revision} (${rev.image})?${envNote}`)) return;
+
+        setRollingBack(rev.revision);
+        try {
+            const res = await rollbackService(serviceName, rev.revision);
+            toast.success(res.message);
+            onRolledBack();
+        } catch (error) {
+            const message = axios.isAxiosError(error) ? error.response?.data?.error || error.message : (error as Error).message;
+            toast.error("Rollback failed: " + message);
+        } finally {
+            setRollingBack(null);
+        }
+    };
+
+    if (loading && revisions.length === 0) {
+        return (
+            <div className="h-32 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <History className="h-4 w-4" /> {revisions.length} revision{revisions.length !== 1 ? 's' : ''}
+                </h3>
+                <Button variant="ghost" size="icon" onClick={fetchRevisions} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            {revisions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                    No deployments recorded yet. Revisions are created on every successful deploy.
+                </p>
+            )}
+
+            {revisions.map((rev, idx) => {
+                const isCurrent = idx === 0;
+                return (
+                    <div key={rev.id} className="rounded-lg border bg-card p-4 flex items-center justify-between gap-4">
+                        <div className="min-w-0 space-y-1">
+                            <div className="flex items-center gap-2">
+                                <span className="font-mono font-semibold">#{rev.revision}</span>
+                                <Badge variant="outline" className="text-xs">{SOURCE_LABELS[rev.source]}</Badge>
+                                {isCurrent && (
+                                    <Badge variant="outline" className="text-xs bg-emerald-500/10 text-emerald-500 border-emerald-500/20">Current</Badge>
+                                )}
+                            </div>
+                            <p className="font-mono text-xs truncate" title={rev.image}>{rev.image}</p>
+                            {rev.digest && (
+                                <p className="font-mono text-[10px] text-muted-foreground truncate" title={rev.digest}>{rev.digest.substring(0, 19)}…</p>
+                            )}
+                            <p className="text-xs text-muted-foreground">
+                                {rev.actor} • {new Date(rev.created_at).toLocaleString()}
+                                {rev.config.hostPort && <> • port {rev.config.hostPort}:{rev.config.containerPort}</>}
+                            </p>
+                        </div>
+                        {canRollback && !isCurrent && (
+                            <Button variant="outline" size="sm" onClick={() => handleRollback(rev)} disabled={rollingBack !== null}>
+                                {rollingBack === rev.revision ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                                Rollback
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
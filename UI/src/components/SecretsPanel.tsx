@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Copy, Eye, EyeOff, KeyRound, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { deleteSecret, listSecrets, revealSecret, saveSecret } from '@/lib/api';
+import type { Secret } from '@/types';
+import { toast } from 'sonner';
+
+interface SecretsPanelProps {
+    serviceName: string;
+    canEdit: boolean;
+    canReveal: boolean;
+}
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown, fallback: string) => (e as ApiError).response?.data?.error || fallback;
+
+const reference = (name: string) => `\${secret:${name}}`;
+
+export function SecretsPanel({ serviceName, canEdit, canReveal }: SecretsPanelProps) {
+    const [secrets, setSecrets] = useState<Secret[]>([]);
+    const [missing, setMissing] = useState<string[]>([]);
+    const [revealed, setRevealed] = useState<Record<string, string>>({});
+    const [form, setForm] = useState<{ name: string; value: string } | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const hide = (name: string) => setRevealed(prev => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+    });
+
+    const fetchSecrets = useCallback(async () => {
+        try {
+            const data = await listSecrets(serviceName);
+            setSecrets(data.secrets);
+            setMissing(data.missing);
+        } catch (e) {
+            toast.error(errorMessage(e, "Failed to load secrets"));
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchSecrets();
+    }, [fetchSecrets]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+        setSaving(true);
+        try {
+            await saveSecret(serviceName, form.name, form.value);
+            toast.success(`Secret ${form.name} saved. Applies on the next restart`);
+            hide(form.name);
+            setForm(null);
+            fetchSecrets();
+        } catch (err) {
+            toast.error(errorMessage(err, "Failed to save secret"));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (name: string) => {
+        if (!confirm(`Delete secret "${name}"?`)) return;
+        try {
+            await deleteSecret(serviceName, name);
+            fetchSecrets();
+        } catch (e) {
+            toast.error(errorMessage(e, "Failed to delete secret"));
+        }
+    };
+
+    const toggleReveal = async (name: string) => {
+        if (name in revealed) {
+            hide(name);
+            return;
+        }
+        try {
+            const value = await revealSecret(serviceName, name);
+            setRevealed(prev => ({ ...prev, [name]: value }));
+        } catch (e) {
+            toast.error(errorMessage(e, "Failed to reveal secret"));
+        }
+    };
+
+    const copyReference = async (name: string) => {
+        await navigator.clipboard.writeText(reference(name));
+        toast.success("Reference copied");
+    };
+
+    return (
+        <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <h3 className="text-sm font-medium">Secrets</h3>
+                    <p className="text-xs text-muted-foreground">
+                        Encrypted on the server. Use them in the env file as <code className="font-mono">{reference('name')}</code>.
+                    </p>
+                </div>
+                {canEdit && !form && (
+                    <Button variant="outline" size="sm" onClick={() => setForm({ name: '', value: '' })}>
+                        <Plus className="mr-2 h-4 w-4" /> Add
+                    </Button>
+                )}
+            </div>
+
+            {missing.length > 0 && (
+                <div className="text-xs rounded border border-amber-500/20 bg-amber-500/10 text-amber-600 p-2 flex flex-wrap items-center gap-2">
+                    Referenced but not set:
+                    {missing.map(name => (
+                        <button
+                            key={name}
+                            type="button"
+                            className="font-mono underline disabled:no-underline"
+                            disabled={!canEdit}
+                            onClick={() => setForm({ name, value: '' })}
+                        >
+                            {name}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {form && (
+                <form onSubmit={handleSave} className="flex gap-2">
+                    <Input
+                        className="font-mono text-xs w-1/3"
+                        value={form.name}
+                        onChange={e => setForm({ ...form, name: e.target.value })}
+                        placeholder="db-password"
+                        required
+                    />
+                    <Input
+                        type="password"
+                        autoComplete="new-password"
+                        className="font-mono text-xs"
+                        value={form.value}
+                        onChange={e => setForm({ ...form, value: e.target.value })}
+                        placeholder="Value"
+                        required
+                    />
+                    <Button type="submit" size="sm" disabled={saving}>
+                        {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Save
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setForm(null)}>Cancel</Button>
+                </form>
+            )}
+
+            {secrets.length === 0 && !form && (
+                <p className="text-xs text-muted-foreground">No secrets stored for this service.</p>
+            )}
+
+            <div className="divide-y">
+                {secrets.map(secret => (
+                    <div key={secret.id} className="flex items-center gap-2 py-2 text-xs">
+                        <KeyRound className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                                <span className="font-mono font-medium">{secret.name}</span>
+                                {!secret.referenced && <Badge variant="outline" className="text-xs">unused</Badge>}
+                            </div>
+                            <p className="font-mono text-muted-foreground truncate">
+                                {secret.name in revealed ? revealed[secret.name] : '••••••••'}
+                            </p>
+                            <p className="text-muted-foreground">
+                                Updated by {secret.updated_by}, {new Date(secret.updated_at).toLocaleString()}
+                            </p>
+                        </div>
+                        <Button variant="ghost" size="icon" title="Copy reference" onClick={() => copyReference(secret.name)}>
+                            <Copy className="h-4 w-4" />
+                        </Button>
+                        {canReveal && (
+                            <Button variant="ghost" size="icon" title={secret.name in revealed ? 'Hide' : 'Reveal'} onClick={() => toggleReveal(secret.name)}>
+                                {secret.name in revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                            </Button>
+                        )}
+                        {canEdit && (
+                            <>
+                                <Button variant="ghost" size="icon" title="Set new value" onClick={() => setForm({ name: secret.name, value: '' })}>
+                                    <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(secret.name)} disabled={secret.referenced}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
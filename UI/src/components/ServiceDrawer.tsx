@@ -11,14 +11,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
 import { Loader2, Download, RefreshCw, Save, Trash2, Power, RotateCcw, Lock } from 'lucide-react';
-import { EnvEditor } from './EnvEditor';
+import { EnvDiff, EnvEditor } from './EnvEditor';
+import { EnvVersions } from './EnvVersions';
 import { EmbeddedLogViewer } from './LogViewer';
-import { apiClient, getApiConfig, getServiceEnv, saveServiceEnv } from '@/lib/api';
-import type { ServicePayload, Service } from '@/types';
+import { RevisionHistory } from './RevisionHistory';
+import { BackupPanel } from './BackupPanel';
+import { ServiceStatsPanel } from './ResourceStats';
+import { ServiceEvents } from './ServiceEvents';
+import { UpdatePolicyPanel } from './UpdatePolicyPanel';
+import { SecretsPanel } from './SecretsPanel';
+import { EnvSchemaPanel } from './EnvSchemaPanel';
+import { InheritedEnv } from './InheritedEnv';
+import { envKeys } from '@/lib/utils';
+import { MetricsHistory } from './MetricsHistory';
+import { HealthCheckFields } from './HealthCheckFields';
+import { VolumeFields } from './VolumeFields';
+import { apiClient, getApiConfig, getAuthHeaders, getEnvSchema, getServiceEnv, getServiceEnvGroups, getStagedChanges, listEnvGroups, listRegistryCredentials, previewEnvSave, saveServiceEnv, stageConfig, stageEnv } from '@/lib/api';
+import type { ServicePayload, Service, DockerServiceConfig, EnvChange, EnvGroup, EnvSchemaEntry, HealthCheckConfig, ServiceEnvGroup, RegistryCredential, UpdateStrategy, VolumeMount } from '@/types';
 import { toast } from 'sonner';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/lib/auth-context';
 
+// Radix Select items can't have an empty value
+const AUTO_CREDENTIAL = '__auto';
+
 interface ServiceDrawerProps {
     service: Service;
     isOpen: boolean;
@@ -38,6 +59,7 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
         edit_config: isAdmin,
         view_env: isAdmin,
         edit_env: isAdmin,
+        reveal_secret: isAdmin,
         view_logs: isAdmin
     };
 
@@ -54,20 +76,43 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
     const canEditConfig = isAdmin || perms.edit_config;
     const canViewEnv = isAdmin || perms.view_env || perms.edit_env;
     const canEditEnv = isAdmin || perms.edit_env;
+    const canRevealSecrets = isAdmin || perms.reveal_secret;
     const canViewLogs = isAdmin || perms.view_logs;
 
     const [activeTab, setActiveTab] = useState("manage");
-    const [formData, setFormData] = useState({
+    const [formData, setFormData] = useState<{
+        hostPort: string;
+        containerPort: string;
+        domain: string;
+        memoryLimit: string;
+        cpuLimit: string;
+        healthcheck?: HealthCheckConfig;
+        updateStrategy: UpdateStrategy;
+        autoDeploy: boolean;
+        registryCredential: string;
+        envGroups: string[];
+        volumes?: VolumeMount[];
+    }>({
         hostPort: '',
         containerPort: '',
         domain: '',
         memoryLimit: '512M',
-        cpuLimit: '0.5'
+        cpuLimit: '0.5',
+        updateStrategy: 'recreate',
+        autoDeploy: false,
+        registryCredential: '',
+        envGroups: []
     });
+    const [credentials, setCredentials] = useState<RegistryCredential[]>([]);
+    const [envGroupOptions, setEnvGroupOptions] = useState<EnvGroup[]>([]);
 
     const [envContent, setEnvContent] = useState('');
     const [envLoading, setEnvLoading] = useState(false);
     const [envSaving, setEnvSaving] = useState(false);
+    const [envStaged, setEnvStaged] = useState(false); // Editor holds staged (not applied) content
+    const [envPreview, setEnvPreview] = useState<{ changes: EnvChange[]; missingSecrets: string[]; errors: Record<string, string> } | null>(null);
+    const [envSchema, setEnvSchema] = useState<EnvSchemaEntry[]>([]);
+    const [inheritedEnv, setInheritedEnv] = useState<ServiceEnvGroup[]>([]);
 
     const [pulling, setPulling] = useState(false);
     const [pullLogs, setPullLogs] = useState<string[]>([]);
@@ -77,13 +122,19 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
     const [stopping, setStopping] = useState(false);
     const [restarting, setRestarting] = useState(false);
     const [deleting, setDeleting] = useState(false);
+    const [purgeData, setPurgeData] = useState(false);
 
 
     useEffect(() => {
         if (isOpen) {
             setPullLogs([]);
+            setPurgeData(false);
             setPulling(false);
             setEnvContent('');
+            setEnvPreview(null);
+            setEnvStaged(false);
+            setEnvSchema([]);
+            setInheritedEnv([]);
             // Default to first available tab
             if (canManage) setActiveTab("manage");
             else if (canViewConfig) setActiveTab("config");
@@ -97,20 +148,37 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                     containerPort: service.config.containerPort || '',
                     domain: service.config.domain || '',
                     memoryLimit: service.config.memoryLimit || '512M',
-                    cpuLimit: service.config.cpuLimit || '0.5'
+                    cpuLimit: service.config.cpuLimit || '0.5',
+                    healthcheck: service.config.healthcheck,
+                    updateStrategy: service.config.updateStrategy || 'recreate',
+                    autoDeploy: !!service.config.autoDeploy,
+                    registryCredential: service.config.registryCredential || '',
+                    envGroups: service.config.envGroups ?? [],
+                    volumes: service.config.volumes
                 });
             }
         }
     }, [isOpen, service, canManage, canViewConfig, canViewEnv, canViewLogs]);
 
+    useEffect(() => {
+        if (!isOpen || !canViewConfig) return;
+        listRegistryCredentials().then(setCredentials).catch(() => setCredentials([]));
+        listEnvGroups().then(setEnvGroupOptions).catch(() => setEnvGroupOptions([]));
+    }, [isOpen, canViewConfig]);
+
 
     useEffect(() => {
         if (isOpen && activeTab === 'env' && canViewEnv) {
             const fetchEnv = async () => {
                 setEnvLoading(true);
                 try {
-                    const data = await getServiceEnv(serviceName);
-                    setEnvContent(data);
+                    const [data, staged, schema, groups] = await Promise.all([
+                        getServiceEnv(serviceName), getStagedChanges(serviceName), getEnvSchema(serviceName), getServiceEnvGroups(serviceName)
+                    ]);
+                    setEnvContent(staged?.env ?? data);
+                    setEnvStaged(staged?.env != null);
+                    setEnvSchema(schema);
+                    setInheritedEnv(groups);
                 } catch (error) {
                     toast.error("Failed to load environment variables");
                 } finally {
@@ -135,10 +203,11 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
 
     // Helper to pull image and stream logs
     const runPull = async (imageToPull: string, logSetter: (logs: string[] | ((prev: string[]) => string[])) => void) => {
-        const { host, auth } = getApiConfig();
+        const { host } = getApiConfig();
         try {
-            const response = await fetch(`${host}/images/pull?image=${imageToPull}`, {
-                headers: auth ? { 'Authorization': `Basic ${auth}` } : {},
+            const credential = formData.registryCredential ? `&credential=${encodeURIComponent(formData.registryCredential)}` : '';
+            const response = await fetch(`${host}/images/pull?image=${imageToPull}${credential}`, {
+                headers: await getAuthHeaders(),
             });
 
             if (!response.body) throw new Error('No body');
@@ -178,6 +247,28 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
         }
     };
 
+    // Saved config (keeps fields this drawer doesn't edit) overlaid with the form
+    const buildConfig = (): DockerServiceConfig => ({
+        ...service.config,
+        hostPort: formData.hostPort || '8080',
+        containerPort: formData.containerPort || '80',
+        domain: formData.domain || undefined,
+        memoryLimit: formData.memoryLimit,
+        cpuLimit: formData.cpuLimit,
+        healthcheck: formData.healthcheck,
+        updateStrategy: formData.updateStrategy,
+        autoDeploy: formData.autoDeploy,
+        registryCredential: formData.registryCredential || undefined,
+        envGroups: formData.envGroups.length ? formData.envGroups : undefined,
+        volumes: formData.volumes?.filter(v => v.source && v.target)
+    });
+
+    // Health-gated deploys return the container's recent logs on failure
+    const deployError = (error: { message?: string; response?: { data?: { error?: string; logs?: string } } }, fallback: string) => ({
+        message: error.response?.data?.error || error.message || fallback,
+        logs: error.response?.data?.logs
+    });
+
     const handleSmartUpdate = async (newTag: string) => {
         const [repo] = image.split(':');
         const targetImage = `${repo}:${newTag}`;
@@ -189,20 +280,16 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
             // 1. Pull new image
             setUpdateLogs(prev => [...prev, `Pulling ${targetImage}...`]);
             await runPull(targetImage, setUpdateLogs);
-            setUpdateLogs(prev => [...prev, 'Pull complete. Recreating service...', '']);
+            setUpdateLogs(prev => [...prev, formData.updateStrategy === 'blue-green'
+                ? 'Pull complete. Starting new version next to the old one, traffic switches once it is healthy...'
+                : 'Pull complete. Recreating service and waiting for it to become healthy...', '']);
 
             // 2. Update service
             const payload: ServicePayload = {
                 service: serviceName,
                 image: targetImage,
                 recreate: true,
-                config: {
-                    hostPort: formData.hostPort || '8080',
-                    containerPort: formData.containerPort || '80',
-                    domain: formData.domain || undefined,
-                    memoryLimit: formData.memoryLimit,
-                    cpuLimit: formData.cpuLimit
-                }
+                config: buildConfig()
             };
 
             await apiClient.post('/services/start', payload);
@@ -215,7 +302,8 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
             }, 1000);
 
         } catch (error: any) {
-            setUpdateLogs(prev => [...prev, `Update failed: ${error.message}`]);
+            const { message, logs } = deployError(error, 'Update failed');
+            setUpdateLogs(prev => [...prev, `Update failed: ${message}`, ...(logs ? ['--- recent container logs ---', ...logs.split('\n')] : [])]);
             toast.error("Update failed");
         } finally {
             setTimeout(() => {
@@ -234,19 +322,14 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                 service: serviceName,
                 image: image, // Keep existing image string
                 recreate: true,
-                config: {
-                    hostPort: formData.hostPort || '8080',
-                    containerPort: formData.containerPort || '80',
-                    domain: formData.domain || undefined,
-                    memoryLimit: formData.memoryLimit,
-                    cpuLimit: formData.cpuLimit
-                }
+                config: buildConfig()
             };
             await apiClient.post('/services/start', payload);
             toast.success(`Service ${serviceName} recreated`);
             onClose();
         } catch (error: any) {
-            toast.error(error.response?.data?.error || 'Recreate failed');
+            const { message, logs } = deployError(error, 'Recreate failed');
+            toast.error(message, { description: logs?.split('\n').slice(-10).join('\n') });
         } finally {
             setSubmitting(false);
         }
@@ -262,6 +345,50 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
     };
 
 
+    // Save without deploying; applied later from Pending Changes
+    const handleStageConfig = async () => {
+        if (!canEditConfig) return;
+        setSubmitting(true);
+        try {
+            await stageConfig(serviceName, buildConfig());
+            toast.success("Configuration staged. Apply it from Pending Changes");
+        } catch (error) {
+            toast.error("Failed to stage configuration: " + deployError(error as { message?: string }, 'Request failed').message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleStageEnv = async () => {
+        if (!canEditEnv) return;
+        setEnvSaving(true);
+        try {
+            await stageEnv(serviceName, envContent);
+            toast.success("Env staged. Apply it from Pending Changes");
+            setEnvPreview(null);
+            setEnvStaged(true);
+        } catch (error) {
+            toast.error("Failed to stage env: " + deployError(error as { message?: string }, 'Request failed').message);
+        } finally {
+            setEnvSaving(false);
+        }
+    };
+
+    // Show what the save will change before restarting anything
+    const envPreviewValid = !!envPreview && envPreview.missingSecrets.length === 0 && Object.keys(envPreview.errors).length === 0;
+
+    const handleReviewEnv = async () => {
+        if (!canEditEnv) return;
+        setEnvSaving(true);
+        try {
+            setEnvPreview(await previewEnvSave(serviceName, envContent));
+        } catch (error) {
+            toast.error("Failed to preview changes: " + deployError(error as { message?: string }, 'Request failed').message);
+        } finally {
+            setEnvSaving(false);
+        }
+    };
+
     const handleSaveEnv = async () => {
         if (!canEditEnv) return;
         setEnvSaving(true);
@@ -270,7 +397,8 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
             toast.success("Env saved and service restarting...");
             onClose();
         } catch (error: any) {
-            toast.error("Failed to save env: " + error.message);
+            const { message, logs } = deployError(error, 'Failed to save env');
+            toast.error("Failed to save env: " + message, { description: logs?.split('\n').slice(-10).join('\n') });
         } finally {
             setEnvSaving(false);
         }
@@ -299,11 +427,14 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
     };
 
     const handleDelete = async () => {
-        if (!confirm(`Are you sure you want to delete ${serviceName}? This cannot be undone.`)) return;
+        const dataNote = purgeData
+            ? '\n\nAll named volumes of this service will be permanently deleted.'
+            : '\n\nNamed volumes are kept and reattached if the service is recreated with the same name.';
+        if (!confirm(`Are you sure you want to delete ${serviceName}? This cannot be undone.${dataNote}`)) return;
         setDeleting(true);
         try {
-            await apiClient.delete(`/services/${serviceName}`);
-            toast.success(`Service ${serviceName} deleted`);
+            const { data } = await apiClient.delete(`/services/${serviceName}`, { params: purgeData ? { purge: true } : undefined });
+            toast.success(data.message);
             onClose();
         } catch (error: any) {
             toast.error("Delete failed: " + error.response?.data?.error);
@@ -326,12 +457,21 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                     </DrawerHeader>
 
                     <div className="px-4 flex-1 overflow-y-auto">
+                        {isOpen && service.state === 'running' && (
+                            <div className="mb-4">
+                                <ServiceStatsPanel key={serviceName} serviceName={serviceName} />
+                            </div>
+                        )}
                         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                            <TabsList className="grid w-full grid-cols-4">
+                            <TabsList className="grid w-full grid-cols-8">
                                 <TabsTrigger value="manage" disabled={!canManage}>Manage</TabsTrigger>
                                 <TabsTrigger value="config" disabled={!canViewConfig}>Configuration</TabsTrigger>
                                 <TabsTrigger value="env" disabled={!canViewEnv}>Environment</TabsTrigger>
                                 <TabsTrigger value="logs" disabled={!canViewLogs}>Logs</TabsTrigger>
+                                <TabsTrigger value="history" disabled={!canViewConfig}>History</TabsTrigger>
+                                <TabsTrigger value="backups" disabled={!canViewConfig}>Backups</TabsTrigger>
+                                <TabsTrigger value="metrics">Metrics</TabsTrigger>
+                                <TabsTrigger value="events">Events</TabsTrigger>
                             </TabsList>
 
                             <TabsContent value="manage" className="space-y-6 py-4">
@@ -406,6 +546,12 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                                                     Delete
                                                 </Button>
                                             </div>
+                                            {service.config?.volumes?.some(v => v.type === 'volume') && (
+                                                <label className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+                                                    <Checkbox checked={purgeData} onCheckedChange={v => setPurgeData(v === true)} />
+                                                    Also delete data volumes when deleting this service
+                                                </label>
+                                            )}
                                         </div>
 
                                         <div className="rounded-lg border bg-card text-card-foreground shadow-sm p-6">
@@ -452,11 +598,103 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                                         <Label>CPU</Label>
                                         <Input value={formData.cpuLimit} onChange={e => setFormData({ ...formData, cpuLimit: e.target.value })} placeholder="0.5" disabled={!canEditConfig} />
                                     </div>
+                                    <div className="space-y-2">
+                                        <Label>Update Strategy</Label>
+                                        <Select
+                                            value={formData.updateStrategy}
+                                            onValueChange={v => setFormData({ ...formData, updateStrategy: v as UpdateStrategy })}
+                                            disabled={!canEditConfig}
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="recreate">Recreate</SelectItem>
+                                                <SelectItem value="blue-green" disabled={!formData.domain}>Blue/green (needs domain)</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2 col-span-2">
+                                        <Label>Registry Login</Label>
+                                        <Select
+                                            value={formData.registryCredential || AUTO_CREDENTIAL}
+                                            onValueChange={v => setFormData({ ...formData, registryCredential: v === AUTO_CREDENTIAL ? '' : v })}
+                                            disabled={!canEditConfig}
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={AUTO_CREDENTIAL}>Automatic (by image host)</SelectItem>
+                                                {credentials.map(cred => (
+                                                    <SelectItem key={cred.id} value={cred.name}>{cred.name} ({cred.host})</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    {envGroupOptions.length > 0 && (
+                                        <div className="space-y-2 col-span-2">
+                                            <Label>Env Groups</Label>
+                                            <div className="flex flex-wrap gap-2">
+                                                {envGroupOptions.map(group => {
+                                                    const index = formData.envGroups.indexOf(group.name);
+                                                    return (
+                                                        <Button
+                                                            key={group.id}
+                                                            type="button"
+                                                            size="sm"
+                                                            variant={index >= 0 ? "secondary" : "outline"}
+                                                            title={group.description ?? undefined}
+                                                            onClick={() => setFormData({
+                                                                ...formData,
+                                                                envGroups: index >= 0 ? formData.envGroups.filter(g => g !== group.name) : [...formData.envGroups, group.name],
+                                                            })}
+                                                            disabled={!canEditConfig}
+                                                        >
+                                                            {index >= 0 && <span className="text-muted-foreground mr-1">{index + 1}.</span>}
+                                                            {group.name}
+                                                        </Button>
+                                                    );
+                                                })}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Applied in the order picked: later groups override earlier ones, and the service's own .env overrides all of them.
+                                            </p>
+                                        </div>
+                                    )}
                                 </div>
+                                <label className="flex items-center gap-2 text-sm">
+                                    <Checkbox
+                                        checked={formData.autoDeploy}
+                                        onCheckedChange={v => setFormData({ ...formData, autoDeploy: v === true })}
+                                        disabled={!canEditConfig}
+                                    />
+                                    Auto-deploy when the registry webhook reports a new push of this image's tag
+                                </label>
+                                <HealthCheckFields
+                                    value={formData.healthcheck}
+                                    onChange={healthcheck => setFormData({ ...formData, healthcheck })}
+                                    disabled={!canEditConfig}
+                                />
+                                <VolumeFields
+                                    value={formData.volumes}
+                                    onChange={volumes => setFormData({ ...formData, volumes })}
+                                    disabled={!canEditConfig}
+                                />
                                 {canEditConfig && (
-                                    <Button className="mt-4" onClick={handleConfigUpdate} disabled={submitting}>
-                                        Save & Recreate
-                                    </Button>
+                                    <div className="flex gap-2 mt-4">
+                                        <Button onClick={handleConfigUpdate} disabled={submitting}>
+                                            Save & Recreate
+                                        </Button>
+                                        {service.config?.image && (
+                                            <Button variant="outline" onClick={handleStageConfig} disabled={submitting} title="Save without restarting; apply later from Pending Changes">
+                                                Stage Changes
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+                                {service.config?.image && (
+                                    <UpdatePolicyPanel key={serviceName} serviceName={serviceName} canEdit={canEditConfig} canManage={canManage} />
                                 )}
                             </TabsContent>
 
@@ -467,18 +705,99 @@ export function ServiceDrawer({ service, isOpen, onClose }: ServiceDrawerProps)
                                         <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
                                     </div>
                                 ) : (
-                                    <EnvEditor
-                                        value={envContent}
-                                        onChange={setEnvContent}
-                                        disabled={envSaving || !canEditEnv}
-                                    />
+                                    <>
+                                        {envStaged && (
+                                            <p className="text-xs rounded border border-blue-500/20 bg-blue-500/10 text-blue-500 p-2">
+                                                Showing staged changes that are not applied yet. Apply or discard them under <Link to="/pending" className="underline">Pending Changes</Link>.
+                                            </p>
+                                        )}
+                                        <EnvEditor
+                                            value={envContent}
+                                            onChange={setEnvContent}
+                                            disabled={envSaving || !canEditEnv || envPreview !== null}
+                                            schema={envSchema}
+                                            inheritedKeys={inheritedEnv.flatMap(g => envKeys(g.content ?? ''))}
+                                        />
+                                    </>
+                                )}
+                                {canEditEnv && envPreview && (
+                                    <div className="rounded-lg border p-4 space-y-3">
+                                        <h3 className="text-sm font-medium">Review changes</h3>
+                                        <EnvDiff changes={envPreview.changes} emptyText="No variables changed. Saving will still restart the service." />
+                                        {envPreview.missingSecrets.length > 0 && (
+                                            <p className="text-xs text-red-500">
+                                                Unknown secret(s): {envPreview.missingSecrets.join(', ')}. Add them under Secrets first.
+                                            </p>
+                                        )}
+                                        {Object.keys(envPreview.errors).length > 0 && (
+                                            <div className="text-xs text-red-500 space-y-0.5">
+                                                <p>Doesn't match the env schema:</p>
+                                                {Object.entries(envPreview.errors).map(([key, error]) => (
+                                                    <p key={key}><span className="font-mono">{key}</span>: {error}</p>
+                                                ))}
+                                            </div>
+                                        )}
+                                        <div className="flex gap-2">
+                                            <Button variant="outline" onClick={() => setEnvPreview(null)} disabled={envSaving} className="flex-1">
+                                                Back to Editing
+                                            </Button>
+                                            <Button variant="outline" onClick={handleStageEnv} disabled={envSaving || !envPreviewValid} className="flex-1">
+                                                Stage Only
+                                            </Button>
+                                            <Button onClick={handleSaveEnv} disabled={envSaving || !envPreviewValid} className="flex-1">
+                                                {envSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                                Confirm Save & Restart
+                                            </Button>
+                                        </div>
+                                    </div>
                                 )}
-                                {canEditEnv && (
-                                    <Button onClick={handleSaveEnv} disabled={envSaving || envLoading} className="w-full">
+                                {canEditEnv && !envPreview && (
+                                    <Button onClick={handleReviewEnv} disabled={envSaving || envLoading} className="w-full">
                                         {envSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                                        Save & Restart
+                                        Review & Save
                                     </Button>
                                 )}
+                                {activeTab === 'env' && (
+                                    <>
+                                        {inheritedEnv.length > 0 && <InheritedEnv groups={inheritedEnv} envContent={envContent} />}
+                                        <EnvSchemaPanel key={`${serviceName}-schema`} serviceName={serviceName} schema={envSchema} canEdit={canEditConfig} onSaved={setEnvSchema} />
+                                        <SecretsPanel key={serviceName} serviceName={serviceName} canEdit={canEditEnv} canReveal={canRevealSecrets} />
+                                        <EnvVersions key={`${serviceName}-versions`} serviceName={serviceName} canRevert={canEditEnv} onReverted={onClose} />
+                                    </>
+                                )}
+                            </TabsContent>
+
+                            {/* HISTORY TAB */}
+                            <TabsContent value="history" className="py-4">
+                                {activeTab === 'history' && (
+                                    <RevisionHistory
+                                        serviceName={serviceName}
+                                        canRollback={canManage}
+                                        onRolledBack={onClose}
+                                    />
+                                )}
+                            </TabsContent>
+
+                            {/* BACKUPS TAB */}
+                            <TabsContent value="backups" className="py-4">
+                                {activeTab === 'backups' && (
+                                    <BackupPanel
+                                        serviceName={serviceName}
+                                        canManage={canManage}
+                                        canEditPolicy={canEditConfig}
+                                        onRestored={onClose}
+                                    />
+                                )}
+                            </TabsContent>
+
+                            {/* METRICS TAB */}
+                            <TabsContent value="metrics" className="py-4">
+                                {activeTab === 'metrics' && <MetricsHistory serviceName={serviceName} />}
+                            </TabsContent>
+
+                            {/* EVENTS TAB */}
+                            <TabsContent value="events" className="py-4">
+                                {activeTab === 'events' && <ServiceEvents serviceName={serviceName} />}
                             </TabsContent>
 
                             {/* LOGS TAB */}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, Radio } from 'lucide-react';
+import { getServiceEvents, subscribeContainerEvents } from '@/lib/api';
+import type { ContainerEvent } from '@/types';
+import { toast } from 'sonner';
+
+const EVENT_STYLES: Record<string, string> = {
+    start: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+    die: 'bg-red-500/10 text-red-500 border-red-500/20',
+    oom: 'bg-red-500/10 text-red-500 border-red-500/20',
+    kill: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+    stop: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+};
+
+const label = (e: ContainerEvent) => e.status ? `${e.action}: ${e.status}` : e.action;
+
+const style = (e: ContainerEvent) => e.status === 'unhealthy'
+    ? EVENT_STYLES.die
+    : e.status === 'healthy' ? EVENT_STYLES.start : EVENT_STYLES[e.action] ?? '';
+
+/**
+ * Recent Docker events for one service, kept up to date from the shared event stream.
+ */
+export function ServiceEvents({ serviceName, limit = 50 }: { serviceName: string; limit?: number }) {
+    const [events, setEvents] = useState<ContainerEvent[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    const fetchEvents = useCallback(async () => {
+        setLoading(true);
+        try {
+            setEvents(await getServiceEvents(serviceName));
+        } catch {
+            toast.error("Failed to load events");
+        } finally {
+            setLoading(false);
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchEvents();
+        return subscribeContainerEvents(event => {
+            if (event.service === serviceName) setEvents(prev => [event, ...prev].slice(0, limit));
+        });
+    }, [serviceName, limit, fetchEvents]);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <Radio className="h-4 w-4 text-emerald-500" /> Live container events
+                </h3>
+                <Button variant="ghost" size="icon" onClick={fetchEvents} disabled={loading}>
+                    <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            {events.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                    No events since the server started watching Docker.
+                </p>
+            )}
+
+            <div className="space-y-1">
+                {events.map((event, i) => (
+                    <div key={`${event.time}-${event.action}-${i}`} className="flex items-center gap-3 rounded-md border bg-card px-3 py-2 text-xs">
+                        <span className="text-muted-foreground font-mono whitespace-nowrap">{new Date(event.time).toLocaleString()}</span>
+                        <Badge variant="outline" className={`text-xs ${style(event)}`}>{label(event)}</Badge>
+                        {event.exitCode !== undefined && <span className="text-muted-foreground">exit {event.exitCode}</span>}
+                        <span className="font-mono text-muted-foreground truncate ml-auto" title={event.containerId}>{event.containerId?.slice(0, 12)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
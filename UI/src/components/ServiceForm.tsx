@@ -14,7 +14,8 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Plus, Loader2 } from "lucide-react";
 import { apiClient } from '@/lib/api';
-import type { ServicePayload } from '@/types';
+import { VolumeFields } from './VolumeFields';
+import type { ServicePayload, VolumeMount } from '@/types';
 import { toast } from 'sonner';
 
 export function ServiceForm() {
@@ -29,9 +30,11 @@ export function ServiceForm() {
         containerPort: '',
         domain: '',
         memoryLimit: '512M',
-        cpuLimit: '0.5'
+        cpuLimit: '0.5',
+        healthPath: ''
     });
     const [recreate, setRecreate] = useState(false);
+    const [volumes, setVolumes] = useState<VolumeMount[] | undefined>();
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -46,7 +49,9 @@ export function ServiceForm() {
                 containerPort: formData.containerPort,
                 domain: formData.domain || undefined,
                 memoryLimit: formData.memoryLimit,
-                cpuLimit: formData.cpuLimit
+                cpuLimit: formData.cpuLimit,
+                healthcheck: formData.healthPath ? { type: 'http', path: formData.healthPath } : undefined,
+                volumes: volumes?.filter(v => v.source && v.target)
             }
         };
 
@@ -56,7 +61,8 @@ export function ServiceForm() {
             setOpen(false);
             // Optional: trigger refresh
         } catch (error: any) {
-            toast.error(error.response?.data?.error || 'Failed to start service');
+            const logs: string | undefined = error.response?.data?.logs;
+            toast.error(error.response?.data?.error || 'Failed to start service', { description: logs?.split('\n').slice(-10).join('\n') });
         } finally {
             setLoading(false);
         }
@@ -104,10 +110,15 @@ export function ServiceForm() {
                                     <Label htmlFor="mem" className="text-right">Memory</Label>
                                     <Input id="mem" value={formData.memoryLimit} onChange={e => setFormData({ ...formData, memoryLimit: e.target.value })} className="col-span-3" placeholder="512M" />
                                 </div>
+                                <div className="grid grid-cols-4 items-center gap-4">
+                                    <Label htmlFor="healthPath" className="text-right">Health Path</Label>
+                                    <Input id="healthPath" value={formData.healthPath} onChange={e => setFormData({ ...formData, healthPath: e.target.value })} className="col-span-3" placeholder="/health (optional)" />
+                                </div>
                                 <div className="grid grid-cols-4 items-center gap-4">
                                     <Label htmlFor="recreate" className="text-right">Recreate</Label>
                                     <Switch id="recreate" checked={recreate} onCheckedChange={setRecreate} />
                                 </div>
+                                <VolumeFields value={volumes} onChange={setVolumes} />
                             </div>
                         </div>
                         <DrawerFooter>
@@ -1,15 +1,32 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { RefreshCw, Box, Clock, Server, ArrowUpRight, Activity } from 'lucide-react';
-import { apiClient } from '@/lib/api';
-import type { Service } from '@/types';
+import { apiClient, getSelectedProject, setSelectedProject, subscribeContainerEvents } from '@/lib/api';
+import type { ContainerEvent, Service } from '@/types';
 import { ServiceDrawer } from './ServiceDrawer';
+import { ServiceStatsCompact } from './ResourceStats';
+import { ProjectSwitcher } from './ProjectSwitcher';
+
+// Best-effort card state from a single event until the next /services fetch
+const applyEvent = (service: Service, event: ContainerEvent): Service => {
+    switch (event.action) {
+        case 'start':
+            return { ...service, state: 'running', status: 'Up less than a second' };
+        case 'die':
+            return { ...service, state: 'exited', status: `Exited (${event.exitCode ?? '?'}) just now` };
+        case 'health_status':
+            return { ...service, status: `${service.status.replace(/ \((healthy|unhealthy|health: starting)\)$/, '')} (${event.status})` };
+        default:
+            return service;
+    }
+};
 
 export function ServiceList() {
     const [services, setServices] = useState<Service[]>([]);
     const [loading, setLoading] = useState(false);
+    const [project, setProject] = useState(getSelectedProject);
 
     const [selectedService, setSelectedService] = useState<Service | null>(null);
     const [drawerOpen, setDrawerOpen] = useState(false);
@@ -17,7 +34,9 @@ export function ServiceList() {
     const fetchServices = async () => {
         setLoading(true);
         try {
-            const res = await apiClient.get<Service[]>('/services');
+            // Read from storage so the interval and event refetches follow the switcher too
+            const project = getSelectedProject();
+            const res = await apiClient.get<Service[]>('/services', { params: project ? { project } : undefined });
             if (Array.isArray(res.data)) {
                 setServices(res.data);
             } else {
@@ -34,6 +53,25 @@ export function ServiceList() {
         fetchServices();
         const interval = setInterval(fetchServices, 60 * 1000);
         return () => clearInterval(interval);
+    }, [project]);
+
+    const handleProjectChange = (next: string) => {
+        setSelectedProject(next);
+        setProject(next);
+    };
+
+    // Live updates: patch the affected card right away, then refetch once a burst of events settles
+    const refetchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    useEffect(() => {
+        const unsubscribe = subscribeContainerEvents((event) => {
+            setServices(prev => prev.map(s => s.name === event.service ? applyEvent(s, event) : s));
+            if (refetchTimer.current) clearTimeout(refetchTimer.current);
+            refetchTimer.current = setTimeout(fetchServices, 2000);
+        });
+        return () => {
+            unsubscribe();
+            if (refetchTimer.current) clearTimeout(refetchTimer.current);
+        };
     }, []);
 
     const getStatusConfig = (state: string) => {
@@ -83,16 +121,18 @@ export function ServiceList() {
                         {stoppedCount > 0 && <span className="text-red-500 ml-1">• {stoppedCount} stopped</span>}
                     </p>
                 </div>
-                <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={fetchServices}
-                    disabled={loading}
-                    className="shrink-0"
-                >
-                    <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-                    Refresh
-                </Button>
+                <div className="flex items-center gap-2 shrink-0">
+                    <ProjectSwitcher value={project} onChange={handleProjectChange} />
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={fetchServices}
+                        disabled={loading}
+                    >
+                        <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                        Refresh
+                    </Button>
+                </div>
             </div>
 
             {/* Services Grid */}
@@ -181,6 +221,13 @@ export function ServiceList() {
                                         )}
                                     </div>
 
+                                    {/* Live usage */}
+                                    {service.state === 'running' && (
+                                        <div className="mt-3">
+                                            <ServiceStatsCompact serviceName={serviceName} />
+                                        </div>
+                                    )}
+
                                     {/* Hover Action Hint */}
                                     <div className="mt-3 pt-3 border-t border-border/50 flex items-center justify-between opacity-50 group-hover:opacity-100 transition-opacity duration-200">
                                         <span className="text-xs text-muted-foreground">Click to manage</span>
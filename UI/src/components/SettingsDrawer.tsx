@@ -14,8 +14,10 @@ import {
 import { Settings } from 'lucide-react';
 import { getApiConfig, setApiConfig } from '@/lib/api';
 import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth-context';
 
 export function SettingsDrawer() {
+    const { login } = useAuth();
     const [open, setOpen] = useState(false);
     const [host, setHost] = useState('');
     const [username, setUsername] = useState('');
@@ -28,13 +30,13 @@ export function SettingsDrawer() {
         }
     }, [open]);
 
-    const handleSave = () => {
+    const handleSave = async () => {
         try {
-            let auth = undefined;
             if (username && password) {
-                auth = btoa(`${username}:${password}`);
+                await login(host, username, password);
+            } else {
+                setApiConfig(host, getApiConfig().session ?? undefined);
             }
-            setApiConfig(host, auth);
             toast.success('Configuration saved');
             setOpen(false);
             window.location.reload();
@@ -0,0 +1,30 @@
+import { cn } from "@/lib/utils";
+
+interface SparklineProps {
+    values: number[];
+    max?: number;       // Fixed top of the scale (e.g. 100 for percentages); defaults to the largest value
+    className?: string; // Stroke colour via text-* classes
+    height?: number;
+}
+
+export function Sparkline({ values, max, className, height = 24 }: SparklineProps) {
+    const width = 100;
+    const top = Math.max(max ?? 0, ...values, 1);
+
+    if (values.length < 2) {
+        return <svg className={cn("w-full", className)} height={height} />;
+    }
+
+    const points = values.map((v, i) => {
+        const x = (i / (values.length - 1)) * width;
+        const y = height - (Math.min(v, top) / top) * (height - 2) - 1;
+        return `${x.toFixed(2)},${y.toFixed(2)}`;
+    });
+
+    return (
+        <svg className={cn("w-full", className)} height={height} viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
+            <polygon points={`0,${height} ${points.join(' ')} ${width},${height}`} fill="currentColor" opacity={0.12} />
+            <polyline points={points.join(' ')} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+    );
+}
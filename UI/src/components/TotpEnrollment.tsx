@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Button } from "@/components/ui/button";
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TwoFactorSetup } from '@/types';
+
+// QR code of the otpauth URI, with the secret for apps that can't scan
+export function TotpEnrollment({ setup }: { setup: TwoFactorSetup }) {
+    const [qr, setQr] = useState<string | null>(null);
+
+    useEffect(() => {
+        QRCode.toDataURL(setup.uri, { margin: 1, width: 192 }).then(setQr).catch(() => setQr(null));
+    }, [setup.uri]);
+
+    const copySecret = async () => {
+        await navigator.clipboard.writeText(setup.secret);
+        toast.success('Copied to clipboard');
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-3">
+            <p className="text-sm text-muted-foreground text-center">
+                Scan this with an authenticator app (Google Authenticator, 1Password, Aegis, ...), then enter the 6-digit code it shows.
+            </p>
+            {qr && <img src={qr} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md bg-white p-1" />}
+            <div className="flex items-center gap-2">
+                <code className="rounded bg-muted px-2 py-1 text-xs break-all">{setup.secret}</code>
+                <Button type="button" variant="ghost" size="icon" title="Copy secret" onClick={copySecret}>
+                    <Copy className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
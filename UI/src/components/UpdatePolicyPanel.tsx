@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { Loader2, Save, SearchCheck } from 'lucide-react';
+import { getUpdatePolicy, runUpdateCheck, saveUpdatePolicy } from '@/lib/api';
+import type { UpdateCheck, UpdatePolicy } from '@/types';
+import { toast } from 'sonner';
+
+interface UpdatePolicyPanelProps {
+    serviceName: string;
+    canEdit: boolean;
+    canManage: boolean;
+}
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const PATTERN_HINTS: Record<UpdatePolicy['match'], { label: string; placeholder: string }> = {
+    exact: { label: 'Tag (empty = current tag)', placeholder: 'latest' },
+    numeric: { label: 'Pattern (unused)', placeholder: 'Highest all-digit tag, e.g. 0005' },
+    semver: { label: 'Version range', placeholder: '^1.2.0' },
+    regex: { label: 'Regex', placeholder: '^prod-\\d+$' },
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ACTION_STYLES: Record<UpdateCheck['action'], string> = {
+    none: '',
+    notified: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+    deployed: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20',
+    deferred: 'bg-amber-500/10 text-amber-500 border-amber-500/20',
+    failed: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
+export function UpdatePolicyPanel({ serviceName, canEdit, canManage }: UpdatePolicyPanelProps) {
+    const [policy, setPolicy] = useState<UpdatePolicy>({ mode: 'off', match: 'exact' });
+    const [lastCheck, setLastCheck] = useState<UpdateCheck | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [checking, setChecking] = useState(false);
+
+    const fetchPolicy = useCallback(async () => {
+        try {
+            const data = await getUpdatePolicy(serviceName);
+            setPolicy(data.policy);
+            setLastCheck(data.lastCheck);
+        } catch {
+            // No saved config yet
+        }
+    }, [serviceName]);
+
+    useEffect(() => {
+        fetchPolicy();
+    }, [fetchPolicy]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            await saveUpdatePolicy(serviceName, policy);
+            toast.success("Update policy saved");
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error(error.response?.data?.error || "Failed to save update policy");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCheck = async () => {
+        setChecking(true);
+        try {
+            const { check } = await runUpdateCheck(serviceName);
+            setLastCheck(check);
+            toast.success(check.candidate_tag ? `Candidate ${check.candidate_tag}: ${check.action}` : "No newer image");
+        } catch (e) {
+            const error = e as ApiError;
+            toast.error(error.response?.data?.error || "Update check failed");
+        } finally {
+            setChecking(false);
+        }
+    };
+
+    const toggleDay = (day: number, on: boolean) => {
+        if (!policy.window) return;
+        const days = on ? [...(policy.window.days ?? []), day].sort() : (policy.window.days ?? []).filter(d => d !== day);
+        setPolicy({ ...policy, window: { ...policy.window, days } });
+    };
+
+    const disabled = !canEdit;
+
+    return (
+        <div className="rounded-lg border p-4 space-y-4">
+            <div>
+                <h3 className="text-sm font-medium">Automatic Updates</h3>
+                <p className="text-xs text-muted-foreground">Checked in the background. Saved without redeploying.</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                    <Label>Mode</Label>
+                    <Select value={policy.mode} onValueChange={v => setPolicy({ ...policy, mode: v as UpdatePolicy['mode'] })} disabled={disabled}>
+                        <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="off">Off</SelectItem>
+                            <SelectItem value="notify">Notify only</SelectItem>
+                            <SelectItem value="auto">Deploy automatically</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>Tag matching</Label>
+                    <Select value={policy.match} onValueChange={v => setPolicy({ ...policy, match: v as UpdatePolicy['match'] })} disabled={disabled}>
+                        <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="exact">Exact tag</SelectItem>
+                            <SelectItem value="numeric">Numeric</SelectItem>
+                            <SelectItem value="semver">Semver range</SelectItem>
+                            <SelectItem value="regex">Regex</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label>{PATTERN_HINTS[policy.match].label}</Label>
+                    <Input
+                        className="font-mono"
+                        value={policy.pattern ?? ''}
+                        onChange={e => setPolicy({ ...policy, pattern: e.target.value })}
+                        placeholder={PATTERN_HINTS[policy.match].placeholder}
+                        disabled={disabled || policy.match === 'numeric'}
+                    />
+                </div>
+            </div>
+
+            {policy.mode === 'auto' && (
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                            checked={!!policy.window}
+                            onCheckedChange={v => setPolicy({ ...policy, window: v === true ? { start: '02:00', end: '05:00' } : undefined })}
+                            disabled={disabled}
+                        />
+                        Only deploy inside a maintenance window (server time)
+                    </label>
+                    {policy.window && (
+                        <div className="flex flex-wrap items-center gap-3 pl-6">
+                            <Input type="time" className="w-auto" value={policy.window.start} onChange={e => setPolicy({ ...policy, window: { ...policy.window!, start: e.target.value } })} disabled={disabled} />
+                            <span className="text-xs text-muted-foreground">to</span>
+                            <Input type="time" className="w-auto" value={policy.window.end} onChange={e => setPolicy({ ...policy, window: { ...policy.window!, end: e.target.value } })} disabled={disabled} />
+                            {DAYS.map((label, day) => (
+                                <label key={label} className="flex items-center gap-1 text-xs">
+                                    <Checkbox checked={policy.window!.days?.includes(day) ?? false} onCheckedChange={v => toggleDay(day, v === true)} disabled={disabled} />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                {canEdit && (
+                    <Button variant="outline" size="sm" onClick={handleSave} disabled={saving}>
+                        {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                        Save Policy
+                    </Button>
+                )}
+                {canManage && policy.mode !== 'off' && (
+                    <Button variant="outline" size="sm" onClick={handleCheck} disabled={checking}>
+                        {checking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />}
+                        Check Now
+                    </Button>
+                )}
+            </div>
+
+            {lastCheck && (
+                <div className="text-xs space-y-1 border-t pt-3">
+                    <div className="flex items-center gap-2">
+                        <span className="text-muted-foreground">Last check {new Date(lastCheck.checked_at).toLocaleString()}</span>
+                        <Badge variant="outline" className={`text-xs capitalize ${ACTION_STYLES[lastCheck.action]}`}>{lastCheck.action}</Badge>
+                        {lastCheck.candidate_tag && <span className="font-mono">{lastCheck.current_tag} → {lastCheck.candidate_tag}</span>}
+                    </div>
+                    <p className="text-muted-foreground">{lastCheck.reason}</p>
+                    {lastCheck.error && <p className="text-red-500">{lastCheck.error}</p>}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { Plus, Trash2 } from 'lucide-react';
+import type { VolumeMount } from '@/types';
+
+interface VolumeFieldsProps {
+    value?: VolumeMount[];
+    onChange: (value: VolumeMount[] | undefined) => void;
+    disabled?: boolean;
+}
+
+export function VolumeFields({ value = [], onChange, disabled = false }: VolumeFieldsProps) {
+    const update = (idx: number, patch: Partial<VolumeMount>) =>
+        onChange(value.map((v, i) => i === idx ? { ...v, ...patch } : v));
+    const remove = (idx: number) => {
+        const next = value.filter((_, i) => i !== idx);
+        onChange(next.length ? next : undefined);
+    };
+
+    return (
+        <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <Label>Volumes</Label>
+                    <p className="text-xs text-muted-foreground mt-1">Named volumes are kept when the service is deleted. Bind mounts must be under an allowed host directory.</p>
+                </div>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onChange([...value, { type: 'volume', source: '', target: '' }])}
+                    disabled={disabled}
+                >
+                    <Plus className="mr-2 h-4 w-4" /> Add
+                </Button>
+            </div>
+
+            {value.map((v, idx) => (
+                <div key={idx} className="grid grid-cols-[7rem_1fr_1fr_auto_auto] items-center gap-2">
+                    <Select value={v.type} onValueChange={t => update(idx, { type: t as VolumeMount['type'] })} disabled={disabled}>
+                        <SelectTrigger className="w-full">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="volume">Volume</SelectItem>
+                            <SelectItem value="bind">Bind</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        className="font-mono"
+                        value={v.source}
+                        onChange={e => update(idx, { source: e.target.value })}
+                        placeholder={v.type === 'volume' ? 'data' : '/srv/uploads'}
+                        disabled={disabled}
+                    />
+                    <Input
+                        className="font-mono"
+                        value={v.target}
+                        onChange={e => update(idx, { target: e.target.value })}
+                        placeholder="/app/data"
+                        disabled={disabled}
+                    />
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                        <Switch checked={!!v.readOnly} onCheckedChange={readOnly => update(idx, { readOnly })} disabled={disabled} />
+                        Read-only
+                    </label>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(idx)} disabled={disabled}>
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+        </div>
+    );
+}
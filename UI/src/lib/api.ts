@@ -1,7 +1,13 @@
 import axios from 'axios';
+import type { AlertChannel, AlertRecord, AlertRule, ApiKey, ApplyResult, ApplyStrategy, AuditPage, AuthSession, Backup, ContainerEvent, DockerServiceConfig, EffectivePermissions, EnvChange, EnvGroup, EnvSchemaEntry, ServiceEnvGroup, EnvVersion, MetricResolution, MetricSeries, Permission, PermissionExplanation, Project, ProjectMember, RegistryCredential, ResourceStats, Role, Secret, ServiceRevision, SsoConfig, SsoMapping, StagedChanges, TwoFactorChallenge, TwoFactorSetup, TwoFactorStatus, UpdateCheck, UpdatePolicy, User, UserGroup } from '@/types';
 
 const STORAGE_KEY_HOST = 'docker_mgr_host';
-const STORAGE_KEY_AUTH = 'docker_mgr_auth';
+const STORAGE_KEY_SESSION = 'docker_mgr_session';
+const STORAGE_KEY_PROJECT = 'docker_mgr_project'; // Project picked in the dashboard switcher
+const LEGACY_STORAGE_KEY_AUTH = 'docker_mgr_auth'; // Old base64 Basic credentials
+
+// Never keep raw credentials around from older versions
+localStorage.removeItem(LEGACY_STORAGE_KEY_AUTH);
 
 const ensureProtocol = (url: string) => {
     if (!url) return 'http://localhost:8080';
@@ -12,19 +18,29 @@ const ensureProtocol = (url: string) => {
     return formattedUrl.replace(/\/$/, ''); // Remove trailing slash
 };
 
+const readSession = (): AuthSession | null => {
+    const raw = localStorage.getItem(STORAGE_KEY_SESSION);
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return null;
+    }
+};
+
 export const getApiConfig = () => {
     const rawHost = localStorage.getItem(STORAGE_KEY_HOST) || 'http://localhost:8080';
     const host = ensureProtocol(rawHost);
-    const auth = localStorage.getItem(STORAGE_KEY_AUTH);
-    return { host, auth };
+    const session = readSession();
+    return { host, session };
 };
 
-export const setApiConfig = (host: string, auth?: string) => {
+export const setApiConfig = (host: string, session?: AuthSession) => {
     localStorage.setItem(STORAGE_KEY_HOST, host);
-    if (auth) {
-        localStorage.setItem(STORAGE_KEY_AUTH, auth);
+    if (session) {
+        localStorage.setItem(STORAGE_KEY_SESSION, JSON.stringify(session));
     } else {
-        localStorage.removeItem(STORAGE_KEY_AUTH);
+        localStorage.removeItem(STORAGE_KEY_SESSION);
     }
     // Update axios instance defaults immediately
     apiClient.defaults.baseURL = ensureProtocol(host);
@@ -34,43 +50,139 @@ export const getStoredServerUrl = () => {
     return localStorage.getItem(STORAGE_KEY_HOST) || '';
 }
 
+export const getSelectedProject = () => localStorage.getItem(STORAGE_KEY_PROJECT) || '';
+
+export const setSelectedProject = (project: string) => {
+    if (project) localStorage.setItem(STORAGE_KEY_PROJECT, project);
+    else localStorage.removeItem(STORAGE_KEY_PROJECT);
+};
+
+interface TokenResponse extends AuthSession {
+    user: User;
+}
+
+// Share one in-flight refresh between concurrent requests
+let refreshPromise: Promise<AuthSession | null> | null = null;
+
+const refreshSession = (): Promise<AuthSession | null> => {
+    if (refreshPromise) return refreshPromise;
+
+    const { host, session } = getApiConfig();
+    if (!session) return Promise.resolve(null);
+
+    refreshPromise = axios.post<TokenResponse>(`${host}/api/auth/refresh`, { refreshToken: session.refreshToken })
+        .then(({ data }) => {
+            const next = { token: data.token, refreshToken: data.refreshToken, expiresAt: data.expiresAt };
+            setApiConfig(host, next);
+            return next;
+        })
+        .catch(() => {
+            setApiConfig(host, undefined);
+            return null;
+        })
+        .finally(() => {
+            refreshPromise = null;
+        });
+    return refreshPromise;
+};
+
+// Returns a usable session, refreshing it first if it is about to expire
+const getFreshSession = async (): Promise<AuthSession | null> => {
+    const { session } = getApiConfig();
+    if (!session) return null;
+    if (session.expiresAt - Date.now() > 30 * 1000) return session;
+    return refreshSession();
+};
+
+/**
+ * Auth headers for raw `fetch` calls (streams) that bypass axios.
+ */
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const session = await getFreshSession();
+    return session ? { 'Authorization': `Bearer ${session.token}` } : {};
+};
+
 export const apiClient = axios.create({
     baseURL: getApiConfig().host,
 });
 
-apiClient.interceptors.request.use((config) => {
-    const { host, auth } = getApiConfig();
+apiClient.interceptors.request.use(async (config) => {
+    const { host } = getApiConfig();
     config.baseURL = host;
-    if (auth) {
-        config.headers.Authorization = `Basic ${auth}`;
+    const session = await getFreshSession();
+    if (session) {
+        config.headers.Authorization = `Bearer ${session.token}`;
     }
     return config;
 });
 
-// Helper to validate auth/connectivity
-export const checkAuth = async (): Promise<boolean> => {
-    try {
-        // Try a lightweight endpoint. /services is good as it lists things.
-        // If 401, returns false.
-        await apiClient.get('/services');
-        return true;
-    } catch (error: any) {
-        if (error.response && error.response.status === 401) {
-            return false;
-        }
-        // If it's another error (e.g. network), we might still be "authenticated" but server is down, 
-        // but for login purpose, let's treat as failure or let caller handle specific error if needed.
-        // For simple boolean check, return false if we can't talk to valid protected endpoint.
-        // HOWEVER, if the user has NO permission to list services, this might fail with 403.
-        // Let's try /api/users which is admin only? No.
-        // Let's try to infer from error.
-        if (error.response && error.response.status === 403) {
-            // 403 means Authenticated but Forbidden. So we ARE authenticated.
-            return true;
+// A 401 mid-session usually means the token was revoked or expired: refresh once and retry
+apiClient.interceptors.response.use(undefined, async (error) => {
+    const original = error.config;
+    if (error.response?.status === 401 && original && !original._retried && getApiConfig().session) {
+        original._retried = true;
+        const session = await refreshSession();
+        if (session) return apiClient(original);
+    }
+    return Promise.reject(error);
+});
+
+// Users with two-factor auth get a challenge instead of a session
+export const loginWithPassword = async (serverUrl: string, username: string, password: string): Promise<User | TwoFactorChallenge> => {
+    const { data } = await axios.post<TokenResponse | TwoFactorChallenge>(`${ensureProtocol(serverUrl)}/api/auth/login`, { username, password });
+    if ('challenge' in data) return data;
+    setApiConfig(serverUrl, { token: data.token, refreshToken: data.refreshToken, expiresAt: data.expiresAt });
+    return data.user;
+};
+
+// Second login step. After an enrollment the response carries the new recovery codes
+export const verifyTwoFactor = async (serverUrl: string, challenge: string, code: string): Promise<{ user: User; recovery_codes?: string[] }> => {
+    const { data } = await axios.post<TokenResponse & { recovery_codes?: string[] }>(`${ensureProtocol(serverUrl)}/api/auth/2fa/verify`, { challenge, code });
+    setApiConfig(serverUrl, { token: data.token, refreshToken: data.refreshToken, expiresAt: data.expiresAt });
+    return { user: data.user, recovery_codes: data.recovery_codes };
+};
+
+export const startTwoFactorEnrollment = async (serverUrl: string, challenge: string): Promise<TwoFactorSetup> => {
+    const { data } = await axios.post<TwoFactorSetup>(`${ensureProtocol(serverUrl)}/api/auth/2fa/enroll`, { challenge });
+    return data;
+};
+
+// Public, so the login page can ask before anyone is logged in
+export const getSsoConfig = async (serverUrl: string): Promise<SsoConfig> => {
+    const { data } = await axios.get<SsoConfig>(`${ensureProtocol(serverUrl)}/api/auth/oidc`);
+    return data;
+};
+
+/**
+ * Where the browser goes to log in with SSO. The server sends it back to returnTo
+ * with a one-time code (or an error) in the fragment.
+ */
+export const ssoLoginUrl = (serverUrl: string, returnTo: string) => {
+    return `${ensureProtocol(serverUrl)}/api/auth/oidc/login?return_to=${encodeURIComponent(returnTo)}`;
+};
+
+export const completeSsoLogin = async (serverUrl: string, code: string): Promise<User> => {
+    const { data } = await axios.post<TokenResponse>(`${ensureProtocol(serverUrl)}/api/auth/oidc/exchange`, { code });
+    setApiConfig(serverUrl, { token: data.token, refreshToken: data.refreshToken, expiresAt: data.expiresAt });
+    return data.user;
+};
+
+export const logoutSession = async () => {
+    const { host, session } = getApiConfig();
+    if (session) {
+        try {
+            await axios.post(`${host}/api/auth/logout`, {}, { headers: { Authorization: `Bearer ${session.token}` } });
+        } catch {
+            // Session is dropped locally either way
         }
-        throw error;
     }
-}
+    setApiConfig(host, undefined);
+};
+
+export const fetchCurrentUser = async (): Promise<User> => {
+    const { data } = await apiClient.get<User>('/api/auth/me');
+    return data;
+};
 
 export const getServiceEnv = async (serviceName: string): Promise<string> => {
     const { data } = await apiClient.get<string>(`/services/${serviceName}/env`);
@@ -81,3 +193,471 @@ export const saveServiceEnv = async (serviceName: string, content: string) => {
     const { data } = await apiClient.post(`/services/${serviceName}/env`, { content });
     return data;
 };
+
+export const getEnvVersions = async (serviceName: string): Promise<{ versions: EnvVersion[]; current: number | null }> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/env/versions`);
+    return data;
+};
+
+export const getEnvDiff = async (serviceName: string, from: number | 'current', to: number | 'current' = 'current'): Promise<EnvChange[]> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/env/diff`, { params: { from, to } });
+    return data.changes;
+};
+
+export const previewEnvSave = async (serviceName: string, content: string): Promise<{ changes: EnvChange[]; missingSecrets: string[]; errors: Record<string, string> }> => {
+    const { data } = await apiClient.post(`/services/${serviceName}/env/diff`, { content });
+    return data;
+};
+
+// Attached groups in precedence order
+export const getServiceEnvGroups = async (serviceName: string): Promise<ServiceEnvGroup[]> => {
+    const { data } = await apiClient.get<ServiceEnvGroup[]>(`/services/${serviceName}/env/groups`);
+    return data;
+};
+
+export const getEnvSchema = async (serviceName: string): Promise<EnvSchemaEntry[]> => {
+    const { data } = await apiClient.get<EnvSchemaEntry[]>(`/services/${serviceName}/env-schema`);
+    return data;
+};
+
+// errors: how the current env file fits the saved schema
+export const saveEnvSchema = async (serviceName: string, schema: EnvSchemaEntry[]): Promise<{ message: string; errors: Record<string, string> }> => {
+    const { data } = await apiClient.put(`/services/${serviceName}/env-schema`, { schema });
+    return data;
+};
+
+export const revertEnv = async (serviceName: string, version: number) => {
+    const { data } = await apiClient.post(`/services/${serviceName}/env/versions/${version}/revert`);
+    return data;
+};
+
+export const getPendingChanges = async (): Promise<StagedChanges[]> => {
+    const { data } = await apiClient.get<StagedChanges[]>('/services/pending');
+    return data;
+};
+
+export const getStagedChanges = async (serviceName: string): Promise<(StagedChanges & { env: string | null }) | null> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/staged`);
+    return data.staged;
+};
+
+export const stageEnv = async (serviceName: string, content: string) => {
+    const { data } = await apiClient.put(`/services/${serviceName}/staged/env`, { content });
+    return data;
+};
+
+export const stageConfig = async (serviceName: string, config: DockerServiceConfig) => {
+    const { data } = await apiClient.put(`/services/${serviceName}/staged/config`, { config });
+    return data;
+};
+
+export const discardStagedChanges = async (serviceName: string) => {
+    const { data } = await apiClient.delete(`/services/${serviceName}/staged`);
+    return data;
+};
+
+// strategy "scheduled" with at: null cancels a schedule
+export const applyStagedChanges = async (services: string[], strategy: ApplyStrategy, at?: number | null): Promise<{ success: boolean; results: ApplyResult[] }> => {
+    const { data } = await apiClient.post('/services/apply', { services, strategy, at });
+    return data;
+};
+
+export const listSecrets = async (serviceName: string): Promise<{ secrets: Secret[]; missing: string[] }> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/secrets`);
+    return data;
+};
+
+export const saveSecret = async (serviceName: string, name: string, value: string) => {
+    const { data } = await apiClient.put(`/services/${serviceName}/secrets/${encodeURIComponent(name)}`, { value });
+    return data;
+};
+
+export const deleteSecret = async (serviceName: string, name: string) => {
+    const { data } = await apiClient.delete(`/services/${serviceName}/secrets/${encodeURIComponent(name)}`);
+    return data;
+};
+
+export const revealSecret = async (serviceName: string, name: string): Promise<string> => {
+    const { data } = await apiClient.get<{ value: string }>(`/services/${serviceName}/secrets/${encodeURIComponent(name)}`);
+    return data.value;
+};
+
+export const getServiceRevisions = async (serviceName: string): Promise<{ revisions: ServiceRevision[]; currentEnvHash: string }> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/revisions`);
+    return data;
+};
+
+export const rollbackService = async (serviceName: string, revision: number) => {
+    const { data } = await apiClient.post(`/services/${serviceName}/rollback/${revision}`);
+    return data;
+};
+
+export const getServiceBackups = async (serviceName: string): Promise<{ backups: Backup[]; policy: { schedule: string | null; retention: number } }> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/backups`);
+    return data;
+};
+
+export const createBackup = async (serviceName: string): Promise<{ message: string; backup: Backup }> => {
+    const { data } = await apiClient.post(`/services/${serviceName}/backups`);
+    return data;
+};
+
+export const saveBackupPolicy = async (serviceName: string, policy: { schedule: string | null; retention: number }) => {
+    const { data } = await apiClient.put(`/services/${serviceName}/backups/policy`, policy);
+    return data;
+};
+
+export const restoreBackup = async (serviceName: string, id: number) => {
+    const { data } = await apiClient.post(`/services/${serviceName}/backups/${id}/restore`);
+    return data;
+};
+
+export const deleteBackup = async (serviceName: string, id: number) => {
+    const { data } = await apiClient.delete(`/services/${serviceName}/backups/${id}`);
+    return data;
+};
+
+export const getServiceStats = async (serviceName: string): Promise<ResourceStats> => {
+    const { data } = await apiClient.get<ResourceStats>(`/services/${serviceName}/stats`, { params: { stream: false } });
+    return data;
+};
+
+// Follows the NDJSON stats stream until it ends or the signal aborts
+export const streamServiceStats = async (serviceName: string, onSample: (stats: ResourceStats) => void, signal: AbortSignal) => {
+    const { host } = getApiConfig();
+    const response = await fetch(`${host}/services/${serviceName}/stats`, { headers: await getAuthHeaders(), signal });
+    if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.trim()) onSample(JSON.parse(line));
+        }
+    }
+};
+
+// One shared SSE connection for every component interested in container events
+const eventListeners = new Set<(event: ContainerEvent) => void>();
+let eventStream: AbortController | null = null;
+
+const followContainerEvents = async (signal: AbortSignal) => {
+    while (!signal.aborted) {
+        try {
+            const { host } = getApiConfig();
+            const response = await fetch(`${host}/events`, { headers: await getAuthHeaders(), signal });
+            if (!response.ok || !response.body) throw new Error(`HTTP ${response.status}`);
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const messages = buffer.split('\n\n');
+                buffer = messages.pop() ?? '';
+                for (const message of messages) {
+                    const data = message.split('\n').find(line => line.startsWith('data:'));
+                    if (!data) continue; // Heartbeat comment
+                    const event: ContainerEvent = JSON.parse(data.slice(5));
+                    eventListeners.forEach(listener => listener(event));
+                }
+            }
+        } catch {
+            // Dropped or refused; retry below unless we were unsubscribed
+        }
+        if (!signal.aborted) await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+};
+
+// Returns an unsubscribe function. The connection closes when the last listener leaves
+export const subscribeContainerEvents = (listener: (event: ContainerEvent) => void) => {
+    eventListeners.add(listener);
+    if (!eventStream) {
+        eventStream = new AbortController();
+        followContainerEvents(eventStream.signal);
+    }
+    return () => {
+        eventListeners.delete(listener);
+        if (eventListeners.size === 0 && eventStream) {
+            eventStream.abort();
+            eventStream = null;
+        }
+    };
+};
+
+export const getServiceEvents = async (serviceName: string): Promise<ContainerEvent[]> => {
+    const { data } = await apiClient.get<ContainerEvent[]>(`/services/${serviceName}/events`);
+    return data;
+};
+
+export const getUpdatePolicy = async (serviceName: string): Promise<{ policy: UpdatePolicy; lastCheck: UpdateCheck | null }> => {
+    const { data } = await apiClient.get(`/services/${serviceName}/update-policy`);
+    return data;
+};
+
+export const saveUpdatePolicy = async (serviceName: string, policy: UpdatePolicy) => {
+    const { data } = await apiClient.put(`/services/${serviceName}/update-policy`, policy);
+    return data;
+};
+
+export const runUpdateCheck = async (serviceName: string): Promise<{ success: boolean; check: UpdateCheck }> => {
+    const { data } = await apiClient.post(`/services/${serviceName}/update-check`);
+    return data;
+};
+
+export const getServiceMetrics = async (serviceName: string, params: { from: number; to: number; step?: MetricResolution | 'auto' }): Promise<MetricSeries> => {
+    const { data } = await apiClient.get<MetricSeries>(`/services/${serviceName}/metrics`, { params });
+    return data;
+};
+
+// Two-factor auth of the logged-in user
+export const getTwoFactorStatus = async (): Promise<TwoFactorStatus> => {
+    const { data } = await apiClient.get<TwoFactorStatus>('/api/auth/2fa');
+    return data;
+};
+
+export const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+    const { data } = await apiClient.post<TwoFactorSetup>('/api/auth/2fa/setup');
+    return data;
+};
+
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+    const { data } = await apiClient.post<{ recovery_codes: string[] }>('/api/auth/2fa/enable', { code });
+    return data.recovery_codes;
+};
+
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+    const { data } = await apiClient.post<{ recovery_codes: string[] }>('/api/auth/2fa/recovery-codes', { code });
+    return data.recovery_codes;
+};
+
+export const disableTwoFactor = async (code: string) => {
+    await apiClient.delete('/api/auth/2fa', { data: { code } });
+};
+
+export const resetUserTwoFactor = async (username: string) => {
+    await apiClient.delete(`/api/users/${encodeURIComponent(username)}/2fa`);
+};
+
+export const listApiKeys = async (): Promise<ApiKey[]> => {
+    const { data } = await apiClient.get<ApiKey[]>('/api/keys');
+    return data;
+};
+
+export const createApiKey = async (name: string): Promise<{ id: number; key: string }> => {
+    const { data } = await apiClient.post('/api/keys', { name });
+    return data;
+};
+
+export const revokeApiKey = async (id: number) => {
+    await apiClient.delete(`/api/keys/${id}`);
+};
+
+export const getAuditEvents = async (params: Record<string, string | number | undefined>): Promise<AuditPage> => {
+    const { data } = await apiClient.get<AuditPage>('/api/audit', { params });
+    return data;
+};
+
+// Env groups shared by services. Saving doesn't restart anything; `affected` lists who uses the group
+export type EnvGroupInput = { name: string; description: string | null; content: string };
+
+export const listEnvGroups = async (): Promise<EnvGroup[]> => {
+    const { data } = await apiClient.get<EnvGroup[]>('/api/env-groups');
+    return data;
+};
+
+export const saveEnvGroup = async (group: EnvGroupInput, id?: number): Promise<{ group: EnvGroup; affected?: string[] }> => {
+    const { data } = id
+        ? await apiClient.put(`/api/env-groups/${id}`, group)
+        : await apiClient.post('/api/env-groups', group);
+    return data;
+};
+
+export const deleteEnvGroup = async (id: number) => {
+    await apiClient.delete(`/api/env-groups/${id}`);
+};
+
+export const restartEnvGroupServices = async (id: number, services: string[]): Promise<{ success: boolean; results: { service: string; status: 'restarted' | 'skipped' | 'failed'; error?: string }[] }> => {
+    const { data } = await apiClient.post(`/api/env-groups/${id}/restart`, { services });
+    return data;
+};
+
+// Roles and user groups
+export type RoleInput = Pick<Role, 'name' | 'description' | 'actions' | 'require_2fa'>;
+
+export const listRoles = async (): Promise<Role[]> => {
+    const { data } = await apiClient.get<Role[]>('/api/roles');
+    return data;
+};
+
+export const saveRole = async (role: RoleInput, id?: number): Promise<{ role: Role }> => {
+    const { data } = id
+        ? await apiClient.put(`/api/roles/${id}`, role)
+        : await apiClient.post('/api/roles', role);
+    return data;
+};
+
+export const deleteRole = async (id: number) => {
+    await apiClient.delete(`/api/roles/${id}`);
+};
+
+export type UserGroupInput = Pick<UserGroup, 'name' | 'description' | 'members' | 'permissions'>;
+
+export const listUserGroups = async (): Promise<UserGroup[]> => {
+    const { data } = await apiClient.get<UserGroup[]>('/api/user-groups');
+    return data;
+};
+
+export const saveUserGroup = async (group: UserGroupInput, id?: number): Promise<{ group: UserGroup }> => {
+    const { data } = id
+        ? await apiClient.put(`/api/user-groups/${id}`, group)
+        : await apiClient.post('/api/user-groups', group);
+    return data;
+};
+
+export const deleteUserGroup = async (id: number) => {
+    await apiClient.delete(`/api/user-groups/${id}`);
+};
+
+// SSO claim mappings
+export type SsoMappingInput = Pick<SsoMapping, 'claim' | 'value' | 'group' | 'is_admin'>;
+
+export const listSsoMappings = async (): Promise<SsoMapping[]> => {
+    const { data } = await apiClient.get<SsoMapping[]>('/api/sso/mappings');
+    return data;
+};
+
+export const saveSsoMapping = async (mapping: SsoMappingInput, id?: number): Promise<{ mapping: SsoMapping }> => {
+    const { data } = id
+        ? await apiClient.put(`/api/sso/mappings/${id}`, mapping)
+        : await apiClient.post('/api/sso/mappings', mapping);
+    return data;
+};
+
+export const deleteSsoMapping = async (id: number) => {
+    await apiClient.delete(`/api/sso/mappings/${id}`);
+};
+
+export const getEffectivePermissions = async (username: string): Promise<EffectivePermissions> => {
+    const { data } = await apiClient.get<EffectivePermissions>(`/api/users/${encodeURIComponent(username)}/effective-permissions`);
+    return data;
+};
+
+export const explainPermission = async (user: string, scope: string, action: string): Promise<PermissionExplanation> => {
+    const { data } = await apiClient.get<PermissionExplanation>('/api/permissions/explain', { params: { user, scope, action } });
+    return data;
+};
+
+// Projects. Admins edit projects; project admins manage members and their grants inside the project
+export type ProjectInput = { name: string; description: string | null; services: string[]; admins: string[] };
+
+export const listProjects = async (): Promise<Project[]> => {
+    const { data } = await apiClient.get<Project[]>('/api/projects');
+    return data;
+};
+
+export const saveProject = async (project: ProjectInput, id?: number): Promise<{ project: Project }> => {
+    const { data } = id
+        ? await apiClient.put(`/api/projects/${id}`, project)
+        : await apiClient.post('/api/projects', project);
+    return data;
+};
+
+export const deleteProject = async (id: number) => {
+    await apiClient.delete(`/api/projects/${id}`);
+};
+
+export const listProjectMembers = async (id: number): Promise<ProjectMember[]> => {
+    const { data } = await apiClient.get<ProjectMember[]>(`/api/projects/${id}/members`);
+    return data;
+};
+
+// A password creates the account if the user doesn't exist yet
+export const addProjectMember = async (id: number, member: { username: string; password?: string; permissions: Permission[] }) => {
+    await apiClient.post(`/api/projects/${id}/members`, member);
+};
+
+export const updateProjectMember = async (id: number, username: string, permissions: Permission[]) => {
+    await apiClient.put(`/api/projects/${id}/members/${encodeURIComponent(username)}`, { permissions });
+};
+
+export const removeProjectMember = async (id: number, username: string) => {
+    await apiClient.delete(`/api/projects/${id}/members/${encodeURIComponent(username)}`);
+};
+
+// Registry credentials. password is optional on update (blank keeps the stored one)
+export type RegistryCredentialInput = Omit<RegistryCredential, 'id' | 'created_at' | 'updated_at'> & { password?: string };
+
+export const listRegistryCredentials = async (): Promise<RegistryCredential[]> => {
+    const { data } = await apiClient.get<RegistryCredential[]>('/api/registries');
+    return data;
+};
+
+export const saveRegistryCredential = async (credential: RegistryCredentialInput, id?: number) => {
+    const { data } = id
+        ? await apiClient.put(`/api/registries/${id}`, credential)
+        : await apiClient.post('/api/registries', credential);
+    return data;
+};
+
+export const deleteRegistryCredential = async (id: number) => {
+    await apiClient.delete(`/api/registries/${id}`);
+};
+
+export const testRegistryCredential = async (id: number): Promise<{ success: boolean; message: string }> => {
+    const { data } = await apiClient.post(`/api/registries/${id}/test`);
+    return data;
+};
+
+export type AlertChannelInput = Omit<AlertChannel, 'id' | 'created_at'>;
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at'>;
+
+export const listAlertChannels = async (): Promise<AlertChannel[]> => {
+    const { data } = await apiClient.get<AlertChannel[]>('/api/alerts/channels');
+    return data;
+};
+
+export const saveAlertChannel = async (channel: AlertChannelInput, id?: number) => {
+    const { data } = id
+        ? await apiClient.put(`/api/alerts/channels/${id}`, channel)
+        : await apiClient.post('/api/alerts/channels', channel);
+    return data;
+};
+
+export const deleteAlertChannel = async (id: number) => {
+    await apiClient.delete(`/api/alerts/channels/${id}`);
+};
+
+export const testAlertChannel = async (id: number): Promise<{ success: boolean; message: string }> => {
+    const { data } = await apiClient.post(`/api/alerts/channels/${id}/test`);
+    return data;
+};
+
+export const listAlertRules = async (): Promise<AlertRule[]> => {
+    const { data } = await apiClient.get<AlertRule[]>('/api/alerts/rules');
+    return data;
+};
+
+export const saveAlertRule = async (rule: AlertRuleInput, id?: number) => {
+    const { data } = id
+        ? await apiClient.put(`/api/alerts/rules/${id}`, rule)
+        : await apiClient.post('/api/alerts/rules', rule);
+    return data;
+};
+
+export const deleteAlertRule = async (id: number) => {
+    await apiClient.delete(`/api/alerts/rules/${id}`);
+};
+
+export const getAlertHistory = async (limit = 100): Promise<AlertRecord[]> => {
+    const { data } = await apiClient.get<AlertRecord[]>('/api/alerts/history', { params: { limit } });
+    return data;
+};
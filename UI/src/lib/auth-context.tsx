@@ -1,13 +1,16 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { setApiConfig, checkAuth, getApiConfig, apiClient } from './api';
-import type { User } from '@/types';
+import axios from 'axios';
+import { getApiConfig, loginWithPassword, verifyTwoFactor, completeSsoLogin, logoutSession, fetchCurrentUser } from './api';
+import type { TwoFactorChallenge, User } from '@/types';
 
 interface AuthContextType {
     isAuthenticated: boolean;
     isAdmin: boolean;
     user: User | null;
     isLoading: boolean;
-    login: (serverUrl: string, username?: string, password?: string) => Promise<void>;
+    login: (serverUrl: string, username?: string, password?: string) => Promise<TwoFactorChallenge | null>;
+    completeTwoFactor: (serverUrl: string, challenge: string, code: string) => Promise<string[] | undefined>;
+    completeSso: (serverUrl: string, code: string) => Promise<void>;
     logout: () => void;
     checkPermission: (scope: string, action: string) => boolean;
 }
@@ -20,31 +23,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [isAdmin, setIsAdmin] = useState<boolean>(false);
 
+    const applyUser = (u: User | null) => {
+        setUser(u);
+        setIsAuthenticated(!!u);
+        setIsAdmin(!!u?.is_admin);
+    };
+
     const initializeAuth = async () => {
         setIsLoading(true);
-        const { auth } = getApiConfig();
-        if (auth) {
+        const { session } = getApiConfig();
+        if (session) {
             try {
-                const isValid = await checkAuth();
-                if (isValid) {
-                    setIsAuthenticated(true);
-                    // Infer admin status or fetch user details if possible
-                    // Ideally we fetch /api/users to see if we are admin, or /api/me if it existed.
-                    // For now, let's try to fetch users. If 200, we are admin.
-                    try {
-                        await apiClient.get('/api/users');
-                        setIsAdmin(true);
-                    } catch {
-                        setIsAdmin(false);
-                    }
-                } else {
-                    // Auth failed (e.g. changed password or token expired?)
-                    logout();
-                }
+                // Session is refreshed transparently by the api client if it expired
+                applyUser(await fetchCurrentUser());
             } catch (e) {
                 console.error("Auth check failed", e);
-                // If network error, maybe keep state but show error? 
-                // For safety, if 401, logout.
                 logout();
             }
         }
@@ -57,73 +50,64 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     const login = async (serverUrl: string, username?: string, password?: string) => {
         setIsLoading(true);
-        let authString = undefined;
-        if (username && password) {
-            authString = btoa(`${username}:${password}`);
-        }
-
-        // Temporarily set config to test
-        setApiConfig(serverUrl, authString);
-
         try {
-            const isValid = await checkAuth();
-            if (isValid) {
-                setIsAuthenticated(true);
-                // fetch admin status
-                try {
-                    await apiClient.get('/api/users');
-                    setIsAdmin(true);
-                } catch {
-                    setIsAdmin(false);
-                }
-
-                // Construct a mock user object for now since we don't have /me
-                // We assume if we are authenticated, we have at least some permissions.
-                setUser({
-                    username: username || 'Unknown',
-                    permissions: [], // Permissions are fetched per service or assumed global for now
-                    isAdmin: false // Updated above
-                });
-
-            } else {
-                throw new Error("Invalid credentials or server unreachable");
+            if (!username || !password) {
+                throw new Error("Username and password required");
             }
+            const result = await loginWithPassword(serverUrl, username, password);
+            if ('challenge' in result) return result;
+            applyUser(result);
+            return null;
         } catch (error) {
-            // Revert config if failed? Or just leave it?
-            // Better to leave it so user can correct it, but clear auth if basic auth failed
-            if (username || password) {
-                // Keep server url, clear auth
-                setApiConfig(serverUrl, undefined);
+            applyUser(null);
+            if (axios.isAxiosError(error) && error.response?.status === 401) {
+                throw new Error("Invalid credentials");
             }
-            setIsAuthenticated(false);
             throw error;
         } finally {
             setIsLoading(false);
         }
     };
 
+    // Second login step; returns the recovery codes when the step was an enrollment
+    const completeTwoFactor = async (serverUrl: string, challenge: string, code: string) => {
+        try {
+            const { user, recovery_codes } = await verifyTwoFactor(serverUrl, challenge, code);
+            applyUser(user);
+            return recovery_codes;
+        } catch (e) {
+            const error = e as { message?: string; response?: { data?: { error?: string } } };
+            throw new Error(error.response?.data?.error || error.message);
+        }
+    };
+
+    // Trades the one-time code from the SSO redirect for a session
+    const completeSso = async (serverUrl: string, code: string) => {
+        setIsLoading(true);
+        try {
+            applyUser(await completeSsoLogin(serverUrl, code));
+        } catch (e) {
+            applyUser(null);
+            const error = e as { message?: string; response?: { data?: { error?: string } } };
+            throw new Error(error.response?.data?.error || error.message);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     const logout = () => {
-        const { host } = getApiConfig();
-        setApiConfig(host, undefined); // Keep host, clear auth
-        setIsAuthenticated(false);
-        setIsAdmin(false);
-        setUser(null);
+        logoutSession();
+        applyUser(null);
     };
 
-    const checkPermission = (_: string, __: string) => {
-        // _scope, __action
+    const checkPermission = (scope: string, action: string) => {
         if (isAdmin) return true;
-        // logic for checking permissions if we had them stored globally
-        // For service scope, it's usually checked against the service object directly.
-        // For global scope, we might need to store them.
-
-        // Fallback: If we don't have the permission list, assume false for critical actions 
-        // unless we know better.
-        return false;
+        // Global scopes come with the user; service scopes are checked against the service object.
+        return (user?.permissions ?? []).some(p => p.scope === scope && p.action === action);
     };
 
     return (
-        <AuthContext.Provider value={{ isAuthenticated, isAdmin, user, isLoading, login, logout, checkPermission }}>
+        <AuthContext.Provider value={{ isAuthenticated, isAdmin, user, isLoading, login, completeTwoFactor, completeSso, logout, checkPermission }}>
             {children}
         </AuthContext.Provider>
     );
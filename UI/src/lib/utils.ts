@@ -4,3 +4,34 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${Math.round(bytes)} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+}
+
+// Keys set in .env content, in file order
+export function envKeys(content: string) {
+  return content.split("\n").flatMap(line => line.trim().match(/^([A-Za-z_][A-Za-z0-9_]*)=/)?.[1] ?? [])
+}
+
+export const PERMISSION_ACTIONS = [
+  { value: "pull_new_image", label: "Pull New Images" },
+  { value: "add_new_service", label: "Add New Services" },
+  { value: "view_status", label: "View Status" },
+  { value: "manage", label: "Manage Service" },
+  { value: "view_configuration", label: "View Configuration" },
+  { value: "edit_configuration", label: "Edit Configuration" },
+  { value: "view_env", label: "View Environment" },
+  { value: "edit_env", label: "Edit Environment" },
+  { value: "reveal_secret", label: "Reveal Secrets" },
+  { value: "view_logs", label: "View Logs" },
+]
+
+// 'service:web-*: developer', or with a 'deny ' prefix
+export function describePermission(p: { scope: string; action?: string; role?: string; effect?: string }) {
+  const scope = p.scope === "global" ? "Global" : p.scope.replace("service:", "S:")
+  return `${p.effect === "deny" ? "deny " : ""}${scope}: ${p.role ? `role ${p.role}` : p.action}`
+}
@@ -0,0 +1,559 @@
+import { useEffect, useState } from 'react';
+import {
+    listAlertChannels, saveAlertChannel, deleteAlertChannel, testAlertChannel,
+    listAlertRules, saveAlertRule, deleteAlertRule, getAlertHistory,
+    type AlertChannelInput, type AlertRuleInput
+} from '@/lib/api';
+import type { AlertChannel, AlertChannelType, AlertRecord, AlertRule, AlertRuleType } from '@/types';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2, RefreshCw, Send, Pencil, Loader2 } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+const CHANNEL_TYPES: Record<AlertChannelType, { label: string; placeholder: string }> = {
+    webhook: { label: 'Webhook (JSON POST)', placeholder: 'https://example.com/hooks/orchestr8' },
+    slack: { label: 'Slack', placeholder: 'https://hooks.slack.com/services/…' },
+    discord: { label: 'Discord', placeholder: 'https://discord.com/api/webhooks/…' },
+    smtp: { label: 'Email (SMTP)', placeholder: 'ops@example.com, oncall@example.com' },
+};
+
+const RULE_TYPES: Record<AlertRuleType, string> = {
+    container_event: 'Container event',
+    restart_count: 'Restart count',
+    cpu: 'CPU usage',
+    memory: 'Memory usage',
+    deploy_failed: 'Failed deploy',
+    update_available: 'Update available',
+};
+
+const CONTAINER_EVENTS = [
+    { value: 'die', label: 'Died' },
+    { value: 'oom', label: 'Out of memory' },
+    { value: 'health_status:unhealthy', label: 'Unhealthy' },
+    { value: 'kill', label: 'Killed' },
+    { value: 'stop', label: 'Stopped' },
+    { value: 'restart', label: 'Restarted' },
+    { value: 'start', label: 'Started' },
+    { value: 'destroy', label: 'Removed' },
+];
+
+const formatSeconds = (s: number) =>
+    s >= 3600 && s % 3600 === 0 ? `${s / 3600}h` : s >= 60 && s % 60 === 0 ? `${s / 60}m` : `${s}s`;
+
+const describeRule = (rule: AlertRule) => {
+    switch (rule.type) {
+        case 'container_event':
+            return rule.events.map(e => CONTAINER_EVENTS.find(o => o.value === e)?.label ?? e).join(', ');
+        case 'restart_count':
+            return `≥ ${rule.threshold} restarts in ${formatSeconds(rule.window_seconds)}`;
+        case 'cpu':
+        case 'memory':
+            return `${RULE_TYPES[rule.type]} ≥ ${rule.threshold}%${rule.window_seconds ? ` for ${formatSeconds(rule.window_seconds)}` : ''}`;
+        case 'deploy_failed':
+            return 'Deploy, rollback, restore or nginx reload fails';
+        case 'update_available':
+            return 'A notify-only update policy finds a newer image';
+    }
+};
+
+export default function Alerts() {
+    const [channels, setChannels] = useState<AlertChannel[]>([]);
+    const [rules, setRules] = useState<AlertRule[]>([]);
+    const [history, setHistory] = useState<AlertRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [testingId, setTestingId] = useState<number | null>(null);
+
+    const fetchAll = async () => {
+        setIsLoading(true);
+        try {
+            const [c, r, h] = await Promise.all([listAlertChannels(), listAlertRules(), getAlertHistory()]);
+            setChannels(c);
+            setRules(r);
+            setHistory(h);
+        } catch (error) {
+            toast.error("Failed to load alerts");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchAll();
+    }, []);
+
+    const handleTest = async (channel: AlertChannel) => {
+        setTestingId(channel.id);
+        try {
+            const res = await testAlertChannel(channel.id);
+            toast.success(res.message);
+        } catch (e) {
+            toast.error(`Test failed: ${errorMessage(e)}`);
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    const handleDeleteChannel = async (channel: AlertChannel) => {
+        if (!confirm(`Delete channel "${channel.name}"?`)) return;
+        try {
+            await deleteAlertChannel(channel.id);
+            fetchAll();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    const handleDeleteRule = async (rule: AlertRule) => {
+        if (!confirm(`Delete rule "${rule.name}"?`)) return;
+        try {
+            await deleteAlertRule(rule.id);
+            fetchAll();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    const channelName = (id: number) => channels.find(c => c.id === id)?.name ?? `#${id}`;
+
+    return (
+        <div className="container mx-auto py-8 space-y-8">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-3xl font-bold">Alerts</h1>
+                    <p className="text-muted-foreground">Notify webhooks, chat or email when services crash, restart, run hot or fail to deploy.</p>
+                </div>
+                <Button variant="outline" size="icon" onClick={fetchAll}>
+                    <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                </Button>
+            </div>
+
+            <section className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-semibold">Channels</h2>
+                    <ChannelDialog onSaved={fetchAll} />
+                </div>
+                <div className="border rounded-lg bg-card">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Name</TableHead>
+                                <TableHead>Type</TableHead>
+                                <TableHead>Target</TableHead>
+                                <TableHead className="w-[160px]">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {channels.length === 0 && !isLoading && (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                        No channels yet. Add one before creating rules.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {channels.map(channel => (
+                                <TableRow key={channel.id} className={channel.enabled ? "" : "opacity-50"}>
+                                    <TableCell className="font-medium">{channel.name}</TableCell>
+                                    <TableCell>{CHANNEL_TYPES[channel.type].label}</TableCell>
+                                    <TableCell className="font-mono text-xs max-w-[320px] truncate" title={channel.target}>{channel.target}</TableCell>
+                                    <TableCell>
+                                        <div className="flex gap-1">
+                                            <Button variant="outline" size="icon" title="Send test alert" onClick={() => handleTest(channel)} disabled={testingId !== null}>
+                                                {testingId === channel.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                                            </Button>
+                                            <ChannelDialog key={channel.id} channel={channel} onSaved={fetchAll} />
+                                            <Button variant="destructive" size="icon" onClick={() => handleDeleteChannel(channel)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </section>
+
+            <section className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-semibold">Rules</h2>
+                    <RuleDialog channels={channels} onSaved={fetchAll} />
+                </div>
+                <div className="border rounded-lg bg-card">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Name</TableHead>
+                                <TableHead>Service</TableHead>
+                                <TableHead>Trigger</TableHead>
+                                <TableHead>Channels</TableHead>
+                                <TableHead>Cooldown</TableHead>
+                                <TableHead className="w-[110px]">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rules.length === 0 && !isLoading && (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                                        No alert rules.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {rules.map(rule => (
+                                <TableRow key={rule.id} className={rule.enabled ? "" : "opacity-50"}>
+                                    <TableCell className="font-medium">{rule.name}</TableCell>
+                                    <TableCell className="font-mono text-xs">{rule.service === '*' ? 'all services' : rule.service}</TableCell>
+                                    <TableCell className="text-xs">{describeRule(rule)}</TableCell>
+                                    <TableCell className="text-xs">{rule.channels.map(channelName).join(', ')}</TableCell>
+                                    <TableCell className="text-xs">{formatSeconds(rule.cooldown_seconds)}</TableCell>
+                                    <TableCell>
+                                        <div className="flex gap-1">
+                                            <RuleDialog key={rule.id} rule={rule} channels={channels} onSaved={fetchAll} />
+                                            <Button variant="destructive" size="icon" onClick={() => handleDeleteRule(rule)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </section>
+
+            <section className="space-y-3">
+                <h2 className="text-xl font-semibold">Recent Alerts</h2>
+                <div className="border rounded-lg bg-card">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Time</TableHead>
+                                <TableHead>Rule</TableHead>
+                                <TableHead>Alert</TableHead>
+                                <TableHead>Delivery</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {history.length === 0 && !isLoading && (
+                                <TableRow>
+                                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                        Nothing has fired yet.
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {history.map(alert => (
+                                <TableRow key={alert.id}>
+                                    <TableCell className="text-xs whitespace-nowrap">{new Date(alert.created_at).toLocaleString()}</TableCell>
+                                    <TableCell className="text-xs">{alert.rule_name}</TableCell>
+                                    <TableCell className="max-w-[480px]">
+                                        <p className="font-medium text-sm">{alert.title}</p>
+                                        <p className="text-xs text-muted-foreground truncate" title={alert.message}>{alert.message}</p>
+                                        {alert.suppressed > 0 && (
+                                            <p className="text-xs text-muted-foreground italic">+{alert.suppressed} repeat{alert.suppressed !== 1 ? 's' : ''} suppressed</p>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        <div className="flex flex-wrap gap-1">
+                                            {alert.deliveries.map(d => (
+                                                <Badge key={d.channel} variant={d.ok ? 'outline' : 'destructive'} className="text-xs" title={d.error}>
+                                                    {d.channel}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </section>
+        </div>
+    );
+}
+
+const emptyChannel: AlertChannelInput = { name: '', type: 'webhook', target: '', enabled: true };
+
+function ChannelDialog({ channel, onSaved }: { channel?: AlertChannel; onSaved: () => void }) {
+    const initial = channel ? { name: channel.name, type: channel.type, target: channel.target, enabled: channel.enabled } : emptyChannel;
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<AlertChannelInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveAlertChannel(form, channel?.id);
+            toast.success(channel ? "Channel updated" : "Channel created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {channel ? (
+                    <Button variant="outline" size="icon" title="Edit channel"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Channel</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{channel ? 'Edit Channel' : 'Add Channel'}</DialogTitle>
+                    <DialogDescription>
+                        Email channels use the server's SMTP_* settings.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="channel-name">Name</Label>
+                            <Input id="channel-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="ops-slack" required />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Type</Label>
+                            <Select value={form.type} onValueChange={v => setForm({ ...form, type: v as AlertChannelType })}>
+                                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {Object.entries(CHANNEL_TYPES).map(([value, t]) => (
+                                        <SelectItem key={value} value={value}>{t.label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="channel-target">{form.type === 'smtp' ? 'Recipients' : 'Webhook URL'}</Label>
+                            <Input
+                                id="channel-target"
+                                className="font-mono text-xs"
+                                value={form.target}
+                                onChange={e => setForm({ ...form, target: e.target.value })}
+                                placeholder={CHANNEL_TYPES[form.type].placeholder}
+                                required
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm">
+                            <Switch checked={form.enabled} onCheckedChange={v => setForm({ ...form, enabled: v })} />
+                            Enabled
+                        </label>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+const emptyRule: AlertRuleInput = {
+    name: '', type: 'container_event', service: '*', events: ['die', 'oom'], threshold: null,
+    window_seconds: 0, cooldown_seconds: 900, channels: [], enabled: true,
+};
+
+// Sensible starting points when switching the trigger type
+const RULE_DEFAULTS: Record<AlertRuleType, Pick<AlertRuleInput, 'threshold' | 'window_seconds'>> = {
+    container_event: { threshold: null, window_seconds: 0 },
+    restart_count: { threshold: 3, window_seconds: 600 },
+    cpu: { threshold: 90, window_seconds: 300 },
+    memory: { threshold: 90, window_seconds: 300 },
+    deploy_failed: { threshold: null, window_seconds: 0 },
+    update_available: { threshold: null, window_seconds: 0 },
+};
+
+function RuleDialog({ rule, channels, onSaved }: { rule?: AlertRule; channels: AlertChannel[]; onSaved: () => void }) {
+    const initial: AlertRuleInput = rule ? {
+        name: rule.name, type: rule.type, service: rule.service, events: rule.events, threshold: rule.threshold,
+        window_seconds: rule.window_seconds, cooldown_seconds: rule.cooldown_seconds, channels: rule.channels, enabled: rule.enabled,
+    } : emptyRule;
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<AlertRuleInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const toggle = (list: (string | number)[], value: string | number, on: boolean) =>
+        on ? [...list, value] : list.filter(v => v !== value);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveAlertRule(form, rule?.id);
+            toast.success(rule ? "Rule updated" : "Rule created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const hasThreshold = form.type === 'restart_count' || form.type === 'cpu' || form.type === 'memory';
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {rule ? (
+                    <Button variant="outline" size="icon" title="Edit rule"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button disabled={channels.length === 0}><Plus className="mr-2 h-4 w-4" /> New Rule</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{rule ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+                    <DialogDescription>
+                        Repeats for the same service within the cooldown are recorded but not sent.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="rule-name">Name</Label>
+                                <Input id="rule-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="Crash loop" required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="rule-service">Service</Label>
+                                <Input id="rule-service" className="font-mono" value={form.service} onChange={e => setForm({ ...form, service: e.target.value })} placeholder="* for all" required />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Trigger</Label>
+                            <Select value={form.type} onValueChange={v => setForm({ ...form, type: v as AlertRuleType, ...RULE_DEFAULTS[v as AlertRuleType] })}>
+                                <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {Object.entries(RULE_TYPES).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        {form.type === 'container_event' && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {CONTAINER_EVENTS.map(ev => (
+                                    <label key={ev.value} className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={form.events.includes(ev.value)}
+                                            onCheckedChange={v => setForm({ ...form, events: toggle(form.events, ev.value, v === true) as string[] })}
+                                        />
+                                        {ev.label}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+
+                        {hasThreshold && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="rule-threshold">{form.type === 'restart_count' ? 'Restarts' : 'Threshold (%)'}</Label>
+                                    <Input
+                                        id="rule-threshold"
+                                        type="number"
+                                        min={1}
+                                        value={form.threshold ?? ''}
+                                        onChange={e => setForm({ ...form, threshold: e.target.value === '' ? null : Number(e.target.value) })}
+                                        required
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="rule-window">{form.type === 'restart_count' ? 'Within (seconds)' : 'Sustained for (seconds)'}</Label>
+                                    <Input
+                                        id="rule-window"
+                                        type="number"
+                                        min={form.type === 'restart_count' ? 1 : 0}
+                                        value={form.window_seconds}
+                                        onChange={e => setForm({ ...form, window_seconds: Number(e.target.value) })}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        {(form.type === 'cpu' || form.type === 'memory') && (
+                            <p className="text-xs text-muted-foreground -mt-2">
+                                Checked on every metrics sample. CPU is relative to the service's CPU limit, or one core without a limit.
+                            </p>
+                        )}
+
+                        <div className="space-y-2">
+                            <Label>Notify</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {channels.map(ch => (
+                                    <label key={ch.id} className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={form.channels.includes(ch.id)}
+                                            onCheckedChange={v => setForm({ ...form, channels: toggle(form.channels, ch.id, v === true) as number[] })}
+                                        />
+                                        {ch.name}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4 items-end">
+                            <div className="space-y-2">
+                                <Label htmlFor="rule-cooldown">Cooldown (seconds)</Label>
+                                <Input
+                                    id="rule-cooldown"
+                                    type="number"
+                                    min={0}
+                                    value={form.cooldown_seconds}
+                                    onChange={e => setForm({ ...form, cooldown_seconds: Number(e.target.value) })}
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm pb-2">
+                                <Switch checked={form.enabled} onCheckedChange={v => setForm({ ...form, enabled: v })} />
+                                Enabled
+                            </label>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
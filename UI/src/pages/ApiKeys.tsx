@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { listApiKeys, createApiKey, revokeApiKey } from '@/lib/api';
+import type { ApiKey } from '@/types';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2, RefreshCw, Copy, KeyRound } from "lucide-react";
+
+const formatTime = (ts: number | null) => ts ? new Date(ts).toLocaleString() : '—';
+
+export default function ApiKeys() {
+    const [keys, setKeys] = useState<ApiKey[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchKeys = async () => {
+        setIsLoading(true);
+        try {
+            setKeys(await listApiKeys());
+        } catch (error) {
+            toast.error("Failed to load API keys");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchKeys();
+    }, []);
+
+    const handleRevoke = async (key: ApiKey) => {
+        if (!confirm(`Revoke API key "${key.name}"? Anything using it will stop working.`)) return;
+        try {
+            await revokeApiKey(key.id);
+            toast.success("API key revoked");
+            fetchKeys();
+        } catch {
+            toast.error("Failed to revoke API key");
+        }
+    };
+
+    return (
+        <div className="container mx-auto py-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold">API Keys</h1>
+                    <p className="text-muted-foreground">Long-lived keys for CI jobs and scripts. Send as <span className="font-mono">Authorization: Bearer &lt;key&gt;</span></p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={fetchKeys}>
+                        <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                    </Button>
+                    <CreateKeyDialog onCreated={fetchKeys} />
+                </div>
+            </div>
+
+            <div className="border rounded-lg bg-card">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Key</TableHead>
+                            <TableHead>Created</TableHead>
+                            <TableHead>Last Used</TableHead>
+                            <TableHead className="w-[100px]">Actions</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {keys.length === 0 && !isLoading && (
+                            <TableRow>
+                                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                                    No API keys yet.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {keys.map((key) => (
+                            <TableRow key={key.id} className={key.revoked_at ? "opacity-50" : ""}>
+                                <TableCell className="font-medium">{key.name}</TableCell>
+                                <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                                <TableCell className="text-xs">{formatTime(key.created_at)}</TableCell>
+                                <TableCell className="text-xs">{formatTime(key.last_used_at)}</TableCell>
+                                <TableCell>
+                                    {key.revoked_at ? (
+                                        <span className="text-xs text-muted-foreground italic">Revoked</span>
+                                    ) : (
+                                        <Button variant="destructive" size="icon" onClick={() => handleRevoke(key)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
+
+function CreateKeyDialog({ onCreated }: { onCreated: () => void }) {
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState("");
+    const [createdKey, setCreatedKey] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (!next) {
+            setName("");
+            setCreatedKey(null);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            const { key } = await createApiKey(name);
+            setCreatedKey(key);
+            onCreated();
+        } catch {
+            toast.error("Failed to create API key");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const copyKey = async () => {
+        if (!createdKey) return;
+        await navigator.clipboard.writeText(createdKey);
+        toast.success('Copied to clipboard');
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button>
+                    <Plus className="mr-2 h-4 w-4" /> New Key
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Create API Key</DialogTitle>
+                    <DialogDescription>
+                        The key acts with your permissions. It is shown only once.
+                    </DialogDescription>
+                </DialogHeader>
+                {createdKey ? (
+                    <div className="space-y-4 py-4">
+                        <div className="flex items-center gap-2">
+                            <KeyRound className="h-4 w-4 text-primary shrink-0" />
+                            <Input readOnly value={createdKey} className="font-mono text-xs" />
+                            <Button variant="outline" size="icon" onClick={copyKey}>
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">Store it somewhere safe, e.g. a CI secret.</p>
+                        <DialogFooter>
+                            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+                        </DialogFooter>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit}>
+                        <div className="grid gap-4 py-4">
+                            <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="key-name" className="text-right">
+                                    Name
+                                </Label>
+                                <Input
+                                    id="key-name"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    className="col-span-3"
+                                    placeholder="github-actions"
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <Button type="submit" disabled={isSubmitting}>create key</Button>
+                        </DialogFooter>
+                    </form>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
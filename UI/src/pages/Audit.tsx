@@ -0,0 +1,173 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { getAuditEvents } from '@/lib/api';
+import type { AuditEvent } from '@/types';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { RefreshCw, ChevronDown, ChevronRight, ChevronLeft } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+export default function Audit() {
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [expanded, setExpanded] = useState<number | null>(null);
+
+    // Filters
+    const [actor, setActor] = useState("");
+    const [action, setAction] = useState("");
+    const [scope, setScope] = useState("");
+    const [result, setResult] = useState("all");
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+
+    // The filters in effect; edits to the fields above apply on submit
+    const [applied, setApplied] = useState<Record<string, string | number | undefined>>({});
+
+    const fetchEvents = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const data = await getAuditEvents({ ...applied, page, limit: PAGE_SIZE });
+            setEvents(data.events);
+            setTotal(data.total);
+        } catch (error) {
+            toast.error("Failed to load audit log");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [applied, page]);
+
+    useEffect(() => {
+        fetchEvents();
+    }, [fetchEvents]);
+
+    const applyFilters = () => {
+        setApplied({
+            actor: actor || undefined,
+            action: action || undefined,
+            scope: scope || undefined,
+            result: result === 'all' ? undefined : result,
+            from: from ? new Date(from).getTime() : undefined,
+            to: to ? new Date(to).getTime() : undefined,
+        });
+        setPage(1);
+    };
+
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return (
+        <div className="container mx-auto py-8">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold">Audit Log</h1>
+                    <p className="text-muted-foreground">Every mutating action, who did it and whether it worked</p>
+                </div>
+                <Button variant="outline" size="icon" onClick={() => fetchEvents()}>
+                    <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                </Button>
+            </div>
+
+            <form
+                className="grid grid-cols-2 md:grid-cols-7 gap-2 mb-4"
+                onSubmit={(e) => { e.preventDefault(); applyFilters(); }}
+            >
+                <Input placeholder="Actor" value={actor} onChange={e => setActor(e.target.value)} />
+                <Input placeholder="Action (e.g. service.)" value={action} onChange={e => setAction(e.target.value)} />
+                <Input placeholder="Scope (e.g. service:api)" value={scope} onChange={e => setScope(e.target.value)} />
+                <Select value={result} onValueChange={setResult}>
+                    <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Result" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All results</SelectItem>
+                        <SelectItem value="success">Success</SelectItem>
+                        <SelectItem value="failure">Failure</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Input type="datetime-local" value={from} onChange={e => setFrom(e.target.value)} title="From" />
+                <Input type="datetime-local" value={to} onChange={e => setTo(e.target.value)} title="To" />
+                <Button type="submit" variant="secondary">Apply</Button>
+            </form>
+
+            <div className="border rounded-lg bg-card">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-[30px]"></TableHead>
+                            <TableHead>Time</TableHead>
+                            <TableHead>Actor</TableHead>
+                            <TableHead>Action</TableHead>
+                            <TableHead>Scope</TableHead>
+                            <TableHead>Result</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {events.length === 0 && !isLoading && (
+                            <TableRow>
+                                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                                    No audit events found.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {events.map((event) => (
+                            <Fragment key={event.id}>
+                                <TableRow className="cursor-pointer" onClick={() => setExpanded(expanded === event.id ? null : event.id)}>
+                                    <TableCell>
+                                        {expanded === event.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                    </TableCell>
+                                    <TableCell className="text-xs whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</TableCell>
+                                    <TableCell className="font-medium">{event.actor}</TableCell>
+                                    <TableCell className="font-mono text-xs">{event.action}</TableCell>
+                                    <TableCell className="font-mono text-xs">{event.scope}</TableCell>
+                                    <TableCell>
+                                        <Badge
+                                            variant="outline"
+                                            className={event.result === 'success'
+                                                ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+                                                : 'bg-red-500/10 text-red-500 border-red-500/20'}
+                                        >
+                                            {event.result}
+                                        </Badge>
+                                    </TableCell>
+                                </TableRow>
+                                {expanded === event.id && (
+                                    <TableRow>
+                                        <TableCell colSpan={6} className="bg-muted/20">
+                                            {event.error && <p className="text-xs text-red-500 mb-2 whitespace-pre-wrap">{event.error}</p>}
+                                            <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                                                {event.payload ? JSON.stringify(event.payload, null, 2) : 'No details'}
+                                            </pre>
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                            </Fragment>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+
+            <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+                <span>{total} event{total !== 1 ? 's' : ''}</span>
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" disabled={page <= 1 || isLoading} onClick={() => setPage(page - 1)}>
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span>Page {page} of {totalPages}</span>
+                    <Button variant="outline" size="icon" disabled={page >= totalPages || isLoading} onClick={() => setPage(page + 1)}>
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
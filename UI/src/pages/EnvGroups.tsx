@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import {
+    listEnvGroups, saveEnvGroup, deleteEnvGroup, restartEnvGroupServices,
+    type EnvGroupInput
+} from '@/lib/api';
+import type { EnvGroup } from '@/types';
+import { EnvEditor } from '@/components/EnvEditor';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2, RefreshCw, RotateCw, Pencil, Loader2 } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+const keyCount = (content = '') => content.split('\n').filter(line => /^\s*[A-Za-z_][A-Za-z0-9_]*=/.test(line)).length;
+
+export default function EnvGroups() {
+    const [groups, setGroups] = useState<EnvGroup[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [restartPrompt, setRestartPrompt] = useState<EnvGroup | null>(null);
+
+    const fetchGroups = async () => {
+        setIsLoading(true);
+        try {
+            setGroups(await listEnvGroups());
+        } catch (error) {
+            toast.error("Failed to load env groups");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchGroups();
+    }, []);
+
+    const handleSaved = (group: EnvGroup) => {
+        fetchGroups();
+        if (group.services?.length) setRestartPrompt(group);
+    };
+
+    const handleDelete = async (group: EnvGroup) => {
+        if (!confirm(`Delete env group "${group.name}"?`)) return;
+        try {
+            await deleteEnvGroup(group.id);
+            fetchGroups();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="container mx-auto py-8 space-y-8">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-3xl font-bold">Env Groups</h1>
+                    <p className="text-muted-foreground">
+                        Env values shared by several services. A service's own .env overrides its groups; of two groups, the one attached later wins.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={fetchGroups}>
+                        <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                    </Button>
+                    <GroupDialog onSaved={handleSaved} />
+                </div>
+            </div>
+
+            <div className="border rounded-lg bg-card">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Keys</TableHead>
+                            <TableHead>Used by</TableHead>
+                            <TableHead>Updated</TableHead>
+                            <TableHead className="w-[160px]">Actions</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {groups.length === 0 && !isLoading && (
+                            <TableRow>
+                                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                                    No env groups yet. Attach one to a service from its configuration tab.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {groups.map(group => (
+                            <TableRow key={group.id}>
+                                <TableCell>
+                                    <p className="font-medium font-mono">{group.name}</p>
+                                    {group.description && <p className="text-xs text-muted-foreground">{group.description}</p>}
+                                </TableCell>
+                                <TableCell className="text-xs">{keyCount(group.content)}</TableCell>
+                                <TableCell>
+                                    <div className="flex flex-wrap gap-1">
+                                        {group.services?.length ? group.services.map(s => (
+                                            <Badge key={s} variant="outline" className="text-xs">{s}</Badge>
+                                        )) : <span className="text-xs text-muted-foreground">—</span>}
+                                    </div>
+                                </TableCell>
+                                <TableCell className="text-xs whitespace-nowrap">
+                                    {group.updated_at && new Date(group.updated_at).toLocaleString()}
+                                    {group.updated_by && <p className="text-muted-foreground">{group.updated_by}</p>}
+                                </TableCell>
+                                <TableCell>
+                                    <div className="flex gap-1">
+                                        <Button variant="outline" size="icon" title="Restart services using it" onClick={() => setRestartPrompt(group)} disabled={!group.services?.length}>
+                                            <RotateCw className="h-4 w-4" />
+                                        </Button>
+                                        <GroupDialog key={group.id} group={group} onSaved={handleSaved} />
+                                        <Button variant="destructive" size="icon" onClick={() => handleDelete(group)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+
+            {restartPrompt && <RestartDialog group={restartPrompt} onClose={() => setRestartPrompt(null)} />}
+        </div>
+    );
+}
+
+function GroupDialog({ group, onSaved }: { group?: EnvGroup; onSaved: (group: EnvGroup) => void }) {
+    const initial: EnvGroupInput = { name: group?.name ?? '', description: group?.description ?? null, content: group?.content ?? '' };
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<EnvGroupInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            const res = await saveEnvGroup(form, group?.id);
+            toast.success(group ? "Env group updated" : "Env group created");
+            setOpen(false);
+            onSaved(res.group);
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {group ? (
+                    <Button variant="outline" size="icon" title="Edit group"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Group</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{group ? `Edit ${group.name}` : 'New Env Group'}</DialogTitle>
+                    <DialogDescription>
+                        {group?.services?.length
+                            ? `Used by ${group.services.join(', ')}. They pick up changes on their next restart.`
+                            : 'Secret references like ${secret:name} resolve against each service\'s own secrets.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="group-name">Name</Label>
+                                <Input
+                                    id="group-name"
+                                    className="font-mono"
+                                    value={form.name}
+                                    onChange={e => setForm({ ...form, name: e.target.value })}
+                                    placeholder="smtp"
+                                    disabled={!!group?.services?.length}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="group-description">Description</Label>
+                                <Input id="group-description" value={form.description ?? ''} onChange={e => setForm({ ...form, description: e.target.value || null })} />
+                            </div>
+                        </div>
+                        <EnvEditor value={form.content} onChange={content => setForm(prev => ({ ...prev, content }))} disabled={isSubmitting} />
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function RestartDialog({ group, onClose }: { group: EnvGroup; onClose: () => void }) {
+    const services = group.services ?? [];
+    const [selected, setSelected] = useState<Set<string>>(new Set(services));
+    const [restarting, setRestarting] = useState(false);
+
+    const toggle = (service: string, on: boolean) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (on) next.add(service); else next.delete(service);
+            return next;
+        });
+    };
+
+    const handleRestart = async () => {
+        setRestarting(true);
+        try {
+            const { results } = await restartEnvGroupServices(group.id, [...selected]);
+            for (const r of results) {
+                if (r.status === 'restarted') toast.success(`${r.service}: restarted`);
+                else toast.error(`${r.service}: ${r.error}`);
+            }
+            onClose();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        } finally {
+            setRestarting(false);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={open => !open && onClose()}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Restart services using {group.name}?</DialogTitle>
+                    <DialogDescription>
+                        Containers only read their environment when they are created. Selected services are recreated one at a time.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2 py-2">
+                    {services.map(service => (
+                        <label key={service} className="flex items-center gap-2 text-sm">
+                            <Checkbox checked={selected.has(service)} onCheckedChange={v => toggle(service, v === true)} />
+                            <span className="font-mono">{service}</span>
+                        </label>
+                    ))}
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose} disabled={restarting}>Later</Button>
+                    <Button onClick={handleRestart} disabled={restarting || selected.size === 0}>
+                        {restarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />}
+                        Restart {selected.size} service{selected.size !== 1 ? 's' : ''}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
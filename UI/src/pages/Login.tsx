@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import axios from 'axios';
 import { useAuth } from '@/lib/auth-context';
 import { useNavigate } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
@@ -6,39 +7,194 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { getStoredServerUrl } from '@/lib/api';
-import { HelpCircle } from 'lucide-react';
+import { getSsoConfig, getStoredServerUrl, setApiConfig, ssoLoginUrl, startTwoFactorEnrollment } from '@/lib/api';
+import { TotpEnrollment } from '@/components/TotpEnrollment';
+import { RecoveryCodes } from '@/components/RecoveryCodes';
+import type { SsoConfig, TwoFactorChallenge, TwoFactorSetup } from '@/types';
+import { HelpCircle, KeyRound, ShieldCheck } from 'lucide-react';
 
 export default function Login() {
-    const { login, isAuthenticated } = useAuth();
+    const { login, completeTwoFactor, completeSso, isAuthenticated } = useAuth();
     const navigate = useNavigate();
 
     const [serverUrl, setServerUrl] = useState(getStoredServerUrl() || 'http://localhost:8080');
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [sso, setSso] = useState<SsoConfig | null>(null);
+    const ssoHandled = useRef(false); // The code is single-use; StrictMode runs effects twice
+    // Second login step, after the password was accepted
+    const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const holdRedirect = useRef(false); // Stay here after enrolling until the recovery codes are saved
 
     useEffect(() => {
-        if (isAuthenticated) {
+        if (isAuthenticated && !holdRedirect.current) {
             navigate('/', { replace: true });
         }
     }, [isAuthenticated, navigate]);
 
+    // Back from the identity provider: the server put a one-time code or an error in the fragment
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.hash.slice(1));
+        const code = params.get('sso_code');
+        const error = params.get('sso_error');
+        if ((!code && !error) || ssoHandled.current) return;
+        ssoHandled.current = true;
+        window.history.replaceState(null, '', window.location.pathname);
+        if (error) {
+            toast.error(`SSO login failed: ${error}`);
+            return;
+        }
+        completeSso(getStoredServerUrl(), code!)
+            .then(() => {
+                toast.success("Logged in successfully");
+                navigate('/', { replace: true });
+            })
+            .catch((e: Error) => toast.error(e.message || "SSO login failed"));
+    }, [completeSso, navigate]);
+
+    // Whether this server offers SSO; waits for typing in the URL field to pause
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            getSsoConfig(serverUrl)
+                .then(config => !cancelled && setSso(config.enabled ? config : null))
+                .catch(() => !cancelled && setSso(null));
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [serverUrl]);
+
+    const handleSso = () => {
+        // The server URL has to survive the round trip to the identity provider
+        setApiConfig(serverUrl);
+        window.location.href = ssoLoginUrl(serverUrl, `${window.location.origin}/login`);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
         try {
-            await login(serverUrl, username, password);
+            const next = await login(serverUrl, username, password);
+            if (next) {
+                if (next.two_factor === 'enroll') setSetup(await startTwoFactorEnrollment(serverUrl, next.challenge));
+                setChallenge(next);
+                return;
+            }
             toast.success("Logged in successfully");
             navigate('/', { replace: true });
-        } catch (error: any) {
+        } catch (error) {
             console.error(error);
-            toast.error(error.message || "Failed to login");
+            const message = axios.isAxiosError(error) ? error.response?.data?.error || error.message : (error as Error).message;
+            toast.error(message || "Failed to login");
         } finally {
             setIsLoading(false);
         }
     };
 
+    const backToPassword = () => {
+        setChallenge(null);
+        setSetup(null);
+        setCode('');
+        setPassword('');
+    };
+
+    const handleCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!challenge) return;
+        setIsLoading(true);
+        holdRedirect.current = challenge.two_factor === 'enroll';
+        try {
+            const codes = await completeTwoFactor(serverUrl, challenge.challenge, code);
+            if (codes) {
+                setRecoveryCodes(codes);
+                return;
+            }
+            toast.success("Logged in successfully");
+            navigate('/', { replace: true });
+        } catch (e) {
+            holdRedirect.current = false;
+            const message = (e as Error).message || "Verification failed";
+            toast.error(message);
+            setCode('');
+            // Expired, or out of attempts: the password has to be entered again
+            if (/sign in again/i.test(message)) backToPassword();
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (recoveryCodes) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-background p-4">
+                <Card className="w-full max-w-md">
+                    <CardHeader>
+                        <CardTitle className="text-2xl">Save your recovery codes</CardTitle>
+                        <CardDescription>Two-factor authentication is now on for your account.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <RecoveryCodes codes={recoveryCodes} />
+                    </CardContent>
+                    <CardFooter>
+                        <Button className="w-full" onClick={() => navigate('/', { replace: true })}>
+                            I saved them, continue
+                        </Button>
+                    </CardFooter>
+                </Card>
+            </div>
+        );
+    }
+
+    if (challenge) {
+        const enrolling = challenge.two_factor === 'enroll';
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-background p-4">
+                <Card className="w-full max-w-md">
+                    <CardHeader>
+                        <CardTitle className="text-2xl flex items-center gap-2">
+                            <ShieldCheck className="h-6 w-6" /> Two-factor authentication
+                        </CardTitle>
+                        <CardDescription>
+                            {enrolling
+                                ? "Your account requires a second factor. Set up an authenticator app to continue."
+                                : "Enter the code from your authenticator app, or one of your recovery codes."}
+                        </CardDescription>
+                    </CardHeader>
+                    <form onSubmit={handleCode}>
+                        <CardContent className="space-y-4">
+                            {setup && <TotpEnrollment setup={setup} />}
+                            <div className="space-y-2">
+                                <Label htmlFor="code">{enrolling ? "Code from the app" : "Code"}</Label>
+                                <Input
+                                    id="code"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    required
+                                    autoFocus
+                                    autoComplete="one-time-code"
+                                    placeholder={enrolling ? "123456" : "123456 or xxxxx-xxxxx"}
+                                />
+                            </div>
+                        </CardContent>
+                        <CardFooter className="flex-col gap-3">
+                            <Button type="submit" className="w-full mt-2" disabled={isLoading}>
+                                {isLoading ? "Verifying..." : enrolling ? "Turn on and log in" : "Verify"}
+                            </Button>
+                            <Button type="button" variant="ghost" className="w-full" disabled={isLoading} onClick={backToPassword}>
+                                Back
+                            </Button>
+                        </CardFooter>
+                    </form>
+                </Card>
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-background p-4">
             <Card className="w-full max-w-md">
@@ -89,10 +245,20 @@ export default function Login() {
                             />
                         </div>
                     </CardContent>
-                    <CardFooter>
+                    <CardFooter className="flex-col gap-3">
                         <Button type="submit" className="w-full mt-2" disabled={isLoading}>
                             {isLoading ? "Logging in..." : "Login"}
                         </Button>
+                        {sso && (
+                            <>
+                                <div className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+                                    <div className="h-px flex-1 bg-border" /> or <div className="h-px flex-1 bg-border" />
+                                </div>
+                                <Button type="button" variant="outline" className="w-full" disabled={isLoading} onClick={handleSso}>
+                                    <KeyRound className="mr-2 h-4 w-4" /> Sign in with {sso.label}
+                                </Button>
+                            </>
+                        )}
                     </CardFooter>
                 </form>
             </Card>
@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { applyStagedChanges, discardStagedChanges, getPendingChanges } from '@/lib/api';
+import type { ApplyStrategy, StagedChanges } from '@/types';
+import { EnvDiff } from '@/components/EnvEditor';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CalendarClock, Loader2, Play, RefreshCw, Trash2 } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+const STRATEGIES: Record<ApplyStrategy, string> = {
+    recreate: 'Recreate now',
+    'blue-green': 'Blue/green now',
+    scheduled: 'Schedule',
+};
+
+const formatValue = (value: unknown) => value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+// datetime-local wants local time without a zone
+const localInputValue = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
+export default function PendingChanges() {
+    const [pending, setPending] = useState<StagedChanges[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [strategy, setStrategy] = useState<ApplyStrategy>('recreate');
+    const [scheduleAt, setScheduleAt] = useState(() => localInputValue(new Date(Date.now() + 3600_000)));
+    const [applying, setApplying] = useState(false);
+
+    const fetchPending = async () => {
+        setIsLoading(true);
+        try {
+            const data = await getPendingChanges();
+            setPending(data);
+            setSelected(prev => new Set([...prev].filter(name => data.some(p => p.service === name))));
+        } catch (error) {
+            toast.error("Failed to load pending changes");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchPending();
+    }, []);
+
+    const toggle = (service: string, on: boolean) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (on) next.add(service); else next.delete(service);
+            return next;
+        });
+    };
+
+    const apply = async (services: string[], at?: number | null) => {
+        setApplying(true);
+        try {
+            const { results } = await applyStagedChanges(services, at === undefined ? strategy : 'scheduled', at);
+            for (const r of results) {
+                if (r.status === 'failed' || r.status === 'skipped') toast.error(`${r.service}: ${r.error}`);
+                else toast.success(`${r.service}: ${r.status}${r.revision ? ` (revision #${r.revision})` : ''}`);
+            }
+            fetchPending();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    const handleApplySelected = () => {
+        const services = [...selected];
+        if (strategy === 'scheduled') {
+            const at = new Date(scheduleAt).getTime();
+            if (!Number.isFinite(at)) {
+                toast.error("Pick a time to schedule the apply");
+                return;
+            }
+            apply(services, at);
+            return;
+        }
+        if (!confirm(`Apply staged changes to ${services.join(', ')} now? Each service is restarted in turn.`)) return;
+        apply(services);
+    };
+
+    const handleDiscard = async (service: string) => {
+        if (!confirm(`Discard staged changes for ${service}?`)) return;
+        try {
+            await discardStagedChanges(service);
+            fetchPending();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    const applicable = pending.filter(p => p.canApply);
+
+    return (
+        <div className="container mx-auto py-8 space-y-8">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-3xl font-bold">Pending Changes</h1>
+                    <p className="text-muted-foreground">
+                        Env and configuration changes that were staged without restarting. Apply them per service or in bulk.
+                    </p>
+                </div>
+                <Button variant="outline" size="icon" onClick={fetchPending}>
+                    <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                </Button>
+            </div>
+
+            {applicable.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-card p-4">
+                    <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                            checked={selected.size > 0 && selected.size === applicable.length}
+                            onCheckedChange={v => setSelected(v === true ? new Set(applicable.map(p => p.service)) : new Set())}
+                        />
+                        Select all
+                    </label>
+                    <Select value={strategy} onValueChange={v => setStrategy(v as ApplyStrategy)}>
+                        <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(STRATEGIES).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {strategy === 'scheduled' && (
+                        <Input type="datetime-local" className="w-auto" value={scheduleAt} onChange={e => setScheduleAt(e.target.value)} />
+                    )}
+                    <Button onClick={handleApplySelected} disabled={applying || selected.size === 0}>
+                        {applying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : strategy === 'scheduled' ? <CalendarClock className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                        {strategy === 'scheduled' ? 'Schedule' : 'Apply'} {selected.size} service{selected.size !== 1 ? 's' : ''}
+                    </Button>
+                    {strategy === 'blue-green' && (
+                        <p className="text-xs text-muted-foreground w-full">Blue/green needs a domain; services without one fail and stay staged.</p>
+                    )}
+                    {strategy === 'scheduled' && (
+                        <p className="text-xs text-muted-foreground w-full">Scheduled applies use each service's own update strategy.</p>
+                    )}
+                </div>
+            )}
+
+            {pending.length === 0 && !isLoading && (
+                <p className="text-center py-8 text-muted-foreground">No staged changes.</p>
+            )}
+
+            <div className="space-y-4">
+                {pending.map(p => (
+                    <div key={p.service} className="rounded-lg border bg-card p-4 space-y-3">
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="flex items-start gap-3">
+                                {p.canApply && (
+                                    <Checkbox className="mt-1" checked={selected.has(p.service)} onCheckedChange={v => toggle(p.service, v === true)} />
+                                )}
+                                <div className="space-y-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-semibold">{p.service}</span>
+                                        {p.hasEnv && <Badge variant="outline" className="text-xs">Env</Badge>}
+                                        {p.hasConfig && <Badge variant="outline" className="text-xs">Config</Badge>}
+                                        {p.scheduled_at && (
+                                            <Badge variant="outline" className="text-xs bg-blue-500/10 text-blue-500 border-blue-500/20">
+                                                Scheduled {new Date(p.scheduled_at).toLocaleString()}
+                                            </Badge>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        Staged by {p.staged_by}, {new Date(p.updated_at).toLocaleString()}
+                                        {p.scheduled_by && p.scheduled_at && <> • scheduled by {p.scheduled_by}</>}
+                                    </p>
+                                    {p.error && <p className="text-xs text-red-500">Last apply failed: {p.error}</p>}
+                                </div>
+                            </div>
+                            <div className="flex gap-1">
+                                {p.canApply && p.scheduled_at && (
+                                    <Button variant="outline" size="sm" onClick={() => apply([p.service], null)} disabled={applying}>
+                                        Cancel schedule
+                                    </Button>
+                                )}
+                                <Button variant="destructive" size="icon" title="Discard" onClick={() => handleDiscard(p.service)}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+
+                        {p.envChanges && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-medium text-muted-foreground">Environment</p>
+                                <EnvDiff changes={p.envChanges} />
+                            </div>
+                        )}
+                        {p.configChanges && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-medium text-muted-foreground">Configuration</p>
+                                {Object.keys(p.configChanges).length === 0 ? (
+                                    <p className="text-xs text-muted-foreground py-2">No changes</p>
+                                ) : (
+                                    <div className="rounded-md border divide-y font-mono text-xs">
+                                        {Object.entries(p.configChanges).map(([key, change]) => (
+                                            <div key={key} className="flex gap-2 px-3 py-1.5">
+                                                <span className="font-medium shrink-0">{key}</span>
+                                                <span className="text-muted-foreground break-all">
+                                                    <span className="line-through">{formatValue(change.from)}</span> → <span className="text-foreground">{formatValue(change.to)}</span>
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
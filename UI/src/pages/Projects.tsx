@@ -0,0 +1,393 @@
+import { useEffect, useState } from 'react';
+import {
+    apiClient, listProjects, saveProject, deleteProject, listProjectMembers, addProjectMember,
+    updateProjectMember, removeProjectMember, listRoles, type ProjectInput
+} from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import type { Permission, Project, ProjectMember, Role, Service, User } from '@/types';
+import { GrantList } from '@/components/GrantList';
+import { describePermission } from '@/lib/utils';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { FolderKanban, Loader2, Pencil, Plus, RefreshCw, Shield, Trash2, UserPlus } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+export default function Projects() {
+    const { isAdmin } = useAuth();
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchProjects = async () => {
+        setIsLoading(true);
+        try {
+            const [projects, roles] = await Promise.all([listProjects(), listRoles()]);
+            // Only the projects this user administers come with admins and members
+            setProjects(projects.filter(p => p.admins));
+            setRoles(roles);
+        } catch (error) {
+            toast.error("Failed to load projects");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchProjects();
+    }, []);
+
+    const handleDelete = async (project: Project) => {
+        if (!confirm(`Delete project "${project.name}"? Its services stay; grants on project:${project.name} are removed.`)) return;
+        try {
+            await deleteProject(project.id);
+            toast.success("Project deleted");
+            fetchProjects();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="container mx-auto py-8 space-y-8">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-3xl font-bold">Projects</h1>
+                    <p className="text-muted-foreground">
+                        Services grouped under project admins, who invite members and grant them permissions within the project.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={fetchProjects}>
+                        <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                    </Button>
+                    {isAdmin && <ProjectDialog onSaved={fetchProjects} />}
+                </div>
+            </div>
+
+            {projects.length === 0 && !isLoading && (
+                <div className="border rounded-lg bg-card py-12 text-center text-muted-foreground">
+                    {isAdmin ? 'No projects yet.' : 'You don\'t administer any project.'}
+                </div>
+            )}
+
+            {projects.map(project => (
+                <div key={project.id} className="border rounded-lg bg-card p-6 space-y-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div className="space-y-2">
+                            <h2 className="text-xl font-semibold flex items-center gap-2">
+                                <FolderKanban className="h-5 w-5 text-primary" /> {project.name}
+                            </h2>
+                            {project.description && <p className="text-sm text-muted-foreground">{project.description}</p>}
+                            <div className="flex flex-wrap items-center gap-1 text-xs">
+                                <span className="text-muted-foreground mr-1">Services</span>
+                                {project.services.length ? project.services.map(s => (
+                                    <Badge key={s} variant="outline" className="font-mono text-xs">{s}</Badge>
+                                )) : <span className="text-muted-foreground">—</span>}
+                            </div>
+                        </div>
+                        {isAdmin && (
+                            <div className="flex gap-2">
+                                <ProjectDialog key={project.id} project={project} onSaved={fetchProjects} />
+                                <Button variant="destructive" size="icon" onClick={() => handleDelete(project)}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                    <ProjectMembers project={project} roles={roles} />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function ProjectMembers({ project, roles }: { project: Project, roles: Role[] }) {
+    const [members, setMembers] = useState<ProjectMember[]>([]);
+
+    const fetchMembers = async () => {
+        try {
+            setMembers(await listProjectMembers(project.id));
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    useEffect(() => {
+        listProjectMembers(project.id).then(setMembers).catch(e => toast.error(errorMessage(e)));
+    }, [project]);
+
+    const handleRemove = async (member: ProjectMember) => {
+        if (!confirm(`Remove ${member.username} from ${project.name}? Their grants in the project go too.`)) return;
+        try {
+            await removeProjectMember(project.id, member.username);
+            toast.success("Member removed");
+            fetchMembers();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">Members</h3>
+                <MemberDialog project={project} roles={roles} onSaved={fetchMembers} />
+            </div>
+            <div className="border rounded-lg">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>User</TableHead>
+                            <TableHead>Permissions in the project</TableHead>
+                            <TableHead className="w-[100px]"></TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {members.map(member => (
+                            <TableRow key={member.username}>
+                                <TableCell className="font-medium">
+                                    <span className="flex items-center gap-2">
+                                        {member.username}
+                                        {member.is_admin && <Badge variant="secondary" className="text-xs"><Shield className="mr-1 h-3 w-3" /> Project admin</Badge>}
+                                    </span>
+                                </TableCell>
+                                <TableCell>
+                                    <div className="flex flex-wrap gap-1">
+                                        {member.is_admin && <span className="text-xs text-muted-foreground">Every service action</span>}
+                                        {!member.is_admin && member.permissions.length === 0 && <span className="text-muted-foreground italic text-sm">No permissions</span>}
+                                        {member.permissions.map((p, idx) => (
+                                            <span key={idx} className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${p.effect === 'deny' ? 'bg-red-500/10 text-red-500' : 'bg-secondary text-secondary-foreground'}`}>
+                                                {describePermission(p)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <div className="flex gap-2">
+                                        <MemberDialog project={project} roles={roles} member={member} onSaved={fetchMembers} />
+                                        {!member.is_admin && (
+                                            <Button variant="destructive" size="icon" onClick={() => handleRemove(member)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                    </div>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
+
+// Invites a member (creating the account when a password is given) or edits a member's grants
+function MemberDialog({ project, roles, member, onSaved }: { project: Project, roles: Role[], member?: ProjectMember, onSaved: () => void }) {
+    const [open, setOpen] = useState(false);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [permissions, setPermissions] = useState<Permission[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (!next) return;
+        setUsername(member?.username ?? '');
+        setPassword('');
+        setPermissions(member?.permissions ?? [{ scope: `project:${project.name}`, role: roles.find(r => r.name === 'viewer')?.name ?? roles[0]?.name }]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            if (member) {
+                await updateProjectMember(project.id, member.username, permissions);
+                toast.success("Permissions updated");
+            } else {
+                await addProjectMember(project.id, { username, password: password || undefined, permissions });
+                toast.success(`${username} added to ${project.name}`);
+            }
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {member ? (
+                    <Button variant="ghost" size="icon" title="Edit permissions"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button variant="outline" size="sm"><UserPlus className="mr-2 h-4 w-4" /> Invite</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>{member ? `${member.username} in ${project.name}` : `Invite to ${project.name}`}</DialogTitle>
+                    <DialogDescription>
+                        Grants here are limited to <span className="font-mono">project:{project.name}</span> and the project's services.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        {!member && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="member-username">Username</Label>
+                                    <Input id="member-username" value={username} onChange={e => setUsername(e.target.value)} required />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="member-password">Password</Label>
+                                    <Input id="member-password" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="Only for new accounts" />
+                                </div>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label>Permissions</Label>
+                            <GrantList permissions={permissions} roles={roles} onChange={setPermissions} defaultScope={`project:${project.name}`} />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {member ? 'Save' : 'Invite'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+// Admins only: name, services and project admins
+function ProjectDialog({ project, onSaved }: { project?: Project, onSaved: () => void }) {
+    const initial: ProjectInput = {
+        name: project?.name ?? '',
+        description: project?.description ?? null,
+        services: project?.services ?? [],
+        admins: project?.admins ?? [],
+    };
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<ProjectInput>(initial);
+    const [serviceNames, setServiceNames] = useState<string[]>([]);
+    const [usernames, setUsernames] = useState<string[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = async (next: boolean) => {
+        setOpen(next);
+        if (!next) return;
+        setForm(initial);
+        try {
+            const [services, users] = await Promise.all([apiClient.get<Service[]>('/services'), apiClient.get<User[]>('/api/users')]);
+            setServiceNames(services.data.map(s => s.name));
+            setUsernames(users.data.map(u => u.username));
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    const toggle = (key: 'services' | 'admins', value: string, on: boolean) => {
+        setForm(prev => ({ ...prev, [key]: on ? [...prev[key], value] : prev[key].filter(v => v !== value) }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveProject(form, project?.id);
+            toast.success(project ? "Project updated" : "Project created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const allServices = [...new Set([...serviceNames, ...form.services])].sort();
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {project ? (
+                    <Button variant="outline" size="icon" title="Edit project"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Project</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>{project ? `Edit ${project.name}` : 'New Project'}</DialogTitle>
+                    <DialogDescription>A service belongs to one project at most; picking it here moves it out of any other.</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="project-name">Name</Label>
+                                <Input id="project-name" className="font-mono" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="alumni" required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="project-description">Description</Label>
+                                <Input id="project-description" value={form.description ?? ''} onChange={e => setForm({ ...form, description: e.target.value || null })} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Services</Label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {allServices.length === 0 && <span className="text-xs text-muted-foreground">No services yet.</span>}
+                                {allServices.map(name => (
+                                    <label key={name} className="flex items-center gap-2 text-sm">
+                                        <Checkbox checked={form.services.includes(name)} onCheckedChange={v => toggle('services', name, v === true)} />
+                                        <span className="font-mono">{name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Project admins</Label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {usernames.length === 0 && <span className="text-xs text-muted-foreground">No users yet.</span>}
+                                {usernames.map(name => (
+                                    <label key={name} className="flex items-center gap-2 text-sm">
+                                        <Checkbox checked={form.admins.includes(name)} onCheckedChange={v => toggle('admins', name, v === true)} />
+                                        <span className="font-mono">{name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import {
+    listRegistryCredentials, saveRegistryCredential, deleteRegistryCredential, testRegistryCredential,
+    type RegistryCredentialInput
+} from '@/lib/api';
+import type { RegistryCredential, RegistryType } from '@/types';
+import {
+    Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from "@/components/ui/table";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue
+} from "@/components/ui/select";
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Plus, Trash2, RefreshCw, PlugZap, Pencil, Loader2 } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+const REGISTRY_TYPES: Record<RegistryType, { label: string; host: string; password: string }> = {
+    ghcr: { label: 'GitHub Container Registry', host: 'ghcr.io', password: 'GitHub token (read:packages)' },
+    dockerhub: { label: 'Docker Hub', host: 'docker.io', password: 'Password or access token' },
+    oci: { label: 'OCI registry (v2 API)', host: 'registry.example.com', password: 'Password or token' },
+};
+
+export default function Registries() {
+    const [credentials, setCredentials] = useState<RegistryCredential[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [testingId, setTestingId] = useState<number | null>(null);
+
+    const fetchCredentials = async () => {
+        setIsLoading(true);
+        try {
+            setCredentials(await listRegistryCredentials());
+        } catch (error) {
+            toast.error("Failed to load registry credentials");
+            console.error(error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchCredentials();
+    }, []);
+
+    const handleTest = async (credential: RegistryCredential) => {
+        setTestingId(credential.id);
+        try {
+            const res = await testRegistryCredential(credential.id);
+            toast.success(res.message);
+        } catch (e) {
+            toast.error(`Login failed: ${errorMessage(e)}`);
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    const handleDelete = async (credential: RegistryCredential) => {
+        if (!confirm(`Delete credential "${credential.name}"?`)) return;
+        try {
+            await deleteRegistryCredential(credential.id);
+            fetchCredentials();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="container mx-auto py-8 space-y-8">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-3xl font-bold">Registries</h1>
+                    <p className="text-muted-foreground">
+                        Logins for pulling private images and checking for updates. Picked by image host (and namespace), or per service.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={fetchCredentials}>
+                        <RefreshCw className={isLoading ? "animate-spin" : ""} />
+                    </Button>
+                    <CredentialDialog onSaved={fetchCredentials} />
+                </div>
+            </div>
+
+            <div className="border rounded-lg bg-card">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Name</TableHead>
+                            <TableHead>Registry</TableHead>
+                            <TableHead>Username</TableHead>
+                            <TableHead>Namespace</TableHead>
+                            <TableHead>Updated</TableHead>
+                            <TableHead className="w-[160px]">Actions</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {credentials.length === 0 && !isLoading && (
+                            <TableRow>
+                                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                                    No stored credentials. Public images and GITHUB_PAT's GHCR packages still work.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {credentials.map(credential => (
+                            <TableRow key={credential.id}>
+                                <TableCell className="font-medium">{credential.name}</TableCell>
+                                <TableCell>
+                                    <p className="font-mono text-xs">{credential.insecure ? 'http://' : ''}{credential.host}</p>
+                                    <p className="text-xs text-muted-foreground">{REGISTRY_TYPES[credential.type].label}</p>
+                                </TableCell>
+                                <TableCell className="font-mono text-xs">{credential.username}</TableCell>
+                                <TableCell className="font-mono text-xs">{credential.namespace ?? '—'}</TableCell>
+                                <TableCell className="text-xs whitespace-nowrap">{new Date(credential.updated_at).toLocaleString()}</TableCell>
+                                <TableCell>
+                                    <div className="flex gap-1">
+                                        <Button variant="outline" size="icon" title="Test login" onClick={() => handleTest(credential)} disabled={testingId !== null}>
+                                            {testingId === credential.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlugZap className="h-4 w-4" />}
+                                        </Button>
+                                        <CredentialDialog key={credential.id} credential={credential} onSaved={fetchCredentials} />
+                                        <Button variant="destructive" size="icon" onClick={() => handleDelete(credential)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
+
+const emptyCredential: RegistryCredentialInput = {
+    name: '', host: 'docker.io', type: 'dockerhub', username: '', password: '', namespace: null, insecure: false,
+};
+
+function CredentialDialog({ credential, onSaved }: { credential?: RegistryCredential; onSaved: () => void }) {
+    const initial: RegistryCredentialInput = credential ? {
+        name: credential.name, host: credential.host, type: credential.type, username: credential.username,
+        password: '', namespace: credential.namespace, insecure: credential.insecure,
+    } : emptyCredential;
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<RegistryCredentialInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    // Docker Hub and GHCR have fixed hosts; prefill them when switching type
+    const handleTypeChange = (type: RegistryType) => {
+        const host = type === 'oci' ? (form.type === 'oci' ? form.host : '') : REGISTRY_TYPES[type].host;
+        setForm({ ...form, type, host, insecure: type === 'oci' && form.insecure });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveRegistryCredential({ ...form, password: form.password || undefined }, credential?.id);
+            toast.success(credential ? "Credential updated" : "Credential saved");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {credential ? (
+                    <Button variant="outline" size="icon" title="Edit credential"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Credential</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{credential ? 'Edit Credential' : 'Add Credential'}</DialogTitle>
+                    <DialogDescription>
+                        The password is encrypted on the server and can't be read back.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="credential-name">Name</Label>
+                            <Input id="credential-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="acme-dockerhub" required />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Type</Label>
+                                <Select value={form.type} onValueChange={v => handleTypeChange(v as RegistryType)}>
+                                    <SelectTrigger className="w-full"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(REGISTRY_TYPES).map(([value, t]) => (
+                                            <SelectItem key={value} value={value}>{t.label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="credential-host">Host</Label>
+                                <Input
+                                    id="credential-host"
+                                    className="font-mono text-xs"
+                                    value={form.host}
+                                    onChange={e => setForm({ ...form, host: e.target.value })}
+                                    placeholder={REGISTRY_TYPES[form.type].host}
+                                    disabled={form.type !== 'oci'}
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="credential-username">Username</Label>
+                                <Input id="credential-username" value={form.username} onChange={e => setForm({ ...form, username: e.target.value })} required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="credential-password">{REGISTRY_TYPES[form.type].password}</Label>
+                                <Input
+                                    id="credential-password"
+                                    type="password"
+                                    autoComplete="new-password"
+                                    value={form.password ?? ''}
+                                    onChange={e => setForm({ ...form, password: e.target.value })}
+                                    placeholder={credential ? 'Unchanged' : ''}
+                                    required={!credential}
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="credential-namespace">Namespace (optional)</Label>
+                            <Input
+                                id="credential-namespace"
+                                className="font-mono text-xs"
+                                value={form.namespace ?? ''}
+                                onChange={e => setForm({ ...form, namespace: e.target.value || null })}
+                                placeholder="my-org"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Prefers this login for images under the namespace and lists its images under "Available to Install".
+                            </p>
+                        </div>
+                        {form.type === 'oci' && (
+                            <label className="flex items-center gap-2 text-sm">
+                                <Switch checked={form.insecure} onCheckedChange={v => setForm({ ...form, insecure: v })} />
+                                Plain HTTP (local registry:2)
+                            </label>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { disableTwoFactor, enableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes, setupTwoFactor } from '@/lib/api';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { TotpEnrollment } from '@/components/TotpEnrollment';
+import { RecoveryCodes } from '@/components/RecoveryCodes';
+import { Badge } from "@/components/ui/badge";
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Loader2, RefreshCw, ShieldCheck, ShieldOff } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+export default function Security() {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchStatus = () => getTwoFactorStatus().then(setStatus).catch(e => toast.error(errorMessage(e)));
+
+    useEffect(() => {
+        getTwoFactorStatus().then(setStatus).catch(e => toast.error(errorMessage(e)));
+    }, []);
+
+    const handleSetup = async () => {
+        setIsSaving(true);
+        try {
+            setSetup(await setupTwoFactor());
+            setCode('');
+        } catch (e) {
+            toast.error(errorMessage(e));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleEnable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            setRecoveryCodes(await enableTwoFactor(code));
+            setSetup(null);
+            toast.success("Two-factor authentication is on");
+            fetchStatus();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        } finally {
+            setCode('');
+            setIsSaving(false);
+        }
+    };
+
+    const handleRegenerate = async (code: string) => {
+        setRecoveryCodes(await regenerateRecoveryCodes(code));
+        toast.success("New recovery codes generated; the old ones no longer work");
+        fetchStatus();
+    };
+
+    const handleDisable = async (code: string) => {
+        await disableTwoFactor(code);
+        setRecoveryCodes(null);
+        toast.success("Two-factor authentication is off");
+        fetchStatus();
+    };
+
+    return (
+        <div className="container mx-auto py-8 max-w-2xl">
+            <div className="mb-6">
+                <h1 className="text-3xl font-bold">Security</h1>
+                <p className="text-muted-foreground">Protect your account with a second factor on top of your password.</p>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5" /> Two-factor authentication
+                        {status?.enabled && <Badge>On</Badge>}
+                        {status && !status.enabled && status.supported && <Badge variant="outline">Off</Badge>}
+                        {status?.required && <Badge variant="secondary">Required</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                        Logging in asks for a code from an authenticator app after your password. API keys are not affected.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {!status && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+                    {status && !status.supported && (
+                        <p className="text-sm text-muted-foreground">
+                            Not available for this account. SSO accounts get their second factor from the identity provider,
+                            and the admin account from the server's environment has no stored settings.
+                        </p>
+                    )}
+                    {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+                    {status?.enabled && !recoveryCodes && (
+                        <p className="text-sm">
+                            {status.recovery_codes_left} of your recovery codes left.
+                            {status.recovery_codes_left < 3 && " Generate new ones before you run out."}
+                        </p>
+                    )}
+                    {setup && (
+                        <form id="enable-2fa" onSubmit={handleEnable} className="space-y-4">
+                            <TotpEnrollment setup={setup} />
+                            <div className="space-y-2">
+                                <Label htmlFor="code">Code from the app</Label>
+                                <Input
+                                    id="code"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                    required
+                                    autoComplete="one-time-code"
+                                    placeholder="123456"
+                                />
+                            </div>
+                        </form>
+                    )}
+                </CardContent>
+                {status?.supported && (
+                    <CardFooter className="flex gap-2 justify-end">
+                        {recoveryCodes && (
+                            <Button variant="outline" onClick={() => setRecoveryCodes(null)}>I saved them</Button>
+                        )}
+                        {!status.enabled && !setup && (
+                            <Button onClick={handleSetup} disabled={isSaving}>
+                                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Set up
+                            </Button>
+                        )}
+                        {setup && (
+                            <>
+                                <Button variant="outline" onClick={() => setSetup(null)}>Cancel</Button>
+                                <Button type="submit" form="enable-2fa" disabled={isSaving}>
+                                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Turn on
+                                </Button>
+                            </>
+                        )}
+                        {status.enabled && (
+                            <>
+                                <CodeDialog
+                                    trigger={<Button variant="outline"><RefreshCw className="mr-2 h-4 w-4" /> New recovery codes</Button>}
+                                    title="Generate new recovery codes"
+                                    description="Your current recovery codes stop working. Confirm with a code from your authenticator app."
+                                    confirmLabel="Generate"
+                                    onConfirm={handleRegenerate}
+                                />
+                                {status.required ? (
+                                    <Button variant="outline" disabled title="Your role requires two-factor authentication">
+                                        <ShieldOff className="mr-2 h-4 w-4" /> Turn off
+                                    </Button>
+                                ) : (
+                                    <CodeDialog
+                                        trigger={<Button variant="destructive"><ShieldOff className="mr-2 h-4 w-4" /> Turn off</Button>}
+                                        title="Turn off two-factor authentication"
+                                        description="Your password alone will log you in again. Confirm with a code from your authenticator app or a recovery code."
+                                        confirmLabel="Turn off"
+                                        destructive
+                                        onConfirm={handleDisable}
+                                    />
+                                )}
+                            </>
+                        )}
+                    </CardFooter>
+                )}
+            </Card>
+        </div>
+    );
+}
+
+interface CodeDialogProps {
+    trigger: React.ReactNode;
+    title: string;
+    description: string;
+    confirmLabel: string;
+    destructive?: boolean;
+    onConfirm: (code: string) => Promise<void>;
+}
+
+// Changes to an enabled second factor need a current code, not just the session
+function CodeDialog({ trigger, title, description, confirmLabel, destructive, onConfirm }: CodeDialogProps) {
+    const [open, setOpen] = useState(false);
+    const [code, setCode] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onConfirm(code);
+            setOpen(false);
+        } catch (e) {
+            toast.error(errorMessage(e));
+        } finally {
+            setCode('');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>{trigger}</DialogTrigger>
+            <DialogContent>
+                <form onSubmit={handleSubmit}>
+                    <DialogHeader>
+                        <DialogTitle>{title}</DialogTitle>
+                        <DialogDescription>{description}</DialogDescription>
+                    </DialogHeader>
+                    <div className="py-4 space-y-2">
+                        <Label htmlFor="confirm-code">Code</Label>
+                        <Input
+                            id="confirm-code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            required
+                            autoFocus
+                            autoComplete="one-time-code"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" variant={destructive ? "destructive" : "default"} disabled={isSaving}>
+                            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {confirmLabel}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,6 +1,12 @@
 import { useEffect, useState } from 'react';
-import { apiClient } from '@/lib/api';
-import type { User, Permission, Service } from '@/types';
+import {
+    apiClient, listRoles, saveRole, deleteRole, listUserGroups, saveUserGroup, deleteUserGroup,
+    listSsoMappings, saveSsoMapping, deleteSsoMapping, resetUserTwoFactor, type RoleInput, type UserGroupInput, type SsoMappingInput
+} from '@/lib/api';
+import type { User, Permission, Service, Role, UserGroup, SsoMapping } from '@/types';
+import { GrantList } from '@/components/GrantList';
+import { EffectivePermissionsDialog } from '@/components/EffectivePermissionsDialog';
+import { describePermission, PERMISSION_ACTIONS } from '@/lib/utils';
 import {
     Table, TableBody, TableCell, TableHead, TableHeader, TableRow
 } from "@/components/ui/table";
@@ -17,20 +23,48 @@ import {
 } from "@/components/ui/collapsible";
 
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 import { Label } from '@/components/ui/label';
 import { toast } from "sonner";
-import { Plus, Trash2, Shield, RefreshCw, ChevronDown, ChevronRight, Globe, Container, Loader2 } from "lucide-react";
+import { Plus, Trash2, Shield, RefreshCw, ChevronDown, ChevronRight, Globe, Container, Loader2, Pencil, Users as UsersIcon, ShieldOff } from "lucide-react";
+
+type ApiError = { message?: string; response?: { data?: { error?: string } } };
+
+const errorMessage = (e: unknown) => {
+    const error = e as ApiError;
+    return error.response?.data?.error || error.message || 'Request failed';
+};
+
+// Plain allows of one action on one scope; the checkboxes edit these, GrantList the rest
+const isSimple = (p: Permission) => !!p.action && p.effect !== 'deny' && !p.scope.includes('*');
+
+function PermissionBadge({ permission }: { permission: Permission }) {
+    return (
+        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${permission.effect === 'deny' ? 'bg-red-500/10 text-red-500' : 'bg-secondary text-secondary-foreground'}`}>
+            {describePermission(permission)}
+        </span>
+    );
+}
 
 export default function Users() {
     const [users, setUsers] = useState<User[]>([]);
+    const [roles, setRoles] = useState<Role[]>([]);
+    const [groups, setGroups] = useState<UserGroup[]>([]);
+    const [mappings, setMappings] = useState<SsoMapping[]>([]);
+    const [tab, setTab] = useState('users');
     const [isLoading, setIsLoading] = useState(true);
 
     const fetchUsers = async () => {
         setIsLoading(true);
         try {
-            const { data } = await apiClient.get<User[]>('/api/users');
+            const [{ data }, roles, groups, mappings] = await Promise.all([apiClient.get<User[]>('/api/users'), listRoles(), listUserGroups(), listSsoMappings()]);
             setUsers(data);
+            setRoles(roles);
+            setGroups(groups);
+            setMappings(mappings);
         } catch (error) {
             toast.error("Failed to load users");
             console.error(error);
@@ -54,73 +88,129 @@ export default function Users() {
         }
     };
 
+    // For users who lost both their authenticator and their recovery codes
+    const handleResetTwoFactor = async (username: string) => {
+        if (!confirm(`Turn off two-factor authentication for ${username}? If a role requires it, they set it up again at their next login.`)) return;
+        try {
+            await resetUserTwoFactor(username);
+            toast.success("Two-factor authentication reset");
+            fetchUsers();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
     return (
         <div className="container mx-auto py-8">
             <div className="flex justify-between items-center mb-6">
                 <div>
                     <h1 className="text-3xl font-bold">User Management</h1>
-                    <p className="text-muted-foreground">Manage users and their permissions</p>
+                    <p className="text-muted-foreground">Manage users, the groups they belong to and the roles they are granted</p>
                 </div>
                 <div className="flex gap-2">
                     <Button variant="outline" size="icon" onClick={fetchUsers}>
                         <RefreshCw className={isLoading ? "animate-spin" : ""} />
                     </Button>
-                    <CreateUserDialog onCreated={fetchUsers} />
+                    {tab === 'users' && <CreateUserDialog onCreated={fetchUsers} />}
+                    {tab === 'groups' && <UserGroupDialog users={users} roles={roles} onSaved={fetchUsers} />}
+                    {tab === 'roles' && <RoleDialog onSaved={fetchUsers} />}
+                    {tab === 'sso' && <SsoMappingDialog groups={groups} onSaved={fetchUsers} />}
                 </div>
             </div>
 
-            <div className="border rounded-lg bg-card">
-                <Table>
-                    <TableHeader>
-                        <TableRow>
-                            <TableHead>Username</TableHead>
-                            <TableHead>Permissions</TableHead>
-                            <TableHead className="w-[100px]">Actions</TableHead>
-                        </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                        {users.length === 0 && !isLoading && (
-                            <TableRow>
-                                <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
-                                    No users found.
-                                </TableCell>
-                            </TableRow>
-                        )}
-                        {users.map((user) => (
-                            <TableRow key={user.username}>
-                                <TableCell className="font-medium">{user.username}</TableCell>
-                                <TableCell>
-                                    <div className="flex flex-wrap gap-1">
-                                        {(user.permissions ?? []).length === 0 ? <span className="text-muted-foreground italic text-sm">No permissions</span> : null}
-                                        {(user.permissions ?? []).slice(0, 5).map((p, idx) => (
-                                            <span key={idx} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-secondary text-secondary-foreground">
-                                                {p.scope === 'global' ? 'Global' : p.scope.replace('service:', 'S:')}: {p.action}
-                                            </span>
-                                        ))}
-                                        {(user.permissions ?? []).length > 5 && (
-                                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
-                                                +{(user.permissions ?? []).length - 5} more
+            <Tabs value={tab} onValueChange={setTab}>
+                <TabsList className="mb-4">
+                    <TabsTrigger value="users">Users</TabsTrigger>
+                    <TabsTrigger value="groups">Groups</TabsTrigger>
+                    <TabsTrigger value="roles">Roles</TabsTrigger>
+                    <TabsTrigger value="sso">SSO</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="users">
+                    <div className="border rounded-lg bg-card">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Username</TableHead>
+                                    <TableHead>Groups</TableHead>
+                                    <TableHead>Permissions</TableHead>
+                                    <TableHead className="w-[140px]">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {users.length === 0 && !isLoading && (
+                                    <TableRow>
+                                        <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                            No users found.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {users.map((user) => (
+                                    <TableRow key={user.username}>
+                                        <TableCell className="font-medium">
+                                            <span className="flex items-center gap-2">
+                                                {user.username}
+                                                {user.sso && <Badge variant="secondary" className="text-xs" title="Provisioned by an SSO login">SSO</Badge>}
+                                                {user.two_factor && <Badge variant="secondary" className="text-xs" title="Logs in with a TOTP code">2FA</Badge>}
                                             </span>
-                                        )}
-                                    </div>
-                                </TableCell>
-                                <TableCell>
-                                    <div className="flex gap-2">
-                                        <EditPermissionsDrawer user={user} onUpdated={fetchUsers} />
-                                        <Button
-                                            variant="destructive"
-                                            size="icon"
-                                            onClick={() => handleDeleteUser(user.username)}
-                                        >
-                                            <Trash2 className="h-4 w-4" />
-                                        </Button>
-                                    </div>
-                                </TableCell>
-                            </TableRow>
-                        ))}
-                    </TableBody>
-                </Table>
-            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {user.groups?.length ? user.groups.map(g => (
+                                                    <Badge key={g.name} variant="outline" className="text-xs">{g.name}</Badge>
+                                                )) : <span className="text-xs text-muted-foreground">—</span>}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {(user.permissions ?? []).length === 0 ? <span className="text-muted-foreground italic text-sm">No permissions</span> : null}
+                                                {(user.permissions ?? []).slice(0, 5).map((p, idx) => (
+                                                    <PermissionBadge key={idx} permission={p} />
+                                                ))}
+                                                {(user.permissions ?? []).length > 5 && (
+                                                    <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
+                                                        +{(user.permissions ?? []).length - 5} more
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-2">
+                                                <EffectivePermissionsDialog username={user.username} />
+                                                <EditPermissionsDrawer user={user} roles={roles} onUpdated={fetchUsers} />
+                                                {user.two_factor && (
+                                                    <Button variant="outline" size="icon" title="Reset two-factor auth" onClick={() => handleResetTwoFactor(user.username)}>
+                                                        <ShieldOff className="h-4 w-4" />
+                                                    </Button>
+                                                )}
+                                                <Button
+                                                    variant="destructive"
+                                                    size="icon"
+                                                    onClick={() => handleDeleteUser(user.username)}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </TabsContent>
+
+                <TabsContent value="groups">
+                    <UserGroupsTable groups={groups} users={users} roles={roles} isLoading={isLoading} onChanged={fetchUsers} />
+                </TabsContent>
+
+                <TabsContent value="roles">
+                    <RolesTable roles={roles} isLoading={isLoading} onChanged={fetchUsers} />
+                </TabsContent>
+
+                <TabsContent value="sso">
+                    <SsoMappingsTable mappings={mappings} groups={groups} isLoading={isLoading} onChanged={fetchUsers} />
+                </TabsContent>
+            </Tabs>
         </div>
     );
 }
@@ -203,7 +293,7 @@ function CreateUserDialog({ onCreated }: { onCreated: () => void }) {
     );
 }
 
-function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: () => void }) {
+function EditPermissionsDrawer({ user, roles, onUpdated }: { user: User, roles: Role[], onUpdated: () => void }) {
     const [open, setOpen] = useState(false);
     const [perms, setPerms] = useState<Permission[]>([]);
     const [services, setServices] = useState<Service[]>([]);
@@ -243,14 +333,14 @@ function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: ()
             setOpen(false);
             onUpdated();
         } catch (error) {
-            toast.error("Failed to update permissions");
+            toast.error(errorMessage(error));
         } finally {
             setIsSubmitting(false);
         }
     };
 
     const hasPermission = (scope: string, action: string) => {
-        return perms.some(p => p.scope === scope && p.action === action);
+        return perms.some(p => isSimple(p) && p.scope === scope && p.action === action);
     };
 
     const togglePermission = (scope: string, action: string, checked: boolean) => {
@@ -258,44 +348,44 @@ function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: ()
 
         if (checked) {
             // Add the requested permission
-            if (!newPerms.some(p => p.scope === scope && p.action === action)) {
+            if (!newPerms.some(p => isSimple(p) && p.scope === scope && p.action === action)) {
                 newPerms.push({ scope, action });
             }
 
             // Rule 1: Any service permission implies view_status
             if (scope.startsWith('service:') && action !== 'view_status') {
-                if (!newPerms.some(p => p.scope === scope && p.action === 'view_status')) {
+                if (!newPerms.some(p => isSimple(p) && p.scope === scope && p.action === 'view_status')) {
                     newPerms.push({ scope, action: 'view_status' });
                 }
             }
 
-            // Rule 2: Edit implies View
-            if (action === 'edit_env') {
-                if (!newPerms.some(p => p.scope === scope && p.action === 'view_env')) {
+            // Rule 2: Edit (and Reveal) implies View
+            if (action === 'edit_env' || action === 'reveal_secret') {
+                if (!newPerms.some(p => isSimple(p) && p.scope === scope && p.action === 'view_env')) {
                     newPerms.push({ scope, action: 'view_env' });
                 }
             }
             if (action === 'edit_configuration') {
-                if (!newPerms.some(p => p.scope === scope && p.action === 'view_configuration')) {
+                if (!newPerms.some(p => isSimple(p) && p.scope === scope && p.action === 'view_configuration')) {
                     newPerms.push({ scope, action: 'view_configuration' });
                 }
             }
 
         } else {
             // Remove the requested permission
-            newPerms = newPerms.filter(p => !(p.scope === scope && p.action === action));
+            newPerms = newPerms.filter(p => !(isSimple(p) && p.scope === scope && p.action === action));
 
             // Rule 4: If removing view_status, remove ALL permissions for that scope
             if (scope.startsWith('service:') && action === 'view_status') {
-                newPerms = newPerms.filter(p => p.scope !== scope);
+                newPerms = newPerms.filter(p => !(isSimple(p) && p.scope === scope));
             }
 
-            // Rule 3: If removing View, remove Edit
+            // Rule 3: If removing View, remove Edit (and Reveal)
             if (action === 'view_env') {
-                newPerms = newPerms.filter(p => !(p.scope === scope && p.action === 'edit_env'));
+                newPerms = newPerms.filter(p => !(isSimple(p) && p.scope === scope && (p.action === 'edit_env' || p.action === 'reveal_secret')));
             }
             if (action === 'view_configuration') {
-                newPerms = newPerms.filter(p => !(p.scope === scope && p.action === 'edit_configuration'));
+                newPerms = newPerms.filter(p => !(isSimple(p) && p.scope === scope && p.action === 'edit_configuration'));
             }
         }
         setPerms(newPerms);
@@ -309,13 +399,13 @@ function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: ()
         if (checked) {
             // Add all missing
             actions.forEach(action => {
-                if (!newPerms.some(p => p.scope === `service:${serviceName}` && p.action === action)) {
+                if (!newPerms.some(p => isSimple(p) && p.scope === `service:${serviceName}` && p.action === action)) {
                     newPerms.push({ scope: `service:${serviceName}`, action });
                 }
             });
         } else {
             // Remove all
-            newPerms = newPerms.filter(p => p.scope !== `service:${serviceName}`);
+            newPerms = newPerms.filter(p => !(isSimple(p) && p.scope === `service:${serviceName}`));
         }
         setPerms(newPerms);
     };
@@ -337,13 +427,14 @@ function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: ()
         { value: 'edit_configuration', label: 'Edit Configuration', desc: 'Modify service settings' },
         { value: 'view_env', label: 'View Environment', desc: 'Read-only access to .env variables' },
         { value: 'edit_env', label: 'Edit Environment', desc: 'Modify environment variables' },
+        { value: 'reveal_secret', label: 'Reveal Secrets', desc: 'Read secret values and unmasked .env variables' },
         { value: 'view_logs', label: 'View Logs', desc: 'Stream real-time logs' },
     ];
 
     // Combine fetched services with any services already in permissions (even if not running)
     const allServiceNames = Array.from(new Set([
         ...services.map(s => s.name),
-        ...perms.filter(p => p.scope.startsWith('service:')).map(p => p.scope.replace('service:', ''))
+        ...perms.filter(p => isSimple(p) && p.scope.startsWith('service:')).map(p => p.scope.replace('service:', ''))
     ])).sort();
 
     return (
@@ -449,6 +540,29 @@ function EditPermissionsDrawer({ user, onUpdated }: { user: User, onUpdated: ()
                                 </p>
                             </div>
                         </div>
+
+                        {/* ROLES, PATTERNS AND DENIES */}
+                        <div className="space-y-4">
+                            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider pl-1">Roles, Patterns & Denies</h3>
+                            <GrantList
+                                permissions={perms.filter(p => !isSimple(p))}
+                                roles={roles}
+                                onChange={next => setPerms([...perms.filter(isSimple), ...next])}
+                            />
+                        </div>
+
+                        {(user.groups ?? []).length > 0 && (
+                            <div className="space-y-2">
+                                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider pl-1">From Groups</h3>
+                                {user.groups!.map(g => (
+                                    <div key={g.name} className="flex flex-wrap items-center gap-1 text-xs">
+                                        <span className="font-mono font-medium mr-1">{g.name}</span>
+                                        {g.permissions.length === 0 && <span className="text-muted-foreground italic">No permissions</span>}
+                                        {g.permissions.map((p, idx) => <PermissionBadge key={idx} permission={p} />)}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     <DrawerFooter className="border-t pt-4">
@@ -532,3 +646,456 @@ function ServicePermissionGroup({
         </Collapsible>
     )
 }
+
+function UserGroupsTable({ groups, users, roles, isLoading, onChanged }: { groups: UserGroup[], users: User[], roles: Role[], isLoading: boolean, onChanged: () => void }) {
+    const handleDelete = async (group: UserGroup) => {
+        if (!confirm(`Delete group "${group.name}"? Its members lose what it grants.`)) return;
+        try {
+            await deleteUserGroup(group.id);
+            toast.success("Group deleted");
+            onChanged();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="border rounded-lg bg-card">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Group</TableHead>
+                        <TableHead>Members</TableHead>
+                        <TableHead>Permissions</TableHead>
+                        <TableHead className="w-[100px]">Actions</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {groups.length === 0 && !isLoading && (
+                        <TableRow>
+                            <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                No groups yet. Members of a group get its permissions on top of their own.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                    {groups.map(group => (
+                        <TableRow key={group.id}>
+                            <TableCell>
+                                <p className="font-medium font-mono">{group.name}</p>
+                                {group.description && <p className="text-xs text-muted-foreground">{group.description}</p>}
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                    {group.members.length ? group.members.map(m => (
+                                        <Badge key={m} variant="outline" className="text-xs">{m}</Badge>
+                                    )) : <span className="text-xs text-muted-foreground">—</span>}
+                                </div>
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                    {group.permissions.length === 0 && <span className="text-muted-foreground italic text-sm">No permissions</span>}
+                                    {group.permissions.map((p, idx) => <PermissionBadge key={idx} permission={p} />)}
+                                </div>
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex gap-2">
+                                    <UserGroupDialog key={group.id} group={group} users={users} roles={roles} onSaved={onChanged} />
+                                    <Button variant="destructive" size="icon" onClick={() => handleDelete(group)}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function UserGroupDialog({ group, users, roles, onSaved }: { group?: UserGroup, users: User[], roles: Role[], onSaved: () => void }) {
+    const initial: UserGroupInput = {
+        name: group?.name ?? '',
+        description: group?.description ?? null,
+        members: group?.members ?? [],
+        permissions: group?.permissions ?? [],
+    };
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<UserGroupInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const toggleMember = (username: string, on: boolean) => {
+        setForm(prev => ({ ...prev, members: on ? [...prev.members, username] : prev.members.filter(m => m !== username) }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveUserGroup(form, group?.id);
+            toast.success(group ? "Group updated" : "Group created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {group ? (
+                    <Button variant="ghost" size="icon" title="Edit group"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><UsersIcon className="mr-2 h-4 w-4" /> New Group</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+                <DialogHeader>
+                    <DialogTitle>{group ? `Edit ${group.name}` : 'New Group'}</DialogTitle>
+                    <DialogDescription>Members get every permission of the group on top of their own.</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="group-name">Name</Label>
+                                <Input id="group-name" className="font-mono" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="alumni-team" required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="group-description">Description</Label>
+                                <Input id="group-description" value={form.description ?? ''} onChange={e => setForm({ ...form, description: e.target.value || null })} />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Members</Label>
+                            <div className="flex flex-wrap gap-x-4 gap-y-2">
+                                {users.length === 0 && <span className="text-xs text-muted-foreground">No users yet.</span>}
+                                {users.map(u => (
+                                    <label key={u.username} className="flex items-center gap-2 text-sm">
+                                        <Checkbox checked={form.members.includes(u.username)} onCheckedChange={v => toggleMember(u.username, v === true)} />
+                                        <span className="font-mono">{u.username}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Permissions</Label>
+                            <GrantList permissions={form.permissions} roles={roles} onChange={permissions => setForm(prev => ({ ...prev, permissions }))} />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function RolesTable({ roles, isLoading, onChanged }: { roles: Role[], isLoading: boolean, onChanged: () => void }) {
+    const label = (action: string) => PERMISSION_ACTIONS.find(a => a.value === action)?.label ?? action;
+
+    const handleDelete = async (role: Role) => {
+        if (!confirm(`Delete role "${role.name}"?`)) return;
+        try {
+            await deleteRole(role.id);
+            toast.success("Role deleted");
+            onChanged();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="border rounded-lg bg-card">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Actions</TableHead>
+                        <TableHead>Granted to</TableHead>
+                        <TableHead className="w-[100px]"></TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {roles.length === 0 && !isLoading && (
+                        <TableRow>
+                            <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                No roles yet.
+                            </TableCell>
+                        </TableRow>
+                    )}
+                    {roles.map(role => (
+                        <TableRow key={role.id}>
+                            <TableCell>
+                                <p className="font-medium font-mono">{role.name}</p>
+                                {role.description && <p className="text-xs text-muted-foreground">{role.description}</p>}
+                                {role.require_2fa && <Badge variant="outline" className="text-xs mt-1">Requires 2FA</Badge>}
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                    {role.actions.map(a => <Badge key={a} variant="secondary" className="text-xs">{label(a)}</Badge>)}
+                                </div>
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                    {role.holders?.length ? role.holders.map(h => (
+                                        <Badge key={h} variant="outline" className="text-xs">{h}</Badge>
+                                    )) : <span className="text-xs text-muted-foreground">—</span>}
+                                </div>
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex gap-2">
+                                    <RoleDialog key={role.id} role={role} onSaved={onChanged} />
+                                    <Button variant="destructive" size="icon" onClick={() => handleDelete(role)} disabled={!!role.holders?.length} title={role.holders?.length ? 'Still granted' : 'Delete role'}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function RoleDialog({ role, onSaved }: { role?: Role, onSaved: () => void }) {
+    const initial: RoleInput = { name: role?.name ?? '', description: role?.description ?? null, actions: role?.actions ?? [], require_2fa: role?.require_2fa ?? false };
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<RoleInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const toggleAction = (action: string, on: boolean) => {
+        setForm(prev => ({ ...prev, actions: on ? [...prev.actions, action] : prev.actions.filter(a => a !== action) }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveRole(form, role?.id);
+            toast.success(role ? "Role updated" : "Role created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {role ? (
+                    <Button variant="ghost" size="icon" title="Edit role"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Role</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{role ? `Edit ${role.name}` : 'New Role'}</DialogTitle>
+                    <DialogDescription>
+                        {role?.holders?.length ? `Changes apply right away to ${role.holders.join(', ')}.` : 'Grant a role on a scope to give all of its actions at once.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="role-name">Name</Label>
+                            <Input id="role-name" className="font-mono" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="developer" required />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="role-description">Description</Label>
+                            <Input id="role-description" value={form.description ?? ''} onChange={e => setForm({ ...form, description: e.target.value || null })} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            {PERMISSION_ACTIONS.map(a => (
+                                <label key={a.value} className="flex items-center gap-2 text-sm">
+                                    <Checkbox checked={form.actions.includes(a.value)} onCheckedChange={v => toggleAction(a.value, v === true)} />
+                                    {a.label}
+                                </label>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-sm">
+                            <Checkbox checked={form.require_2fa} onCheckedChange={v => setForm({ ...form, require_2fa: v === true })} />
+                            Require two-factor auth for everyone granted this role
+                        </label>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting || form.actions.length === 0}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function SsoMappingsTable({ mappings, groups, isLoading, onChanged }: { mappings: SsoMapping[], groups: UserGroup[], isLoading: boolean, onChanged: () => void }) {
+    const handleDelete = async (mapping: SsoMapping) => {
+        if (!confirm(`Delete the mapping for ${mapping.claim} = ${mapping.value}? SSO users keep what it gave them until their next login.`)) return;
+        try {
+            await deleteSsoMapping(mapping.id);
+            toast.success("Mapping deleted");
+            onChanged();
+        } catch (e) {
+            toast.error(errorMessage(e));
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+                On every SSO login, users join the groups whose mappings match a claim of their ID token and leave those that don't. Groups no mapping names are left alone. Once any mapping grants admin, admin rights of SSO users follow the mappings too.
+            </p>
+            <div className="border rounded-lg bg-card">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>When claim</TableHead>
+                            <TableHead>Contains</TableHead>
+                            <TableHead>Then</TableHead>
+                            <TableHead className="w-[100px]"></TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {mappings.length === 0 && !isLoading && (
+                            <TableRow>
+                                <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                                    No mappings yet. SSO users only get what is granted to them here.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {mappings.map(mapping => (
+                            <TableRow key={mapping.id}>
+                                <TableCell className="font-mono text-sm">{mapping.claim}</TableCell>
+                                <TableCell className="font-mono text-sm">{mapping.value}</TableCell>
+                                <TableCell>
+                                    <div className="flex flex-wrap gap-1">
+                                        {mapping.group && <Badge variant="outline" className="text-xs"><UsersIcon className="mr-1 h-3 w-3" /> {mapping.group}</Badge>}
+                                        {mapping.is_admin && <Badge variant="secondary" className="text-xs"><Shield className="mr-1 h-3 w-3" /> Admin</Badge>}
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <div className="flex gap-2">
+                                        <SsoMappingDialog key={mapping.id} mapping={mapping} groups={groups} onSaved={onChanged} />
+                                        <Button variant="destructive" size="icon" onClick={() => handleDelete(mapping)}>
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
+
+function SsoMappingDialog({ mapping, groups, onSaved }: { mapping?: SsoMapping, groups: UserGroup[], onSaved: () => void }) {
+    const initial: SsoMappingInput = {
+        claim: mapping?.claim ?? 'groups',
+        value: mapping?.value ?? '',
+        group: mapping?.group ?? null,
+        is_admin: mapping?.is_admin ?? false,
+    };
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState<SsoMappingInput>(initial);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initial);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        try {
+            await saveSsoMapping(form, mapping?.id);
+            toast.success(mapping ? "Mapping updated" : "Mapping created");
+            setOpen(false);
+            onSaved();
+        } catch (err) {
+            toast.error(errorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                {mapping ? (
+                    <Button variant="ghost" size="icon" title="Edit mapping"><Pencil className="h-4 w-4" /></Button>
+                ) : (
+                    <Button><Plus className="mr-2 h-4 w-4" /> New Mapping</Button>
+                )}
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>{mapping ? 'Edit Mapping' : 'New Mapping'}</DialogTitle>
+                    <DialogDescription>
+                        Groups carry the roles and permissions; map identity provider groups onto them.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="mapping-claim">Claim</Label>
+                                <Input id="mapping-claim" className="font-mono" value={form.claim} onChange={e => setForm({ ...form, claim: e.target.value })} placeholder="groups" required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="mapping-value">Value</Label>
+                                <Input id="mapping-value" className="font-mono" value={form.value} onChange={e => setForm({ ...form, value: e.target.value })} placeholder="orchestr8-ops" required />
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Group</Label>
+                            <Select value={form.group ?? '__none'} onValueChange={v => setForm({ ...form, group: v === '__none' ? null : v })}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="__none">No group</SelectItem>
+                                    {groups.map(g => <SelectItem key={g.id} value={g.name}>{g.name}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm">
+                            <Checkbox checked={form.is_admin} onCheckedChange={v => setForm({ ...form, is_admin: v === true })} />
+                            Make matching users admins
+                        </label>
+                    </div>
+                    <DialogFooter>
+                        <Button type="submit" disabled={isSubmitting || (!form.group && !form.is_admin)}>
+                            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,12 +1,124 @@
+// Grants either an action or a role; scopes may contain '*' wildcards
 export interface Permission {
     scope: string;
-    action: string;
+    action?: string;
+    role?: string;
+    effect?: 'allow' | 'deny';
 }
 
 export interface User {
+    id?: number;
     username: string;
     permissions: Permission[];
-    isAdmin?: boolean; // Inferred on frontend if viewing user list succeeds
+    groups?: { name: string; permissions: Permission[] }[];
+    admin_of?: string[]; // Projects the user administers
+    is_admin?: boolean;
+    sso?: boolean; // Provisioned by an SSO login
+    two_factor?: boolean; // TOTP enabled
+}
+
+export interface SsoConfig {
+    enabled: boolean;
+    label: string;
+}
+
+// Claim value -> group membership and/or admin rights, applied on every SSO login
+export interface SsoMapping {
+    id: number;
+    claim: string;
+    value: string;
+    group: string | null;
+    is_admin: boolean;
+    created_at: number;
+}
+
+// Resolved permissions of a user, by action
+export interface EffectivePermissions {
+    username: string;
+    is_admin: boolean;
+    global: Record<string, boolean>;
+    services: Record<string, Record<string, boolean>>;
+}
+
+export interface PermissionExplanation {
+    user: string;
+    scope: string;
+    action: string;
+    allowed: boolean;
+    reason: 'admin' | 'allowed' | 'denied' | 'no_grant';
+    grant: (Permission & { source: string }) | null;
+    via?: string;
+    message: string;
+}
+
+// Members and admins are only sent to those who administer the project
+export interface Project {
+    id: number;
+    name: string;
+    description: string | null;
+    services: string[];
+    admins?: string[];
+    members?: string[];
+    created_at: number;
+}
+
+export interface ProjectMember {
+    username: string;
+    is_admin: boolean;
+    permissions: Permission[]; // Only those inside the project
+}
+
+export interface Role {
+    id: number;
+    name: string;
+    description: string | null;
+    actions: string[];
+    require_2fa: boolean; // Password logins of anyone granted the role need a TOTP code
+    holders?: string[]; // Usernames and 'group:{name}' that are granted the role
+    created_at: number;
+    updated_at: number;
+}
+
+export interface UserGroup {
+    id: number;
+    name: string;
+    description: string | null;
+    members: string[];
+    permissions: Permission[];
+    created_at: number;
+}
+
+export interface AuthSession {
+    token: string;
+    refreshToken: string;
+    expiresAt: number;
+}
+
+// The password was right; the login continues with a code ('verify') or by setting 2FA up first ('enroll')
+export interface TwoFactorChallenge {
+    two_factor: 'verify' | 'enroll';
+    challenge: string;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    uri: string; // otpauth:// URI for the QR code
+}
+
+export interface TwoFactorStatus {
+    supported: boolean;
+    enabled: boolean;
+    required: boolean;
+    recovery_codes_left: number;
+}
+
+export interface ApiKey {
+    id: number;
+    name: string;
+    prefix: string;
+    created_at: number;
+    last_used_at: number | null;
+    revoked_at: number | null;
 }
 
 export interface ServicePermissions {
@@ -15,6 +127,7 @@ export interface ServicePermissions {
     edit_config: boolean;
     view_env: boolean;
     edit_env: boolean;
+    reveal_secret: boolean;
     view_logs: boolean;
 }
 
@@ -25,6 +138,7 @@ export interface Service {
     image: string;
     state: string;
     status: string;
+    project?: string | null;
     config?: DockerServiceConfig;
     latestImageDigest?: string;
     latestImageTags?: string[];
@@ -32,6 +146,64 @@ export interface Service {
     _permissions?: ServicePermissions;
 }
 
+export interface HealthCheckConfig {
+    type: 'http' | 'command';
+    path?: string;
+    command?: string;
+    interval?: string;
+    timeout?: string;
+    retries?: number;
+    startPeriod?: string;
+}
+
+export type UpdateStrategy = 'recreate' | 'blue-green';
+
+export interface VolumeMount {
+    type: 'volume' | 'bind';
+    source: string;
+    target: string;
+    readOnly?: boolean;
+}
+
+export interface BackupPolicy {
+    schedule?: string;
+    retention?: number;
+}
+
+export interface MaintenanceWindow {
+    days?: number[];    // 0 = Sunday
+    start: string;      // HH:MM, server time
+    end: string;
+}
+
+export interface UpdatePolicy {
+    mode: 'off' | 'notify' | 'auto';
+    match: 'exact' | 'numeric' | 'semver' | 'regex';
+    pattern?: string;
+    window?: MaintenanceWindow;
+}
+
+export interface UpdateCheck {
+    service: string;
+    checked_at: number;
+    current_tag: string;
+    candidate_tag: string | null;
+    candidate_digest: string | null;
+    reason: string;
+    action: 'none' | 'notified' | 'deployed' | 'deferred' | 'failed';
+    error: string | null;
+}
+
+// Keys a service's env file is checked against on save; keys outside the schema are allowed
+export interface EnvSchemaEntry {
+    key: string;
+    type?: 'string' | 'int' | 'url' | 'bool' | 'enum'; // Default: string
+    required?: boolean;
+    default?: string; // Used at deploy when the key is missing or empty; satisfies required
+    description?: string;
+    values?: string[]; // enum only
+}
+
 export interface DockerServiceConfig {
     cpuLimit?: string;
     memoryLimit?: string;
@@ -42,6 +214,15 @@ export interface DockerServiceConfig {
     clientMaxBodySize?: string;
     imageTag?: string;
     image?: string;
+    healthcheck?: HealthCheckConfig;
+    updateStrategy?: UpdateStrategy;
+    autoDeploy?: boolean;
+    updatePolicy?: UpdatePolicy;
+    registryCredential?: string;
+    volumes?: VolumeMount[];
+    backup?: BackupPolicy;
+    envSchema?: EnvSchemaEntry[];
+    envGroups?: string[]; // Later groups override earlier ones, the service's .env overrides all
 }
 
 export interface ServicePayload {
@@ -49,4 +230,222 @@ export interface ServicePayload {
     image: string;
     config: DockerServiceConfig;
     recreate?: boolean;
+    strategy?: UpdateStrategy;
+}
+
+export interface AuditEvent {
+    id: number;
+    actor: string;
+    action: string;
+    scope: string;
+    payload: unknown;
+    result: 'success' | 'failure';
+    error: string | null;
+    created_at: number;
+}
+
+export interface AuditPage {
+    events: AuditEvent[];
+    total: number;
+    page: number;
+    limit: number;
+}
+
+export interface ServiceRevision {
+    id: number;
+    service: string;
+    revision: number;
+    image: string;
+    digest: string | null;
+    config: DockerServiceConfig;
+    env_hash: string;
+    source: 'deploy' | 'env' | 'rollback' | 'restore' | 'webhook' | 'auto-update' | 'staged' | 'env_group';
+    actor: string;
+    created_at: number;
+}
+
+export interface EnvVersion {
+    id: number;
+    service: string;
+    version: number;
+    hash: string;
+    source: 'initial' | 'save' | 'revert';
+    reverted_from: number | null;
+    actor: string;
+    created_at: number;
+}
+
+// Values of secret-looking keys arrive as "********" unless the user may reveal secrets
+export interface EnvChange {
+    key: string;
+    type: 'added' | 'removed' | 'changed';
+    from?: string;
+    to?: string;
+}
+
+export type ApplyStrategy = 'recreate' | 'blue-green' | 'scheduled';
+
+// Env/config changes saved but not deployed. Changes are omitted without view_env / view_configuration
+export interface StagedChanges {
+    service: string;
+    hasEnv: boolean;
+    hasConfig: boolean;
+    envChanges?: EnvChange[];
+    configChanges?: Record<string, { from?: unknown; to?: unknown }>;
+    staged_by: string;
+    updated_at: number;
+    scheduled_at: number | null;
+    scheduled_by: string | null;
+    error: string | null;  // Last failed apply
+    canApply: boolean;
+}
+
+export interface ApplyResult {
+    service: string;
+    status: 'applied' | 'scheduled' | 'unscheduled' | 'failed' | 'skipped';
+    error?: string;
+    revision?: number;
+}
+
+export interface Backup {
+    id: number;
+    service: string;
+    file: string;
+    size: number;
+    volumes: string[];
+    trigger: 'manual' | 'schedule';
+    actor: string;
+    created_at: number;
+}
+
+export interface ResourceStats {
+    timestamp: number;
+    cpuPercent: number;
+    cpuLimit: number | null;
+    memoryUsage: number;
+    memoryLimit: number;
+    memoryPercent: number;
+    networkRx: number;
+    networkTx: number;
+    blockRead: number;
+    blockWrite: number;
+    pids: number;
+}
+
+export type MetricResolution = 'raw' | '1m' | '1h';
+
+export interface MetricPoint {
+    ts: number;
+    cpu: number;
+    cpuMax: number;
+    memory: number;
+    memoryMax: number;
+    memoryLimit: number;
+    networkRx: number;
+    networkTx: number;
+    blockRead: number;
+    blockWrite: number;
+    pids: number;
+}
+
+export interface MetricSeries {
+    service: string;
+    from: number;
+    to: number;
+    step: MetricResolution;
+    points: MetricPoint[];
+}
+
+export interface ContainerEvent {
+    service: string;
+    containerId: string;
+    action: string;         // start, die, stop, kill, oom, restart, destroy, health_status, ...
+    status?: string;        // health_status: healthy | unhealthy
+    exitCode?: number;
+    image?: string;
+    time: number;
+}
+
+export type RegistryType = 'ghcr' | 'dockerhub' | 'oci';
+
+// Password is write-only and never returned. Non-admins only get id, name and host
+export interface RegistryCredential {
+    id: number;
+    name: string;
+    host: string;
+    type: RegistryType;
+    username: string;
+    namespace: string | null;
+    insecure: boolean;
+    created_at: number;
+    updated_at: number;
+}
+
+// Env values shared by several services. Non-admins only get id, name and description
+export interface EnvGroup {
+    id: number;
+    name: string;
+    description: string | null;
+    content?: string;
+    services?: string[]; // Services attaching the group
+    updated_by?: string;
+    created_at?: number;
+    updated_at?: number;
+}
+
+// Env group attached to a service, values masked without reveal_secret. content is null if the group is gone
+export interface ServiceEnvGroup {
+    name: string;
+    description: string | null;
+    content: string | null;
+}
+
+// Value is write-only; reading it back needs reveal_secret
+export interface Secret {
+    id: number;
+    service: string;
+    name: string;
+    updated_by: string;
+    created_at: number;
+    updated_at: number;
+    referenced: boolean; // Used as ${secret:name} in the env file
+}
+
+export type AlertChannelType = 'webhook' | 'slack' | 'discord' | 'smtp';
+
+export interface AlertChannel {
+    id: number;
+    name: string;
+    type: AlertChannelType;
+    target: string;
+    enabled: boolean;
+    created_at: number;
+}
+
+export type AlertRuleType = 'container_event' | 'restart_count' | 'cpu' | 'memory' | 'deploy_failed' | 'update_available';
+
+export interface AlertRule {
+    id: number;
+    name: string;
+    type: AlertRuleType;
+    service: string;          // Service name or '*'
+    events: string[];
+    threshold: number | null;
+    window_seconds: number;
+    cooldown_seconds: number;
+    channels: number[];
+    enabled: boolean;
+    created_at: number;
+}
+
+export interface AlertRecord {
+    id: number;
+    rule_id: number;
+    rule_name: string;
+    service: string;
+    title: string;
+    message: string;
+    deliveries: { channel: string; ok: boolean; error?: string }[];
+    suppressed: number;
+    created_at: number;
 }
@@ -0,0 +1,145 @@
+/**
+ * Minimal OpenID Connect provider for trying SSO locally. Not for production: anyone can log in as anyone.
+ *
+ *   bun run mock-idp
+ *   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=orchestr8 bun run dev
+ *
+ * The login page offers a few canned users and a form for any username and groups.
+ */
+const PORT = parseInt(process.env.MOCK_IDP_PORT || '9400');
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'orchestr8';
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+
+const USERS: Record<string, { email: string; groups: string[] }> = {
+  alice: { email: 'alice@example.test', groups: ['ops'] },
+  bob: { email: 'bob@example.test', groups: ['developers'] },
+  carol: { email: 'carol@example.test', groups: [] },
+};
+
+interface PendingCode {
+  redirectUri: string;
+  challenge: string;
+  nonce?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, Record<string, unknown>>();
+
+const { privateKey, publicKey } = await crypto.subtle.generateKey(
+  { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+  true,
+  ['sign', 'verify'],
+);
+const KID = 'mock-1';
+const jwk = { ...(await crypto.subtle.exportKey('jwk', publicKey)), kid: KID, use: 'sig', alg: 'RS256' };
+
+const base64url = (data: ArrayBuffer | Uint8Array | string) =>
+  (typeof data === 'string' ? Buffer.from(data) : Buffer.from(data as ArrayBuffer)).toString('base64url');
+const random = () => base64url(crypto.getRandomValues(new Uint8Array(24)));
+const escape = (s: string) => s.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+async function sign(claims: Record<string, unknown>): Promise<string> {
+  const input = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KID }))}.${base64url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, new TextEncoder().encode(input));
+  return `${input}.${base64url(signature)}`;
+}
+
+function loginPage(params: URLSearchParams): Response {
+  const hidden = [...params].map(([k, v]) => `<input type="hidden" name="${escape(k)}" value="${escape(v)}">`).join('');
+  const canned = Object.entries(USERS).map(([name, u]) =>
+    `<form method="post">${hidden}<input type="hidden" name="username" value="${name}"><input type="hidden" name="groups" value="${u.groups.join(',')}">
+     <button>${name}</button> <small>${u.groups.join(', ') || 'no groups'}</small></form>`).join('');
+  return new Response(`<!doctype html><title>Mock IdP</title>
+    <body style="font-family:sans-serif;max-width:420px;margin:4em auto">
+    <h2>Mock identity provider</h2><p>Log in to <code>${escape(params.get('client_id') ?? '')}</code> as:</p>${canned}
+    <hr><form method="post">${hidden}
+      <p><input name="username" placeholder="username" required></p>
+      <p><input name="groups" placeholder="groups, comma separated"></p>
+      <button>Log in</button></form></body>`, { headers: { 'Content-Type': 'text/html' } });
+}
+
+const json = (body: unknown, status = 200) => Response.json(body, { status, headers: { 'Cache-Control': 'no-store' } });
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const url = new URL(req.url);
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json({
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        scopes_supported: ['openid', 'profile', 'email', 'groups'],
+      });
+    }
+
+    if (url.pathname === '/jwks') return json({ keys: [jwk] });
+
+    if (url.pathname === '/authorize') {
+      const params = req.method === 'POST' ? new URLSearchParams(await req.text()) : url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (params.get('client_id') !== CLIENT_ID || !redirectUri) return new Response('Unknown client or missing redirect_uri', { status: 400 });
+      if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+        return new Response('Only the code flow with S256 PKCE is supported', { status: 400 });
+      }
+      if (req.method !== 'POST') return loginPage(params);
+
+      const username = params.get('username')!.trim();
+      const code = random();
+      codes.set(code, {
+        redirectUri,
+        challenge: params.get('code_challenge')!,
+        nonce: params.get('nonce') ?? undefined,
+        claims: {
+          sub: `mock|${username}`,
+          preferred_username: username,
+          email: USERS[username]?.email ?? `${username}@example.test`,
+          groups: (params.get('groups') ?? '').split(',').map(g => g.trim()).filter(Boolean),
+        },
+        expiresAt: Date.now() + CODE_TTL_MS,
+      });
+      const target = new URL(redirectUri);
+      target.searchParams.set('code', code);
+      if (params.get('state')) target.searchParams.set('state', params.get('state')!);
+      return Response.redirect(target.toString(), 302);
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const body = new URLSearchParams(await req.text());
+      const code = codes.get(body.get('code') ?? '');
+      codes.delete(body.get('code') ?? '');
+      if (!code || code.expiresAt < Date.now() || code.redirectUri !== body.get('redirect_uri')) return json({ error: 'invalid_grant' }, 400);
+      const challenge = base64url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body.get('code_verifier') ?? '')));
+      if (challenge !== code.challenge) return json({ error: 'invalid_grant', error_description: 'PKCE verification failed' }, 400);
+
+      const now = Math.floor(Date.now() / 1000);
+      const accessToken = random();
+      accessTokens.set(accessToken, code.claims);
+      return json({
+        token_type: 'Bearer',
+        access_token: accessToken,
+        expires_in: 300,
+        id_token: await sign({ ...code.claims, iss: ISSUER, aud: CLIENT_ID, iat: now, exp: now + 300, ...(code.nonce && { nonce: code.nonce }) }),
+      });
+    }
+
+    if (url.pathname === '/userinfo') {
+      const claims = accessTokens.get((req.headers.get('Authorization') ?? '').replace(/^Bearer /, ''));
+      return claims ? json(claims) : json({ error: 'invalid_token' }, 401);
+    }
+
+    return new Response('Not found', { status: 404 });
+  },
+});
+
+console.log(`Mock IdP on ${ISSUER} (client id ${CLIENT_ID})`);
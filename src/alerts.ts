@@ -0,0 +1,242 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import { hostname } from 'os';
+import { CONFIG } from './config';
+import { DB } from './db';
+import type { DockerManager } from './docker';
+import type {
+  AlertChannel, AlertChannelType, AlertDelivery, AlertRule, AlertRuleType, ContainerEvent, ResourceStats
+} from './types';
+
+export const CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'slack', 'discord', 'smtp'];
+export const RULE_TYPES: AlertRuleType[] = ['container_event', 'restart_count', 'cpu', 'memory', 'deploy_failed', 'update_available'];
+
+type ChannelInput = Omit<AlertChannel, 'id' | 'created_at'>;
+type RuleInput = Omit<AlertRule, 'id' | 'created_at'>;
+
+// Returns an error message, or null if the channel can be saved
+export function validateChannel(c: ChannelInput): string | null {
+  if (!c.name?.trim()) return 'Channel name required';
+  if (!CHANNEL_TYPES.includes(c.type)) return `Channel type must be one of: ${CHANNEL_TYPES.join(', ')}`;
+  if (!c.target?.trim()) return 'Channel target required';
+
+  if (c.type === 'smtp') {
+    const bad = c.target.split(',').map(s => s.trim()).find(addr => !/^[^\s@]+@[^\s@]+$/.test(addr));
+    return bad !== undefined ? `Invalid email address: ${bad || '(empty)'}` : null;
+  }
+  try {
+    const url = new URL(c.target);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'Webhook URL must be http(s)';
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  return null;
+}
+
+export function validateRule(r: RuleInput): string | null {
+  if (!r.name?.trim()) return 'Rule name required';
+  if (!RULE_TYPES.includes(r.type)) return `Rule type must be one of: ${RULE_TYPES.join(', ')}`;
+  if (!r.service?.trim()) return "Service required (use '*' for all services)";
+  if (!Array.isArray(r.channels) || r.channels.length === 0) return 'At least one channel required';
+  const missing = r.channels.find(id => !DB.getAlertChannel(id));
+  if (missing !== undefined) return `Channel ${missing} does not exist`;
+  if (!(r.cooldown_seconds >= 0)) return 'Cooldown must be zero or more seconds';
+
+  switch (r.type) {
+    case 'container_event':
+      if (!Array.isArray(r.events) || r.events.length === 0) return 'Pick at least one container event';
+      break;
+    case 'restart_count':
+      if (!Number.isInteger(r.threshold) || r.threshold! < 1) return 'Restart threshold must be a whole number of at least 1';
+      if (!(r.window_seconds > 0)) return 'Counting window must be positive';
+      break;
+    case 'cpu':
+    case 'memory':
+      if (!(r.threshold! > 0)) return 'Threshold must be a positive percentage';
+      if (r.type === 'memory' && r.threshold! > 100) return 'Memory threshold cannot exceed 100%';
+      if (!(r.window_seconds >= 0)) return 'Duration must be zero or more seconds';
+      break;
+  }
+  return null;
+}
+
+interface Alert {
+  title: string;
+  message: string;
+}
+
+/**
+ * Evaluates alert rules against container events, resource samples and deploy
+ * results, and fans notifications out to the rule's channels. Repeats of the
+ * same rule for the same service are suppressed for the rule's cooldown.
+ */
+export class AlertManager {
+  // `${ruleId}:${service}` -> recent die timestamps
+  private restarts = new Map<string, number[]>();
+  // `${ruleId}:${service}` -> when the current threshold breach started
+  private breaches = new Map<string, number>();
+  private mailer: Transporter | null = null;
+
+  constructor(private dockerMgr: DockerManager) {}
+
+  start() {
+    this.dockerMgr.onContainerEvent(event => this.handleEvent(event));
+  }
+
+  private rulesFor(service: string, ...types: AlertRuleType[]): AlertRule[] {
+    return DB.listAlertRules().filter(r =>
+      r.enabled && types.includes(r.type) && (r.service === '*' || r.service === service)
+    );
+  }
+
+  private handleEvent(e: ContainerEvent) {
+    const qualified = e.status ? `${e.action}:${e.status}` : e.action;
+    const exit = e.exitCode !== undefined ? ` (exit code ${e.exitCode})` : '';
+
+    for (const rule of this.rulesFor(e.service, 'container_event', 'restart_count')) {
+      if (rule.type === 'container_event') {
+        if (!rule.events.includes(e.action) && !rule.events.includes(qualified)) continue;
+        this.fire(rule, e.service, {
+          title: `${e.service}: container ${qualified}${exit}`,
+          message: `Docker reported "${qualified}" for ${e.service}${exit}${e.image ? ` running ${e.image}` : ''}.`,
+        });
+        continue;
+      }
+
+      if (e.action !== 'die') continue;
+      const key = `${rule.id}:${e.service}`;
+      const since = e.time - rule.window_seconds * 1000;
+      const deaths = [...(this.restarts.get(key) ?? []).filter(t => t > since), e.time];
+      this.restarts.set(key, deaths);
+      if (deaths.length >= rule.threshold!) {
+        this.fire(rule, e.service, {
+          title: `${e.service}: restarted ${deaths.length} times`,
+          message: `${e.service} stopped ${deaths.length} times in the last ${formatSeconds(rule.window_seconds)}; last exit${exit || ' code unknown'}.`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Fed by the metrics sampler. CPU is measured against the configured CPU limit
+   * (or one core), memory against the container's memory limit.
+   */
+  checkResources(service: string, stats: ResourceStats) {
+    for (const rule of this.rulesFor(service, 'cpu', 'memory')) {
+      const key = `${rule.id}:${service}`;
+      const value = rule.type === 'cpu'
+        ? (stats.cpuLimit ? stats.cpuPercent / stats.cpuLimit : stats.cpuPercent)
+        : stats.memoryPercent;
+
+      if (value < rule.threshold!) {
+        this.breaches.delete(key);
+        continue;
+      }
+      const start = this.breaches.get(key) ?? stats.timestamp;
+      this.breaches.set(key, start);
+      if (stats.timestamp - start < rule.window_seconds * 1000) continue;
+
+      const label = rule.type === 'cpu' ? 'CPU' : 'Memory';
+      this.fire(rule, service, {
+        title: `${service}: ${label} at ${value.toFixed(0)}%`,
+        message: `${label} usage of ${service} has been at or above ${rule.threshold}% for ${formatSeconds(Math.round((stats.timestamp - start) / 1000))} (now ${value.toFixed(1)}%).`,
+      });
+    }
+  }
+
+  // Failed deploys, rollbacks, restores and nginx config test/reload failures
+  deployFailed(service: string, operation: string, error: string) {
+    for (const rule of this.rulesFor(service, 'deploy_failed')) {
+      this.fire(rule, service, {
+        title: `${service}: ${operation} failed`,
+        message: error.length > 2000 ? `${error.slice(0, 2000)}…` : error,
+      });
+    }
+  }
+
+  // Notify-only update policies found a newer image
+  updateAvailable(service: string, image: string, reason: string) {
+    for (const rule of this.rulesFor(service, 'update_available')) {
+      this.fire(rule, service, { title: `${service}: update available (${image})`, message: reason });
+    }
+  }
+
+  private async fire(rule: AlertRule, service: string, alert: Alert) {
+    try {
+      const last = DB.lastAlert(rule.id, service);
+      if (last && Date.now() - last.created_at < rule.cooldown_seconds * 1000) {
+        DB.markAlertSuppressed(last.id);
+        return;
+      }
+      // Recorded before sending so concurrent triggers fall inside the cooldown
+      const record = DB.addAlert({ rule_id: rule.id, rule_name: rule.name, service, ...alert, deliveries: [] });
+
+      const channels = rule.channels
+        .map(id => DB.getAlertChannel(id))
+        .filter((ch): ch is AlertChannel => !!ch?.enabled);
+      const deliveries = await Promise.all(channels.map(ch => this.deliver(ch, alert, { rule: rule.name, service })));
+      DB.setAlertDeliveries(record.id, deliveries);
+    } catch (e: any) {
+      console.error(`Alert "${rule.name}" for ${service} failed:`, e.message);
+    }
+  }
+
+  test(channel: AlertChannel): Promise<AlertDelivery> {
+    return this.deliver(channel, {
+      title: 'Test alert from Orchestr8',
+      message: `Channel "${channel.name}" is configured correctly.`,
+    }, { rule: 'test', service: '-' });
+  }
+
+  private async deliver(channel: AlertChannel, alert: Alert, context: { rule: string; service: string }): Promise<AlertDelivery> {
+    const host = hostname();
+    try {
+      switch (channel.type) {
+        case 'webhook':
+          await post(channel.target, { ...alert, ...context, host, time: new Date().toISOString() });
+          break;
+        case 'slack':
+          await post(channel.target, { text: `*${alert.title}*\n${alert.message}\n_${host}_` });
+          break;
+        case 'discord':
+          await post(channel.target, { content: `**${alert.title}**\n${alert.message}\n*${host}*` });
+          break;
+        case 'smtp':
+          await this.transport().sendMail({
+            from: CONFIG.SMTP.FROM,
+            to: channel.target,
+            subject: `[Orchestr8] ${alert.title}`,
+            text: `${alert.message}\n\nRule: ${context.rule}\nHost: ${host}`,
+          });
+          break;
+      }
+      return { channel: channel.name, ok: true };
+    } catch (e: any) {
+      return { channel: channel.name, ok: false, error: e.message };
+    }
+  }
+
+  private transport(): Transporter {
+    if (!CONFIG.SMTP.HOST) throw new Error('SMTP_HOST is not configured');
+    this.mailer ??= nodemailer.createTransport({
+      host: CONFIG.SMTP.HOST,
+      port: CONFIG.SMTP.PORT,
+      secure: CONFIG.SMTP.SECURE,
+      auth: CONFIG.SMTP.USER ? { user: CONFIG.SMTP.USER, pass: CONFIG.SMTP.PASSWORD } : undefined,
+      connectionTimeout: 10000,
+    });
+    return this.mailer;
+  }
+}
+
+async function post(url: string, body: unknown) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+}
+
+const formatSeconds = (s: number) =>
+  s >= 3600 && s % 3600 === 0 ? `${s / 3600}h` : s >= 60 && s % 60 === 0 ? `${s / 60}m` : `${s}s`;
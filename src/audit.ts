@@ -0,0 +1,51 @@
+import { DB } from './db';
+import { isSecretKey, REDACTED } from './envfile';
+import type { AuditResult, User } from './types';
+
+export type ConfigDiff = Record<string, { from: unknown; to: unknown }>;
+
+export class AuditLogger {
+  // Mask anything that looks like a credential before it hits the database
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(v => this.redact(v));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) =>
+        [k, isSecretKey(k) && v != null ? REDACTED : this.redact(v)]
+      ));
+    }
+    return value;
+  }
+
+  /**
+   * Record a mutating action. Never throws: a failing audit write must not break the action itself.
+   */
+  record(user: User, action: string, scope: string, payload: unknown = null, result: AuditResult = 'success', error?: string) {
+    try {
+      DB.addAuditEvent({
+        actor: user.username,
+        action,
+        scope,
+        payload: this.redact(payload),
+        result,
+        error: error ?? null,
+      });
+    } catch (e) {
+      console.error(`Failed to write audit event ${action}:`, e);
+    }
+  }
+
+  /**
+   * Shallow diff of two flat objects (service configs, etc.)
+   */
+  diff(before: object | null | undefined, after: object | null | undefined): ConfigDiff {
+    const a = (before ?? {}) as Record<string, unknown>;
+    const b = (after ?? {}) as Record<string, unknown>;
+    const changes: ConfigDiff = {};
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+        changes[key] = { from: a[key], to: b[key] };
+      }
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,116 @@
+import { CONFIG } from './config';
+import { DB } from './db';
+import type { User } from './types';
+
+const API_KEY_PREFIX = 'o8k_';
+
+export const ENV_ADMIN_ID = 0;
+
+export function envAdmin(): User {
+  return { username: 'admin', is_admin: true, permissions: [], id: ENV_ADMIN_ID, password_hash: '' };
+}
+
+// Actor of work nobody clicked (scheduled applies, registry webhook, auto-updates). Never resolves to a login
+export const SYSTEM_ACTOR_ID = -1;
+
+export function systemActor(name: string): User {
+  return { username: `system:${name}`, is_admin: false, permissions: [], id: SYSTEM_ACTOR_ID, password_hash: '' };
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: number;
+  refreshExpiresAt: number;
+}
+
+export class AuthManager {
+  private randomToken(bytes = 32): string {
+    const buf = crypto.getRandomValues(new Uint8Array(bytes));
+    return Buffer.from(buf).toString('hex');
+  }
+
+  // Tokens are high-entropy, so a plain SHA-256 is enough (and cheap per request)
+  private hash(token: string): string {
+    return new Bun.CryptoHasher('sha256').update(token).digest('hex');
+  }
+
+  private resolveUser(userId: number): User | null {
+    if (userId === ENV_ADMIN_ID) return envAdmin();
+    return DB.getUserById(userId);
+  }
+
+  /**
+   * Password check for login and legacy Basic auth.
+   * This is the only place the (slow) bcrypt verify runs.
+   */
+  verifyCredentials(username: string, password: string): User | null {
+    if (username === CONFIG.AUTH.USERNAME && password === CONFIG.AUTH.PASSWORD) {
+      return envAdmin();
+    }
+    const user = DB.getUser(username);
+    // SSO users without a password have an empty hash
+    if (user?.password_hash && Bun.password.verifySync(password, user.password_hash)) return user;
+    return null;
+  }
+
+  createSession(user: User): SessionTokens {
+    const now = Date.now();
+    DB.pruneSessions(now);
+
+    const tokens: SessionTokens = {
+      token: this.randomToken(),
+      refreshToken: this.randomToken(),
+      expiresAt: now + CONFIG.SESSION.TTL_MINUTES * 60 * 1000,
+      refreshExpiresAt: now + CONFIG.SESSION.REFRESH_TTL_DAYS * 24 * 60 * 60 * 1000,
+    };
+    DB.createSession(user.id, user.username, this.hash(tokens.token), this.hash(tokens.refreshToken), tokens.expiresAt, tokens.refreshExpiresAt);
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair.
+   * The old session is dropped, so each refresh token works once.
+   */
+  refreshSession(refreshToken: string): { user: User; tokens: SessionTokens } | null {
+    const session = DB.getSessionByRefresh(this.hash(refreshToken));
+    if (!session) return null;
+    DB.deleteSession(session.id);
+    if (session.refresh_expires_at < Date.now()) return null;
+
+    const user = this.resolveUser(session.user_id);
+    if (!user) return null;
+    return { user, tokens: this.createSession(user) };
+  }
+
+  revokeSession(token: string) {
+    const session = DB.getSessionByToken(this.hash(token));
+    if (session) DB.deleteSession(session.id);
+  }
+
+  /**
+   * Resolve a Bearer token to a user. Accepts both session tokens and API keys.
+   */
+  authenticateBearer(token: string): User | null {
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const key = DB.getApiKeyByHash(this.hash(token));
+      if (!key || key.revoked_at) return null;
+      const user = this.resolveUser(key.user_id);
+      if (user) DB.touchApiKey(key.id);
+      return user;
+    }
+
+    const session = DB.getSessionByToken(this.hash(token));
+    if (!session || session.expires_at < Date.now()) return null;
+    return this.resolveUser(session.user_id);
+  }
+
+  /**
+   * Create a named API key. The raw key is only ever returned here.
+   */
+  createApiKey(user: User, name: string): { id: number | bigint; key: string } {
+    const key = `${API_KEY_PREFIX}${this.randomToken(24)}`;
+    const id = DB.createApiKey(user.id, user.username, name, key.substring(0, API_KEY_PREFIX.length + 6), this.hash(key));
+    return { id, key };
+  }
+}
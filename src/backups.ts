@@ -0,0 +1,219 @@
+import { join, resolve } from 'path';
+import { tmpdir } from 'os';
+import { existsSync, mkdirSync, mkdtempSync, copyFileSync, statSync, unlinkSync, readdirSync, rmSync } from 'fs';
+import { CONFIG } from './config';
+import { DB } from './db';
+import type { DockerManager } from './docker';
+import type { Backup, DockerServiceConfig } from './types';
+
+// Files of the service env dir that make up its configuration
+const CONFIG_FILES = ['.env', 'config.json', 'docker-compose.yml'];
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+// minute, hour, day of month, month, day of week
+const CRON_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 6]];
+
+/**
+ * Split and validate a 5-field cron expression ("*", "n", "a-b", lists and "/step").
+ * Returns null if it isn't one.
+ */
+export function parseCron(expr: string): string[] | null {
+  const fields = (CRON_ALIASES[expr.trim()] ?? expr).trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const valid = fields.every((field, i) => field.split(',').every(part => {
+    const m = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!m) return false;
+    const [min, max] = CRON_RANGES[i];
+    const lo = m[2] !== undefined ? parseInt(m[2]) : min;
+    const hi = m[3] !== undefined ? parseInt(m[3]) : max;
+    return lo >= min && hi <= max && lo <= hi && (m[4] === undefined || parseInt(m[4]) > 0);
+  }));
+  return valid ? fields : null;
+}
+
+function fieldMatches(field: string, value: number, [min, max]: [number, number]): boolean {
+  return field.split(',').some(part => {
+    const [range, step] = part.split('/');
+    let lo = min, hi = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-').map(Number);
+      lo = a;
+      hi = b ?? (step ? max : a);
+    }
+    return value >= lo && value <= hi && (value - lo) % (step ? parseInt(step) : 1) === 0;
+  });
+}
+
+export function cronMatches(expr: string, date: Date): boolean {
+  const fields = parseCron(expr);
+  if (!fields) return false;
+  const [minute, hour, dom, month, dow] = fields;
+
+  if (!fieldMatches(minute, date.getMinutes(), CRON_RANGES[0])) return false;
+  if (!fieldMatches(hour, date.getHours(), CRON_RANGES[1])) return false;
+  if (!fieldMatches(month, date.getMonth() + 1, CRON_RANGES[3])) return false;
+
+  // Like cron: when both day fields are restricted, either may match
+  const domOk = fieldMatches(dom, date.getDate(), CRON_RANGES[2]);
+  const dowOk = fieldMatches(dow, date.getDay(), CRON_RANGES[4]);
+  if (dom !== '*' && dow !== '*') return domOk || dowOk;
+  return domOk && dowOk;
+}
+
+async function run(cmd: string[], what: string) {
+  const proc = Bun.spawn(cmd, { stderr: 'pipe', stdout: 'ignore' });
+  if (await proc.exited !== 0) {
+    const err = await new Response(proc.stderr).text();
+    throw new Error(`${what} failed: ${err}`);
+  }
+}
+
+/**
+ * Service backups: one .tar.gz per snapshot holding the env dir files under config/
+ * and a tarball per named volume under volumes/. Volumes are read and written through
+ * a throwaway helper container so this works without root on the host.
+ */
+export class BackupManager {
+  private busy = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private dockerMgr: DockerManager) {}
+
+  private get root(): string {
+    return resolve(CONFIG.PATHS.BACKUP_DIR);
+  }
+
+  // One backup/restore per service at a time
+  private async exclusive<T>(service: string, fn: () => Promise<T>): Promise<T> {
+    if (this.busy.has(service)) throw new Error(`A backup or restore of ${service} is already running`);
+    this.busy.add(service);
+    try {
+      return await fn();
+    } finally {
+      this.busy.delete(service);
+    }
+  }
+
+  private async volumeExists(name: string): Promise<boolean> {
+    try {
+      await this.dockerMgr.instance.getVolume(name).inspect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async create(service: string, actor: string, trigger: Backup['trigger']): Promise<Backup> {
+    const config = this.dockerMgr.readConfig(service);
+    if (!config) throw new Error(`Service ${service} has no saved configuration`);
+
+    return this.exclusive(service, async () => {
+      const staging = mkdtempSync(join(tmpdir(), 'o8-backup-'));
+      try {
+        const envDir = this.dockerMgr.ensureEnvDir(service);
+        mkdirSync(join(staging, 'config'));
+        mkdirSync(join(staging, 'volumes'));
+        for (const f of CONFIG_FILES) {
+          if (existsSync(join(envDir, f))) copyFileSync(join(envDir, f), join(staging, 'config', f));
+        }
+
+        // Live copy: apps with their own dump tooling (databases) should use it as well
+        const volumes: string[] = [];
+        for (const vol of this.dockerMgr.namedVolumes(service)) {
+          if (!await this.volumeExists(vol)) continue;
+          await run([
+            'docker', 'run', '--rm',
+            '-v', `${vol}:/volume:ro`, '-v', `${join(staging, 'volumes')}:/backup`,
+            CONFIG.BACKUP.HELPER_IMAGE, 'tar', '-cf', `/backup/${vol}.tar`, '-C', '/volume', '.'
+          ], `Backup of volume ${vol}`);
+          volumes.push(vol);
+        }
+
+        const dir = join(this.root, service);
+        if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+        const file = join(dir, `${service}-${new Date().toISOString().replace(/[:.]/g, '-')}.tar.gz`);
+        await run(['tar', '-czf', file, '-C', staging, '.'], 'Archive');
+
+        const backup = DB.addBackup({ service, file, size: statSync(file).size, volumes, trigger, actor });
+        this.prune(service, config.backup?.retention ?? CONFIG.BACKUP.DEFAULT_RETENTION);
+        return backup;
+      } finally {
+        rmSync(staging, { recursive: true, force: true });
+      }
+    });
+  }
+
+  // Keep the newest `keep` archives of a service
+  prune(service: string, keep: number) {
+    for (const old of DB.listBackups(service).slice(Math.max(keep, 1))) this.remove(old);
+  }
+
+  remove(backup: Backup) {
+    if (existsSync(backup.file)) unlinkSync(backup.file);
+    DB.deleteBackup(backup.id);
+  }
+
+  /**
+   * Stop the service and put its config files and volume contents back.
+   * Returns the restored config; the caller redeploys with it.
+   */
+  async restore(backup: Backup): Promise<DockerServiceConfig> {
+    if (!existsSync(backup.file)) throw new Error(`Archive ${backup.file} is missing`);
+
+    return this.exclusive(backup.service, async () => {
+      const staging = mkdtempSync(join(tmpdir(), 'o8-restore-'));
+      try {
+        await run(['tar', '-xzf', backup.file, '-C', staging], 'Extract');
+        await this.dockerMgr.stopService(backup.service).catch(() => {}); // May already be stopped or gone
+
+        const envDir = this.dockerMgr.ensureEnvDir(backup.service);
+        for (const f of CONFIG_FILES) {
+          if (existsSync(join(staging, 'config', f))) copyFileSync(join(staging, 'config', f), join(envDir, f));
+        }
+
+        const volumeDir = join(staging, 'volumes');
+        const tarballs = existsSync(volumeDir) ? readdirSync(volumeDir).filter(f => /^[\w.-]+\.tar$/.test(f)) : [];
+        for (const tarball of tarballs) {
+          const vol = tarball.slice(0, -'.tar'.length);
+          await run([
+            'docker', 'run', '--rm',
+            '-v', `${vol}:/volume`, '-v', `${volumeDir}:/backup:ro`,
+            CONFIG.BACKUP.HELPER_IMAGE, 'sh', '-c', `find /volume -mindepth 1 -delete && tar -xf /backup/${tarball} -C /volume`
+          ], `Restore of volume ${vol}`);
+        }
+
+        const config = this.dockerMgr.readConfig(backup.service);
+        if (!config) throw new Error('Backup did not contain a service configuration');
+        return config;
+      } finally {
+        rmSync(staging, { recursive: true, force: true });
+      }
+    });
+  }
+
+  /**
+   * Check every service's backup schedule at the top of each minute.
+   */
+  startScheduler() {
+    if (this.timer) return;
+    const tick = () => {
+      // Timers drift by a few ms either way; snap to the minute being scheduled
+      const now = new Date(Math.round(Date.now() / 60_000) * 60_000);
+      for (const service of this.dockerMgr.configuredServices()) {
+        const schedule = this.dockerMgr.readConfig(service)?.backup?.schedule;
+        if (!schedule || !cronMatches(schedule, now)) continue;
+        this.create(service, 'scheduler', 'schedule')
+          .then(b => console.log(`Scheduled backup of ${service}: ${b.file}`))
+          .catch(e => console.error(`Scheduled backup of ${service} failed:`, e.message));
+      }
+      this.timer = setTimeout(tick, 60_000 - (Date.now() % 60_000));
+    };
+    this.timer = setTimeout(tick, 60_000 - (Date.now() % 60_000));
+  }
+}
@@ -0,0 +1,86 @@
+import type { DockerManager } from './docker';
+import type { NginxManager } from './nginx';
+import type { DockerServiceConfig } from './types';
+
+/**
+ * Zero-downtime image updates behind the managed nginx vhost.
+ *
+ * 1. Start the new version as "{service}-next" on a spare host port and wait for it to be healthy.
+ * 2. Point proxy_pass at the candidate and reload nginx.
+ * 3. Replace the primary container, wait for it to be healthy, point nginx back at it.
+ * 4. Remove the candidate.
+ *
+ * The primary keeps its name and port, so logs, stop/restart and the compose dir keep working.
+ * Any failure before step 3 leaves the old container serving; later failures restore the previous version.
+ */
+export class BlueGreenDeployer {
+  constructor(private dockerMgr: DockerManager, private nginxMgr: NginxManager) {}
+
+  private async switchTraffic(config: DockerServiceConfig, port: string) {
+    this.nginxMgr.createConfig(config.domain!, port, config.clientMaxBodySize);
+    const res = await this.nginxMgr.reload();
+    if (!res.success) throw new Error(`Nginx switch to port ${port} failed: ${res.output}`);
+  }
+
+  async deploy(
+    service: string,
+    image: string,
+    config: DockerServiceConfig,
+    previous: { image: string; config: DockerServiceConfig }
+  ): Promise<string> {
+    const log = (msg: string) => console.log(`[blue-green] ${service}: ${msg}`);
+    if (!config.domain || !config.hostPort) {
+      throw new Error('Blue/green updates need a domain and host port (traffic is switched through nginx)');
+    }
+
+    // 1. Candidate
+    const candidatePort = String(this.dockerMgr.findFreePort());
+    const candidate = this.dockerMgr.candidateName(service);
+    log(`Starting ${candidate} on port ${candidatePort}`);
+    try {
+      await this.dockerMgr.startCandidate(service, image, { ...config, hostPort: candidatePort });
+      await this.dockerMgr.waitForHealthy(candidate, config);
+    } catch (e) {
+      await this.dockerMgr.removeCandidate(service);
+      throw e;
+    }
+
+    // 2. Traffic -> candidate
+    log(`Switching nginx to port ${candidatePort}`);
+    try {
+      await this.switchTraffic(config, candidatePort);
+    } catch (e) {
+      log('Nginx switch failed, reverting');
+      await this.switchTraffic(previous.config, previous.config.hostPort!).catch(err => log(err.message));
+      await this.dockerMgr.removeCandidate(service);
+      throw e;
+    }
+
+    // 3. Replace primary (old container stops only now)
+    log(`Replacing ${service}`);
+    try {
+      const composeContent = this.dockerMgr.generateComposeContent(service, image, config);
+      await this.dockerMgr.startService(service, composeContent, true);
+      await this.dockerMgr.waitForHealthy(service, config);
+      await this.switchTraffic(config, config.hostPort);
+    } catch (e) {
+      log('Primary failed to come up, restoring previous version');
+      try {
+        const composeContent = this.dockerMgr.generateComposeContent(service, previous.image, previous.config);
+        await this.dockerMgr.startService(service, composeContent, true);
+        await this.dockerMgr.waitForHealthy(service, previous.config);
+        await this.switchTraffic(previous.config, previous.config.hostPort!);
+        await this.dockerMgr.removeCandidate(service);
+      } catch (restoreErr: any) {
+        // Candidate is healthy and still receiving traffic; leave it up rather than go dark
+        log(`Restore failed, ${candidate} keeps serving: ${restoreErr.message}`);
+      }
+      throw e;
+    }
+
+    // 4. Cleanup
+    await this.dockerMgr.removeCandidate(service);
+    log('Blue/green update complete');
+    return 'updated';
+  }
+}
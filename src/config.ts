@@ -10,6 +10,35 @@ export const CONFIG = {
     PASSWORD: process.env.AUTH_PASSWORD || Bun.env.AUTH_PASSWORD || 'docker123',
   },
 
+  // Token login: short-lived access tokens, longer refresh window
+  SESSION: {
+    TTL_MINUTES: parseInt(process.env.SESSION_TTL_MINUTES || Bun.env.SESSION_TTL_MINUTES || '30'),
+    REFRESH_TTL_DAYS: parseInt(process.env.SESSION_REFRESH_TTL_DAYS || Bun.env.SESSION_REFRESH_TTL_DAYS || '7'),
+  },
+
+  // Single sign-on (OIDC authorization code + PKCE). Unset issuer or client id = SSO disabled
+  OIDC: {
+    ISSUER: (process.env.OIDC_ISSUER || Bun.env.OIDC_ISSUER)?.replace(/\/$/, ''),
+    CLIENT_ID: process.env.OIDC_CLIENT_ID || Bun.env.OIDC_CLIENT_ID,
+    CLIENT_SECRET: process.env.OIDC_CLIENT_SECRET || Bun.env.OIDC_CLIENT_SECRET, // Unset = public client
+    REDIRECT_URI: process.env.OIDC_REDIRECT_URI || Bun.env.OIDC_REDIRECT_URI, // Unset = {this server}/api/auth/oidc/callback
+    SCOPES: process.env.OIDC_SCOPES || Bun.env.OIDC_SCOPES || 'openid profile email groups',
+    USERNAME_CLAIM: process.env.OIDC_USERNAME_CLAIM || Bun.env.OIDC_USERNAME_CLAIM || 'preferred_username',
+    LABEL: process.env.OIDC_LABEL || Bun.env.OIDC_LABEL || 'SSO', // "Sign in with {label}"
+  },
+
+  // TOTP two-factor auth for database users. Roles can require it too (on the Users page)
+  TWO_FACTOR: {
+    REQUIRE_FOR_ADMINS: (process.env.REQUIRE_2FA_FOR_ADMINS || Bun.env.REQUIRE_2FA_FOR_ADMINS) === 'true', // Admins and project admins
+    ISSUER: process.env.TOTP_ISSUER || Bun.env.TOTP_ISSUER || 'Orchestr8', // Account label in authenticator apps
+  },
+
+  // Shared secret of the GitHub package webhook (push-to-deploy). Unset = webhook disabled
+  REGISTRY_WEBHOOK_SECRET: process.env.REGISTRY_WEBHOOK_SECRET || Bun.env.REGISTRY_WEBHOOK_SECRET,
+
+  // Encrypts registry credentials at rest. Unset = a random key is generated in the data dir
+  MASTER_KEY: process.env.MASTER_KEY || Bun.env.MASTER_KEY,
+
   // GITHUB PAT: use .env file to set this
   GITHUB_PAT: process.env.GITHUB_PAT || Bun.env.GITHUB_PAT,
 
@@ -18,7 +47,41 @@ export const CONFIG = {
     ENV_BASE_DIR: join(homedir(), '.dckr', 'env'), // Where env files and configs are stored
     NGINX_MANAGED_DIR: '/etc/nginx/sites-available/api-managed', // Dir with proper permissions for nginx configs
     NGINX_SNIPPET: 'snippets/ssl-cname-iiitkota.conf', // Nginx snippet for SSL (read docs)
-    BACKUP_DIR: './backups', 
+    BACKUP_DIR: process.env.BACKUP_DIR || Bun.env.BACKUP_DIR || './backups', // Service backup archives
+  },
+
+  // Host directories services may bind-mount (comma separated). Empty = bind mounts disabled
+  BIND_MOUNT_ROOTS: (process.env.BIND_MOUNT_ROOTS || Bun.env.BIND_MOUNT_ROOTS || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean),
+
+  BACKUP: {
+    HELPER_IMAGE: process.env.BACKUP_HELPER_IMAGE || Bun.env.BACKUP_HELPER_IMAGE || 'alpine:3', // Runs tar against volumes
+    DEFAULT_RETENTION: parseInt(process.env.BACKUP_RETENTION || Bun.env.BACKUP_RETENTION || '7'),
+  },
+
+  // Historical resource metrics (metrics.sqlite next to users.sqlite)
+  METRICS: {
+    INTERVAL_SECONDS: parseInt(process.env.METRICS_INTERVAL_SECONDS || Bun.env.METRICS_INTERVAL_SECONDS || '15'), // 0 disables the sampler
+    RAW_RETENTION_HOURS: parseInt(process.env.METRICS_RAW_RETENTION_HOURS || Bun.env.METRICS_RAW_RETENTION_HOURS || '24'),
+    MINUTE_RETENTION_DAYS: parseInt(process.env.METRICS_MINUTE_RETENTION_DAYS || Bun.env.METRICS_MINUTE_RETENTION_DAYS || '7'),
+    HOUR_RETENTION_DAYS: parseInt(process.env.METRICS_HOUR_RETENTION_DAYS || Bun.env.METRICS_HOUR_RETENTION_DAYS || '90'),
+  },
+
+  // Background image update policies
+  UPDATES: {
+    POLL_MINUTES: parseInt(process.env.UPDATE_POLL_MINUTES || Bun.env.UPDATE_POLL_MINUTES || '15'), // 0 disables the poller
+  },
+
+  // Outgoing mail for email alert channels
+  SMTP: {
+    HOST: process.env.SMTP_HOST || Bun.env.SMTP_HOST,
+    PORT: parseInt(process.env.SMTP_PORT || Bun.env.SMTP_PORT || '587'),
+    SECURE: (process.env.SMTP_SECURE || Bun.env.SMTP_SECURE) === 'true', // Implicit TLS (port 465)
+    USER: process.env.SMTP_USER || Bun.env.SMTP_USER,
+    PASSWORD: process.env.SMTP_PASSWORD || Bun.env.SMTP_PASSWORD,
+    FROM: process.env.SMTP_FROM || Bun.env.SMTP_FROM || 'orchestr8@localhost',
   },
 
   DOMAIN: {
@@ -30,13 +93,17 @@ export const CONFIG = {
   .map(s => s.trim())
   ?? ['http://localhost:5173', 'https://server.iiitkota.ac.in'], // For cors
 
-  // For authuntication with hub
+  // GHCR owner listed under "Available to Install" (other registries: credentials in the DB)
   DOCKER_USERNAME: process.env.DOCKER_USERNAME || Bun.env.DOCKER_USERNAME, 
-  DOCKER_PASSWORD: process.env.DOCKER_PASSWORD || Bun.env.DOCKER_PASSWORD || process.env.GITHUB_PAT || Bun.env.GITHUB_PAT,
+
+  // Deprecated single registry login; still used for its host when no stored credential covers it
+  DOCKER_PASSWORD: process.env.DOCKER_PASSWORD || Bun.env.DOCKER_PASSWORD,
   DOCKER_SERVER_ADDRESS: process.env.DOCKER_SERVER_ADDRESS || Bun.env.DOCKER_SERVER_ADDRESS || 'ghcr.io',
 };
 
+if (CONFIG.DOCKER_PASSWORD) {
+  console.warn(`⚠️ DOCKER_PASSWORD is deprecated: still used for ${CONFIG.DOCKER_SERVER_ADDRESS}, but add it as a registry credential instead`);
+}
 if (!CONFIG.GITHUB_PAT) {
-  console.error('❌ GITHUB_PAT environment variable is required');
-  process.exit(1);
+  console.warn('⚠️ GITHUB_PAT is not set: GHCR images are limited to public packages and won\'t be listed for install');
 }
\ No newline at end of file
@@ -1,13 +1,14 @@
 import { Database } from 'bun:sqlite';
 import { join } from 'path';
 import { CONFIG } from './config';
-import type { User, Permission } from './types';
+import type { User, Permission, Role, UserGroup, Project, SsoMapping, TotpCredential, Action, Session, ApiKey, AuditEvent, AuditQuery, ServiceRevision, EnvVersion, StagedChanges, Backup, AlertChannel, AlertRule, AlertRecord, UpdateCheck, RegistryCredential, Secret, EnvGroup } from './types';
 import { existsSync, mkdirSync } from 'fs';
+import { DEFAULT_ROLES, SERVICE_ACTIONS, evaluate, type Decision, type Grant } from './rbac';
 
-const dbDir = join(CONFIG.PATHS.ENV_BASE_DIR, '..', 'data');
-if (!existsSync(dbDir)) mkdirSync(dbDir, { recursive: true });
+export const DATA_DIR = join(CONFIG.PATHS.ENV_BASE_DIR, '..', 'data');
+if (!existsSync(DATA_DIR)) mkdirSync(DATA_DIR, { recursive: true });
 
-const db = new Database(join(dbDir, 'users.sqlite'));
+const db = new Database(join(DATA_DIR, 'users.sqlite'));
 
 db.run(`
   CREATE TABLE IF NOT EXISTS users (
@@ -19,21 +20,396 @@ db.run(`
 `);
 
 db.run(`
-  CREATE TABLE IF NOT EXISTS permissions (
+  CREATE TABLE IF NOT EXISTS roles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    actions TEXT NOT NULL,
+    require_2fa BOOLEAN DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+`);
+
+// Roles from before two-factor auth
+if (!(db.query("PRAGMA table_info(roles)").all() as { name: string }[]).some(c => c.name === 'require_2fa')) {
+  db.run("ALTER TABLE roles ADD COLUMN require_2fa BOOLEAN DEFAULT 0");
+}
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS user_groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS user_group_members (
+    group_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    PRIMARY KEY (group_id, user_id)
+  )
+`);
+
+// A grant belongs to a user or a group, and gives an action or a role (by id, so roles can be renamed)
+db.run(`
+  CREATE TABLE IF NOT EXISTS grants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER,
+    group_id INTEGER,
+    scope TEXT NOT NULL,
+    action TEXT,
+    role_id INTEGER,
+    effect TEXT NOT NULL DEFAULT 'allow'
+  )
+`);
+
+// Permissions from before roles and groups existed become direct grants
+if (db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'permissions'").get()) {
+  db.transaction(() => {
+    db.run("INSERT INTO grants (user_id, scope, action) SELECT user_id, scope, action FROM permissions");
+    db.run("DROP TABLE permissions");
+  })();
+}
+
+if (!db.query("SELECT id FROM roles LIMIT 1").get()) {
+  const insert = db.prepare("INSERT INTO roles (name, description, actions, created_at, updated_at) VALUES (?, ?, ?, ?, ?)");
+  for (const role of DEFAULT_ROLES) insert.run(role.name, role.description, JSON.stringify(role.actions), Date.now(), Date.now());
+}
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS projects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+// A service is in at most one project
+db.run(`
+  CREATE TABLE IF NOT EXISTS project_services (
+    service TEXT PRIMARY KEY,
+    project_id INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS project_members (
+    project_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    is_admin BOOLEAN DEFAULT 0,
+    PRIMARY KEY (project_id, user_id)
+  )
+`);
+
+// Users provisioned by an OIDC login, by the issuer's subject (usernames may change upstream)
+db.run(`
+  CREATE TABLE IF NOT EXISTS sso_identities (
+    issuer TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    user_id INTEGER UNIQUE NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_login_at INTEGER,
+    PRIMARY KEY (issuer, subject)
+  )
+`);
+
+// A mapping targets a user group, admin rights, or both
+db.run(`
+  CREATE TABLE IF NOT EXISTS sso_mappings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    claim TEXT NOT NULL,
+    value TEXT NOT NULL,
+    group_id INTEGER,
+    is_admin BOOLEAN DEFAULT 0,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+// One TOTP secret per database user (the env admin has no row to hang it on)
+db.run(`
+  CREATE TABLE IF NOT EXISTS totp_credentials (
+    user_id INTEGER PRIMARY KEY,
+    secret TEXT NOT NULL,
+    enabled_at INTEGER,
+    last_step INTEGER NOT NULL DEFAULT -1,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS recovery_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    code_hash TEXT NOT NULL,
+    used_at INTEGER
+  )
+`);
+
+// Sessions and API keys also belong to the env admin (user_id 0), so no FK here.
+db.run(`
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    username TEXT NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    refresh_hash TEXT UNIQUE NOT NULL,
+    expires_at INTEGER NOT NULL,
+    refresh_expires_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS api_keys (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     user_id INTEGER NOT NULL,
+    username TEXT NOT NULL,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT UNIQUE NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER,
+    revoked_at INTEGER
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    actor TEXT NOT NULL,
+    action TEXT NOT NULL,
     scope TEXT NOT NULL,
+    payload TEXT,
+    result TEXT NOT NULL,
+    error TEXT,
+    created_at INTEGER NOT NULL
+  )
+`);
+db.run("CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_events(created_at)");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS service_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    image TEXT NOT NULL,
+    digest TEXT,
+    config TEXT NOT NULL,
+    env_hash TEXT NOT NULL,
+    source TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE(service, revision)
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS backups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    file TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    volumes TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )
+`);
+db.run("CREATE INDEX IF NOT EXISTS idx_backups_service ON backups(service, created_at)");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS alert_channels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    target TEXT NOT NULL,
+    enabled BOOLEAN DEFAULT 1,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    service TEXT NOT NULL,
+    events TEXT NOT NULL,
+    threshold REAL,
+    window_seconds INTEGER NOT NULL,
+    cooldown_seconds INTEGER NOT NULL,
+    channels TEXT NOT NULL,
+    enabled BOOLEAN DEFAULT 1,
+    created_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS alert_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER NOT NULL,
+    rule_name TEXT NOT NULL,
+    service TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    deliveries TEXT NOT NULL,
+    suppressed INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL
+  )
+`);
+db.run("CREATE INDEX IF NOT EXISTS idx_alert_history_rule ON alert_history(rule_id, service, created_at)");
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS update_checks (
+    service TEXT PRIMARY KEY,
+    checked_at INTEGER NOT NULL,
+    current_tag TEXT NOT NULL,
+    candidate_tag TEXT,
+    candidate_digest TEXT,
+    reason TEXT NOT NULL,
     action TEXT NOT NULL,
-    FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+    error TEXT
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS registry_credentials (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    host TEXT NOT NULL,
+    type TEXT NOT NULL,
+    username TEXT NOT NULL,
+    password_enc TEXT NOT NULL,
+    namespace TEXT,
+    insecure BOOLEAN DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS env_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL, -- Sealed with the vault key
+    hash TEXT NOT NULL,
+    source TEXT NOT NULL,
+    reverted_from INTEGER,
+    actor TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE(service, version)
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS staged_changes (
+    service TEXT PRIMARY KEY,
+    env TEXT,
+    config TEXT,
+    staged_by TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    scheduled_at INTEGER,
+    scheduled_by TEXT,
+    error TEXT
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS secrets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    service TEXT NOT NULL,
+    name TEXT NOT NULL,
+    value_enc TEXT NOT NULL,
+    updated_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    UNIQUE(service, name)
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS env_groups (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    content TEXT NOT NULL,
+    updated_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
   )
 `);
 
+type RevisionRow = Omit<ServiceRevision, 'config'> & { config: string };
+const toRevision = (r: RevisionRow): ServiceRevision => ({ ...r, config: JSON.parse(r.config) });
+
+type BackupRow = Omit<Backup, 'volumes'> & { volumes: string };
+const toBackup = (r: BackupRow): Backup => ({ ...r, volumes: JSON.parse(r.volumes) });
+
+type ChannelRow = Omit<AlertChannel, 'enabled'> & { enabled: number };
+const toChannel = (r: ChannelRow): AlertChannel => ({ ...r, enabled: !!r.enabled });
+
+type RuleRow = Omit<AlertRule, 'events' | 'channels' | 'enabled'> & { events: string; channels: string; enabled: number };
+const toRule = (r: RuleRow): AlertRule => ({ ...r, events: JSON.parse(r.events), channels: JSON.parse(r.channels), enabled: !!r.enabled });
+
+type AlertRow = Omit<AlertRecord, 'deliveries'> & { deliveries: string };
+const toAlert = (r: AlertRow): AlertRecord => ({ ...r, deliveries: JSON.parse(r.deliveries) });
+
+type StagedRow = Omit<StagedChanges, 'config'> & { config: string | null };
+const toStaged = (r: StagedRow): StagedChanges => ({ ...r, config: r.config === null ? null : JSON.parse(r.config) });
+
+type CredentialRow = Omit<RegistryCredential, 'insecure'> & { insecure: number; password_enc: string };
+const toCredential = ({ password_enc, ...r }: CredentialRow): RegistryCredential => ({ ...r, insecure: !!r.insecure });
+
+type RoleRow = Omit<Role, 'actions'> & { actions: string };
+const toRole = (r: RoleRow): Role => ({ ...r, actions: JSON.parse(r.actions), require_2fa: Boolean(r.require_2fa) });
+
+type GrantRow = { scope: string; action: Action | null; role: string | null; effect: 'allow' | 'deny' };
+const toPermission = (r: GrantRow): Permission => ({
+  scope: r.scope,
+  ...(r.action ? { action: r.action } : { role: r.role! }),
+  ...(r.effect === 'deny' && { effect: 'deny' as const }),
+});
+
+const GRANTS = "SELECT g.scope, g.action, r.name AS role, g.effect FROM grants g LEFT JOIN roles r ON r.id = g.role_id";
+
+const grantsOf = (owner: 'user_id' | 'group_id', id: number): Permission[] =>
+  (db.query(`${GRANTS} WHERE g.${owner} = ? ORDER BY g.id`).all(id) as GrantRow[]).map(toPermission);
+
+function setGrants(owner: 'user_id' | 'group_id', id: number, permissions: Permission[]) {
+  db.query(`DELETE FROM grants WHERE ${owner} = ?`).run(id);
+  const insert = db.prepare(`INSERT INTO grants (${owner}, scope, action, role_id, effect) VALUES (?, ?, ?, (SELECT id FROM roles WHERE name = ?), ?)`);
+  for (const p of permissions) {
+    insert.run(id, p.scope, p.action ?? null, p.role ?? null, p.effect ?? 'allow');
+  }
+}
+
+// The groups a user is in, with what each of them grants
+const groupsOf = (userId: number): NonNullable<User['groups']> =>
+  (db.query("SELECT g.id, g.name FROM user_groups g JOIN user_group_members m ON m.group_id = g.id WHERE m.user_id = ? ORDER BY g.name").all(userId) as { id: number; name: string }[])
+    .map(g => ({ name: g.name, permissions: grantsOf('group_id', g.id) }));
+
+const hasTwoFactor = (userId: number): boolean => !!db.query("SELECT 1 FROM totp_credentials WHERE user_id = ? AND enabled_at IS NOT NULL").get(userId);
+
+const isSsoUser = (userId: number): boolean => !!db.query("SELECT 1 FROM sso_identities WHERE user_id = ?").get(userId);
+
+const adminOf = (userId: number): string[] =>
+  (db.query("SELECT p.name FROM projects p JOIN project_members m ON m.project_id = p.id WHERE m.user_id = ? AND m.is_admin = 1 ORDER BY p.name")
+    .all(userId) as { name: string }[]).map(r => r.name);
+
 export const DB = {
   get allUsers() {
     const users = db.query("SELECT id, username, is_admin FROM users").all() as Partial<User>[];
     for (const user of users) {
       user.is_admin = Boolean(user.is_admin);
-      user.permissions = db.query("SELECT scope, action FROM permissions WHERE user_id = ?").all(user.id) as Permission[];
+      user.permissions = grantsOf('user_id', user.id!);
+      user.groups = groupsOf(user.id!);
+      user.admin_of = adminOf(user.id!);
+      user.sso = isSsoUser(user.id!);
+      user.two_factor = hasTwoFactor(user.id!);
     }
     return users;
   },
@@ -43,7 +419,19 @@ export const DB = {
   },
 
   deleteUser(username: string) {
-    db.query("DELETE FROM users WHERE username = ?").run(username);
+    db.transaction(() => {
+      const user = db.query("SELECT id FROM users WHERE username = ?").get(username) as { id: number } | null;
+      if (!user) return;
+      db.query("DELETE FROM sessions WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM api_keys WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM grants WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM user_group_members WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM project_members WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM sso_identities WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM totp_credentials WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM recovery_codes WHERE user_id = ?").run(user.id);
+      db.query("DELETE FROM users WHERE id = ?").run(user.id);
+    })();
   },
 
   getUser(username: string): User | null {
@@ -53,41 +441,690 @@ export const DB = {
     // Convert is_admin to boolean (sqlite stores as 0/1)
     user.is_admin = Boolean(user.is_admin);
 
-    const perms = db.query("SELECT scope, action FROM permissions WHERE user_id = ?").all(user.id) as Permission[];
-    user.permissions = perms;
+    user.permissions = grantsOf('user_id', user.id);
+    user.groups = groupsOf(user.id);
+    user.admin_of = adminOf(user.id);
+    user.sso = isSsoUser(user.id);
+    user.two_factor = hasTwoFactor(user.id);
     return user;
   },
 
+  getUserById(id: number): User | null {
+    const row = db.query("SELECT username FROM users WHERE id = ?").get(id) as { username: string } | null;
+    return row ? this.getUser(row.username) : null;
+  },
+
   updatePermissions(userId: number, permissions: Permission[]) {
-    db.transaction(() => {
-      db.query("DELETE FROM permissions WHERE user_id = ?").run(userId);
-      const insert = db.prepare("INSERT INTO permissions (user_id, scope, action) VALUES (?, ?, ?)");
-      for (const p of permissions) {
-        insert.run(userId, p.scope, p.action);
-      }
-    })();
+    db.transaction(() => setGrants('user_id', userId, permissions))();
   },
   
   updatePassword(username: string, hash: string) {
     db.query("UPDATE users SET password_hash = ? WHERE username = ?").run(hash, username);
   },
 
-  checkPermission(user: User, scope: string, action: string): boolean {
-    if (user.is_admin) return true; // Super admin
-    
-    return user.permissions.some(p => {
-      // Scope
-      if (p.scope !== scope && p.scope !== 'global') return false;
+  // Sessions
+
+  createSession(userId: number, username: string, tokenHash: string, refreshHash: string, expiresAt: number, refreshExpiresAt: number) {
+    db.query(
+      "INSERT INTO sessions (user_id, username, token_hash, refresh_hash, expires_at, refresh_expires_at) VALUES (?, ?, ?, ?, ?, ?)"
+    ).run(userId, username, tokenHash, refreshHash, expiresAt, refreshExpiresAt);
+  },
+
+  getSessionByToken(tokenHash: string): Session | null {
+    return db.query("SELECT id, user_id, username, expires_at, refresh_expires_at FROM sessions WHERE token_hash = ?").get(tokenHash) as Session | null;
+  },
+
+  getSessionByRefresh(refreshHash: string): Session | null {
+    return db.query("SELECT id, user_id, username, expires_at, refresh_expires_at FROM sessions WHERE refresh_hash = ?").get(refreshHash) as Session | null;
+  },
+
+  deleteSession(id: number) {
+    db.query("DELETE FROM sessions WHERE id = ?").run(id);
+  },
+
+  pruneSessions(now: number) {
+    db.query("DELETE FROM sessions WHERE refresh_expires_at < ?").run(now);
+  },
+
+  // API Keys
+
+  createApiKey(userId: number, username: string, name: string, prefix: string, keyHash: string): number | bigint {
+    return db.query(
+      "INSERT INTO api_keys (user_id, username, name, prefix, key_hash, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+    ).run(userId, username, name, prefix, keyHash, Date.now()).lastInsertRowid;
+  },
+
+  listApiKeys(userId: number): ApiKey[] {
+    return db.query(
+      "SELECT id, user_id, username, name, prefix, created_at, last_used_at, revoked_at FROM api_keys WHERE user_id = ? ORDER BY created_at DESC"
+    ).all(userId) as ApiKey[];
+  },
+
+  getApiKeyByHash(keyHash: string): ApiKey | null {
+    return db.query(
+      "SELECT id, user_id, username, name, prefix, created_at, last_used_at, revoked_at FROM api_keys WHERE key_hash = ?"
+    ).get(keyHash) as ApiKey | null;
+  },
+
+  touchApiKey(id: number) {
+    db.query("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(Date.now(), id);
+  },
 
-      // Action
-      if (p.action === action) return true;
+  revokeApiKey(id: number, userId: number): boolean {
+    const res = db.query("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL").run(Date.now(), id, userId);
+    return res.changes > 0;
+  },
+
+  // Audit Log
+
+  addAuditEvent(e: Omit<AuditEvent, 'id' | 'created_at'>) {
+    db.query(
+      "INSERT INTO audit_events (actor, action, scope, payload, result, error, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    ).run(e.actor, e.action, e.scope, e.payload == null ? null : JSON.stringify(e.payload), e.result, e.error, Date.now());
+  },
+
+  queryAuditEvents(q: AuditQuery): { events: AuditEvent[]; total: number } {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (q.actor) { where.push("actor = ?"); params.push(q.actor); }
+    if (q.action) { where.push("action LIKE ?"); params.push(`${q.action}%`); }
+    if (q.scope) { where.push("scope = ?"); params.push(q.scope); }
+    if (q.result) { where.push("result = ?"); params.push(q.result); }
+    if (q.from) { where.push("created_at >= ?"); params.push(q.from); }
+    if (q.to) { where.push("created_at <= ?"); params.push(q.to); }
+    const clause = where.length ? `WHERE ${where.join(' AND ')}` : '';
+
+    const { total } = db.query(`SELECT COUNT(*) as total FROM audit_events ${clause}`).get(...params) as { total: number };
+    const rows = db.query(`SELECT * FROM audit_events ${clause} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, q.limit, q.offset) as (Omit<AuditEvent, 'payload'> & { payload: string | null })[];
+
+    const events = rows.map(r => ({ ...r, payload: r.payload ? JSON.parse(r.payload) : null }));
+    return { events, total };
+  },
+
+  // Deployment History
+
+  addRevision(r: Omit<ServiceRevision, 'id' | 'revision' | 'created_at'>): ServiceRevision {
+    return db.transaction(() => {
+      const { next } = db.query("SELECT COALESCE(MAX(revision), 0) + 1 as next FROM service_revisions WHERE service = ?").get(r.service) as { next: number };
+      const row = db.query(
+        "INSERT INTO service_revisions (service, revision, image, digest, config, env_hash, source, actor, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *"
+      ).get(r.service, next, r.image, r.digest, JSON.stringify(r.config), r.env_hash, r.source, r.actor, Date.now()) as RevisionRow;
+      return toRevision(row);
+    })();
+  },
 
-      // Inheritance logic
-      if (action === 'view_configuration' && p.action === 'edit_configuration') return true;
-      if (action === 'view_env' && p.action === 'edit_env') return true;
-      if (action === 'view_status' && p.action === 'manage') return true;
+  listRevisions(service: string, limit = 50): ServiceRevision[] {
+    const rows = db.query("SELECT * FROM service_revisions WHERE service = ? ORDER BY revision DESC LIMIT ?").all(service, limit) as RevisionRow[];
+    return rows.map(toRevision);
+  },
+
+  getRevision(service: string, revision: number): ServiceRevision | null {
+    const row = db.query("SELECT * FROM service_revisions WHERE service = ? AND revision = ?").get(service, revision) as RevisionRow | null;
+    return row ? toRevision(row) : null;
+  },
+
+  addEnvVersion(v: Omit<EnvVersion, 'id' | 'version' | 'created_at'>, content: string): EnvVersion {
+    return db.transaction(() => {
+      const { next } = db.query("SELECT COALESCE(MAX(version), 0) + 1 as next FROM env_versions WHERE service = ?").get(v.service) as { next: number };
+      return db.query(
+        `INSERT INTO env_versions (service, version, content, hash, source, reverted_from, actor, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id, service, version, hash, source, reverted_from, actor, created_at`
+      ).get(v.service, next, content, v.hash, v.source, v.reverted_from, v.actor, Date.now()) as EnvVersion;
+    })();
+  },
+
+  listEnvVersions(service: string, limit = 100): EnvVersion[] {
+    return db.query(
+      "SELECT id, service, version, hash, source, reverted_from, actor, created_at FROM env_versions WHERE service = ? ORDER BY version DESC LIMIT ?"
+    ).all(service, limit) as EnvVersion[];
+  },
+
+  getEnvVersionContent(service: string, version: number): string | null {
+    const row = db.query("SELECT content FROM env_versions WHERE service = ? AND version = ?").get(service, version) as { content: string } | null;
+    return row?.content ?? null;
+  },
+
+  // Versions saved before they were encrypted at rest
+  listUnsealedEnvVersions(): { id: number; content: string }[] {
+    return db.query("SELECT id, content FROM env_versions WHERE content NOT LIKE 'v1:%'").all() as { id: number; content: string }[];
+  },
 
-      return false;
-    });
+  setEnvVersionContent(id: number, content: string) {
+    db.query("UPDATE env_versions SET content = ? WHERE id = ?").run(content, id);
+  },
+
+  deleteEnvVersions(service: string) {
+    db.query("DELETE FROM env_versions WHERE service = ?").run(service);
+  },
+
+  addBackup(b: Omit<Backup, 'id' | 'created_at'>): Backup {
+    const row = db.query(
+      "INSERT INTO backups (service, file, size, volumes, trigger, actor, created_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *"
+    ).get(b.service, b.file, b.size, JSON.stringify(b.volumes), b.trigger, b.actor, Date.now()) as BackupRow;
+    return toBackup(row);
+  },
+
+  // Newest first
+  listBackups(service: string): Backup[] {
+    const rows = db.query("SELECT * FROM backups WHERE service = ? ORDER BY created_at DESC, id DESC").all(service) as BackupRow[];
+    return rows.map(toBackup);
+  },
+
+  getBackup(service: string, id: number): Backup | null {
+    const row = db.query("SELECT * FROM backups WHERE service = ? AND id = ?").get(service, id) as BackupRow | null;
+    return row ? toBackup(row) : null;
+  },
+
+  deleteBackup(id: number) {
+    db.query("DELETE FROM backups WHERE id = ?").run(id);
+  },
+
+  // Alerts
+
+  listAlertChannels(): AlertChannel[] {
+    return (db.query("SELECT * FROM alert_channels ORDER BY id").all() as ChannelRow[]).map(toChannel);
+  },
+
+  getAlertChannel(id: number): AlertChannel | null {
+    const row = db.query("SELECT * FROM alert_channels WHERE id = ?").get(id) as ChannelRow | null;
+    return row ? toChannel(row) : null;
+  },
+
+  saveAlertChannel(c: Omit<AlertChannel, 'id' | 'created_at'>, id?: number): AlertChannel {
+    const row = id
+      ? db.query("UPDATE alert_channels SET name = ?, type = ?, target = ?, enabled = ? WHERE id = ? RETURNING *")
+          .get(c.name, c.type, c.target, c.enabled ? 1 : 0, id)
+      : db.query("INSERT INTO alert_channels (name, type, target, enabled, created_at) VALUES (?, ?, ?, ?, ?) RETURNING *")
+          .get(c.name, c.type, c.target, c.enabled ? 1 : 0, Date.now());
+    return toChannel(row as ChannelRow);
+  },
+
+  deleteAlertChannel(id: number): boolean {
+    return db.query("DELETE FROM alert_channels WHERE id = ?").run(id).changes > 0;
+  },
+
+  listAlertRules(): AlertRule[] {
+    return (db.query("SELECT * FROM alert_rules ORDER BY id").all() as RuleRow[]).map(toRule);
+  },
+
+  getAlertRule(id: number): AlertRule | null {
+    const row = db.query("SELECT * FROM alert_rules WHERE id = ?").get(id) as RuleRow | null;
+    return row ? toRule(row) : null;
+  },
+
+  saveAlertRule(r: Omit<AlertRule, 'id' | 'created_at'>, id?: number): AlertRule {
+    const values = [
+      r.name, r.type, r.service, JSON.stringify(r.events), r.threshold, r.window_seconds,
+      r.cooldown_seconds, JSON.stringify(r.channels), r.enabled ? 1 : 0,
+    ] as const;
+    const row = id
+      ? db.query(`UPDATE alert_rules SET name = ?, type = ?, service = ?, events = ?, threshold = ?, window_seconds = ?,
+          cooldown_seconds = ?, channels = ?, enabled = ? WHERE id = ? RETURNING *`).get(...values, id)
+      : db.query(`INSERT INTO alert_rules (name, type, service, events, threshold, window_seconds, cooldown_seconds, channels, enabled, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`).get(...values, Date.now());
+    return toRule(row as RuleRow);
+  },
+
+  deleteAlertRule(id: number): boolean {
+    return db.query("DELETE FROM alert_rules WHERE id = ?").run(id).changes > 0;
+  },
+
+  addAlert(a: Omit<AlertRecord, 'id' | 'suppressed' | 'created_at'>): AlertRecord {
+    const row = db.query(
+      "INSERT INTO alert_history (rule_id, rule_name, service, title, message, deliveries, created_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *"
+    ).get(a.rule_id, a.rule_name, a.service, a.title, a.message, JSON.stringify(a.deliveries), Date.now()) as AlertRow;
+    return toAlert(row);
+  },
+
+  // Most recent alert sent by a rule for a service, used for cooldown deduplication
+  lastAlert(ruleId: number, service: string): AlertRecord | null {
+    const row = db.query("SELECT * FROM alert_history WHERE rule_id = ? AND service = ? ORDER BY created_at DESC, id DESC LIMIT 1")
+      .get(ruleId, service) as AlertRow | null;
+    return row ? toAlert(row) : null;
+  },
+
+  setAlertDeliveries(id: number, deliveries: AlertRecord['deliveries']) {
+    db.query("UPDATE alert_history SET deliveries = ? WHERE id = ?").run(JSON.stringify(deliveries), id);
+  },
+
+  markAlertSuppressed(id: number) {
+    db.query("UPDATE alert_history SET suppressed = suppressed + 1 WHERE id = ?").run(id);
+  },
+
+  listAlerts(limit = 100): AlertRecord[] {
+    return (db.query("SELECT * FROM alert_history ORDER BY created_at DESC, id DESC LIMIT ?").all(limit) as AlertRow[]).map(toAlert);
+  },
+
+  // Auto-updates
+
+  saveUpdateCheck(u: UpdateCheck) {
+    db.query(`INSERT OR REPLACE INTO update_checks (service, checked_at, current_tag, candidate_tag, candidate_digest, reason, action, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(u.service, u.checked_at, u.current_tag, u.candidate_tag, u.candidate_digest, u.reason, u.action, u.error);
+  },
+
+  getUpdateCheck(service: string): UpdateCheck | null {
+    return db.query("SELECT * FROM update_checks WHERE service = ?").get(service) as UpdateCheck | null;
+  },
+
+  // Registry credentials
+
+  listRegistryCredentials(): RegistryCredential[] {
+    return (db.query("SELECT * FROM registry_credentials ORDER BY id").all() as CredentialRow[]).map(toCredential);
+  },
+
+  getRegistryCredential(id: number): RegistryCredential | null {
+    const row = db.query("SELECT * FROM registry_credentials WHERE id = ?").get(id) as CredentialRow | null;
+    return row ? toCredential(row) : null;
+  },
+
+  // Encrypted password, only for building a registry login
+  getRegistryPassword(id: number): string | null {
+    const row = db.query("SELECT password_enc FROM registry_credentials WHERE id = ?").get(id) as { password_enc: string } | null;
+    return row?.password_enc ?? null;
+  },
+
+  // passwordEnc null keeps the stored password (updates only)
+  saveRegistryCredential(c: Omit<RegistryCredential, 'id' | 'created_at' | 'updated_at'>, passwordEnc: string | null, id?: number): RegistryCredential {
+    const now = Date.now();
+    const row = id
+      ? db.query(`UPDATE registry_credentials SET name = ?, host = ?, type = ?, username = ?, password_enc = COALESCE(?, password_enc),
+          namespace = ?, insecure = ?, updated_at = ? WHERE id = ? RETURNING *`)
+          .get(c.name, c.host, c.type, c.username, passwordEnc, c.namespace, c.insecure ? 1 : 0, now, id)
+      : db.query(`INSERT INTO registry_credentials (name, host, type, username, password_enc, namespace, insecure, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`)
+          .get(c.name, c.host, c.type, c.username, passwordEnc, c.namespace, c.insecure ? 1 : 0, now, now);
+    return toCredential(row as CredentialRow);
+  },
+
+  deleteRegistryCredential(id: number): boolean {
+    return db.query("DELETE FROM registry_credentials WHERE id = ?").run(id).changes > 0;
+  },
+
+  // Staged (not yet deployed) changes
+
+  listStagedChanges(): StagedChanges[] {
+    return (db.query("SELECT * FROM staged_changes ORDER BY service").all() as StagedRow[]).map(toStaged);
+  },
+
+  getStagedChanges(service: string): StagedChanges | null {
+    const row = db.query("SELECT * FROM staged_changes WHERE service = ?").get(service) as StagedRow | null;
+    return row ? toStaged(row) : null;
+  },
+
+  // Replaces the staged env and/or config; a change clears any schedule and previous error
+  stageChanges(service: string, changes: Pick<StagedChanges, 'env' | 'config'>, actor: string): StagedChanges {
+    const row = db.query(`INSERT INTO staged_changes (service, env, config, staged_by, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(service) DO UPDATE SET env = COALESCE(excluded.env, env), config = COALESCE(excluded.config, config),
+        staged_by = excluded.staged_by, updated_at = excluded.updated_at, scheduled_at = NULL, scheduled_by = NULL, error = NULL
+      RETURNING *`)
+      .get(service, changes.env, changes.config && JSON.stringify(changes.config), actor, Date.now()) as StagedRow;
+    return toStaged(row);
+  },
+
+  // Staged envs saved before they were encrypted at rest
+  listUnsealedStagedEnvs(): { service: string; env: string }[] {
+    return db.query("SELECT service, env FROM staged_changes WHERE env IS NOT NULL AND env NOT LIKE 'v1:%'").all() as { service: string; env: string }[];
+  },
+
+  setStagedEnv(service: string, env: string) {
+    db.query("UPDATE staged_changes SET env = ? WHERE service = ?").run(env, service);
+  },
+
+  scheduleStagedChanges(service: string, at: number | null, actor: string | null) {
+    db.query("UPDATE staged_changes SET scheduled_at = ?, scheduled_by = ?, error = NULL WHERE service = ?").run(at, actor, service);
+  },
+
+  setStagedError(service: string, error: string) {
+    db.query("UPDATE staged_changes SET error = ?, scheduled_at = NULL WHERE service = ?").run(error, service);
+  },
+
+  // Drops one side once it was deployed directly; the row goes when nothing is left
+  clearStaged(service: string, part: 'env' | 'config') {
+    db.query(`UPDATE staged_changes SET ${part} = NULL WHERE service = ?`).run(service);
+    db.query("DELETE FROM staged_changes WHERE service = ? AND env IS NULL AND config IS NULL").run(service);
+  },
+
+  deleteStagedChanges(service: string): boolean {
+    return db.query("DELETE FROM staged_changes WHERE service = ?").run(service).changes > 0;
+  },
+
+  // Service secrets
+
+  listSecrets(service: string): Secret[] {
+    return db.query("SELECT id, service, name, updated_by, created_at, updated_at FROM secrets WHERE service = ? ORDER BY name").all(service) as Secret[];
+  },
+
+  // Encrypted value, only for materializing the env file or an explicit reveal
+  getSecretValue(service: string, name: string): string | null {
+    const row = db.query("SELECT value_enc FROM secrets WHERE service = ? AND name = ?").get(service, name) as { value_enc: string } | null;
+    return row?.value_enc ?? null;
+  },
+
+  saveSecret(service: string, name: string, valueEnc: string, actor: string): Secret {
+    const now = Date.now();
+    return db.query(`INSERT INTO secrets (service, name, value_enc, updated_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(service, name) DO UPDATE SET value_enc = excluded.value_enc, updated_by = excluded.updated_by, updated_at = excluded.updated_at
+      RETURNING id, service, name, updated_by, created_at, updated_at`)
+      .get(service, name, valueEnc, actor, now, now) as Secret;
+  },
+
+  deleteSecret(service: string, name: string): boolean {
+    return db.query("DELETE FROM secrets WHERE service = ? AND name = ?").run(service, name).changes > 0;
+  },
+
+  deleteServiceSecrets(service: string) {
+    db.query("DELETE FROM secrets WHERE service = ?").run(service);
+  },
+
+  // Env groups
+
+  listEnvGroups(): EnvGroup[] {
+    return db.query("SELECT * FROM env_groups ORDER BY name").all() as EnvGroup[];
+  },
+
+  getEnvGroup(id: number): EnvGroup | null {
+    return db.query("SELECT * FROM env_groups WHERE id = ?").get(id) as EnvGroup | null;
+  },
+
+  getEnvGroupByName(name: string): EnvGroup | null {
+    return db.query("SELECT * FROM env_groups WHERE name = ?").get(name) as EnvGroup | null;
+  },
+
+  saveEnvGroup(g: Pick<EnvGroup, 'name' | 'description' | 'content'>, actor: string, id?: number): EnvGroup {
+    const now = Date.now();
+    return (id
+      ? db.query("UPDATE env_groups SET name = ?, description = ?, content = ?, updated_by = ?, updated_at = ? WHERE id = ? RETURNING *")
+          .get(g.name, g.description, g.content, actor, now, id)
+      : db.query("INSERT INTO env_groups (name, description, content, updated_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING *")
+          .get(g.name, g.description, g.content, actor, now, now)) as EnvGroup;
+  },
+
+  deleteEnvGroup(id: number): boolean {
+    return db.query("DELETE FROM env_groups WHERE id = ?").run(id).changes > 0;
+  },
+
+  // Roles
+
+  listRoles(): Role[] {
+    return (db.query("SELECT * FROM roles ORDER BY name").all() as RoleRow[]).map(toRole);
+  },
+
+  getRole(id: number): Role | null {
+    const row = db.query("SELECT * FROM roles WHERE id = ?").get(id) as RoleRow | null;
+    return row ? toRole(row) : null;
+  },
+
+  saveRole(r: Pick<Role, 'name' | 'description' | 'actions' | 'require_2fa'>, id?: number): Role {
+    const now = Date.now();
+    return toRole((id
+      ? db.query("UPDATE roles SET name = ?, description = ?, actions = ?, require_2fa = ?, updated_at = ? WHERE id = ? RETURNING *")
+          .get(r.name, r.description, JSON.stringify(r.actions), r.require_2fa ? 1 : 0, now, id)
+      : db.query("INSERT INTO roles (name, description, actions, require_2fa, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING *")
+          .get(r.name, r.description, JSON.stringify(r.actions), r.require_2fa ? 1 : 0, now, now)) as RoleRow);
+  },
+
+  // Users and groups that are granted the role somewhere
+  roleHolders(id: number): string[] {
+    return (db.query(`
+      SELECT u.username AS name FROM grants g JOIN users u ON u.id = g.user_id WHERE g.role_id = ?
+      UNION SELECT 'group:' || ug.name FROM grants g JOIN user_groups ug ON ug.id = g.group_id WHERE g.role_id = ?
+      ORDER BY name
+    `).all(id, id) as { name: string }[]).map(r => r.name);
+  },
+
+  deleteRole(id: number): boolean {
+    return db.query("DELETE FROM roles WHERE id = ?").run(id).changes > 0;
+  },
+
+  // User groups
+
+  listUserGroups(): UserGroup[] {
+    const groups = db.query("SELECT * FROM user_groups ORDER BY name").all() as Omit<UserGroup, 'members' | 'permissions'>[];
+    return groups.map(g => this.getUserGroup(g.id)!);
+  },
+
+  getUserGroup(id: number): UserGroup | null {
+    const group = db.query("SELECT * FROM user_groups WHERE id = ?").get(id) as UserGroup | null;
+    if (!group) return null;
+    group.members = (db.query("SELECT u.username FROM users u JOIN user_group_members m ON m.user_id = u.id WHERE m.group_id = ? ORDER BY u.username")
+      .all(id) as { username: string }[]).map(r => r.username);
+    group.permissions = grantsOf('group_id', id);
+    return group;
+  },
+
+  // Members are usernames; unknown ones are skipped
+  saveUserGroup(g: Pick<UserGroup, 'name' | 'description' | 'members' | 'permissions'>, id?: number): UserGroup {
+    return db.transaction(() => {
+      const groupId = id
+        ? (db.query("UPDATE user_groups SET name = ?, description = ? WHERE id = ?").run(g.name, g.description, id), id)
+        : Number(db.query("INSERT INTO user_groups (name, description, created_at) VALUES (?, ?, ?)").run(g.name, g.description, Date.now()).lastInsertRowid);
+      db.query("DELETE FROM user_group_members WHERE group_id = ?").run(groupId);
+      const member = db.prepare("INSERT OR IGNORE INTO user_group_members (group_id, user_id) SELECT ?, id FROM users WHERE username = ?");
+      for (const username of g.members) member.run(groupId, username);
+      setGrants('group_id', groupId, g.permissions);
+      return this.getUserGroup(groupId)!;
+    })();
+  },
+
+  deleteUserGroup(id: number): boolean {
+    return db.transaction(() => {
+      db.query("DELETE FROM grants WHERE group_id = ?").run(id);
+      db.query("DELETE FROM user_group_members WHERE group_id = ?").run(id);
+      db.query("DELETE FROM sso_mappings WHERE group_id = ? AND is_admin = 0").run(id);
+      db.query("UPDATE sso_mappings SET group_id = NULL WHERE group_id = ?").run(id);
+      return db.query("DELETE FROM user_groups WHERE id = ?").run(id).changes > 0;
+    })();
+  },
+
+  // Projects
+
+  listProjects(): Project[] {
+    const rows = db.query("SELECT id FROM projects ORDER BY name").all() as { id: number }[];
+    return rows.map(r => this.getProject(r.id)!);
+  },
+
+  getProject(id: number): Project | null {
+    const project = db.query("SELECT * FROM projects WHERE id = ?").get(id) as Project | null;
+    if (!project) return null;
+    project.services = (db.query("SELECT service FROM project_services WHERE project_id = ? ORDER BY service")
+      .all(id) as { service: string }[]).map(r => r.service);
+    const members = db.query("SELECT u.username, m.is_admin FROM project_members m JOIN users u ON u.id = m.user_id WHERE m.project_id = ? ORDER BY u.username")
+      .all(id) as { username: string; is_admin: number }[];
+    project.admins = members.filter(m => m.is_admin).map(m => m.username);
+    project.members = members.filter(m => !m.is_admin).map(m => m.username);
+    return project;
+  },
+
+  // Service name -> project name
+  serviceProjects(): Map<string, string> {
+    const rows = db.query("SELECT s.service, p.name FROM project_services s JOIN projects p ON p.id = s.project_id").all() as { service: string; name: string }[];
+    return new Map(rows.map(r => [r.service, r.name]));
+  },
+
+  // Services move here from any other project. Admins are usernames; previous admins not listed stay as members
+  saveProject(p: Pick<Project, 'name' | 'description' | 'services' | 'admins'>, id?: number): Project {
+    return db.transaction(() => {
+      let projectId = id;
+      if (id) {
+        const old = db.query("SELECT name FROM projects WHERE id = ?").get(id) as { name: string };
+        db.query("UPDATE projects SET name = ?, description = ? WHERE id = ?").run(p.name, p.description, id);
+        // Grants name the project, so they follow a rename
+        if (old.name !== p.name) db.query("UPDATE grants SET scope = ? WHERE scope = ?").run(`project:${p.name}`, `project:${old.name}`);
+      } else {
+        projectId = Number(db.query("INSERT INTO projects (name, description, created_at) VALUES (?, ?, ?)").run(p.name, p.description, Date.now()).lastInsertRowid);
+      }
+      db.query("DELETE FROM project_services WHERE project_id = ?").run(projectId!);
+      const service = db.prepare("INSERT OR REPLACE INTO project_services (service, project_id) VALUES (?, ?)");
+      for (const name of p.services) service.run(name, projectId!);
+      db.query("UPDATE project_members SET is_admin = 0 WHERE project_id = ?").run(projectId!);
+      const admin = db.prepare(`
+        INSERT INTO project_members (project_id, user_id, is_admin) SELECT ?, id, 1 FROM users WHERE username = ?
+        ON CONFLICT (project_id, user_id) DO UPDATE SET is_admin = 1
+      `);
+      for (const username of p.admins) admin.run(projectId!, username);
+      return this.getProject(projectId!)!;
+    })();
+  },
+
+  deleteProject(id: number) {
+    db.transaction(() => {
+      const project = db.query("SELECT name FROM projects WHERE id = ?").get(id) as { name: string } | null;
+      if (!project) return;
+      db.query("DELETE FROM grants WHERE scope = ?").run(`project:${project.name}`);
+      db.query("DELETE FROM project_services WHERE project_id = ?").run(id);
+      db.query("DELETE FROM project_members WHERE project_id = ?").run(id);
+      db.query("DELETE FROM projects WHERE id = ?").run(id);
+    })();
+  },
+
+  addProjectMember(projectId: number, userId: number) {
+    db.query("INSERT OR IGNORE INTO project_members (project_id, user_id) VALUES (?, ?)").run(projectId, userId);
+  },
+
+  // Also drops the user's grants on the given scopes (those of the project)
+  removeProjectMember(projectId: number, userId: number, scopes: string[]) {
+    db.transaction(() => {
+      db.query("DELETE FROM project_members WHERE project_id = ? AND user_id = ?").run(projectId, userId);
+      this.updatePermissionsIn(userId, scopes, []);
+    })();
+  },
+
+  // Replaces only the user's direct grants on the given scopes, leaving the rest alone
+  updatePermissionsIn(userId: number, scopes: string[], permissions: Permission[]) {
+    db.transaction(() => {
+      const kept = grantsOf('user_id', userId).filter(p => !scopes.includes(p.scope));
+      setGrants('user_id', userId, [...kept, ...permissions]);
+    })();
+  },
+
+  // Two-factor auth
+
+  getTotp(userId: number): TotpCredential | null {
+    return db.query("SELECT * FROM totp_credentials WHERE user_id = ?").get(userId) as TotpCredential | null;
+  },
+
+  // Starts (or restarts) an enrollment; callers make sure 2FA isn't enabled yet
+  savePendingTotp(userId: number, sealedSecret: string) {
+    db.query("INSERT OR REPLACE INTO totp_credentials (user_id, secret, enabled_at, last_step, created_at) VALUES (?, ?, NULL, -1, ?)")
+      .run(userId, sealedSecret, Date.now());
+  },
+
+  enableTotp(userId: number, step: number, codeHashes: string[]) {
+    db.transaction(() => {
+      db.query("UPDATE totp_credentials SET enabled_at = ?, last_step = ? WHERE user_id = ?").run(Date.now(), step, userId);
+      this.replaceRecoveryCodes(userId, codeHashes);
+    })();
+  },
+
+  setTotpStep(userId: number, step: number) {
+    db.query("UPDATE totp_credentials SET last_step = ? WHERE user_id = ?").run(step, userId);
+  },
+
+  disableTotp(userId: number): boolean {
+    return db.transaction(() => {
+      db.query("DELETE FROM recovery_codes WHERE user_id = ?").run(userId);
+      return db.query("DELETE FROM totp_credentials WHERE user_id = ?").run(userId).changes > 0;
+    })();
+  },
+
+  replaceRecoveryCodes(userId: number, codeHashes: string[]) {
+    db.transaction(() => {
+      db.query("DELETE FROM recovery_codes WHERE user_id = ?").run(userId);
+      const insert = db.prepare("INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)");
+      for (const hash of codeHashes) insert.run(userId, hash);
+    })();
+  },
+
+  // Each code works once
+  useRecoveryCode(userId: number, codeHash: string): boolean {
+    return db.query("UPDATE recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL")
+      .run(Date.now(), userId, codeHash).changes > 0;
+  },
+
+  recoveryCodesLeft(userId: number): number {
+    return (db.query("SELECT COUNT(*) AS n FROM recovery_codes WHERE user_id = ? AND used_at IS NULL").get(userId) as { n: number }).n;
+  },
+
+  // Single sign-on
+
+  getSsoUser(issuer: string, subject: string): User | null {
+    const row = db.query("SELECT user_id FROM sso_identities WHERE issuer = ? AND subject = ?").get(issuer, subject) as { user_id: number } | null;
+    return row ? this.getUserById(row.user_id) : null;
+  },
+
+  // SSO users get an empty password hash, which never verifies
+  createSsoUser(issuer: string, subject: string, username: string): User {
+    return db.transaction(() => {
+      const id = Number(this.createUser(username, ''));
+      db.query("INSERT INTO sso_identities (issuer, subject, user_id, created_at) VALUES (?, ?, ?, ?)").run(issuer, subject, id, Date.now());
+      return this.getUserById(id)!;
+    })();
+  },
+
+  touchSsoLogin(userId: number) {
+    db.query("UPDATE sso_identities SET last_login_at = ? WHERE user_id = ?").run(Date.now(), userId);
+  },
+
+  listSsoMappings(): SsoMapping[] {
+    return (db.query(`
+      SELECT m.*, g.name AS "group" FROM sso_mappings m LEFT JOIN user_groups g ON g.id = m.group_id ORDER BY m.claim, m.value
+    `).all() as (SsoMapping & { group_id: number | null })[])
+      .map(({ group_id: _, ...m }) => ({ ...m, is_admin: Boolean(m.is_admin) }));
+  },
+
+  getSsoMapping(id: number): SsoMapping | null {
+    return this.listSsoMappings().find(m => m.id === id) ?? null;
+  },
+
+  // The group is a name; callers check that it exists
+  saveSsoMapping(m: Pick<SsoMapping, 'claim' | 'value' | 'group' | 'is_admin'>, id?: number): SsoMapping {
+    const groupId = m.group ? (db.query("SELECT id FROM user_groups WHERE name = ?").get(m.group) as { id: number }).id : null;
+    const mappingId = id
+      ? (db.query("UPDATE sso_mappings SET claim = ?, value = ?, group_id = ?, is_admin = ? WHERE id = ?").run(m.claim, m.value, groupId, m.is_admin ? 1 : 0, id), id)
+      : Number(db.query("INSERT INTO sso_mappings (claim, value, group_id, is_admin, created_at) VALUES (?, ?, ?, ?, ?)")
+        .run(m.claim, m.value, groupId, m.is_admin ? 1 : 0, Date.now()).lastInsertRowid);
+    return this.getSsoMapping(mappingId)!;
+  },
+
+  deleteSsoMapping(id: number): boolean {
+    return db.query("DELETE FROM sso_mappings WHERE id = ?").run(id).changes > 0;
+  },
+
+  /**
+   * Membership of every group some mapping targets follows the matched mappings; other groups
+   * are left to admins. Admin rights follow too, but only once any mapping grants them.
+   */
+  syncSsoUser(userId: number, matched: SsoMapping[]) {
+    const all = this.listSsoMappings();
+    const groups = new Set(matched.flatMap(m => m.group ? [m.group] : []));
+    db.transaction(() => {
+      const join = db.prepare("INSERT OR IGNORE INTO user_group_members (group_id, user_id) SELECT id, ? FROM user_groups WHERE name = ?");
+      const leave = db.prepare("DELETE FROM user_group_members WHERE user_id = ? AND group_id = (SELECT id FROM user_groups WHERE name = ?)");
+      for (const group of new Set(all.flatMap(m => m.group ? [m.group] : []))) {
+        if (groups.has(group)) join.run(userId, group);
+        else leave.run(userId, group);
+      }
+      if (all.some(m => m.is_admin)) {
+        db.query("UPDATE users SET is_admin = ? WHERE id = ?").run(matched.some(m => m.is_admin) ? 1 : 0, userId);
+      }
+    })();
+  },
+
+  // Which grant decides: the user's own, those of their groups and of the projects they administer
+  decide(user: User, scope: string, action: Action): Decision {
+    const grants: Grant[] = [
+      ...user.permissions.map(p => ({ ...p, source: 'user' as const })),
+      ...(user.groups ?? []).flatMap(g => g.permissions.map(p => ({ ...p, source: `group:${g.name}` as const }))),
+      ...(user.admin_of ?? []).flatMap(name => SERVICE_ACTIONS.map(a => ({ scope: `project:${name}`, action: a, source: `project:${name}` as const }))),
+    ];
+    const roles = new Map(this.listRoles().map(r => [r.name, r]));
+    return evaluate(grants, { roles, projects: this.serviceProjects() }, scope, action);
+  },
+
+  checkPermission(user: User, scope: string, action: string): boolean {
+    if (user.is_admin) return true; // Super admin
+    return this.decide(user, scope, action as Action).allowed;
   }
 };
@@ -1,18 +1,194 @@
 import Docker from 'dockerode';
-import { join } from 'path';
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { EventEmitter } from 'events';
+import { join, isAbsolute, resolve, sep } from 'path';
+import { writeFileSync, readFileSync, existsSync, mkdirSync, realpathSync, readdirSync, rmSync } from 'fs';
 import { CONFIG } from './config';
-import type { DockerServiceConfig } from './types';
+import { RegistryManager } from './registries';
+import { materializeEnv } from './secrets';
+import { withEnvDefaults } from './envschema';
+import { withEnvGroups } from './envgroups';
+import type { ContainerEvent, DockerServiceConfig, HealthCheckConfig, ImageVersion, RegistryImage, VolumeMount } from './types';
+
+const DEFAULT_HEALTH = { interval: '30s', timeout: '5s', retries: 3, startPeriod: '10s' };
+const STABLE_WINDOW_MS = 10_000; // Without a healthcheck, how long a container must stay up without restarting
+
+/**
+ * Thrown when a deployed container doesn't become healthy in time.
+ * Carries the container's recent logs so callers can show why.
+ */
+export class HealthCheckError extends Error {
+  constructor(message: string, public logs: string) {
+    super(message);
+    this.name = 'HealthCheckError';
+  }
+}
+
+// "30s" | "1m" | "500ms" | "1h" -> milliseconds
+export function parseDuration(value: string | undefined, fallback: number): number {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(ms|s|m|h)?$/);
+  if (!match) return fallback;
+  const n = parseFloat(match[1]);
+  const unit = match[2] || 's';
+  return n * ({ ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 } as const)[unit as 'ms' | 's' | 'm' | 'h'];
+}
+
+const VOLUME_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Check mounts before they reach compose. Returns the reason they're rejected, or null.
+ * Bind mounts must resolve (symlinks included) inside one of CONFIG.BIND_MOUNT_ROOTS.
+ */
+export function validateVolumes(volumes: VolumeMount[] = []): string | null {
+  const targets = new Set<string>();
+  for (const v of volumes) {
+    if (!v.target?.startsWith('/') || v.target.split('/').includes('..') || /[\n\r]/.test(v.target)) {
+      return `Invalid mount target "${v.target}" (absolute container path required)`;
+    }
+    if (targets.has(v.target)) return `Duplicate mount target ${v.target}`;
+    targets.add(v.target);
+
+    if (v.type === 'volume') {
+      if (!VOLUME_NAME.test(v.source || '')) return `Invalid volume name "${v.source}"`;
+    } else if (v.type === 'bind') {
+      if (!v.source || !isAbsolute(v.source)) return `Bind mount source must be an absolute host path: "${v.source}"`;
+      const path = existsSync(v.source) ? realpathSync(v.source) : resolve(v.source);
+      const allowed = CONFIG.BIND_MOUNT_ROOTS.some(root => {
+        const r = resolve(root);
+        return path === r || path.startsWith(r + sep);
+      });
+      if (!allowed) {
+        return `Bind mount ${v.source} is outside the allowed roots (${CONFIG.BIND_MOUNT_ROOTS.join(', ') || 'none configured, set BIND_MOUNT_ROOTS'})`;
+      }
+    } else {
+      return `Unknown mount type "${(v as VolumeMount).type}"`;
+    }
+  }
+  return null;
+}
+
+const HEALTH_DURATION = /^\d+(ms|s|m|h)?$/;
+const HEALTH_PATH = /^[A-Za-z0-9\/._~%!$&()*+,;=:@?-]*$/; // URL path and query characters, minus quotes and #
+
+/**
+ * Check a healthcheck before it reaches compose, where it ends up in a CMD-SHELL.
+ * Returns the reason it's rejected, or null.
+ */
+export function validateHealthcheck(hc: HealthCheckConfig | undefined): string | null {
+  if (!hc) return null;
+  if (hc.type === 'http') {
+    if (hc.path !== undefined && (typeof hc.path !== 'string' || !HEALTH_PATH.test(hc.path))) {
+      return `Invalid healthcheck path "${hc.path}"`;
+    }
+  } else if (hc.type === 'command') {
+    if (typeof hc.command !== 'string' || !hc.command.trim()) return 'Healthcheck command is required';
+    if (/[\n\r]/.test(hc.command)) return "Healthcheck command can't contain newlines";
+  } else {
+    return `Unknown healthcheck type "${(hc as HealthCheckConfig).type}"`;
+  }
+  for (const field of ['interval', 'timeout', 'startPeriod'] as const) {
+    const v = hc[field];
+    if (v && (typeof v !== 'string' || !HEALTH_DURATION.test(v))) {
+      return `Invalid healthcheck ${field} "${v}" (e.g. 30s, 500ms, 1m)`;
+    }
+  }
+  if (hc.retries != null && (!Number.isInteger(hc.retries) || hc.retries < 0)) {
+    return 'Healthcheck retries must be a whole number, 0 or more';
+  }
+  return null;
+}
+
+// "ghcr.io/org/app:1.2@sha256:..." -> { repository: "ghcr.io/org/app", tag: "1.2" }
+export function splitImage(image: string): { repository: string; tag: string } {
+  const [ref] = image.split('@');
+  const slash = ref.lastIndexOf('/');
+  const colon = ref.lastIndexOf(':');
+  // A colon before the last slash belongs to a registry port, not a tag
+  if (colon > slash) return { repository: ref.slice(0, colon).toLowerCase(), tag: ref.slice(colon + 1) };
+  return { repository: ref.toLowerCase(), tag: 'latest' };
+}
+
+// Same repository (as written in the config), different tag
+export function withTag(image: string, tag: string): string {
+  const [ref] = image.split('@');
+  const colon = ref.lastIndexOf(':');
+  return `${colon > ref.lastIndexOf('/') ? ref.slice(0, colon) : ref}:${tag}`;
+}
+
+const RECENT_EVENTS = 50;
 
 export class DockerManager {
   private docker: Docker;
+  private events = new EventEmitter();
+  private watching = false;
+  private recent = new Map<string, ContainerEvent[]>(); // Last RECENT_EVENTS per service
+  readonly registries = new RegistryManager();
 
   constructor() {
     this.docker = new Docker();
+    this.events.setMaxListeners(0);
   }
 
   get instance() { return this.docker; }
 
+  /**
+   * Subscribe to lifecycle events of managed service containers. The daemon
+   * stream is opened on first subscription and reopened if it drops.
+   */
+  onContainerEvent(listener: (event: ContainerEvent) => void): () => void {
+    this.events.on('container', listener);
+    if (!this.watching) {
+      this.watching = true;
+      this.watchEvents();
+    }
+    return () => { this.events.off('container', listener); };
+  }
+
+  // Newest first. Only covers the time since the event stream was opened
+  recentEvents(serviceName: string): ContainerEvent[] {
+    return [...(this.recent.get(serviceName) ?? [])].reverse();
+  }
+
+  private async watchEvents() {
+    try {
+      const stream = await this.docker.getEvents({ filters: { type: ['container'] } }) as NodeJS.ReadableStream;
+      let buffer = '';
+      for await (const chunk of stream) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) this.emitContainerEvent(JSON.parse(line));
+        }
+      }
+    } catch (e: any) {
+      console.error('Docker event stream failed:', e.message);
+    }
+    setTimeout(() => this.watchEvents(), 5000);
+  }
+
+  private emitContainerEvent(raw: any) {
+    const attributes = raw.Actor?.Attributes ?? {};
+    const service = attributes.name;
+    // Blue/green candidates and unrelated containers are not reported
+    if (!service || !existsSync(join(CONFIG.PATHS.ENV_BASE_DIR, service, 'config.json'))) return;
+
+    // "health_status: unhealthy", "exec_start: sh -c ..."
+    const [action, status] = String(raw.Action ?? raw.status ?? '').split(':').map(s => s.trim());
+    const event: ContainerEvent = {
+      service,
+      containerId: raw.Actor?.ID ?? raw.id,
+      action,
+      status: status || undefined,
+      exitCode: attributes.exitCode !== undefined ? parseInt(attributes.exitCode) : undefined,
+      image: attributes.image ?? raw.from,
+      time: raw.timeNano ? Math.floor(raw.timeNano / 1e6) : (raw.time ?? 0) * 1000,
+    };
+    const recent = this.recent.get(service) ?? [];
+    recent.push(event);
+    this.recent.set(service, recent.slice(-RECENT_EVENTS));
+    this.events.emit('container', event);
+  }
+
   ensureEnvDir(serviceName: string): string {
     const dir = join(CONFIG.PATHS.ENV_BASE_DIR, serviceName);
     if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
@@ -23,6 +199,11 @@ export class DockerManager {
     return join(this.ensureEnvDir(serviceName), '.env');
   }
 
+  // .env with secret references resolved. Only exists while `docker compose up` runs
+  getRuntimeEnvPath(serviceName: string): string {
+    return join(this.ensureEnvDir(serviceName), '.env.runtime');
+  }
+
   getConfigFilePath(serviceName: string): string {
     return join(this.ensureEnvDir(serviceName), 'config.json');
   }
@@ -42,6 +223,14 @@ export class DockerManager {
     }
   }
 
+  // Every service with a saved config, running or not
+  configuredServices(): string[] {
+    if (!existsSync(CONFIG.PATHS.ENV_BASE_DIR)) return [];
+    return readdirSync(CONFIG.PATHS.ENV_BASE_DIR, { withFileTypes: true })
+      .filter(d => d.isDirectory() && existsSync(join(CONFIG.PATHS.ENV_BASE_DIR, d.name, 'config.json')))
+      .map(d => d.name);
+  }
+
   readEnv(serviceName: string): string {
     const path = this.getEnvFilePath(serviceName);
     if (!existsSync(path)) return '';
@@ -54,23 +243,28 @@ export class DockerManager {
   }
 
   generateComposeContent(serviceName: string, imageName: string, config: DockerServiceConfig): string {
-    const envPath = this.getEnvFilePath(serviceName);
+    this.saveConfig(serviceName, config);
+    return this.renderCompose(serviceName, serviceName, imageName, config);
+  }
+
+  private renderCompose(serviceName: string, containerName: string, imageName: string, config: DockerServiceConfig): string {
+    const envPath = this.getRuntimeEnvPath(serviceName);
     const portMapping = `${config.hostPort}:${config.containerPort}`;
     
-    if (!existsSync(envPath)) writeFileSync(envPath, '', { flag: 'wx' });
-
-    this.saveConfig(serviceName, config);
+    const volumeError = validateVolumes(config.volumes);
+    if (volumeError) throw new Error(volumeError);
 
     return `version: '3.8'
 services:
   ${serviceName}:
     image: ${imageName}
-    container_name: ${serviceName}
+    container_name: ${containerName}
     restart: ${config.restartPolicy || 'unless-stopped'}
     ports:
       - "${portMapping}"
-    env_file:
-      - ${envPath}
+    env_file:${this.generateEnvGroupsComment(config)}
+      - path: ${envPath}
+        required: false${this.generateHealthcheck(config)}${this.generateMounts(config)}
     deploy:
       resources:
         limits:
@@ -80,7 +274,141 @@ services:
       - "com.docker.compose.service=${serviceName}"
 networks:
   default:
-    driver: bridge`;
+    driver: bridge${this.generateVolumeDefinitions(serviceName, config)}`;
+  }
+
+  private generateEnvGroupsComment(config: DockerServiceConfig): string {
+    if (!config.envGroups?.length) return '';
+    return `\n      # Includes env groups ${config.envGroups.join(', ')} (later ones win, the service .env wins over all)`;
+  }
+
+  /**
+   * Docker name of a service's named volume. Pinned explicitly in compose so the
+   * blue/green candidate project mounts the same data instead of "{service}-next_{name}".
+   */
+  volumeName(serviceName: string, source: string): string {
+    return `${serviceName}_${source}`;
+  }
+
+  namedVolumes(serviceName: string): string[] {
+    return (this.readConfig(serviceName)?.volumes ?? [])
+      .filter(v => v.type === 'volume')
+      .map(v => this.volumeName(serviceName, v.source));
+  }
+
+  private generateMounts(config: DockerServiceConfig): string {
+    if (!config.volumes?.length) return '';
+    // Long syntax; JSON strings are valid YAML and take care of quoting
+    return `
+    volumes:` + config.volumes.map(v => `
+      - type: ${v.type}
+        source: ${JSON.stringify(v.source)}
+        target: ${JSON.stringify(v.target)}
+        read_only: ${!!v.readOnly}${v.type === 'bind' ? `
+        bind:
+          create_host_path: true` : ''}`).join('');
+  }
+
+  private generateVolumeDefinitions(serviceName: string, config: DockerServiceConfig): string {
+    const named = [...new Set((config.volumes ?? []).filter(v => v.type === 'volume').map(v => v.source))];
+    if (!named.length) return '';
+    return `
+volumes:` + named.map(source => `
+  ${source}:
+    name: ${this.volumeName(serviceName, source)}`).join('');
+  }
+
+  private generateHealthcheck(config: DockerServiceConfig): string {
+    const hc = config.healthcheck;
+    if (!hc) return '';
+
+    let test: string[];
+    if (hc.type === 'command' && hc.command) {
+      test = ['CMD-SHELL', hc.command];
+    } else if (hc.type === 'http') {
+      // Images ship either wget or curl, rarely both
+      const url = `http://127.0.0.1:${config.containerPort}${hc.path?.startsWith('/') ? hc.path : `/${hc.path || ''}`}`;
+      const arg = `'${url.replace(/'/g, `'\\''`)}'`; // Single-quoted so ? and & in the path stay out of the shell
+      test = ['CMD-SHELL', `wget -q --spider ${arg} || curl -fsS -o /dev/null ${arg} || exit 1`];
+    } else {
+      return '';
+    }
+
+    // Compose needs a unit, the UI may send bare seconds
+    const dur = (v: string | undefined, fallback: string) => !v ? fallback : /^\d+$/.test(v) ? `${v}s` : v;
+
+    // JSON arrays are valid YAML flow sequences, and take care of quoting
+    return `
+    healthcheck:
+      test: ${JSON.stringify(test)}
+      interval: ${dur(hc.interval, DEFAULT_HEALTH.interval)}
+      timeout: ${dur(hc.timeout, DEFAULT_HEALTH.timeout)}
+      retries: ${hc.retries ?? DEFAULT_HEALTH.retries}
+      start_period: ${dur(hc.startPeriod, DEFAULT_HEALTH.startPeriod)}`;
+  }
+
+  /**
+   * Worst-case time for a healthcheck to settle: start period + every retry.
+   */
+  private healthTimeout(hc: HealthCheckConfig | undefined): number {
+    const h = { ...DEFAULT_HEALTH, ...hc };
+    const perTry = parseDuration(h.interval, 30000) + parseDuration(h.timeout, 5000);
+    return parseDuration(h.startPeriod, 10000) + perTry * (h.retries + 1) + 10000;
+  }
+
+  /**
+   * Last lines of a container's stdout/stderr as plain text.
+   */
+  async getRecentLogs(serviceName: string, tail = 50): Promise<string> {
+    try {
+      const buf = await this.docker.getContainer(serviceName).logs({ stdout: true, stderr: true, tail, follow: false }) as unknown as Buffer;
+      // Non-TTY logs are multiplexed: 8 byte header (stream, 0, 0, 0, size uint32 BE) per frame
+      const out: string[] = [];
+      let i = 0;
+      while (i + 8 <= buf.length && buf[i] <= 2 && buf[i + 1] === 0) {
+        const size = buf.readUInt32BE(i + 4);
+        out.push(buf.subarray(i + 8, i + 8 + size).toString('utf-8'));
+        i += 8 + size;
+      }
+      return i === 0 ? buf.toString('utf-8') : out.join('');
+    } catch (e: any) {
+      return `(could not read logs: ${e.message})`;
+    }
+  }
+
+  /**
+   * Wait until a container (by name) is healthy. Containers without any
+   * healthcheck (ours or the image's) must stay running, without restarts, for STABLE_WINDOW_MS.
+   * Throws HealthCheckError with recent logs otherwise.
+   */
+  async waitForHealthy(containerName: string, config: DockerServiceConfig): Promise<void> {
+    const deadline = Date.now() + this.healthTimeout(config.healthcheck);
+    const container = this.docker.getContainer(containerName);
+    let stable: { since: number; restarts: number } | null = null;
+
+    while (true) {
+      const { State, RestartCount } = await container.inspect();
+      const health = State.Health?.Status;
+
+      if (health === 'healthy') return;
+      // Without a healthcheck, running is only enough once it outlasts a crash-restart cycle
+      if (!health && State.Running && !State.Restarting) {
+        if (!stable) stable = { since: Date.now(), restarts: RestartCount };
+        else if (RestartCount > stable.restarts) {
+          throw new HealthCheckError(`Service ${containerName} failed its health check: restarted ${RestartCount - stable.restarts} time(s) while starting`, await this.getRecentLogs(containerName));
+        } else if (Date.now() - stable.since >= STABLE_WINDOW_MS) return;
+      }
+
+      // Without a healthcheck, a restarting container is a crash loop
+      if (health === 'unhealthy' || !State.Running || (!health && State.Restarting)) {
+        const reason = health === 'unhealthy' ? 'unhealthy' : `${State.Status} (exit code ${State.ExitCode})`;
+        throw new HealthCheckError(`Service ${containerName} failed its health check: ${reason}`, await this.getRecentLogs(containerName));
+      }
+      if (Date.now() > deadline) {
+        throw new HealthCheckError(`Service ${containerName} did not become healthy in time (status: ${health || State.Status})`, await this.getRecentLogs(containerName));
+      }
+      await Bun.sleep(2000);
+    }
   }
 
   async startService(serviceName: string, composeContent: string, isRecreate: boolean) {
@@ -94,14 +422,62 @@ networks:
 
     writeFileSync(composePath, composeContent, 'utf-8');
     
-    const proc = Bun.spawn(['docker', 'compose', 'up', '-d'], { cwd: dir, stderr: 'pipe' });
-    const exitCode = await proc.exited;
-    
-    if (exitCode !== 0) {
-      const err = await new Response(proc.stderr).text();
-      throw new Error(`Compose Up Failed: ${err}`);
+    const { exitCode, stderr } = await this.composeUp(serviceName, dir, ['up', '-d']);
+    if (exitCode !== 0) throw new Error(`Compose Up Failed: ${stderr}`);
+  }
+
+  /**
+   * Containers read their environment at creation, so secrets are only written to disk
+   * (decrypted, owner-only) for the duration of `docker compose up`.
+   */
+  private async composeUp(serviceName: string, cwd: string, args: string[], config = this.readConfig(serviceName)): Promise<{ exitCode: number; stderr: string }> {
+    const runtimePath = this.getRuntimeEnvPath(serviceName);
+    const content = withEnvDefaults(withEnvGroups(this.readEnv(serviceName), config?.envGroups), config?.envSchema);
+    writeFileSync(runtimePath, materializeEnv(serviceName, content), { encoding: 'utf-8', mode: 0o600 });
+    try {
+      const proc = Bun.spawn(['docker', 'compose', ...args], { cwd, stderr: 'pipe' });
+      const exitCode = await proc.exited;
+      return { exitCode, stderr: exitCode !== 0 ? await new Response(proc.stderr).text() : '' };
+    } finally {
+      rmSync(runtimePath, { force: true });
     }
   }
+  /**
+   * Blue/green: run the new version as a separate compose project
+   * ("{service}-next") on a spare host port, next to the live container.
+   */
+  candidateName(serviceName: string): string {
+    return `${serviceName}-next`;
+  }
+
+  async startCandidate(serviceName: string, imageName: string, config: DockerServiceConfig) {
+    const dir = join(this.ensureEnvDir(serviceName), 'next');
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const name = this.candidateName(serviceName);
+
+    writeFileSync(join(dir, 'docker-compose.yml'), this.renderCompose(serviceName, name, imageName, config), 'utf-8');
+
+    const { exitCode, stderr } = await this.composeUp(serviceName, dir, ['-p', name, 'up', '-d'], config);
+    if (exitCode !== 0) throw new Error(`Candidate Compose Up Failed: ${stderr}`);
+  }
+
+  async removeCandidate(serviceName: string) {
+    const dir = join(this.ensureEnvDir(serviceName), 'next');
+    if (!existsSync(dir)) return;
+    await Bun.spawn(['docker', 'compose', '-p', this.candidateName(serviceName), 'down'], { cwd: dir, stderr: 'pipe' }).exited;
+    await Bun.spawn(['rm', '-rf', dir]).exited;
+  }
+
+  /**
+   * Ask the OS for a free TCP port on the host.
+   */
+  findFreePort(): number {
+    const server = Bun.listen({ hostname: '0.0.0.0', port: 0, socket: { data() {} } });
+    const port = server.port;
+    server.stop(true);
+    return port;
+  }
+
   async stopService(serviceName: string) {
     const dir = this.ensureEnvDir(serviceName);
     const proc = Bun.spawn(['docker', 'compose', 'stop'], { cwd: dir, stderr: 'pipe' });
@@ -122,11 +498,27 @@ networks:
     }
   }
 
+  /**
+   * Pull an image using the configured registry credentials.
+   * onEvent receives dockerode progress events as they stream in.
+   */
+  async pullImage(imageName: string, onEvent?: (event: any) => void, credential?: string) {
+    const authconfig = this.registries.authFor(imageName, credential);
+    const dockerStream = await this.docker.pull(imageName, authconfig ? { authconfig } : {});
+
+    await new Promise((resolve, reject) => {
+      this.docker.modem.followProgress(dockerStream,
+        (err, res) => err ? reject(err) : resolve(res),
+        onEvent
+      );
+    });
+  }
+
   /**
    * Get the registry manifest digest for a locally pulled image.
    * Docker stores this in RepoDigests after pulling from a registry.
    * Format: "ghcr.io/owner/pkg@sha256:abc123..."
-   * Returns just the "sha256:abc123..." part to match GitHub API format.
+   * Returns just the "sha256:abc123..." part to match registry version digests.
    */
   async getImageRepoDigest(imageName: string): Promise<string | null> {
     try {
@@ -149,102 +541,34 @@ networks:
     }
   }
 
-  async deleteService(serviceName: string) {
+  /**
+   * Named volumes survive unless purgeData is set; bind-mounted host paths are never touched.
+   */
+  async deleteService(serviceName: string, purgeData = false) {
     const dir = this.ensureEnvDir(serviceName);
     // 1. Docker Compose Down
-    const proc = Bun.spawn(['docker', 'compose', 'down', '-v'], { cwd: dir, stderr: 'pipe' });
+    const args = purgeData ? ['docker', 'compose', 'down', '-v'] : ['docker', 'compose', 'down'];
+    const proc = Bun.spawn(args, { cwd: dir, stderr: 'pipe' });
     await proc.exited; // Ignore errors if it's already down/gone
 
     // 2. Remove Config Directory
     await Bun.spawn(['rm', '-rf', dir]).exited;
   }
 
-  async getLatestImageDigest(imageName: string): Promise<{ digest: string, tags: string[] } | null> {
-    if (!imageName.startsWith('ghcr.io/')) return null;
-
-    try {
-      // ghcr.io/owner/package:tag
-      const parts = imageName.split('/');
-      // parts[0] is ghcr.io
-      const owner = parts[1];
-      let pkg = parts.slice(2).join('/');
-      // remove tag from package name if present for API call
-      if (pkg.includes(':')) pkg = pkg.split(':')[0];
-
-      if (!CONFIG.GITHUB_PAT) {
-         console.warn('GITHUB_PAT missing, cannot fetch private registry details');
-         return null;
-      }
-
-      const tryFetch = async (type: 'users' | 'orgs') => {
-          const url = `https://api.github.com/${type}/${owner}/packages/container/${pkg}/versions`;
-          return fetch(url, {
-            headers: {
-              'Authorization': `Bearer ${CONFIG.GITHUB_PAT}`,
-              'Accept': 'application/vnd.github+json',
-              'X-GitHub-Api-Version': '2022-11-28'
-            }
-          });
-      };
-
-      let response = await tryFetch('users');
-      if (response.status === 404) {
-          response = await tryFetch('orgs');
-      }
-
-      if (response.ok) {
-        const versions = await response.json();
-        // GitHub returns sorted by created_at desc
-        if (Array.isArray(versions) && versions.length > 0) {
-            const latest = versions[0];
-            return {
-                digest: latest.name,
-                tags: latest.metadata?.container?.tags || []
-            };
-        }
-      }
-      return null;
-    } catch (e) {
-      console.error('Error fetching remote digest:', e);
-      return null;
-    }
+  async getLatestImageDigest(imageName: string, credential?: string): Promise<{ digest: string, tags: string[] } | null> {
+    const latest = (await this.listImageVersions(imageName, credential))?.[0];
+    return latest ? { digest: latest.digest, tags: latest.tags } : null;
   }
 
-  async listRegistryImages(): Promise<Array<{ name: string, image: string, updated_at: string }>> {
-    if (!CONFIG.GITHUB_PAT) return [];
-    
-    let owner = CONFIG.DOCKER_USERNAME || 'iiitkota';
-
-    const tryFetch = async (type: 'users' | 'orgs') => {
-        const url = `https://api.github.com/${type}/${owner}/packages?package_type=container`;
-        return fetch(url, {
-            headers: {
-                'Authorization': `Bearer ${CONFIG.GITHUB_PAT}`,
-                'Accept': 'application/vnd.github+json',
-                'X-GitHub-Api-Version': '2022-11-28'
-            }
-        });
-    };
-
-    try {
-        let response = await tryFetch('users');
-        if (response.status === 404 || response.status === 403) { 
-             response = await tryFetch('orgs');
-        }
+  /**
+   * Published versions of an image in whichever registry hosts it, newest first.
+   * Null if they can't be listed.
+   */
+  listImageVersions(imageName: string, credential?: string): Promise<ImageVersion[] | null> {
+    return this.registries.listVersions(imageName, credential);
+  }
 
-        if (response.ok) {
-            const pkgs = await response.json();
-            if (Array.isArray(pkgs)) {
-                return pkgs.map((p: any) => ({
-                    name: p.name,
-                    image: `ghcr.io/${p.owner.login}/${p.name}:latest`,
-                    updated_at: p.updated_at
-                }));
-            }
-        }
-    } catch (e) {
-        console.error("Failed to list registry images:", e);
-    }
-    return [];
+  listRegistryImages(): Promise<RegistryImage[]> {
+    return this.registries.listRepositories();
   }
-}
\ No newline at end of file
+}
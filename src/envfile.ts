@@ -0,0 +1,101 @@
+// Helpers for .env content. Keep isSecretKey in sync with UI/src/components/EnvEditor.tsx
+
+const SECRET_PATTERNS = [
+  /password/i,
+  /secret/i,
+  /token/i,
+  /api[_-]?key/i,
+  /private/i,
+  /credential/i,
+  /auth/i,
+  /jwt/i,
+  /access[_-]?key/i,
+  /ssh/i,
+  /encryption/i,
+  /cert/i,
+];
+
+export const REDACTED = '********';
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_PATTERNS.some(pattern => pattern.test(key));
+}
+
+export function parseEnv(content: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const match = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
+    if (!match) continue;
+
+    let value = match[2];
+    if ((value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    }
+    vars[match[1]] = value;
+  }
+  return vars;
+}
+
+// References to the encrypted secrets store, e.g. DATABASE_URL=postgres://app:${secret:db-password}@db/app
+export const SECRET_REF = /\$\{secret:([A-Za-z0-9_.-]+)\}/g;
+
+export function secretRefs(content: string): string[] {
+  return [...new Set([...content.matchAll(SECRET_REF)].map(m => m[1]))];
+}
+
+const ENV_LINE = /^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+
+// The value as shown without reveal_secret. Secret references are left as they are; they carry no value
+export function maskValue(key: string, value: string): string {
+  return isSecretKey(key) && value && !secretRefs(value).length ? REDACTED : value;
+}
+
+/**
+ * Hides plaintext values of secret-looking keys, keeping comments and order.
+ */
+export function maskEnv(content: string): string {
+  return content.split('\n').map(line => {
+    const match = line.match(ENV_LINE);
+    return match && maskValue(match[1], match[2]) !== match[2] ? `${match[1]}=${REDACTED}` : line;
+  }).join('\n');
+}
+
+/**
+ * Undoes maskEnv for a save from a masked editor: lines still holding REDACTED get
+ * the stored line for that key back. New values replace the stored ones as usual.
+ */
+export function unmaskEnv(content: string, stored: string): string {
+  const previous = new Map<string, string>();
+  for (const line of stored.split('\n')) {
+    const match = line.match(ENV_LINE);
+    if (match) previous.set(match[1], line);
+  }
+  return content.split('\n').map(line => {
+    const match = line.match(ENV_LINE);
+    return match && match[2] === REDACTED && previous.has(match[1]) ? previous.get(match[1])! : line;
+  }).join('\n');
+}
+
+export type EnvChange = { key: string; type: 'added' | 'removed' | 'changed'; from?: string; to?: string };
+
+/**
+ * Key-level diff of two .env files. Values of secret-looking keys are redacted.
+ */
+export function diffEnv(before: string, after: string, redact = true): EnvChange[] {
+  const a = parseEnv(before);
+  const b = parseEnv(after);
+  const show = (key: string, value: string | undefined) =>
+    value !== undefined && redact ? maskValue(key, value) : value;
+
+  const changes: EnvChange[] = [];
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!(key in b)) changes.push({ key, type: 'removed', from: show(key, a[key]) });
+    else if (!(key in a)) changes.push({ key, type: 'added', to: show(key, b[key]) });
+    else if (a[key] !== b[key]) changes.push({ key, type: 'changed', from: show(key, a[key]), to: show(key, b[key]) });
+  }
+  return changes.sort((x, y) => x.key.localeCompare(y.key));
+}
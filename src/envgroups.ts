@@ -0,0 +1,25 @@
+import { DB } from './db';
+
+const GROUP_NAME = /^[A-Za-z0-9_.-]{1,64}$/;
+const MAX_GROUP_BYTES = 64 * 1024;
+
+export function validateEnvGroup(name: unknown, content: unknown): string | null {
+  if (typeof name !== 'string' || !GROUP_NAME.test(name)) return 'Group names may only contain letters, digits, ".", "_" and "-"';
+  if (typeof content !== 'string') return 'Content string required';
+  if (Buffer.byteLength(content) > MAX_GROUP_BYTES) return 'Env group is larger than 64 KiB';
+  return null;
+}
+
+/**
+ * The env a service runs with: its groups in attach order, then its own .env. Later lines win
+ * in compose env files, so each group overrides the ones before it and the service overrides all.
+ */
+export function withEnvGroups(content: string, groups: string[] | undefined): string {
+  if (!groups?.length) return content;
+  const parts = groups.map(name => {
+    const group = DB.getEnvGroupByName(name);
+    if (!group) throw new Error(`Env group "${name}" not found`);
+    return `# Env group: ${name}\n${group.content.replace(/\n*$/, '')}`;
+  });
+  return [...parts, '# Service .env', content].join('\n');
+}
@@ -0,0 +1,78 @@
+// Per-service env schema checks. Keep validateValue in sync with UI/src/components/EnvEditor.tsx
+import { parseEnv, secretRefs } from './envfile';
+import type { EnvSchemaEntry } from './types';
+
+const TYPES: NonNullable<EnvSchemaEntry['type']>[] = ['string', 'int', 'url', 'bool', 'enum'];
+const KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const BOOL = /^(true|false|1|0|yes|no|on|off)$/i;
+
+// Error message for a value of the given entry, or null if it fits
+export function validateValue(entry: EnvSchemaEntry, value: string): string | null {
+  if (secretRefs(value).length) return null;
+  switch (entry.type ?? 'string') {
+    case 'int':
+      return /^-?\d+$/.test(value) ? null : 'Must be a whole number';
+    case 'bool':
+      return BOOL.test(value) ? null : 'Must be true/false (also 1/0, yes/no, on/off)';
+    case 'url':
+      try {
+        new URL(value);
+        return null;
+      } catch {
+        return 'Must be a URL with a scheme, e.g. https://example.com';
+      }
+    case 'enum':
+      return entry.values?.includes(value) ? null : `Must be one of: ${entry.values?.join(', ')}`;
+    default:
+      return null;
+  }
+}
+
+// Returns an error message, or null if the schema can be saved
+export function validateEnvSchema(schema: unknown): string | null {
+  if (!Array.isArray(schema)) return 'Env schema must be a list of keys';
+  const seen = new Set<string>();
+  for (const entry of schema as EnvSchemaEntry[]) {
+    if (!entry || typeof entry.key !== 'string' || !KEY.test(entry.key)) return `Invalid env key: ${entry?.key}`;
+    if (seen.has(entry.key)) return `Duplicate env key: ${entry.key}`;
+    seen.add(entry.key);
+    if (entry.type && !TYPES.includes(entry.type)) return `${entry.key}: type must be one of ${TYPES.join(', ')}`;
+    if (entry.type === 'enum' && (!Array.isArray(entry.values) || !entry.values.length)) return `${entry.key}: enum needs a list of values`;
+    if (entry.default !== undefined) {
+      if (typeof entry.default !== 'string') return `${entry.key}: default must be a string`;
+      if (/['\n]/.test(entry.default)) return `${entry.key}: default can't contain quotes or newlines`;
+      const error = validateValue(entry, entry.default);
+      if (error) return `${entry.key}: default is invalid (${error})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Per-key errors of .env content against a schema. Keys outside the schema are allowed.
+ */
+export function validateEnv(content: string, schema: EnvSchemaEntry[] | undefined): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!schema?.length) return errors;
+  const vars = parseEnv(content);
+  for (const entry of schema) {
+    const value = vars[entry.key];
+    if (value === undefined || value === '') {
+      if (entry.required && entry.default === undefined) errors[entry.key] = 'Required';
+      continue;
+    }
+    const error = validateValue(entry, value);
+    if (error) errors[entry.key] = error;
+  }
+  return errors;
+}
+
+// Appends schema defaults for keys the content leaves unset or empty, for the env file handed to compose.
+// Later lines win in compose env files
+export function withEnvDefaults(content: string, schema: EnvSchemaEntry[] | undefined): string {
+  const vars = parseEnv(content);
+  const defaults = (schema ?? []).filter(e => e.default !== undefined && !vars[e.key]);
+  if (!defaults.length) return content;
+  const lines = defaults.map(e => `${e.key}='${e.default}'`);
+  return [content.replace(/\n*$/, ''), '# Defaults from the env schema', ...lines, ''].join('\n');
+}
@@ -0,0 +1,43 @@
+import { DB } from './db';
+import type { DockerManager } from './docker';
+import { decrypt, encrypt } from './vault';
+import type { EnvVersion, User } from './types';
+
+export function envHash(content: string): string {
+  return new Bun.CryptoHasher('sha256').update(content).digest('hex');
+}
+
+/**
+ * Numbered history of each service's .env. Contents are encrypted with the vault key,
+ * since a .env may hold plaintext secrets.
+ */
+export class EnvVersionManager {
+  constructor(private dockerMgr: DockerManager) {
+    // Encrypt versions kept in plaintext by earlier releases
+    for (const { id, content } of DB.listUnsealedEnvVersions()) DB.setEnvVersionContent(id, encrypt(content));
+  }
+
+  /**
+   * Keep a saved .env as the next version of the service. The first recorded save also keeps
+   * the file it replaced, so changes made before versioning existed can be reverted too.
+   */
+  record(serviceName: string, previous: string, content: string, user: User, source: 'save' | 'revert', revertedFrom: number | null = null): EnvVersion {
+    if (previous && DB.listEnvVersions(serviceName, 1).length === 0) {
+      DB.addEnvVersion({ service: serviceName, hash: envHash(previous), source: 'initial', reverted_from: null, actor: 'system' }, encrypt(previous));
+    }
+    return DB.addEnvVersion({ service: serviceName, hash: envHash(content), source, reverted_from: revertedFrom, actor: user.username }, encrypt(content));
+  }
+
+  // Content of a version, or of the file on disk for 'current'. null if the version doesn't exist
+  content(serviceName: string, version: number | 'current'): string | null {
+    if (version === 'current') return this.dockerMgr.readEnv(serviceName);
+    const sealed = DB.getEnvVersionContent(serviceName, version);
+    return sealed === null ? null : decrypt(sealed);
+  }
+
+  // Newest version matching the file on disk; null if it was edited outside the API
+  currentVersion(serviceName: string): number | null {
+    const hash = envHash(this.dockerMgr.readEnv(serviceName));
+    return DB.listEnvVersions(serviceName).find(v => v.hash === hash)?.version ?? null;
+  }
+}
@@ -1,28 +1,222 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { basicAuth } from 'hono/basic-auth';
-import { stream } from 'hono/streaming';
+import { stream, streamSSE } from 'hono/streaming';
 import { cors } from 'hono/cors';
 import { CONFIG } from './config';
-import { DockerManager } from './docker';
+import { DockerManager, HealthCheckError, splitImage, validateHealthcheck, validateVolumes } from './docker';
 import { NginxManager } from './nginx';
 import { DB } from './db';
-import type { ServicePayload, User } from './types';
+import { AuthManager, systemActor } from './auth';
+import { AuditLogger } from './audit';
+import { REDACTED, diffEnv, maskEnv, parseEnv, secretRefs, unmaskEnv } from './envfile';
+import { RevisionManager } from './revisions';
+import { EnvVersionManager } from './envversions';
+import { StagingManager, mergeStagedConfig, pickStagedConfig } from './staging';
+import { BlueGreenDeployer } from './bluegreen';
+import { BackupManager, parseCron } from './backups';
+import { toResourceStats } from './stats';
+import { MetricsManager, RESOLUTIONS } from './metrics';
+import { AlertManager, validateChannel, validateRule } from './alerts';
+import { parseRegistryPush, verifySignature, type RegistryPush } from './webhooks';
+import { UpdatePoller, validateUpdatePolicy } from './updates';
+import { normalizeHost, validateCredential } from './registries';
+import { decrypt, encrypt } from './vault';
+import { missingSecrets, validateSecretName, validateSecretValue } from './secrets';
+import { validateEnv, validateEnvSchema } from './envschema';
+import { validateEnvGroup, withEnvGroups } from './envgroups';
+import { OidcClient, OidcError, provisionUser, validateSsoMapping } from './oidc';
+import { TwoFactorManager } from './totp';
+import { ACTIONS, GLOBAL_ACTIONS, SERVICE_ACTIONS, explainDecision, validatePermission, validateRole } from './rbac';
+import type { AlertChannel, AlertRule, ApplyStrategy, AuditResult, BackupPolicy, Action, DockerServiceConfig, EnvSchemaEntry, MetricResolution, Permission, Project, RegistryCredential, Role, ServicePayload, UpdatePolicy, User } from './types';
 import { createMiddleware } from 'hono/factory';
 
 type Variables = {
   user: User;
   body_cache?: ServicePayload;
 }
+type AppEnv = { Variables: Variables };
 
-const app = new Hono<{ Variables: Variables }>();
+const app = new Hono<AppEnv>();
 const dockerMgr = new DockerManager();
 const nginxMgr = new NginxManager();
+const authMgr = new AuthManager();
+const oidc = new OidcClient();
+const twoFactor = new TwoFactorManager();
+const auditLog = new AuditLogger();
+const revisionMgr = new RevisionManager(dockerMgr);
+const envVersions = new EnvVersionManager(dockerMgr);
+const blueGreen = new BlueGreenDeployer(dockerMgr, nginxMgr);
+const backupMgr = new BackupManager(dockerMgr);
+const alertMgr = new AlertManager(dockerMgr);
+const metricsMgr = new MetricsManager(dockerMgr, (service, stats) => alertMgr.checkResources(service, stats));
+
+// Strip the password hash before sending a user to the client
+const publicUser = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  is_admin: user.is_admin,
+  permissions: user.permissions,
+  admin_of: user.admin_of ?? [],
+  sso: !!user.sso,
+  two_factor: !!user.two_factor,
+});
+
+// The request's JSON body if it is an object; null when it is missing, malformed or anything else
+const jsonObject = async (c: Context<AppEnv>): Promise<Record<string, any> | null> => {
+  const body: unknown = await c.req.json().catch(() => null);
+  return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, any> : null;
+};
 
 app.use('/*', cors({
   origin: CONFIG.ALLOWED_ORIGINS,
   credentials: true,
 }));
 
+// Public auth routes (must be registered before the auth middleware)
+app.post('/api/auth/login', async (c) => {
+  const { username, password } = await c.req.json().catch(() => ({})) as { username?: unknown; password?: unknown };
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    return c.json({ error: 'Username and password required' }, 400);
+  }
+
+  const user = authMgr.verifyCredentials(username, password);
+  if (!user) return c.json({ error: 'Invalid credentials' }, 401);
+
+  // The password alone isn't enough: ask for a code, or have the user enroll first
+  if (twoFactor.enabled(user) || twoFactor.required(user)) {
+    return c.json({ two_factor: twoFactor.enabled(user) ? 'verify' : 'enroll', challenge: twoFactor.startChallenge(user) });
+  }
+
+  return c.json({ ...authMgr.createSession(user), user: publicUser(user) });
+});
+
+// Enrollment during login, for users who must use 2FA but haven't set it up
+app.post('/api/auth/2fa/enroll', async (c) => {
+  const { challenge } = await c.req.json().catch(() => ({})) as { challenge?: unknown };
+  if (typeof challenge !== 'string') return c.json({ error: 'challenge required' }, 400);
+  const user = twoFactor.challengeUser(challenge);
+  if (!user) return c.json({ error: 'Login expired; sign in again' }, 401);
+  if (twoFactor.enabled(user)) return c.json({ error: 'Two-factor authentication is already set up' }, 409);
+  return c.json(twoFactor.setup(user));
+});
+
+// Second login step: a code from the app or a recovery code, or the first code of a new enrollment
+app.post('/api/auth/2fa/verify', async (c) => {
+  const { challenge, code } = await c.req.json().catch(() => ({})) as { challenge?: unknown; code?: unknown };
+  if (typeof challenge !== 'string' || typeof code !== 'string') return c.json({ error: 'challenge and code required' }, 400);
+  const found = twoFactor.attempt(challenge);
+  if (!found) return c.json({ error: 'Login expired; sign in again' }, 401);
+  const { user, attemptsLeft } = found;
+  const invalid = () => c.json({ error: attemptsLeft ? 'Invalid code' : 'Too many attempts; sign in again', attempts_left: attemptsLeft }, 401);
+
+  if (twoFactor.enabled(user)) {
+    const method = twoFactor.verify(user, code);
+    if (!method) return invalid();
+    twoFactor.endChallenge(challenge);
+    if (method === 'recovery') {
+      auditLog.record(user, 'auth.2fa_recovery_used', `user:${user.username}`, { left: DB.recoveryCodesLeft(user.id) });
+    }
+    return c.json({ ...authMgr.createSession(user), user: publicUser(user) });
+  }
+
+  const recoveryCodes = twoFactor.enable(user, code);
+  if (!recoveryCodes) return invalid();
+  twoFactor.endChallenge(challenge);
+  auditLog.record(user, 'auth.2fa_enable', `user:${user.username}`);
+  const enrolled = DB.getUserById(user.id)!;
+  return c.json({ ...authMgr.createSession(enrolled), user: publicUser(enrolled), recovery_codes: recoveryCodes });
+});
+
+app.post('/api/auth/refresh', async (c) => {
+  const { refreshToken } = await c.req.json().catch(() => ({})) as { refreshToken?: unknown };
+  if (typeof refreshToken !== 'string' || !refreshToken) return c.json({ error: 'Refresh token required' }, 400);
+
+  const res = authMgr.refreshSession(refreshToken);
+  if (!res) return c.json({ error: 'Session expired' }, 401);
+
+  return c.json({ ...res.tokens, user: publicUser(res.user) });
+});
+
+// Single sign-on (OIDC). The provider sends the browser back to the callback, which hands the UI
+// a one-time code for its session
+app.get('/api/auth/oidc', (c) => {
+  return c.json({ enabled: oidc.enabled, label: CONFIG.OIDC.LABEL });
+});
+
+app.get('/api/auth/oidc/login', async (c) => {
+  if (!oidc.enabled) return c.json({ error: 'SSO is not configured' }, 404);
+  // Sessions are only handed to UIs that CORS already trusts
+  const returnTo = c.req.query('return_to') ?? '';
+  const origin = URL.canParse(returnTo) ? new URL(returnTo).origin : null;
+  if (!origin || !CONFIG.ALLOWED_ORIGINS.includes(origin)) return c.json({ error: 'return_to must be on an allowed origin' }, 400);
+
+  try {
+    const redirectUri = CONFIG.OIDC.REDIRECT_URI || new URL('/api/auth/oidc/callback', c.req.url).toString();
+    return c.redirect(await oidc.authorizationUrl(returnTo, redirectUri));
+  } catch (e: any) {
+    console.error('SSO login failed:', e);
+    return c.redirect(`${returnTo}#${new URLSearchParams({ sso_error: e instanceof OidcError ? e.message : 'Identity provider unreachable' })}`);
+  }
+});
+
+app.get('/api/auth/oidc/callback', async (c) => {
+  const { code, state, error, error_description } = c.req.query();
+  const returnTo = state ? oidc.returnTo(state) : null;
+  if (!returnTo) return c.text('Login expired or was already used; start again from the login page', 400);
+  const fail = (message: string) => c.redirect(`${returnTo}#${new URLSearchParams({ sso_error: message })}`);
+  if (error || !code) return fail(error_description || error || 'No authorization code');
+
+  try {
+    const claims = await oidc.complete(code, state);
+    const { user, created, matched } = provisionUser(claims);
+    auditLog.record(user, 'auth.sso_login', `user:${user.username}`, {
+      created,
+      subject: claims.sub,
+      mappings: matched.map(m => `${m.claim}=${m.value}`),
+    });
+    const handoff = oidc.issueHandoff({ user, tokens: authMgr.createSession(user) });
+    return c.redirect(`${returnTo}#${new URLSearchParams({ sso_code: handoff })}`);
+  } catch (e: any) {
+    if (!(e instanceof OidcError)) console.error('SSO login failed:', e);
+    return fail(e instanceof OidcError ? e.message : 'SSO login failed');
+  }
+});
+
+app.post('/api/auth/oidc/exchange', async (c) => {
+  const { code } = await c.req.json().catch(() => ({})) as { code?: unknown };
+  if (typeof code !== 'string' || !code) return c.json({ error: 'code required' }, 400);
+  const handoff = oidc.redeemHandoff(code);
+  if (!handoff) return c.json({ error: 'SSO login expired; try again' }, 401);
+  return c.json({ ...handoff.tokens, user: publicUser(handoff.user) });
+});
+
+// Registry push webhook (GitHub package events). Authenticated by HMAC signature instead of a login
+app.post('/api/webhooks/registry', async (c) => {
+  if (!CONFIG.REGISTRY_WEBHOOK_SECRET) return c.json({ error: 'Registry webhook is not configured' }, 503);
+
+  const body = await c.req.text();
+  if (!verifySignature(CONFIG.REGISTRY_WEBHOOK_SECRET, body, c.req.header('X-Hub-Signature-256'))) {
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  const event = c.req.header('X-GitHub-Event');
+  if (event === 'ping') return c.json({ success: true, message: 'pong' });
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return c.json({ error: 'Invalid JSON payload' }, 400);
+  }
+
+  const push = parseRegistryPush(event, payload);
+  if (!push) return c.json({ success: true, message: 'Ignored: not a tagged container push', results: [] });
+
+  const results = await pushDeploy(push);
+  const success = results.every(r => r.status !== 'failed');
+  return c.json({ success, image: `${push.repository}:${push.tag}`, results }, success ? 200 : 500);
+});
+
 // Auth Middleware
 app.use('/*', async (c, next) => {
   const auth = c.req.header('Authorization');
@@ -32,20 +226,27 @@ app.use('/*', async (c, next) => {
   }
 
   const [scheme, encoded] = auth.split(' ');
-  if (scheme !== 'Basic' || !encoded) return c.text('Byebye', 400);
+  if (!encoded) return c.text('Byebye', 400);
+
+  // Session tokens & API keys
+  if (scheme === 'Bearer') {
+    const user = authMgr.authenticateBearer(encoded);
+    if (!user) return c.json({ error: 'Invalid or expired token' }, 401);
+    c.set('user', user);
+    return next();
+  }
+
+  if (scheme !== 'Basic') return c.text('Byebye', 400);
 
+  // Legacy Basic auth (scripts that haven't moved to API keys yet)
   const decoded = atob(encoded);
   const [username, password] = decoded.split(':');
 
-  // Env Admin
-  if (username === CONFIG.AUTH.USERNAME && password === CONFIG.AUTH.PASSWORD) {
-    c.set('user', { username: 'admin', is_admin: true, permissions: [], id: 0, password_hash: '' });
-    return next();
+  const user = authMgr.verifyCredentials(username, password);
+  if (user && (twoFactor.enabled(user) || twoFactor.required(user))) {
+    return c.json({ error: 'Two-factor authentication is on for this user; log in for a session or use an API key' }, 401);
   }
-
-  // Database Users
-  const user = DB.getUser(username);
-  if (user && Bun.password.verifySync(password, user.password_hash)) {
+  if (user) {
     c.set('user', user);
     return next();
   }
@@ -71,30 +272,155 @@ const requireAdmin = createMiddleware(async (c, next) => {
   await next();
 });
 
+// Session & API Keys
+
+app.get('/api/auth/me', (c) => {
+  return c.json(publicUser(c.get('user')));
+});
+
+app.post('/api/auth/logout', (c) => {
+  const [scheme, token] = (c.req.header('Authorization') || '').split(' ');
+  if (scheme === 'Bearer' && token) authMgr.revokeSession(token);
+  return c.json({ success: true });
+});
+
+// Two-factor auth of the logged-in user
+
+app.get('/api/auth/2fa', (c) => {
+  return c.json(twoFactor.status(c.get('user')));
+});
+
+app.post('/api/auth/2fa/setup', (c) => {
+  const user = c.get('user');
+  if (!twoFactor.supports(user)) return c.json({ error: 'Two-factor authentication is only for database users who log in with a password' }, 400);
+  if (twoFactor.enabled(user)) return c.json({ error: 'Two-factor authentication is already set up; disable it first' }, 409);
+  return c.json(twoFactor.setup(user));
+});
+
+app.post('/api/auth/2fa/enable', async (c) => {
+  const user = c.get('user');
+  const { code } = await c.req.json().catch(() => ({})) as { code?: unknown };
+  if (typeof code !== 'string') return c.json({ error: 'code required' }, 400);
+  const recoveryCodes = twoFactor.enable(user, code);
+  if (!recoveryCodes) return c.json({ error: 'Invalid code' }, 400);
+  auditLog.record(user, 'auth.2fa_enable', `user:${user.username}`);
+  return c.json({ success: true, recovery_codes: recoveryCodes });
+});
+
+// Both need a current code, so a stolen session alone can't weaken the account
+app.post('/api/auth/2fa/recovery-codes', async (c) => {
+  const user = c.get('user');
+  const { code } = await c.req.json().catch(() => ({})) as { code?: unknown };
+  if (typeof code !== 'string') return c.json({ error: 'code required' }, 400);
+  if (!twoFactor.verify(user, code)) return c.json({ error: 'Invalid code' }, 400);
+  const recoveryCodes = twoFactor.regenerateRecoveryCodes(user);
+  auditLog.record(user, 'auth.2fa_recovery_codes', `user:${user.username}`);
+  return c.json({ success: true, recovery_codes: recoveryCodes });
+});
+
+app.delete('/api/auth/2fa', async (c) => {
+  const user = c.get('user');
+  const { code } = await c.req.json().catch(() => ({})) as { code?: unknown };
+  if (typeof code !== 'string') return c.json({ error: 'code required' }, 400);
+  if (twoFactor.required(user)) return c.json({ error: 'Two-factor authentication is required for your account' }, 409);
+  if (!twoFactor.verify(user, code)) return c.json({ error: 'Invalid code' }, 400);
+  twoFactor.disable(user);
+  auditLog.record(user, 'auth.2fa_disable', `user:${user.username}`);
+  return c.json({ success: true });
+});
+
+app.get('/api/keys', (c) => {
+  return c.json(DB.listApiKeys(c.get('user').id));
+});
+
+app.post('/api/keys', async (c) => {
+  const { name } = await c.req.json().catch(() => ({})) as { name?: unknown };
+  if (typeof name !== 'string' || !name.trim()) return c.json({ error: 'Key name required' }, 400);
+
+  const { id, key } = authMgr.createApiKey(c.get('user'), name.trim());
+  auditLog.record(c.get('user'), 'api_key.create', `user:${c.get('user').username}`, { id, name });
+  return c.json({ success: true, id, key });
+});
+
+app.delete('/api/keys/:id', (c) => {
+  const id = Number(c.req.param('id'));
+  const revoked = DB.revokeApiKey(id, c.get('user').id);
+  if (!revoked) return c.json({ error: 'API key not found' }, 404);
+  auditLog.record(c.get('user'), 'api_key.revoke', `user:${c.get('user').username}`, { id });
+  return c.json({ success: true });
+});
+
 // User Management
 
+// Checks a permission list from the client and strips it to the stored fields
+function parsePermissions(input: unknown): { permissions?: Permission[]; error?: string } {
+  if (!Array.isArray(input)) return { error: 'Permissions array required' };
+  const roles = new Set(DB.listRoles().map(r => r.name));
+  const projects = new Set(DB.listProjects().map(p => p.name));
+  for (const p of input) {
+    const error = validatePermission(p, roles, projects);
+    if (error) return { error };
+  }
+  return {
+    permissions: (input as Permission[]).map(p => ({
+      scope: p.scope,
+      ...(p.action ? { action: p.action } : { role: p.role }),
+      ...(p.effect === 'deny' && { effect: 'deny' as const }),
+    })),
+  };
+}
+
+// 'deny service:web-*:role:viewer', as permissions show up in the audit log
+const permissionKey = (p: Permission) =>
+  `${p.effect === 'deny' ? 'deny ' : ''}${p.scope}:${p.action ?? `role:${p.role}`}`;
+
+const permissionChanges = (before: Permission[], after: Permission[]) => {
+  const was = new Set(before.map(permissionKey));
+  const now = new Set(after.map(permissionKey));
+  return {
+    added: [...now].filter(p => !was.has(p)),
+    removed: [...was].filter(p => !now.has(p)),
+  };
+};
+
 app.get('/api/users', requireAdmin, (c) => {
   return c.json(DB.allUsers);
 });
 
 app.post('/api/users', requireAdmin, async (c) => {
-  const { username, password, permissions } = await c.req.json();
-  if (!username || !password) return c.json({ error: 'Username and password required' }, 400);
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const { username, password, permissions: input } = body;
+  if (!username || !password || typeof username !== 'string' || typeof password !== 'string') return c.json({ error: 'Username and password required' }, 400);
+  const { permissions, error } = parsePermissions(input ?? []);
+  if (error) return c.json({ error }, 400);
   
   try {
     const hash = Bun.password.hashSync(password);
     const id = DB.createUser(username, hash);
-    if (permissions && Array.isArray(permissions)) {
-      DB.updatePermissions(Number(id), permissions);
-    }
+    DB.updatePermissions(Number(id), permissions!);
+    auditLog.record(c.get('user'), 'user.create', `user:${username}`, { permissions: permissions!.map(permissionKey) });
     return c.json({ success: true, id });
   } catch (e: any) {
+    auditLog.record(c.get('user'), 'user.create', `user:${username}`, null, 'failure', e.message);
     return c.json({ error: e.message }, 400);
   }
 });
 
 app.delete('/api/users/:username', requireAdmin, (c) => {
-  DB.deleteUser(c.req.param('username'));
+  const username = c.req.param('username');
+  DB.deleteUser(username);
+  auditLog.record(c.get('user'), 'user.delete', `user:${username}`);
+  return c.json({ success: true });
+});
+
+// For a lost authenticator: the user sets 2FA up again (at the next login, if it is required)
+app.delete('/api/users/:username/2fa', requireAdmin, (c) => {
+  const username = c.req.param('username');
+  const user = DB.getUser(username);
+  if (!user) return c.json({ error: 'User not found' }, 404);
+  if (!twoFactor.disable(user)) return c.json({ error: 'Two-factor authentication is not set up' }, 404);
+  auditLog.record(c.get('user'), 'user.2fa_reset', `user:${username}`);
   return c.json({ success: true });
 });
 
@@ -103,11 +429,760 @@ app.patch('/api/users/:username/permissions', requireAdmin, async (c) => {
   const user = DB.getUser(username);
   if (!user) return c.json({ error: 'User not found' }, 404);
 
-  const { permissions } = await c.req.json();
-  DB.updatePermissions(user.id, permissions);
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const { permissions, error } = parsePermissions(body.permissions);
+  if (error) return c.json({ error }, 400);
+  DB.updatePermissions(user.id, permissions!);
+
+  auditLog.record(c.get('user'), 'user.permissions', `user:${username}`, permissionChanges(user.permissions, permissions!));
   return c.json({ success: true });
 });
 
+// Admins may look into anyone's permissions, everyone else only into their own
+const permissionSubject = (c: Context<AppEnv>, username: string | undefined): { user?: User; error?: string; status?: 403 | 404 } => {
+  const actor = c.get('user');
+  if (!actor.is_admin && actor.username !== username) return { error: 'Requires Admin', status: 403 };
+  if (username === actor.username) return { user: actor };
+  const user = username ? DB.getUser(username) : null;
+  return user ? { user } : { error: 'User not found', status: 404 };
+};
+
+app.get('/api/users/:username/effective-permissions', (c) => {
+  const { user, error, status } = permissionSubject(c, c.req.param('username'));
+  if (!user) return c.json({ error }, status!);
+
+  const matrix = (scope: string, actions: Action[]) =>
+    Object.fromEntries(actions.map(action => [action, DB.checkPermission(user, scope, action)]));
+  // Services on disk, plus any a grant names exactly (e.g. before they are created)
+  const named = [...user.permissions, ...(user.groups ?? []).flatMap(g => g.permissions)]
+    .filter(p => p.scope.startsWith('service:') && !p.scope.includes('*'))
+    .map(p => p.scope.slice('service:'.length));
+  const services = [...new Set([...dockerMgr.configuredServices(), ...named])].sort();
+
+  return c.json({
+    username: user.username,
+    is_admin: user.is_admin,
+    global: matrix('global', GLOBAL_ACTIONS),
+    services: Object.fromEntries(services.map(service => [service, matrix(`service:${service}`, SERVICE_ACTIONS)])),
+  });
+});
+
+app.get('/api/permissions/explain', (c) => {
+  const { user: username, scope, action } = c.req.query();
+  if (!scope || !/^(global|service:[A-Za-z0-9_.-]+)$/.test(scope)) return c.json({ error: 'scope must be global or service:{name}' }, 400);
+  if (!ACTIONS.includes(action as Action)) return c.json({ error: `Unknown action: ${action}` }, 400);
+  const { user, error, status } = permissionSubject(c, username);
+  if (!user) return c.json({ error }, status!);
+
+  if (user.is_admin) {
+    return c.json({ user: user.username, scope, action, allowed: true, reason: 'admin', grant: null, message: `${user.username} is an admin; admins may do everything.` });
+  }
+  const decision = DB.decide(user, scope, action as Action);
+  return c.json({
+    user: user.username,
+    scope,
+    action,
+    ...decision,
+    reason: decision.allowed ? 'allowed' : decision.grant ? 'denied' : 'no_grant',
+    message: explainDecision(decision, scope, action as Action, DB.listRoles()),
+  });
+});
+
+// Roles: named sets of actions, granted like a single action
+
+const roleInput = (body: any): Pick<Role, 'name' | 'description' | 'actions' | 'require_2fa'> => ({
+  name: typeof body.name === 'string' ? body.name.trim() : body.name,
+  description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+  actions: Array.isArray(body.actions) ? [...new Set<Role['actions'][number]>(body.actions)] : body.actions,
+  require_2fa: body.require_2fa === true,
+});
+
+const roleNameTaken = (name: string, id?: number) => DB.listRoles().some(r => r.name === name && r.id !== id);
+
+// Project admins grant roles too; who holds them is for admins only
+app.get('/api/roles', (c) => {
+  const roles = DB.listRoles();
+  return c.json(c.get('user').is_admin ? roles.map(role => ({ ...role, holders: DB.roleHolders(role.id) })) : roles);
+});
+
+app.post('/api/roles', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = roleInput(body);
+  const error = validateRole(input);
+  if (error) return c.json({ error }, 400);
+  if (roleNameTaken(input.name)) return c.json({ error: `Role "${input.name}" already exists` }, 409);
+
+  const role = DB.saveRole(input);
+  auditLog.record(c.get('user'), 'role.create', `role:${role.name}`, { actions: role.actions, require_2fa: role.require_2fa });
+  return c.json({ success: true, role });
+});
+
+app.put('/api/roles/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getRole(id);
+  if (!existing) return c.json({ error: 'Role not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = roleInput(body);
+  const error = validateRole(input);
+  if (error) return c.json({ error }, 400);
+  if (roleNameTaken(input.name, id)) return c.json({ error: `Role "${input.name}" already exists` }, 409);
+
+  const role = DB.saveRole(input, id);
+  auditLog.record(c.get('user'), 'role.update', `role:${role.name}`, {
+    ...(existing.name !== role.name && { renamed: existing.name }),
+    added: role.actions.filter(a => !existing.actions.includes(a)),
+    removed: existing.actions.filter(a => !role.actions.includes(a)),
+    ...(existing.require_2fa !== role.require_2fa && { require_2fa: role.require_2fa }),
+  });
+  return c.json({ success: true, role });
+});
+
+app.delete('/api/roles/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const role = DB.getRole(id);
+  if (!role) return c.json({ error: 'Role not found' }, 404);
+
+  const holders = DB.roleHolders(id);
+  if (holders.length) return c.json({ error: `Role is still granted to ${holders.join(', ')}` }, 409);
+
+  DB.deleteRole(id);
+  auditLog.record(c.get('user'), 'role.delete', `role:${role.name}`);
+  return c.json({ success: true });
+});
+
+// User groups: members get every permission of the group on top of their own
+
+const userGroupInput = (body: any) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : body.name,
+  description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+  members: Array.isArray(body.members) ? [...new Set<string>(body.members)] : body.members,
+  permissions: body.permissions ?? [],
+});
+
+function userGroupError(input: ReturnType<typeof userGroupInput>): string | null {
+  if (typeof input.name !== 'string' || !/^[A-Za-z0-9_.-]{1,64}$/.test(input.name)) return 'Group names may only contain letters, digits, ".", "_" and "-"';
+  if (!Array.isArray(input.members)) return 'Members must be a list of usernames';
+  const unknown = input.members.find(m => typeof m !== 'string' || !DB.getUser(m));
+  if (unknown !== undefined) return `Unknown user: ${unknown}`;
+  return parsePermissions(input.permissions).error ?? null;
+}
+
+const userGroupNameTaken = (name: string, id?: number) => DB.listUserGroups().some(g => g.name === name && g.id !== id);
+
+app.get('/api/user-groups', requireAdmin, (c) => {
+  return c.json(DB.listUserGroups());
+});
+
+app.post('/api/user-groups', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = userGroupInput(body);
+  const error = userGroupError(input);
+  if (error) return c.json({ error }, 400);
+  if (userGroupNameTaken(input.name)) return c.json({ error: `Group "${input.name}" already exists` }, 409);
+
+  const group = DB.saveUserGroup({ ...input, permissions: parsePermissions(input.permissions).permissions! });
+  auditLog.record(c.get('user'), 'user_group.create', `group:${group.name}`, {
+    members: group.members,
+    permissions: group.permissions.map(permissionKey),
+  });
+  return c.json({ success: true, group });
+});
+
+app.put('/api/user-groups/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getUserGroup(id);
+  if (!existing) return c.json({ error: 'Group not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = userGroupInput(body);
+  const error = userGroupError(input);
+  if (error) return c.json({ error }, 400);
+  if (userGroupNameTaken(input.name, id)) return c.json({ error: `Group "${input.name}" already exists` }, 409);
+
+  const group = DB.saveUserGroup({ ...input, permissions: parsePermissions(input.permissions).permissions! }, id);
+  auditLog.record(c.get('user'), 'user_group.update', `group:${group.name}`, {
+    ...(existing.name !== group.name && { renamed: existing.name }),
+    joined: group.members.filter(m => !existing.members.includes(m)),
+    left: existing.members.filter(m => !group.members.includes(m)),
+    ...permissionChanges(existing.permissions, group.permissions),
+  });
+  return c.json({ success: true, group });
+});
+
+app.delete('/api/user-groups/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const group = DB.getUserGroup(id);
+  if (!group) return c.json({ error: 'Group not found' }, 404);
+
+  DB.deleteUserGroup(id);
+  auditLog.record(c.get('user'), 'user_group.delete', `group:${group.name}`, { members: group.members });
+  return c.json({ success: true });
+});
+
+// SSO mappings: group membership and admin rights that follow ID token claims on every SSO login
+
+const ssoMappingInput = (body: any) => ({
+  claim: typeof body.claim === 'string' ? body.claim.trim() : body.claim,
+  value: typeof body.value === 'string' ? body.value.trim() : body.value,
+  group: typeof body.group === 'string' ? body.group.trim() || null : body.group ?? null,
+  is_admin: body.is_admin ?? false,
+});
+
+function ssoMappingError(input: ReturnType<typeof ssoMappingInput>): string | null {
+  const error = validateSsoMapping(input);
+  if (error) return error;
+  if (input.group && !DB.listUserGroups().some(g => g.name === input.group)) return `Unknown group: ${input.group}`;
+  return null;
+}
+
+app.get('/api/sso/mappings', requireAdmin, (c) => {
+  return c.json(DB.listSsoMappings());
+});
+
+app.post('/api/sso/mappings', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = ssoMappingInput(body);
+  const error = ssoMappingError(input);
+  if (error) return c.json({ error }, 400);
+
+  const mapping = DB.saveSsoMapping(input);
+  auditLog.record(c.get('user'), 'sso_mapping.create', `sso:${mapping.claim}=${mapping.value}`, { group: mapping.group, is_admin: mapping.is_admin });
+  return c.json({ success: true, mapping });
+});
+
+app.put('/api/sso/mappings/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getSsoMapping(id);
+  if (!existing) return c.json({ error: 'Mapping not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = ssoMappingInput(body);
+  const error = ssoMappingError(input);
+  if (error) return c.json({ error }, 400);
+
+  const mapping = DB.saveSsoMapping(input, id);
+  auditLog.record(c.get('user'), 'sso_mapping.update', `sso:${mapping.claim}=${mapping.value}`, auditLog.diff(
+    { claim: existing.claim, value: existing.value, group: existing.group, is_admin: existing.is_admin },
+    { claim: mapping.claim, value: mapping.value, group: mapping.group, is_admin: mapping.is_admin },
+  ));
+  return c.json({ success: true, mapping });
+});
+
+app.delete('/api/sso/mappings/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const mapping = DB.getSsoMapping(id);
+  if (!mapping) return c.json({ error: 'Mapping not found' }, 404);
+
+  DB.deleteSsoMapping(id);
+  auditLog.record(c.get('user'), 'sso_mapping.delete', `sso:${mapping.claim}=${mapping.value}`);
+  return c.json({ success: true });
+});
+
+// Projects: services grouped under project admins, who invite members and grant permissions within the project
+
+const projectScopes = (project: Project) => [`project:${project.name}`, ...project.services.map(s => `service:${s}`)];
+
+const canAdminProject = (user: User, project: Project) => user.is_admin || project.admins.includes(user.username);
+
+const projectInput = (body: any) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : body.name,
+  description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+  services: Array.isArray(body.services) ? [...new Set<string>(body.services)] : body.services,
+  admins: Array.isArray(body.admins) ? [...new Set<string>(body.admins)] : body.admins,
+});
+
+function projectError(input: ReturnType<typeof projectInput>): string | null {
+  if (typeof input.name !== 'string' || !/^[A-Za-z0-9_.-]{1,64}$/.test(input.name)) return 'Project names may only contain letters, digits, ".", "_" and "-"';
+  if (!Array.isArray(input.services) || input.services.some(s => typeof s !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(s))) return 'Services must be a list of service names';
+  if (!Array.isArray(input.admins)) return 'Admins must be a list of usernames';
+  const unknown = input.admins.find(a => typeof a !== 'string' || !DB.getUser(a));
+  if (unknown !== undefined) return `Unknown user: ${unknown}`;
+  return null;
+}
+
+// Like parsePermissions, but every scope has to be the project or one of its services
+function parseProjectPermissions(project: Project, input: unknown) {
+  const { permissions, error } = parsePermissions(input ?? []);
+  if (error) return { error };
+  const scopes = projectScopes(project);
+  const outside = permissions!.find(p => !scopes.includes(p.scope));
+  if (outside) return { error: `${outside.scope} is outside project ${project.name}` };
+  return { permissions: permissions! };
+}
+
+const projectNameTaken = (name: string, id?: number) => DB.listProjects().some(p => p.name === name && p.id !== id);
+
+// Project admins see members; everyone else only the project and the services in it they can view
+app.get('/api/projects', (c) => {
+  const user = c.get('user');
+  const visible = (s: string) => DB.checkPermission(user, `service:${s}`, 'view_status');
+  return c.json(DB.listProjects().flatMap(p => {
+    if (canAdminProject(user, p)) return [p];
+    if (!p.members.includes(user.username) && !p.services.some(visible)) return [];
+    return [{ id: p.id, name: p.name, description: p.description, services: p.services.filter(visible), created_at: p.created_at }];
+  }));
+});
+
+app.post('/api/projects', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = projectInput(body);
+  const error = projectError(input);
+  if (error) return c.json({ error }, 400);
+  if (projectNameTaken(input.name)) return c.json({ error: `Project "${input.name}" already exists` }, 409);
+
+  const project = DB.saveProject(input);
+  auditLog.record(c.get('user'), 'project.create', `project:${project.name}`, { services: project.services, admins: project.admins });
+  return c.json({ success: true, project });
+});
+
+app.put('/api/projects/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getProject(id);
+  if (!existing) return c.json({ error: 'Project not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = projectInput(body);
+  const error = projectError(input);
+  if (error) return c.json({ error }, 400);
+  if (projectNameTaken(input.name, id)) return c.json({ error: `Project "${input.name}" already exists` }, 409);
+
+  const project = DB.saveProject(input, id);
+  auditLog.record(c.get('user'), 'project.update', `project:${project.name}`, {
+    ...(existing.name !== project.name && { renamed: existing.name }),
+    ...auditLog.diff({ services: existing.services, admins: existing.admins }, { services: project.services, admins: project.admins }),
+  });
+  return c.json({ success: true, project });
+});
+
+app.delete('/api/projects/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const project = DB.getProject(id);
+  if (!project) return c.json({ error: 'Project not found' }, 404);
+
+  DB.deleteProject(id);
+  auditLog.record(c.get('user'), 'project.delete', `project:${project.name}`, { services: project.services });
+  return c.json({ success: true });
+});
+
+// Members with their grants inside the project (grants elsewhere stay private)
+app.get('/api/projects/:id/members', (c) => {
+  const project = DB.getProject(Number(c.req.param('id')));
+  if (!project) return c.json({ error: 'Project not found' }, 404);
+  if (!canAdminProject(c.get('user'), project)) return c.json({ error: 'Requires project admin' }, 403);
+
+  const scopes = projectScopes(project);
+  return c.json([...project.admins, ...project.members].map(username => ({
+    username,
+    is_admin: project.admins.includes(username),
+    permissions: DB.getUser(username)!.permissions.filter(p => scopes.includes(p.scope)),
+  })));
+});
+
+// Invites an existing user, or creates the account when a password is given
+app.post('/api/projects/:id/members', async (c) => {
+  const project = DB.getProject(Number(c.req.param('id')));
+  if (!project) return c.json({ error: 'Project not found' }, 404);
+  if (!canAdminProject(c.get('user'), project)) return c.json({ error: 'Requires project admin' }, 403);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const { username, password, permissions: input } = body;
+  if (!username || typeof username !== 'string') return c.json({ error: 'Username required' }, 400);
+  if (password !== undefined && typeof password !== 'string') return c.json({ error: 'Password must be a string' }, 400);
+  const { permissions, error } = parseProjectPermissions(project, input);
+  if (error) return c.json({ error }, 400);
+
+  let user = DB.getUser(username);
+  if (!user && !password) return c.json({ error: 'User not found. Set a password to create the account.' }, 404);
+  const created = !user;
+  try {
+    if (!user) user = DB.getUserById(Number(DB.createUser(username, Bun.password.hashSync(password))))!;
+    DB.addProjectMember(project.id, user.id);
+    DB.updatePermissionsIn(user.id, projectScopes(project), permissions!);
+    auditLog.record(c.get('user'), 'project.member_add', `project:${project.name}`, {
+      username,
+      created,
+      permissions: permissions!.map(permissionKey),
+    });
+    return c.json({ success: true });
+  } catch (err: any) {
+    auditLog.record(c.get('user'), 'project.member_add', `project:${project.name}`, { username }, 'failure', err.message);
+    return c.json({ error: err.message }, 400);
+  }
+});
+
+app.put('/api/projects/:id/members/:username', async (c) => {
+  const project = DB.getProject(Number(c.req.param('id')));
+  if (!project) return c.json({ error: 'Project not found' }, 404);
+  if (!canAdminProject(c.get('user'), project)) return c.json({ error: 'Requires project admin' }, 403);
+
+  const username = c.req.param('username');
+  const user = DB.getUser(username);
+  if (!user || ![...project.admins, ...project.members].includes(username)) return c.json({ error: 'Not a member of this project' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const { permissions, error } = parseProjectPermissions(project, body.permissions);
+  if (error) return c.json({ error }, 400);
+
+  const scopes = projectScopes(project);
+  DB.updatePermissionsIn(user.id, scopes, permissions!);
+  auditLog.record(c.get('user'), 'project.member_permissions', `project:${project.name}`, {
+    username,
+    ...permissionChanges(user.permissions.filter(p => scopes.includes(p.scope)), permissions!),
+  });
+  return c.json({ success: true });
+});
+
+// The account stays; only the membership and the grants inside the project go
+app.delete('/api/projects/:id/members/:username', (c) => {
+  const project = DB.getProject(Number(c.req.param('id')));
+  if (!project) return c.json({ error: 'Project not found' }, 404);
+  if (!canAdminProject(c.get('user'), project)) return c.json({ error: 'Requires project admin' }, 403);
+
+  const username = c.req.param('username');
+  const user = DB.getUser(username);
+  if (!user || !project.members.includes(username)) {
+    const error = project.admins.includes(username) ? 'Project admins are changed on the project itself' : 'Not a member of this project';
+    return c.json({ error }, project.admins.includes(username) ? 409 : 404);
+  }
+
+  DB.removeProjectMember(project.id, user.id, projectScopes(project));
+  auditLog.record(c.get('user'), 'project.member_remove', `project:${project.name}`, { username });
+  return c.json({ success: true });
+});
+
+// Audit Log (admin only)
+
+app.get('/api/audit', requireAdmin, (c) => {
+  const q = c.req.query();
+  const limit = Math.min(Math.max(parseInt(q.limit || '50') || 50, 1), 500);
+  const page = Math.max(parseInt(q.page || '1') || 1, 1);
+
+  const { events, total } = DB.queryAuditEvents({
+    actor: q.actor || undefined,
+    action: q.action || undefined,
+    scope: q.scope || undefined,
+    result: (q.result as AuditResult) || undefined,
+    from: q.from ? Number(q.from) : undefined,
+    to: q.to ? Number(q.to) : undefined,
+    limit,
+    offset: (page - 1) * limit,
+  });
+  return c.json({ events, total, page, limit });
+});
+
+// Alerts (admin only)
+
+const channelInput = (body: any): Omit<AlertChannel, 'id' | 'created_at'> => ({
+  name: String(body.name ?? '').trim(),
+  type: body.type,
+  target: String(body.target ?? '').trim(),
+  enabled: body.enabled !== false,
+});
+
+const ruleInput = (body: any): Omit<AlertRule, 'id' | 'created_at'> => {
+  const defaultWindow = body.type === 'restart_count' ? 600 : body.type === 'cpu' || body.type === 'memory' ? 300 : 0;
+  return {
+    name: String(body.name ?? '').trim(),
+    type: body.type,
+    service: String(body.service ?? '*').trim(),
+    events: Array.isArray(body.events) ? body.events.map(String) : [],
+    threshold: body.threshold == null || body.threshold === '' ? null : Number(body.threshold),
+    window_seconds: body.window_seconds == null ? defaultWindow : Number(body.window_seconds),
+    cooldown_seconds: body.cooldown_seconds == null ? 900 : Number(body.cooldown_seconds),
+    channels: Array.isArray(body.channels) ? body.channels.map(Number) : [],
+    enabled: body.enabled !== false,
+  };
+};
+
+app.get('/api/alerts/channels', requireAdmin, (c) => {
+  return c.json(DB.listAlertChannels());
+});
+
+app.post('/api/alerts/channels', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = channelInput(body);
+  const error = validateChannel(input);
+  if (error) return c.json({ error }, 400);
+
+  const channel = DB.saveAlertChannel(input);
+  auditLog.record(c.get('user'), 'alert_channel.create', 'global', { id: channel.id, name: channel.name, type: channel.type });
+  return c.json({ success: true, channel });
+});
+
+app.put('/api/alerts/channels/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getAlertChannel(id);
+  if (!existing) return c.json({ error: 'Channel not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = channelInput(body);
+  const error = validateChannel(input);
+  if (error) return c.json({ error }, 400);
+
+  const channel = DB.saveAlertChannel(input, id);
+  const changes = auditLog.diff(existing, channel);
+  // Webhook URLs carry their own token; the log only says the target changed
+  if (changes.target) changes.target = { from: REDACTED, to: REDACTED };
+  auditLog.record(c.get('user'), 'alert_channel.update', 'global', { id, changes });
+  return c.json({ success: true, channel });
+});
+
+app.delete('/api/alerts/channels/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const usedBy = DB.listAlertRules().filter(r => r.channels.includes(id)).map(r => r.name);
+  if (usedBy.length) return c.json({ error: `Channel is used by rules: ${usedBy.join(', ')}` }, 409);
+  if (!DB.deleteAlertChannel(id)) return c.json({ error: 'Channel not found' }, 404);
+  auditLog.record(c.get('user'), 'alert_channel.delete', 'global', { id });
+  return c.json({ success: true });
+});
+
+app.post('/api/alerts/channels/:id/test', requireAdmin, async (c) => {
+  const channel = DB.getAlertChannel(Number(c.req.param('id')));
+  if (!channel) return c.json({ error: 'Channel not found' }, 404);
+
+  const delivery = await alertMgr.test(channel);
+  auditLog.record(c.get('user'), 'alert_channel.test', 'global', { id: channel.id }, delivery.ok ? 'success' : 'failure', delivery.error);
+  if (!delivery.ok) return c.json({ success: false, error: delivery.error }, 502);
+  return c.json({ success: true, message: `Test alert sent to ${channel.name}` });
+});
+
+app.get('/api/alerts/rules', requireAdmin, (c) => {
+  return c.json(DB.listAlertRules());
+});
+
+app.post('/api/alerts/rules', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = ruleInput(body);
+  const error = validateRule(input);
+  if (error) return c.json({ error }, 400);
+
+  const rule = DB.saveAlertRule(input);
+  auditLog.record(c.get('user'), 'alert_rule.create', 'global', { id: rule.id, name: rule.name, type: rule.type, service: rule.service });
+  return c.json({ success: true, rule });
+});
+
+app.put('/api/alerts/rules/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getAlertRule(id);
+  if (!existing) return c.json({ error: 'Rule not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = ruleInput(body);
+  const error = validateRule(input);
+  if (error) return c.json({ error }, 400);
+
+  const rule = DB.saveAlertRule(input, id);
+  auditLog.record(c.get('user'), 'alert_rule.update', 'global', { id, changes: auditLog.diff(existing, rule) });
+  return c.json({ success: true, rule });
+});
+
+app.delete('/api/alerts/rules/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  if (!DB.deleteAlertRule(id)) return c.json({ error: 'Rule not found' }, 404);
+  auditLog.record(c.get('user'), 'alert_rule.delete', 'global', { id });
+  return c.json({ success: true });
+});
+
+app.get('/api/alerts/history', requireAdmin, (c) => {
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '100') || 100, 1), 500);
+  return c.json(DB.listAlerts(limit));
+});
+
+// Registry credentials (admin). Passwords are write-only: encrypted on save, never returned
+
+const credentialInput = (body: any): Omit<RegistryCredential, 'id' | 'created_at' | 'updated_at'> => ({
+  name: String(body.name ?? '').trim(),
+  host: normalizeHost(String(body.host ?? '')),
+  type: body.type,
+  username: String(body.username ?? '').trim(),
+  namespace: body.namespace ? String(body.namespace).trim().toLowerCase() : null,
+  insecure: body.insecure === true,
+});
+
+// Services whose config.json pins a credential by name
+const servicesUsingCredential = (name: string) =>
+  dockerMgr.configuredServices().filter(s => dockerMgr.readConfig(s)?.registryCredential === name);
+
+// Everyone may list names (to pick one for a service); only admins see the details
+app.get('/api/registries', (c) => {
+  const credentials = DB.listRegistryCredentials();
+  if (c.get('user').is_admin) return c.json(credentials);
+  return c.json(credentials.map(({ id, name, host }) => ({ id, name, host })));
+});
+
+app.post('/api/registries', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = credentialInput(body);
+  const error = validateCredential(input, body.password, false);
+  if (error) return c.json({ error }, 400);
+  if (DB.listRegistryCredentials().some(r => r.name === input.name)) return c.json({ error: `Credential "${input.name}" already exists` }, 409);
+
+  const credential = DB.saveRegistryCredential(input, encrypt(body.password));
+  auditLog.record(c.get('user'), 'registry_credential.create', 'global', { id: credential.id, name: credential.name, host: credential.host });
+  return c.json({ success: true, credential });
+});
+
+app.put('/api/registries/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getRegistryCredential(id);
+  if (!existing) return c.json({ error: 'Credential not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = credentialInput(body);
+  const error = validateCredential(input, body.password, true);
+  if (error) return c.json({ error }, 400);
+  if (input.name !== existing.name) {
+    if (DB.listRegistryCredentials().some(r => r.name === input.name)) return c.json({ error: `Credential "${input.name}" already exists` }, 409);
+    const usedBy = servicesUsingCredential(existing.name);
+    if (usedBy.length) return c.json({ error: `Can't rename, services use this credential: ${usedBy.join(', ')}` }, 409);
+  }
+
+  const credential = DB.saveRegistryCredential(input, body.password ? encrypt(body.password) : null, id);
+  auditLog.record(c.get('user'), 'registry_credential.update', 'global', {
+    id, changes: auditLog.diff(existing, credential), passwordChanged: !!body.password
+  });
+  return c.json({ success: true, credential });
+});
+
+app.delete('/api/registries/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getRegistryCredential(id);
+  if (!existing) return c.json({ error: 'Credential not found' }, 404);
+  const usedBy = servicesUsingCredential(existing.name);
+  if (usedBy.length) return c.json({ error: `Credential is used by services: ${usedBy.join(', ')}` }, 409);
+
+  DB.deleteRegistryCredential(id);
+  auditLog.record(c.get('user'), 'registry_credential.delete', 'global', { id, name: existing.name });
+  return c.json({ success: true });
+});
+
+app.post('/api/registries/:id/test', requireAdmin, async (c) => {
+  const credential = DB.getRegistryCredential(Number(c.req.param('id')));
+  if (!credential) return c.json({ error: 'Credential not found' }, 404);
+
+  try {
+    await dockerMgr.registries.verify(credential);
+    auditLog.record(c.get('user'), 'registry_credential.test', 'global', { id: credential.id });
+    return c.json({ success: true, message: `Logged in to ${credential.host} as ${credential.username}` });
+  } catch (err: any) {
+    auditLog.record(c.get('user'), 'registry_credential.test', 'global', { id: credential.id }, 'failure', err.message);
+    return c.json({ success: false, error: err.message }, 502);
+  }
+});
+
+// Services whose config.json attaches an env group
+const servicesUsingEnvGroup = (name: string) =>
+  dockerMgr.configuredServices().filter(s => dockerMgr.readConfig(s)?.envGroups?.includes(name));
+
+const envGroupInput = (body: any) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : body.name,
+  description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+  content: body.content,
+});
+
+// Everyone may list names (to attach one to a service); only admins see values and usage
+app.get('/api/env-groups', (c) => {
+  const groups = DB.listEnvGroups();
+  if (c.get('user').is_admin) return c.json(groups.map(g => ({ ...g, services: servicesUsingEnvGroup(g.name) })));
+  return c.json(groups.map(({ id, name, description }) => ({ id, name, description })));
+});
+
+app.post('/api/env-groups', requireAdmin, async (c) => {
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = envGroupInput(body);
+  const error = validateEnvGroup(input.name, input.content);
+  if (error) return c.json({ error }, 400);
+  if (DB.getEnvGroupByName(input.name)) return c.json({ error: `Env group "${input.name}" already exists` }, 409);
+
+  const group = DB.saveEnvGroup(input, c.get('user').username);
+  auditLog.record(c.get('user'), 'env_group.create', 'global', { id: group.id, name: group.name, keys: Object.keys(parseEnv(group.content)) });
+  return c.json({ success: true, group: { ...group, services: [] } });
+});
+
+// Saving doesn't restart anything; `affected` lists the services to restart for it to take effect
+app.put('/api/env-groups/:id', requireAdmin, async (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getEnvGroup(id);
+  if (!existing) return c.json({ error: 'Env group not found' }, 404);
+
+  const body = await jsonObject(c);
+  if (!body) return c.json({ error: 'JSON object body required' }, 400);
+  const input = envGroupInput(body);
+  const error = validateEnvGroup(input.name, input.content);
+  if (error) return c.json({ error }, 400);
+  const affected = servicesUsingEnvGroup(existing.name);
+  if (input.name !== existing.name) {
+    if (DB.getEnvGroupByName(input.name)) return c.json({ error: `Env group "${input.name}" already exists` }, 409);
+    if (affected.length) return c.json({ error: `Can't rename, services use this group: ${affected.join(', ')}` }, 409);
+  }
+
+  const group = DB.saveEnvGroup(input, c.get('user').username, id);
+  auditLog.record(c.get('user'), 'env_group.update', 'global', {
+    id, name: group.name, description: input.description !== existing.description ? input.description : undefined,
+    changes: diffEnv(existing.content, group.content),
+  });
+  return c.json({ success: true, group: { ...group, services: affected }, affected });
+});
+
+app.delete('/api/env-groups/:id', requireAdmin, (c) => {
+  const id = Number(c.req.param('id'));
+  const existing = DB.getEnvGroup(id);
+  if (!existing) return c.json({ error: 'Env group not found' }, 404);
+  const usedBy = servicesUsingEnvGroup(existing.name);
+  if (usedBy.length) return c.json({ error: `Env group is used by services: ${usedBy.join(', ')}` }, 409);
+
+  DB.deleteEnvGroup(id);
+  auditLog.record(c.get('user'), 'env_group.delete', 'global', { id, name: existing.name });
+  return c.json({ success: true });
+});
+
+// Recreate services using the group so they pick up its current values, one at a time.
+// `services` narrows it down to some of them; default is all
+app.post('/api/env-groups/:id/restart', requireAdmin, async (c) => {
+  const group = DB.getEnvGroup(Number(c.req.param('id')));
+  if (!group) return c.json({ error: 'Env group not found' }, 404);
+
+  const body = await c.req.json().catch(() => ({})) as { services?: string[] };
+  const using = servicesUsingEnvGroup(group.name);
+  const services = Array.isArray(body.services) ? body.services : using;
+
+  const results: { service: string; status: 'restarted' | 'skipped' | 'failed'; error?: string }[] = [];
+  for (const service of services) {
+    if (!using.includes(service)) {
+      results.push({ service, status: 'skipped', error: 'Does not use this group' });
+      continue;
+    }
+    try {
+      const restarted = await recreateWithEnv(service, c.get('user'), 'env_group');
+      auditLog.record(c.get('user'), 'env_group.restart', `service:${service}`, { group: group.name, restarted });
+      results.push(restarted ? { service, status: 'restarted' } : { service, status: 'skipped', error: 'Missing config/image' });
+    } catch (err: any) {
+      auditLog.record(c.get('user'), 'env_group.restart', `service:${service}`, { group: group.name }, 'failure', err.message);
+      alertMgr.deployFailed(service, `env group ${group.name} restart`, err.message);
+      results.push({ service, status: 'failed', error: err.message });
+    }
+  }
+  return c.json({ success: results.every(r => r.status === 'restarted'), results });
+});
 
 app.post('/api/change-password', async (c) => {
   const user = c.get('user');
@@ -120,10 +1195,123 @@ app.post('/api/change-password', async (c) => {
 
   const hash = Bun.password.hashSync(password);
   DB.updatePassword(user.username, hash);
+  auditLog.record(user, 'user.change_password', `user:${user.username}`);
   return c.json({ success: true });
 });
 
 
+// Compose up, wait for health, then nginx vhost. Returns the nginx status for the response.
+const deployService = async (service: string, image: string, config: DockerServiceConfig, recreate: boolean): Promise<string> => {
+  // 1. Docker Compose
+  config.image = image; // Save image in config for future restarts
+  const composeContent = dockerMgr.generateComposeContent(service, image, config);
+  await dockerMgr.startService(service, composeContent, recreate);
+  await dockerMgr.waitForHealthy(service, config);
+
+  // 2. Nginx Config (if domain provided)
+  let nginxStatus = 'skipped';
+  if (config.domain && config.hostPort) {
+    // Permission check for nginx already managed by 'manage' or we might want stricter?
+    // Staying with 'manage' for now as per user req.
+    nginxMgr.createConfig(config.domain, config.hostPort, config.clientMaxBodySize);
+    const reloadRes = await nginxMgr.reload();
+    nginxStatus = reloadRes.success ? 'updated' : `failed: ${reloadRes.output}`;
+    if (!reloadRes.success) alertMgr.deployFailed(service, 'nginx reload', reloadRes.output);
+  }
+  return nginxStatus;
+};
+
+// Pull and redeploy a running service on a new image, honouring its update strategy
+const redeploy = async (service: string, image: string, config: DockerServiceConfig): Promise<string> => {
+  await dockerMgr.pullImage(image, undefined, config.registryCredential);
+  const next = { ...config, image };
+  if (config.updateStrategy === 'blue-green' && config.domain && config.image) {
+    return blueGreen.deploy(service, image, next, { image: config.image, config });
+  }
+  return deployService(service, image, next, true);
+};
+
+const webhookActor = systemActor('registry-webhook');
+
+const autoUpdateActor = systemActor('auto-update');
+
+const updatePoller = new UpdatePoller(dockerMgr, {
+  deploy: async (service, image, config, reason) => {
+    try {
+      const nginx = await redeploy(service, image, config);
+      const rev = await revisionMgr.record(service, image, { ...config, image }, autoUpdateActor, 'auto-update');
+      auditLog.record(autoUpdateActor, 'service.update', `service:${service}`, { image, trigger: 'auto-update', reason, revision: rev.revision, nginx });
+    } catch (err: any) {
+      auditLog.record(autoUpdateActor, 'service.update', `service:${service}`, { image, trigger: 'auto-update', reason }, 'failure', err.message);
+      alertMgr.deployFailed(service, `auto-update to ${image}`, err.message);
+      throw err;
+    }
+  },
+  notify: (service, image, reason) => alertMgr.updateAvailable(service, image, reason),
+});
+
+type PushDeployResult = {
+  service: string;
+  status: 'deployed' | 'skipped' | 'failed';
+  reason?: string;
+  revision?: number;
+  nginx?: string;
+};
+
+// Redeploy every opted-in service that tracks the pushed repository and tag
+const pushDeploy = async (push: RegistryPush): Promise<PushDeployResult[]> => {
+  const results: PushDeployResult[] = [];
+  for (const service of dockerMgr.configuredServices()) {
+    const config = dockerMgr.readConfig(service);
+    if (!config?.image) continue;
+    const current = splitImage(config.image);
+    if (current.repository !== push.repository) continue;
+
+    if (!config.autoDeploy) {
+      results.push({ service, status: 'skipped', reason: 'Auto-deploy is disabled for this service' });
+      continue;
+    }
+    if (current.tag !== push.tag) {
+      results.push({ service, status: 'skipped', reason: `Service tracks tag "${current.tag}"` });
+      continue;
+    }
+    if (push.digest && DB.listRevisions(service, 1)[0]?.digest === push.digest) {
+      results.push({ service, status: 'skipped', reason: 'Already running this digest' });
+      continue;
+    }
+
+    const image = config.image.split('@')[0];
+    try {
+      const nginx = await redeploy(service, image, config);
+      const rev = await revisionMgr.record(service, image, { ...config, image }, webhookActor, 'webhook');
+      auditLog.record(webhookActor, 'service.update', `service:${service}`, { image, digest: push.digest, trigger: 'webhook', revision: rev.revision, nginx });
+      results.push({ service, status: 'deployed', revision: rev.revision, nginx });
+    } catch (err: any) {
+      auditLog.record(webhookActor, 'service.update', `service:${service}`, { image, digest: push.digest, trigger: 'webhook' }, 'failure', err.message);
+      alertMgr.deployFailed(service, 'push-to-deploy', err.message);
+      results.push({ service, status: 'failed', reason: err.message });
+    }
+  }
+  return results;
+};
+
+// Checks shared by deploys and staged config changes
+const configError = (config: DockerServiceConfig): string | null => {
+  const volumeError = validateVolumes(config.volumes);
+  if (volumeError) return volumeError;
+  const healthcheckError = validateHealthcheck(config.healthcheck);
+  if (healthcheckError) return healthcheckError;
+  if (config.registryCredential && !DB.listRegistryCredentials().some(r => r.name === config.registryCredential)) {
+    return `Registry credential "${config.registryCredential}" not found`;
+  }
+  const unknownGroup = config.envGroups?.find(name => !DB.getEnvGroupByName(name));
+  if (unknownGroup) return `Env group "${unknownGroup}" not found`;
+  return null;
+};
+
+// Recent container logs for failed health-gated deploys
+const healthLogs = (err: unknown) => err instanceof HealthCheckError ? err.logs : undefined;
+
 // 1. Start/Update Service (manage)
 app.post('/services/start', 
   async (c, next) => {
@@ -147,6 +1335,7 @@ app.post('/services/start',
     }
   },
   async (c) => {
+  let previousConfig: DockerServiceConfig | null = null; // Decides create vs update, for failures too
   try {
     const body = c.get('body_cache') as ServicePayload; // retrieved from cache
     const { service, image, config, recreate } = body;
@@ -154,30 +1343,45 @@ app.post('/services/start',
     if (!service || !image || !config.hostPort || !config.containerPort) {
       return c.json({ error: 'Missing required fields (service, image, hostPort, containerPort)' }, 400);
     }
+    const error = configError(config);
+    if (error) return c.json({ error }, 400);
 
-    // 1. Docker Compose
-    config.image = image; // Save image in config for future restarts
-    const composeContent = dockerMgr.generateComposeContent(service, image, config);
-    await dockerMgr.startService(service, composeContent, !!recreate);
+    previousConfig = dockerMgr.readConfig(service);
+
+    // Blue/green only makes sense when replacing an existing deployment
+    const strategy = body.strategy ?? config.updateStrategy ?? 'recreate';
+    const useBlueGreen = strategy === 'blue-green' && !!recreate && !!previousConfig?.image;
+    if (useBlueGreen && !config.domain) {
+      return c.json({ error: 'Blue/green updates require a domain (traffic is switched through nginx)' }, 400);
+    }
 
-    // 2. Nginx Config (if domain provided)
-    let nginxStatus = 'skipped';
-    if (config.domain) {
-      // Permission check for nginx already managed by 'manage' or we might want stricter?
-      // Staying with 'manage' for now as per user req.
-      nginxMgr.createConfig(config.domain, config.hostPort, config.clientMaxBodySize);
-      const reloadRes = await nginxMgr.reload();
-      nginxStatus = reloadRes.success ? 'updated' : `failed: ${reloadRes.output}`;
+    let nginxStatus: string;
+    if (useBlueGreen) {
+      config.image = image;
+      nginxStatus = await blueGreen.deploy(service, image, config, { image: previousConfig!.image!, config: previousConfig! });
+    } else {
+      nginxStatus = await deployService(service, image, config, !!recreate);
     }
+    const rev = await revisionMgr.record(service, image, config, c.get('user'), 'deploy');
+    DB.clearStaged(service, 'config');
+
+    auditLog.record(c.get('user'), previousConfig ? 'service.update' : 'service.create', `service:${service}`, {
+      image, recreate: !!recreate, strategy: useBlueGreen ? 'blue-green' : 'recreate', revision: rev.revision,
+      changes: auditLog.diff(previousConfig, config), nginx: nginxStatus
+    });
 
     return c.json({ 
       success: true, 
       message: `Service ${service} started/updated`,
-      nginx: nginxStatus
+      nginx: nginxStatus,
+      revision: rev.revision
     });
 
   } catch (err: any) {
-    return c.json({ success: false, error: err.message }, 500);
+    const body = c.get('body_cache');
+    auditLog.record(c.get('user'), previousConfig ? 'service.update' : 'service.create', `service:${body?.service}`, { image: body?.image }, 'failure', err.message);
+    if (body?.service) alertMgr.deployFailed(body.service, 'deploy', err.message);
+    return c.json({ success: false, error: err.message, logs: healthLogs(err) }, 500);
   }
 });
 
@@ -218,28 +1422,25 @@ app.get('/services/:id/logs', async (c) => {
 // 3. Stream Pull (pull_new_image)
 app.get('/images/pull', requirePerm('global', 'pull_new_image'), async (c) => {
   const image = c.req.query('image');
+  const credential = c.req.query('credential') || undefined; // Registry credential name; default: by image host
   if (!image) return c.text('Missing image param', 400);
 
   return stream(c, async (stream) => {
     try {
-      const dockerStream = await dockerMgr.instance.pull(image, { 
-        authconfig: { username: CONFIG.DOCKER_USERNAME, password: CONFIG.DOCKER_PASSWORD, serveraddress: CONFIG.DOCKER_SERVER_ADDRESS } 
-      });
-      
-      await new Promise((resolve, reject) => {
-        dockerMgr.instance.modem.followProgress(dockerStream, 
-          (err, res) => err ? reject(err) : resolve(res),
-          (event) => stream.write(new TextEncoder().encode(JSON.stringify(event) + '\n'))
-        );
-      });
+      await dockerMgr.pullImage(image,
+        (event) => stream.write(new TextEncoder().encode(JSON.stringify(event) + '\n')),
+        credential
+      );
       stream.write(new TextEncoder().encode('\nDone.'));
+      auditLog.record(c.get('user'), 'image.pull', 'global', { image, credential });
     } catch (e: any) {
+      auditLog.record(c.get('user'), 'image.pull', 'global', { image, credential }, 'failure', e.message);
       stream.write(new TextEncoder().encode(`Error: ${e.message}`));
     }
   });
 });
 
-// 4. GET .ENV (view_env)
+// 4. GET .ENV (view_env). Plaintext values of secret-looking keys are masked without reveal_secret
 app.get('/services/:name/env', async (c) => {
     const name = c.req.param('name');
     const user = c.get('user');
@@ -247,9 +1448,50 @@ app.get('/services/:name/env', async (c) => {
         return c.text('Forbidden', 403);
     }
     const content = dockerMgr.readEnv(name);
-    return c.text(content);
+    return c.text(DB.checkPermission(user, `service:${name}`, 'reveal_secret') ? content : maskEnv(content));
 });
 
+// Per-key errors of env content (plus the service's env groups) against its schema, or null if it fits (or there is no schema)
+const envSchemaErrors = (name: string, content: string): Record<string, string> | null => {
+    const config = dockerMgr.readConfig(name);
+    const errors = validateEnv(withEnvGroups(content, config?.envGroups), config?.envSchema);
+    return Object.keys(errors).length ? errors : null;
+};
+
+// Recreate the container so it picks up a changed env. false if there's no config/image to recreate from
+const recreateWithEnv = async (name: string, user: User, source: 'env' | 'env_group'): Promise<boolean> => {
+    const savedConfig = dockerMgr.readConfig(name);
+
+    // Try to recover image from saved config or running container
+    let image = savedConfig?.image;
+    if (!image) {
+         const containers = await dockerMgr.instance.listContainers({ all: true, filters: { name: [name] } });
+         const container = containers.find(c => c.Names.some(n => n.endsWith('/' + name)));
+         if (container) image = container.Image;
+    }
+
+    if (image && savedConfig) {
+         // Ensure image is in config now
+         savedConfig.image = image;
+         const composeContent = dockerMgr.generateComposeContent(name, image, savedConfig);
+         await dockerMgr.startService(name, composeContent, true); // recreate=true
+         await dockerMgr.waitForHealthy(name, savedConfig);
+         await revisionMgr.record(name, image, savedConfig, user, source);
+         return true;
+    }
+    return false;
+};
+
+// Save a new .env as the next version, then recreate the container so it picks it up
+const applyEnv = async (name: string, content: string, user: User, source: 'save' | 'revert', revertedFrom: number | null = null) => {
+    const previousEnv = dockerMgr.readEnv(name);
+    dockerMgr.saveEnv(name, content);
+    const version = envVersions.record(name, previousEnv, content, user, source, revertedFrom);
+    auditLog.record(user, source === 'revert' ? 'env.revert' : 'env.update', `service:${name}`,
+        { version: version.version, reverted_from: revertedFrom ?? undefined, changes: diffEnv(previousEnv, content) });
+    return { version: version.version, restarted: await recreateWithEnv(name, user, 'env') };
+};
+
 // 5. SAVE .ENV & RESTART (edit_env)
 app.post('/services/:name/env', async (c) => {
     const name = c.req.param('name');
@@ -262,63 +1504,63 @@ app.post('/services/:name/env', async (c) => {
         const body = await c.req.json();
         if (typeof body.content !== 'string') return c.json({ error: 'Content string required' }, 400);
 
-        // 1. Save new env
-        dockerMgr.saveEnv(name, body.content);
-
-        // 2. Restart Service
-        const savedConfig = dockerMgr.readConfig(name);
-        
-        // Try to recover image from saved config or running container
-        let image = savedConfig?.image;
-        if (!image) {
-             const containers = await dockerMgr.instance.listContainers({ all: true, filters: { name: [name] } });
-             const container = containers.find(c => c.Names.some(n => n.endsWith('/' + name)));
-             if (container) image = container.Image;
-        }
-
-        if (image && savedConfig) {
-             // Ensure image is in config now
-             savedConfig.image = image;
-             const composeContent = dockerMgr.generateComposeContent(name, image, savedConfig);
-             await dockerMgr.startService(name, composeContent, true); // recreate=true
-             return c.json({ success: true, message: 'Environment variables saved and service restarted' });
-        }
-        
-        return c.json({ success: true, message: 'Environment variables saved. Restart skipped (missing config/image).' });
+        // Masked values coming back from the editor keep what was stored
+        const content = unmaskEnv(body.content, dockerMgr.readEnv(name));
+        const missing = missingSecrets(name, content);
+        if (missing.length) return c.json({ error: `Unknown secret(s): ${missing.join(', ')}` }, 400);
+        const errors = envSchemaErrors(name, content);
+        if (errors) return c.json({ error: 'Env does not match the schema', errors }, 400);
 
+        const { version, restarted } = await applyEnv(name, content, user, 'save');
+        DB.clearStaged(name, 'env'); // The editor starts from staged content, so this save supersedes it
+        return c.json({
+            success: true,
+            version,
+            message: restarted
+                ? 'Environment variables saved and service restarted'
+                : 'Environment variables saved. Restart skipped (missing config/image).',
+        });
     } catch (err: any) {
-        return c.json({ success: false, error: err.message }, 500);
+        auditLog.record(user, 'env.update', `service:${name}`, null, 'failure', err.message);
+        alertMgr.deployFailed(name, 'env update', err.message);
+        return c.json({ success: false, error: err.message, logs: healthLogs(err) }, 500);
     }
 });
 
 // 6. STOP SERVICE (manage)
 app.post('/services/stop', async (c) => {
+    let service: string | undefined;
     try {
-        const { service } = await c.req.json() as { service: string };
+        ({ service } = await c.req.json() as { service: string });
         if (!service) return c.json({ error: 'Service name required' }, 400);
         
         const user = c.get('user');
         if (!DB.checkPermission(user, `service:${service}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
 
         await dockerMgr.stopService(service);
+        auditLog.record(user, 'service.stop', `service:${service}`);
         return c.json({ success: true, message: `Service ${service} stopped` });
     } catch (err: any) {
+        if (service) auditLog.record(c.get('user'), 'service.stop', `service:${service}`, null, 'failure', err.message);
         return c.json({ success: false, error: err.message }, 500);
     }
 });
 
 // 7. RESTART SERVICE (manage)
 app.post('/services/restart', async (c) => {
+    let service: string | undefined;
     try {
-        const { service } = await c.req.json() as { service: string };
+        ({ service } = await c.req.json() as { service: string });
         if (!service) return c.json({ error: 'Service name required' }, 400);
 
         const user = c.get('user');
         if (!DB.checkPermission(user, `service:${service}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
 
         await dockerMgr.restartService(service);
+        auditLog.record(user, 'service.restart', `service:${service}`);
         return c.json({ success: true, message: `Service ${service} restarted` });
     } catch (err: any) {
+        if (service) auditLog.record(c.get('user'), 'service.restart', `service:${service}`, null, 'failure', err.message);
         return c.json({ success: false, error: err.message }, 500);
     }
 });
@@ -331,23 +1573,226 @@ app.delete('/services/:name', async (c) => {
     // User request said: "service:{name}:manage". Deleting a service is management.
     if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
 
+    // Data is kept unless explicitly purged (?purge=true)
+    const purge = c.req.query('purge') === 'true';
+    try {
+        const volumes = dockerMgr.namedVolumes(name);
+        await dockerMgr.deleteService(name, purge);
+        DB.deleteStagedChanges(name);
+        if (purge) {
+            DB.deleteServiceSecrets(name);
+            DB.deleteEnvVersions(name);
+        }
+        auditLog.record(user, 'service.delete', `service:${name}`, { purge, volumes });
+        const kept = !purge && volumes.length ? `. Kept volumes: ${volumes.join(', ')}` : '';
+        return c.json({ success: true, message: `Service ${name} deleted${kept}`, purged: purge ? volumes : [], keptVolumes: purge ? [] : volumes });
+    } catch (err: any) {
+        auditLog.record(user, 'service.delete', `service:${name}`, { purge }, 'failure', err.message);
+        return c.json({ success: false, error: err.message }, 500);
+    }
+});
+
+// 9. DEPLOYMENT HISTORY (view_configuration)
+app.get('/services/:name/revisions', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    return c.json({ revisions: DB.listRevisions(name), currentEnvHash: revisionMgr.envHash(name) });
+});
+
+// 10. ROLLBACK TO REVISION (manage)
+app.post('/services/:name/rollback/:rev', async (c) => {
+    const name = c.req.param('name');
+    const revNumber = Number(c.req.param('rev'));
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
+
+    const rev = DB.getRevision(name, revNumber);
+    if (!rev) return c.json({ error: `Revision ${revNumber} not found` }, 404);
+
+    try {
+        const image = revisionMgr.deployImage(rev);
+        await dockerMgr.pullImage(image, undefined, rev.config.registryCredential);
+        const nginxStatus = await deployService(name, image, { ...rev.config }, true);
+        const newRev = await revisionMgr.record(name, image, rev.config, user, 'rollback');
+
+        // .env isn't part of the snapshot; warn if it moved on since
+        const envChanged = newRev.env_hash !== rev.env_hash;
+        auditLog.record(user, 'service.rollback', `service:${name}`, { to: revNumber, image, revision: newRev.revision, envChanged });
+        return c.json({
+            success: true,
+            message: `Service ${name} rolled back to revision ${revNumber}`,
+            revision: newRev.revision,
+            envChanged,
+            nginx: nginxStatus
+        });
+    } catch (err: any) {
+        auditLog.record(user, 'service.rollback', `service:${name}`, { to: revNumber }, 'failure', err.message);
+        alertMgr.deployFailed(name, `rollback to revision ${revNumber}`, err.message);
+        return c.json({ success: false, error: err.message, logs: healthLogs(err) }, 500);
+    }
+});
+
+// 11. LIST BACKUPS (view_configuration)
+app.get('/services/:name/backups', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const policy = dockerMgr.readConfig(name)?.backup ?? {};
+    return c.json({
+        backups: DB.listBackups(name),
+        policy: { schedule: policy.schedule ?? null, retention: policy.retention ?? CONFIG.BACKUP.DEFAULT_RETENTION }
+    });
+});
+
+// 12. BACKUP NOW (manage)
+app.post('/services/:name/backups', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
+
     try {
-        await dockerMgr.deleteService(name);
-        return c.json({ success: true, message: `Service ${name} deleted` });
+        const backup = await backupMgr.create(name, user.username, 'manual');
+        auditLog.record(user, 'backup.create', `service:${name}`, { id: backup.id, volumes: backup.volumes, size: backup.size });
+        return c.json({ success: true, message: `Backup of ${name} created`, backup });
     } catch (err: any) {
+        auditLog.record(user, 'backup.create', `service:${name}`, null, 'failure', err.message);
         return c.json({ success: false, error: err.message }, 500);
     }
 });
 
-// 9. List Services (Enrich with permissions)
+// 13. BACKUP SCHEDULE & RETENTION (edit_configuration). Saved in config.json, no redeploy needed
+app.put('/services/:name/backups/policy', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const config = dockerMgr.readConfig(name);
+    if (!config) return c.json({ error: `Service ${name} has no saved configuration` }, 404);
+
+    const { schedule, retention } = await c.req.json() as { schedule?: string | null; retention?: number | null };
+    if (schedule && !parseCron(schedule)) return c.json({ error: `Invalid schedule "${schedule}" (expected 5-field cron or @hourly/@daily/@weekly/@monthly)` }, 400);
+    if (retention != null && (!Number.isInteger(retention) || retention < 1)) return c.json({ error: 'Retention must be a positive integer' }, 400);
+
+    const policy: BackupPolicy = { schedule: schedule || undefined, retention: retention ?? undefined };
+    dockerMgr.saveConfig(name, { ...config, backup: policy });
+    auditLog.record(user, 'backup.policy', `service:${name}`, { changes: auditLog.diff(config.backup, policy) });
+    backupMgr.prune(name, policy.retention ?? CONFIG.BACKUP.DEFAULT_RETENTION);
+    return c.json({ success: true, message: 'Backup policy saved' });
+});
+
+// 14. RESTORE BACKUP (manage): stop, restore config + volumes, redeploy
+app.post('/services/:name/backups/:id/restore', async (c) => {
+    const name = c.req.param('name');
+    const id = Number(c.req.param('id'));
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
+
+    const backup = DB.getBackup(name, id);
+    if (!backup) return c.json({ error: `Backup ${id} not found` }, 404);
+
+    try {
+        const config = await backupMgr.restore(backup);
+        if (!config.image) throw new Error('Restored configuration has no image; redeploy the service manually');
+        const nginxStatus = await deployService(name, config.image, config, true);
+        const rev = await revisionMgr.record(name, config.image, config, user, 'restore');
+
+        auditLog.record(user, 'backup.restore', `service:${name}`, { id, file: backup.file, volumes: backup.volumes, revision: rev.revision });
+        return c.json({ success: true, message: `Service ${name} restored from backup ${id}`, revision: rev.revision, nginx: nginxStatus });
+    } catch (err: any) {
+        auditLog.record(user, 'backup.restore', `service:${name}`, { id }, 'failure', err.message);
+        alertMgr.deployFailed(name, 'backup restore', err.message);
+        return c.json({ success: false, error: err.message, logs: healthLogs(err) }, 500);
+    }
+});
+
+// 15. DELETE BACKUP (manage)
+app.delete('/services/:name/backups/:id', (c) => {
+    const name = c.req.param('name');
+    const id = Number(c.req.param('id'));
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
+
+    const backup = DB.getBackup(name, id);
+    if (!backup) return c.json({ error: `Backup ${id} not found` }, 404);
+
+    backupMgr.remove(backup);
+    auditLog.record(user, 'backup.delete', `service:${name}`, { id, file: backup.file });
+    return c.json({ success: true, message: `Backup ${id} deleted` });
+});
+
+// 16. LIVE RESOURCE STATS (view_status). NDJSON stream, or a single sample with ?stream=false
+app.get('/services/:name/stats', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_status')) return c.json({ error: 'Forbidden' }, 403);
+
+    const container = dockerMgr.instance.getContainer(name);
+    const cpuLimit = parseFloat(dockerMgr.readConfig(name)?.cpuLimit || '') || null;
+
+    try {
+        if (c.req.query('stream') === 'false') {
+            return c.json(toResourceStats(await container.stats({ stream: false }), cpuLimit));
+        }
+
+        const statsStream = await container.stats({ stream: true });
+        return stream(c, async (stream) => {
+            // @ts-ignore - dockerode hands back the raw http response
+            stream.onAbort(() => statsStream.destroy?.());
+            const encoder = new TextEncoder();
+            let buffer = '';
+            // Docker sends one JSON document per line, about once a second
+            for await (const chunk of statsStream) {
+                buffer += chunk.toString();
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) >= 0) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (line) await stream.write(encoder.encode(JSON.stringify(toResourceStats(JSON.parse(line), cpuLimit)) + '\n'));
+                }
+            }
+        });
+    } catch (err: any) {
+        return c.json({ error: `Stats unavailable: ${err.message}` }, 404);
+    }
+});
+
+// 17. HISTORICAL METRICS (view_status). from/to: epoch ms or ISO date, step: raw | 1m | 1h | auto
+app.get('/services/:name/metrics', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_status')) return c.json({ error: 'Forbidden' }, 403);
+
+    const time = (v: string | undefined, fallback: number) => !v ? fallback : /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+    const now = Date.now();
+    const to = time(c.req.query('to'), now);
+    const from = time(c.req.query('from'), to - 60 * 60 * 1000);
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) return c.json({ error: 'Invalid from/to range' }, 400);
+
+    const step = c.req.query('step') || 'auto';
+    if (step !== 'auto' && !RESOLUTIONS.includes(step as MetricResolution)) {
+        return c.json({ error: `Invalid step "${step}" (expected ${RESOLUTIONS.join(', ')} or auto)` }, 400);
+    }
+    const resolution = step === 'auto' ? metricsMgr.resolutionFor(from, to, now) : step as MetricResolution;
+
+    return c.json({ service: name, from, to, step: resolution, points: metricsMgr.query(name, from, to, resolution) });
+});
+
+// 18. List Services (Enrich with permissions)
 app.get('/services', async (c) => {
   const user = c.get('user');
+  // ?project={name} narrows the list to one project's services
+  const project = c.req.query('project');
+  const projects = DB.serviceProjects();
   try {
     const containers = await dockerMgr.instance.listContainers({ all: true });
     
     // Enrich with saved config & permissions
     const enriched = await Promise.all(containers.map(async (ct) => {
         const name = ct.Names[0].replace(/^\//, '');
+        if (project && projects.get(name) !== project) return null;
         
         // Filter: Can user see this?
         // "service:{name}:view_status"
@@ -358,16 +1803,17 @@ app.get('/services', async (c) => {
         const canViewConfig = DB.checkPermission(user, `service:${name}`, 'view_configuration');
         
         // Fetch latest version info from registry
-        const latestInfo = await dockerMgr.getLatestImageDigest(ct.Image);
+        const latestInfo = await dockerMgr.getLatestImageDigest(ct.Image, savedConfig?.registryCredential);
         
         // Get the REGISTRY digest from the locally pulled image (NOT ImageID)
-        // This now matches the format returned by GitHub API
+        // This matches the digests listed by the registry
         const currentDigest = await dockerMgr.getImageRepoDigest(ct.Image);
 
         return {
             id: ct.Id.substring(0, 12),
             names: ct.Names,
             name: name,
+            project: projects.get(name) ?? null,
             image: ct.Image,
             state: ct.State,
             status: ct.Status,
@@ -382,6 +1828,7 @@ app.get('/services', async (c) => {
                 edit_config: DB.checkPermission(user, `service:${name}`, 'edit_configuration'),
                 view_env: DB.checkPermission(user, `service:${name}`, 'view_env'),
                 edit_env: DB.checkPermission(user, `service:${name}`, 'edit_env'),
+                reveal_secret: DB.checkPermission(user, `service:${name}`, 'reveal_secret'),
                 view_logs: DB.checkPermission(user, `service:${name}`, 'view_logs'),
             }
         };
@@ -394,10 +1841,12 @@ app.get('/services', async (c) => {
     
     const availableServices = registryImages
         .filter(img => !runningNames.has(img.name)) // Only show if not already running
+        .filter(img => !project || projects.get(img.name) === project)
         .map(img => ({
             id: `registry-${img.name}`,
             names: [`/${img.name}`],
             name: img.name,
+            project: projects.get(img.name) ?? null,
             image: img.image,
             state: 'available', // New state
             status: 'Available to Install',
@@ -411,6 +1860,7 @@ app.get('/services', async (c) => {
                 edit_config: true,
                 view_env: true,
                 edit_env: true,
+                reveal_secret: false,
                 view_logs: false
             }
         }));
@@ -428,6 +1878,479 @@ app.get('/services', async (c) => {
   }
 });
 
+// 19. LIVE CONTAINER EVENTS (SSE). Each user only receives services they can view_status
+app.get('/events', (c) => {
+    const user = c.get('user');
+    return streamSSE(c, async (sse) => {
+        const unsubscribe = dockerMgr.onContainerEvent(event => {
+            if (!DB.checkPermission(user, `service:${event.service}`, 'view_status')) return;
+            sse.writeSSE({ event: 'container', data: JSON.stringify(event) }).catch(() => {});
+        });
+        sse.onAbort(unsubscribe);
+
+        // Keep idle connections (and proxies) from timing out between events
+        while (!sse.aborted) {
+            await sse.write(': ping\n\n');
+            await sse.sleep(5000);
+        }
+    });
+});
+
+// 20. RECENT CONTAINER EVENTS (view_status)
+app.get('/services/:name/events', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_status')) return c.json({ error: 'Forbidden' }, 403);
+
+    return c.json(dockerMgr.recentEvents(name));
+});
+
+// 21. UPDATE POLICY & LAST CHECK (view_configuration)
+app.get('/services/:name/update-policy', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const config = dockerMgr.readConfig(name);
+    if (!config) return c.json({ error: `Service ${name} has no saved configuration` }, 404);
+    return c.json({
+        policy: config.updatePolicy ?? { mode: 'off', match: 'exact' },
+        lastCheck: DB.getUpdateCheck(name)
+    });
+});
+
+// 22. SAVE UPDATE POLICY (edit_configuration). Saved in config.json, no redeploy needed
+app.put('/services/:name/update-policy', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const config = dockerMgr.readConfig(name);
+    if (!config) return c.json({ error: `Service ${name} has no saved configuration` }, 404);
+
+    const body = await c.req.json().catch(() => ({})) as Partial<UpdatePolicy>;
+    if (body.pattern !== undefined && body.pattern !== null && typeof body.pattern !== 'string') {
+        return c.json({ error: 'pattern must be a string' }, 400);
+    }
+    const policy: UpdatePolicy = {
+        mode: body.mode!,
+        match: body.match!,
+        pattern: body.pattern?.trim() || undefined,
+        window: body.window ?? undefined,
+    };
+    const error = validateUpdatePolicy(policy);
+    if (error) return c.json({ error }, 400);
+
+    dockerMgr.saveConfig(name, { ...config, updatePolicy: policy });
+    auditLog.record(user, 'update.policy', `service:${name}`, { changes: auditLog.diff(config.updatePolicy, policy) });
+    return c.json({ success: true, message: 'Update policy saved' });
+});
+
+// 23. RUN UPDATE POLICY NOW (manage). Notifies or deploys exactly as the background poller would
+app.post('/services/:name/update-check', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'manage')) return c.json({ error: 'Forbidden' }, 403);
+
+    const check = await updatePoller.check(name);
+    if (!check) return c.json({ error: 'Service has no active update policy' }, 400);
+    auditLog.record(user, 'update.check', `service:${name}`, { candidate: check.candidate_tag, action: check.action, reason: check.reason });
+    return c.json({ success: check.action !== 'failed', check });
+});
+
+// 24. LIST SECRETS (view_env). Names only, plus references in the env file without a value
+app.get('/services/:name/secrets', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const env = dockerMgr.readEnv(name);
+    const referenced = new Set(secretRefs(env));
+    const secrets = DB.listSecrets(name).map(s => ({ ...s, referenced: referenced.has(s.name) }));
+    return c.json({ secrets, missing: missingSecrets(name, env) });
+});
+
+// 25. SET SECRET (edit_env). Write-only; takes effect on the next deploy or env save
+app.put('/services/:name/secrets/:secret', async (c) => {
+    const name = c.req.param('name');
+    const secret = c.req.param('secret');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const body = await c.req.json().catch(() => ({})) as { value?: unknown };
+    const error = validateSecretName(secret) || validateSecretValue(body.value);
+    if (error) return c.json({ error }, 400);
+
+    const existed = DB.getSecretValue(name, secret) !== null;
+    const saved = DB.saveSecret(name, secret, encrypt(body.value as string), user.username);
+    auditLog.record(user, existed ? 'secret.update' : 'secret.create', `service:${name}`, { secret });
+    return c.json({ success: true, secret: saved });
+});
+
+// 26. DELETE SECRET (edit_env). Refused while the env file still references it
+app.delete('/services/:name/secrets/:secret', (c) => {
+    const name = c.req.param('name');
+    const secret = c.req.param('secret');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    if (secretRefs(dockerMgr.readEnv(name)).includes(secret)) {
+        return c.json({ error: `Secret is referenced by the env file as \${secret:${secret}}` }, 409);
+    }
+    if (!DB.deleteSecret(name, secret)) return c.json({ error: 'Secret not found' }, 404);
+    auditLog.record(user, 'secret.delete', `service:${name}`, { secret });
+    return c.json({ success: true });
+});
+
+// 27. REVEAL SECRET (reveal_secret). Never implied by other permissions, every read is audited
+app.get('/services/:name/secrets/:secret', (c) => {
+    const name = c.req.param('name');
+    const secret = c.req.param('secret');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'reveal_secret')) return c.json({ error: 'Forbidden' }, 403);
+
+    const sealed = DB.getSecretValue(name, secret);
+    if (sealed === null) return c.json({ error: 'Secret not found' }, 404);
+    try {
+        const value = decrypt(sealed);
+        auditLog.record(user, 'secret.reveal', `service:${name}`, { secret });
+        return c.json({ name: secret, value });
+    } catch (err: any) {
+        auditLog.record(user, 'secret.reveal', `service:${name}`, { secret }, 'failure', err.message);
+        return c.json({ error: err.message }, 500);
+    }
+});
+
+// Diffs show secret-looking values only to users who may reveal them
+const envDiff = (user: User, name: string, before: string, after: string) =>
+    diffEnv(before, after, !DB.checkPermission(user, `service:${name}`, 'reveal_secret'));
+
+// 28. ENV VERSIONS (view_env). `current` is the version matching the file on disk
+app.get('/services/:name/env/versions', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    return c.json({ versions: DB.listEnvVersions(name), current: envVersions.currentVersion(name) });
+});
+
+// 29. DIFF TWO ENV VERSIONS (view_env). from/to: version numbers or "current" (default for to)
+app.get('/services/:name/env/diff', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const parse = (v: string | undefined) => v === undefined || v === 'current' ? 'current' as const : Number(v);
+    const from = parse(c.req.query('from'));
+    const to = parse(c.req.query('to'));
+    if ((from !== 'current' && !Number.isInteger(from)) || (to !== 'current' && !Number.isInteger(to))) {
+        return c.json({ error: 'from and to must be version numbers or "current"' }, 400);
+    }
+
+    const before = envVersions.content(name, from);
+    const after = envVersions.content(name, to);
+    if (before === null || after === null) return c.json({ error: 'Version not found' }, 404);
+    return c.json({ from, to, changes: envDiff(user, name, before, after) });
+});
+
+// 30. PREVIEW AN ENV SAVE (edit_env). Diff of the file on disk against unsaved editor content
+app.post('/services/:name/env/diff', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.content !== 'string') return c.json({ error: 'Content string required' }, 400);
+
+    const current = dockerMgr.readEnv(name);
+    const content = unmaskEnv(body.content, current);
+    return c.json({
+        changes: envDiff(user, name, current, content),
+        missingSecrets: missingSecrets(name, content),
+        errors: envSchemaErrors(name, content) ?? {},
+    });
+});
+
+// 31. REVERT ENV TO A VERSION (edit_env). Saved as a new version and applied like a save
+app.post('/services/:name/env/versions/:version/revert', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const target = parseInt(c.req.param('version'));
+    const content = envVersions.content(name, target);
+    if (content === null) return c.json({ error: 'Version not found' }, 404);
+
+    const missing = missingSecrets(name, content);
+    if (missing.length) return c.json({ error: `Version references deleted secret(s): ${missing.join(', ')}` }, 400);
+    const errors = envSchemaErrors(name, content);
+    if (errors) return c.json({ error: `Version ${target} does not match the current env schema`, errors }, 400);
+
+    try {
+        const { version, restarted } = await applyEnv(name, content, user, 'revert', target);
+        return c.json({
+            success: true,
+            version,
+            message: `Environment reverted to version ${target}${restarted ? ' and service restarted' : '. Restart skipped (missing config/image).'}`,
+        });
+    } catch (err: any) {
+        auditLog.record(user, 'env.revert', `service:${name}`, { reverted_from: target }, 'failure', err.message);
+        alertMgr.deployFailed(name, `env revert to version ${target}`, err.message);
+        return c.json({ success: false, error: err.message, logs: healthLogs(err) }, 500);
+    }
+});
+
+// Deploy a service's staged env/config. On failure the previous files are put back and the changes stay staged
+const applyStaged = async (service: string, strategy: 'recreate' | 'blue-green', user: User) => {
+    const staged = DB.getStagedChanges(service);
+    if (!staged) throw new Error(`${service} has no staged changes`);
+    const stagedEnv = stagingMgr.env(service);
+    const current = dockerMgr.readConfig(service);
+    try {
+        if (!current?.image) throw new Error('Service has no saved config/image to deploy');
+        const config = staged.config ? mergeStagedConfig(current, staged.config) : { ...current };
+        const previousEnv = dockerMgr.readEnv(service);
+        const missing = missingSecrets(service, stagedEnv ?? previousEnv);
+        if (missing.length) throw new Error(`Unknown secret(s): ${missing.join(', ')}`);
+        const errors = envSchemaErrors(service, stagedEnv ?? previousEnv);
+        if (errors) throw new Error(`Env does not match the schema: ${Object.entries(errors).map(([key, e]) => `${key}: ${e}`).join('; ')}`);
+        if (strategy === 'blue-green' && !config.domain) throw new Error('Blue/green apply requires a domain (traffic is switched through nginx)');
+
+        if (stagedEnv !== null) dockerMgr.saveEnv(service, stagedEnv);
+        let nginx: string;
+        try {
+            nginx = strategy === 'blue-green'
+                ? await blueGreen.deploy(service, current.image, config, { image: current.image, config: current })
+                : await deployService(service, current.image, config, true);
+        } catch (err) {
+            dockerMgr.saveEnv(service, previousEnv);
+            dockerMgr.saveConfig(service, current);
+            throw err;
+        }
+
+        const version = stagedEnv !== null ? envVersions.record(service, previousEnv, stagedEnv, user, 'save').version : undefined;
+        const rev = await revisionMgr.record(service, current.image, config, user, 'staged');
+        DB.deleteStagedChanges(service);
+        auditLog.record(user, 'staged.apply', `service:${service}`, {
+            strategy, scheduled_by: staged.scheduled_by ?? undefined, revision: rev.revision, env_version: version, nginx,
+            env: stagedEnv !== null ? diffEnv(previousEnv, stagedEnv) : undefined,
+            changes: auditLog.diff(current, config),
+        });
+        return { revision: rev.revision, nginx };
+    } catch (err: any) {
+        DB.setStagedError(service, err.message);
+        auditLog.record(user, 'staged.apply', `service:${service}`, { strategy, scheduled_by: staged.scheduled_by ?? undefined }, 'failure', err.message);
+        alertMgr.deployFailed(service, 'staged changes', err.message);
+        throw err;
+    }
+};
+
+const stagingMgr = new StagingManager(dockerMgr, { apply: applyStaged });
+
+// What a user may see of a service's staged changes: env needs view_env, config view_configuration
+const stagedView = (user: User, service: string) => {
+    const staged = DB.getStagedChanges(service);
+    if (!staged) return null;
+    const canEnv = DB.checkPermission(user, `service:${service}`, 'view_env');
+    const canConfig = DB.checkPermission(user, `service:${service}`, 'view_configuration');
+    const current = dockerMgr.readConfig(service) ?? {};
+    const env = canEnv ? stagingMgr.env(service) : null;
+    return {
+        service,
+        hasEnv: staged.env !== null,
+        hasConfig: staged.config !== null,
+        envChanges: env !== null ? envDiff(user, service, dockerMgr.readEnv(service), env) : undefined,
+        configChanges: canConfig && staged.config ? auditLog.diff(current, mergeStagedConfig(current, staged.config)) : undefined,
+        staged_by: staged.staged_by,
+        updated_at: staged.updated_at,
+        scheduled_at: staged.scheduled_at,
+        scheduled_by: staged.scheduled_by,
+        error: staged.error,
+        canApply: DB.checkPermission(user, `service:${service}`, 'manage'),
+    };
+};
+
+// 32. SERVICES WITH STAGED CHANGES (view_status per service)
+app.get('/services/pending', (c) => {
+    const user = c.get('user');
+    const pending = DB.listStagedChanges()
+        .filter(s => DB.checkPermission(user, `service:${s.service}`, 'view_status'))
+        .map(s => stagedView(user, s.service));
+    return c.json(pending);
+});
+
+// 33. STAGED CHANGES OF ONE SERVICE (view_env / view_configuration). env is the full staged file for the editor
+app.get('/services/:name/staged', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    const canEnv = DB.checkPermission(user, `service:${name}`, 'view_env');
+    if (!canEnv && !DB.checkPermission(user, `service:${name}`, 'view_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const view = stagedView(user, name);
+    const env = stagingMgr.env(name);
+    if (!view) return c.json({ staged: null });
+    const reveal = DB.checkPermission(user, `service:${name}`, 'reveal_secret');
+    return c.json({ staged: { ...view, env: canEnv && env !== null ? (reveal ? env : maskEnv(env)) : null } });
+});
+
+// 34. STAGE ENV (edit_env). Saved for a later apply, nothing is restarted
+app.put('/services/:name/staged/env', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const body = await c.req.json().catch(() => ({}));
+    if (typeof body.content !== 'string') return c.json({ error: 'Content string required' }, 400);
+
+    // The editor shows the staged file if there is one, so masked values refer to it
+    const live = dockerMgr.readEnv(name);
+    const content = unmaskEnv(unmaskEnv(body.content, stagingMgr.env(name) ?? live), live);
+    const missing = missingSecrets(name, content);
+    if (missing.length) return c.json({ error: `Unknown secret(s): ${missing.join(', ')}` }, 400);
+    const errors = envSchemaErrors(name, content);
+    if (errors) return c.json({ error: 'Env does not match the schema', errors }, 400);
+
+    stagingMgr.stageEnv(name, content, user.username);
+    auditLog.record(user, 'staged.env', `service:${name}`, { changes: diffEnv(live, content) });
+    return c.json({ success: true, message: 'Environment changes staged', staged: stagedView(user, name) });
+});
+
+// 35. STAGE CONFIG (edit_configuration). Only deploy-affecting fields; the image is not staged
+app.put('/services/:name/staged/config', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const current = dockerMgr.readConfig(name);
+    if (!current) return c.json({ error: 'Service has no saved config' }, 404);
+
+    const body = await c.req.json().catch(() => ({}));
+    const config = body.config as DockerServiceConfig | undefined;
+    if (!config?.hostPort || !config.containerPort) return c.json({ error: 'Missing required fields (hostPort, containerPort)' }, 400);
+    const error = configError(config);
+    if (error) return c.json({ error }, 400);
+
+    const picked = pickStagedConfig(config);
+    DB.stageChanges(name, { env: null, config: picked }, user.username);
+    auditLog.record(user, 'staged.config', `service:${name}`, { changes: auditLog.diff(current, mergeStagedConfig(current, picked)) });
+    return c.json({ success: true, message: 'Configuration changes staged', staged: stagedView(user, name) });
+});
+
+// 36. DISCARD STAGED CHANGES (edit_env / edit_configuration for whatever is staged)
+app.delete('/services/:name/staged', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    const staged = DB.getStagedChanges(name);
+    if (!staged) return c.json({ error: 'Nothing staged' }, 404);
+    if ((staged.env !== null && !DB.checkPermission(user, `service:${name}`, 'edit_env')) ||
+        (staged.config !== null && !DB.checkPermission(user, `service:${name}`, 'edit_configuration'))) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    DB.deleteStagedChanges(name);
+    auditLog.record(user, 'staged.discard', `service:${name}`, { env: staged.env !== null, config: staged.config !== null });
+    return c.json({ success: true });
+});
+
+type ApplyResult = { service: string; status: 'applied' | 'scheduled' | 'unscheduled' | 'failed' | 'skipped'; error?: string; revision?: number; nginx?: string };
+
+// 37. APPLY STAGED CHANGES (manage per service). One or many services, one at a time.
+// strategy "scheduled" stores `at` (epoch ms) for the scheduler; `at: null` cancels a schedule
+app.post('/services/apply', async (c) => {
+    const user = c.get('user');
+    const body = await c.req.json().catch(() => ({})) as { services?: unknown; strategy?: ApplyStrategy; at?: number | null };
+    if (!Array.isArray(body.services) || !body.services.length || !body.services.every(s => typeof s === 'string')) {
+        return c.json({ error: 'services must be a non-empty list of service names' }, 400);
+    }
+    const strategy = body.strategy ?? 'recreate';
+    if (!['recreate', 'blue-green', 'scheduled'].includes(strategy)) return c.json({ error: 'strategy must be recreate, blue-green or scheduled' }, 400);
+    if (strategy === 'scheduled' && body.at !== null && (typeof body.at !== 'number' || body.at < Date.now() - 60_000)) {
+        return c.json({ error: 'Scheduled applies need a future time (at, epoch ms)' }, 400);
+    }
+
+    const results: ApplyResult[] = [];
+    for (const service of body.services as string[]) {
+        if (!DB.checkPermission(user, `service:${service}`, 'manage')) {
+            results.push({ service, status: 'skipped', error: 'Forbidden' });
+            continue;
+        }
+        if (!DB.getStagedChanges(service)) {
+            results.push({ service, status: 'skipped', error: 'Nothing staged' });
+            continue;
+        }
+        if (strategy === 'scheduled') {
+            const at = body.at ?? null;
+            DB.scheduleStagedChanges(service, at, at === null ? null : user.username);
+            auditLog.record(user, 'staged.schedule', `service:${service}`, { at, strategy: stagingMgr.scheduledStrategy(service) });
+            results.push({ service, status: at === null ? 'unscheduled' : 'scheduled' });
+            continue;
+        }
+        try {
+            const { revision, nginx } = await applyStaged(service, strategy, user);
+            results.push({ service, status: 'applied', revision, nginx });
+        } catch (err: any) {
+            results.push({ service, status: 'failed', error: err.message });
+        }
+    }
+    return c.json({ success: results.every(r => r.status !== 'failed' && r.status !== 'skipped'), results });
+});
+
+// 38. ENV SCHEMA (view_env). Keys the env file is checked against on every save
+app.get('/services/:name/env-schema', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_env')) return c.json({ error: 'Forbidden' }, 403);
+    return c.json(dockerMgr.readConfig(name)?.envSchema ?? []);
+});
+
+// 39. SAVE ENV SCHEMA (edit_configuration). Saved in config.json, no redeploy needed.
+// The current env file may not match it yet; the next save has to
+app.put('/services/:name/env-schema', async (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'edit_configuration')) return c.json({ error: 'Forbidden' }, 403);
+
+    const config = dockerMgr.readConfig(name);
+    if (!config) return c.json({ error: `Service ${name} has no saved configuration` }, 404);
+
+    const body = await c.req.json().catch(() => null);
+    const error = validateEnvSchema(body?.schema);
+    if (error) return c.json({ error }, 400);
+
+    const schema: EnvSchemaEntry[] = (body.schema as EnvSchemaEntry[]).map(e => ({
+        key: e.key,
+        type: e.type && e.type !== 'string' ? e.type : undefined,
+        required: e.required || undefined,
+        default: e.default,
+        description: e.description?.trim() || undefined,
+        values: e.type === 'enum' ? e.values : undefined,
+    }));
+    dockerMgr.saveConfig(name, { ...config, envSchema: schema.length ? schema : undefined });
+    auditLog.record(user, 'env.schema', `service:${name}`, { changes: auditLog.diff(config.envSchema, schema) });
+    return c.json({ success: true, message: 'Env schema saved', errors: envSchemaErrors(name, dockerMgr.readEnv(name)) ?? {} });
+});
+
+// 40. ENV GROUPS OF A SERVICE (view_env). In precedence order; the service's own .env overrides all of them.
+// Values of secret-looking keys are masked without reveal_secret
+app.get('/services/:name/env/groups', (c) => {
+    const name = c.req.param('name');
+    const user = c.get('user');
+    if (!DB.checkPermission(user, `service:${name}`, 'view_env')) return c.json({ error: 'Forbidden' }, 403);
+
+    const reveal = DB.checkPermission(user, `service:${name}`, 'reveal_secret');
+    const groups = (dockerMgr.readConfig(name)?.envGroups ?? []).map(groupName => {
+        const group = DB.getEnvGroupByName(groupName);
+        return { name: groupName, description: group?.description ?? null, content: group ? (reveal ? group.content : maskEnv(group.content)) : null };
+    });
+    return c.json(groups);
+});
+
+backupMgr.startScheduler();
+metricsMgr.start();
+alertMgr.start();
+updatePoller.startScheduler();
+stagingMgr.startScheduler();
+
 console.log(`running on port ${CONFIG.PORT}`);
 
 export default {
@@ -0,0 +1,166 @@
+import { Database } from 'bun:sqlite';
+import { join } from 'path';
+import { CONFIG } from './config';
+import { DATA_DIR } from './db';
+import { toResourceStats } from './stats';
+import type { DockerManager } from './docker';
+import type { MetricPoint, MetricResolution, ResourceStats } from './types';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Separate file: samples are high-volume and shouldn't bloat or lock users.sqlite
+const db = new Database(join(DATA_DIR, 'metrics.sqlite'));
+db.run("PRAGMA journal_mode = WAL");
+db.run(`
+  CREATE TABLE IF NOT EXISTS metric_samples (
+    service TEXT NOT NULL,
+    resolution TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    cpu REAL NOT NULL,
+    cpu_max REAL NOT NULL,
+    memory INTEGER NOT NULL,
+    memory_max INTEGER NOT NULL,
+    memory_limit INTEGER NOT NULL,
+    network_rx REAL NOT NULL,
+    network_tx REAL NOT NULL,
+    block_read REAL NOT NULL,
+    block_write REAL NOT NULL,
+    pids INTEGER NOT NULL,
+    PRIMARY KEY (service, resolution, ts)
+  ) WITHOUT ROWID
+`);
+db.run("CREATE INDEX IF NOT EXISTS idx_metric_samples_age ON metric_samples(resolution, ts)");
+
+export const RESOLUTIONS: MetricResolution[] = ['raw', '1m', '1h'];
+
+// Each downsampled series is built from the next finer one
+const ROLLUPS: { resolution: MetricResolution; source: MetricResolution; bucket: number }[] = [
+  { resolution: '1m', source: 'raw', bucket: MINUTE },
+  { resolution: '1h', source: '1m', bucket: HOUR },
+];
+
+const retention = (): Record<MetricResolution, number> => ({
+  raw: CONFIG.METRICS.RAW_RETENTION_HOURS * HOUR,
+  '1m': CONFIG.METRICS.MINUTE_RETENTION_DAYS * DAY,
+  '1h': CONFIG.METRICS.HOUR_RETENTION_DAYS * DAY,
+});
+
+/**
+ * Background sampler and store for per-service resource history.
+ */
+export class MetricsManager {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sampling = false;
+  private lastPrune = 0;
+  // Previous sample per service, to turn cumulative I/O counters into rates
+  private previous = new Map<string, ResourceStats>();
+
+  constructor(private dockerMgr: DockerManager, private onSample?: (service: string, stats: ResourceStats) => void) {}
+
+  start() {
+    if (this.timer || CONFIG.METRICS.INTERVAL_SECONDS <= 0) return;
+    this.timer = setInterval(() => this.sample(), CONFIG.METRICS.INTERVAL_SECONDS * 1000);
+  }
+
+  async sample() {
+    if (this.sampling) return; // Previous round still polling
+    this.sampling = true;
+    try {
+      const managed = new Set(this.dockerMgr.configuredServices());
+      const containers = await this.dockerMgr.instance.listContainers({ filters: { status: ['running'] } });
+
+      // One at a time: each stats call takes about a second and we don't want to spike the daemon
+      for (const ct of containers) {
+        const name = ct.Names[0]?.replace(/^\//, '');
+        if (!name || !managed.has(name)) continue;
+        try {
+          const raw = await this.dockerMgr.instance.getContainer(ct.Id).stats({ stream: false });
+          const cpuLimit = parseFloat(this.dockerMgr.readConfig(name)?.cpuLimit || '') || null;
+          const stats = toResourceStats(raw, cpuLimit);
+          this.insert(name, stats);
+          this.onSample?.(name, stats);
+        } catch {
+          // Stopped between listing and polling
+        }
+      }
+
+      const now = Date.now();
+      this.rollup(now);
+      if (now - this.lastPrune > 10 * MINUTE) {
+        this.prune(now);
+        this.lastPrune = now;
+      }
+    } catch (e: any) {
+      console.error('Metrics sampling failed:', e.message);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  private insert(service: string, s: ResourceStats) {
+    const prev = this.previous.get(service);
+    this.previous.set(service, s);
+
+    const seconds = prev ? (s.timestamp - prev.timestamp) / 1000 : 0;
+    // Counters reset when the container restarts; report 0 rather than a negative rate
+    const rate = (pick: (x: ResourceStats) => number) =>
+      prev && seconds > 0 && pick(s) >= pick(prev) ? (pick(s) - pick(prev)) / seconds : 0;
+
+    db.query(`
+      INSERT OR REPLACE INTO metric_samples
+        (service, resolution, ts, cpu, cpu_max, memory, memory_max, memory_limit, network_rx, network_tx, block_read, block_write, pids)
+      VALUES (?, 'raw', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      service, s.timestamp, s.cpuPercent, s.cpuPercent, s.memoryUsage, s.memoryUsage, s.memoryLimit,
+      rate(x => x.networkRx), rate(x => x.networkTx), rate(x => x.blockRead), rate(x => x.blockWrite), s.pids
+    );
+  }
+
+  /**
+   * Recompute the two most recent buckets of each downsampled series (the current
+   * one is still filling up). Idempotent, so it simply runs after every sample.
+   */
+  rollup(now: number) {
+    for (const { resolution, source, bucket } of ROLLUPS) {
+      const since = Math.floor(now / bucket) * bucket - bucket;
+      db.query(`
+        INSERT OR REPLACE INTO metric_samples
+        SELECT service, ?1, (ts / ?2) * ?2 AS bucket,
+          AVG(cpu), MAX(cpu_max), CAST(AVG(memory) AS INTEGER), MAX(memory_max), MAX(memory_limit),
+          AVG(network_rx), AVG(network_tx), AVG(block_read), AVG(block_write), MAX(pids)
+        FROM metric_samples
+        WHERE resolution = ?3 AND ts >= ?4
+        GROUP BY service, bucket
+      `).run(resolution, bucket, source, since);
+    }
+  }
+
+  prune(now: number) {
+    for (const [resolution, keep] of Object.entries(retention())) {
+      db.query("DELETE FROM metric_samples WHERE resolution = ? AND ts < ?").run(resolution, now - keep);
+    }
+  }
+
+  /**
+   * Finest series that still covers the range, keeping responses to a few hundred points.
+   */
+  resolutionFor(from: number, to: number, now = Date.now()): MetricResolution {
+    const keep = retention();
+    const span = to - from;
+    if (span <= 2 * HOUR && from >= now - keep.raw) return 'raw';
+    if (span <= 3 * DAY && from >= now - keep['1m']) return '1m';
+    return '1h';
+  }
+
+  query(service: string, from: number, to: number, resolution: MetricResolution): MetricPoint[] {
+    return db.query(`
+      SELECT ts, cpu, cpu_max AS cpuMax, memory, memory_max AS memoryMax, memory_limit AS memoryLimit,
+        network_rx AS networkRx, network_tx AS networkTx, block_read AS blockRead, block_write AS blockWrite, pids
+      FROM metric_samples
+      WHERE service = ? AND resolution = ? AND ts >= ? AND ts <= ?
+      ORDER BY ts
+    `).all(service, resolution, from, to) as MetricPoint[];
+  }
+}
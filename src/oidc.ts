@@ -0,0 +1,240 @@
+import type { webcrypto } from 'crypto';
+import { CONFIG } from './config';
+import { DB } from './db';
+import type { SessionTokens } from './auth';
+import type { SsoMapping, User } from './types';
+
+const TIMEOUT_MS = 10_000;
+const PENDING_TTL_MS = 10 * 60 * 1000; // Time to log in at the identity provider
+const HANDOFF_TTL_MS = 60 * 1000; // Time for the UI to pick up its session
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_S = 60;
+const USERNAME = /^[^\s:]{1,128}$/; // No colons: usernames still work with Basic auth
+
+// ID token algorithms, as WebCrypto import and verify parameters
+const ALGORITHMS: Record<string, { key: webcrypto.RsaHashedImportParams | webcrypto.EcKeyImportParams; verify: webcrypto.AlgorithmIdentifier | webcrypto.EcdsaParams }> = {
+  RS256: { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS384: { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verify: 'RSASSA-PKCS1-v1_5' },
+  RS512: { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verify: 'RSASSA-PKCS1-v1_5' },
+  ES256: { key: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { key: { name: 'ECDSA', namedCurve: 'P-384' }, verify: { name: 'ECDSA', hash: 'SHA-384' } },
+};
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export type Claims = Record<string, unknown> & { iss: string; sub: string };
+
+interface PendingLogin {
+  verifier: string; // PKCE code verifier
+  nonce: string;
+  redirectUri: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+export interface Handoff {
+  user: User;
+  tokens: SessionTokens;
+}
+
+const base64url = (bytes: ArrayBuffer | Uint8Array) => Buffer.from(bytes as ArrayBuffer).toString('base64url');
+const randomString = (bytes = 32) => base64url(crypto.getRandomValues(new Uint8Array(bytes)));
+const decodeJson = (part: string) => JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+const request = (url: string, init: RequestInit = {}) => fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+
+function prune<T extends { expiresAt: number }>(map: Map<string, T>) {
+  const now = Date.now();
+  for (const [key, value] of map) if (value.expiresAt < now) map.delete(key);
+}
+
+// Equal to the value, or containing it for list claims like groups
+export function claimMatches(claims: Record<string, unknown>, claim: string, value: string): boolean {
+  const actual = claims[claim];
+  if (Array.isArray(actual)) return actual.some(v => String(v) === value);
+  return actual !== undefined && actual !== null && String(actual) === value;
+}
+
+export function validateSsoMapping(m: Pick<SsoMapping, 'claim' | 'value' | 'group' | 'is_admin'>): string | null {
+  if (typeof m.claim !== 'string' || !m.claim.trim()) return 'Claim required';
+  if (typeof m.value !== 'string' || !m.value.trim()) return 'Claim value required';
+  if (m.group !== null && typeof m.group !== 'string') return 'Group must be a group name';
+  if (typeof m.is_admin !== 'boolean') return 'is_admin must be a boolean';
+  if (!m.group && !m.is_admin) return 'A mapping needs a group, admin rights, or both';
+  return null;
+}
+
+/**
+ * Authorization code flow with PKCE against the configured issuer. Login state lives in memory,
+ * so a restart mid-login just means logging in again.
+ */
+export class OidcClient {
+  private pending = new Map<string, PendingLogin>(); // By state
+  private handoffs = new Map<string, Handoff & { expiresAt: number }>();
+  private discovery: { doc: Discovery; fetchedAt: number } | null = null;
+  private keys: webcrypto.JsonWebKey[] = [];
+
+  get enabled(): boolean {
+    return !!(CONFIG.OIDC.ISSUER && CONFIG.OIDC.CLIENT_ID);
+  }
+
+  private async discover(): Promise<Discovery> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_CACHE_MS) return this.discovery.doc;
+    const res = await request(`${CONFIG.OIDC.ISSUER}/.well-known/openid-configuration`);
+    if (!res.ok) throw new OidcError(`Identity provider discovery failed (HTTP ${res.status})`);
+    const doc = await res.json() as Discovery;
+    if (doc.issuer?.replace(/\/$/, '') !== CONFIG.OIDC.ISSUER) throw new OidcError(`Discovery names issuer ${doc.issuer}, expected ${CONFIG.OIDC.ISSUER}`);
+    this.discovery = { doc, fetchedAt: Date.now() };
+    return doc;
+  }
+
+  // Refetches the key set once when the key isn't known, since providers rotate keys
+  private async signingKey(kid: string | undefined, alg: string): Promise<CryptoKey> {
+    const find = () => this.keys.find(k => (kid ? (k as { kid?: string }).kid === kid : true) && k.kty === (alg.startsWith('ES') ? 'EC' : 'RSA') && k.use !== 'enc');
+    if (!find()) {
+      const res = await request((await this.discover()).jwks_uri);
+      if (!res.ok) throw new OidcError(`Fetching the identity provider's keys failed (HTTP ${res.status})`);
+      this.keys = ((await res.json()) as { keys?: webcrypto.JsonWebKey[] }).keys ?? [];
+    }
+    const jwk = find();
+    if (!jwk) throw new OidcError(`No signing key${kid ? ` ${kid}` : ''} for ${alg}`);
+    return crypto.subtle.importKey('jwk', jwk, ALGORITHMS[alg].key, false, ['verify']);
+  }
+
+  private async verifyIdToken(token: string, nonce: string): Promise<Claims> {
+    const [header, payload, signature] = token.split('.');
+    if (!signature) throw new OidcError('Malformed ID token');
+    const { alg, kid } = decodeJson(header) as { alg: string; kid?: string };
+    if (!ALGORITHMS[alg]) throw new OidcError(`Unsupported ID token algorithm: ${alg}`);
+
+    const key = await this.signingKey(kid, alg);
+    const valid = await crypto.subtle.verify(ALGORITHMS[alg].verify, key, Buffer.from(signature, 'base64url'), new TextEncoder().encode(`${header}.${payload}`));
+    if (!valid) throw new OidcError('ID token signature is invalid');
+
+    const claims = decodeJson(payload) as Claims & { aud: string | string[]; exp: number; nonce?: string };
+    const now = Date.now() / 1000;
+    if (claims.iss !== (await this.discover()).issuer) throw new OidcError(`ID token from unexpected issuer ${claims.iss}`);
+    if (![claims.aud].flat().includes(CONFIG.OIDC.CLIENT_ID!)) throw new OidcError('ID token was issued for another client');
+    if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_S) throw new OidcError('ID token has expired');
+    if (claims.nonce !== nonce) throw new OidcError('ID token nonce does not match');
+    if (!claims.sub) throw new OidcError('ID token has no subject');
+    return claims;
+  }
+
+  /**
+   * Where to send the browser to log in. returnTo is the UI page that picks up the session;
+   * redirectUri is this server's callback, registered with the provider.
+   */
+  async authorizationUrl(returnTo: string, redirectUri: string): Promise<string> {
+    const doc = await this.discover();
+    prune(this.pending);
+    const state = randomString();
+    const login: PendingLogin = { verifier: randomString(48), nonce: randomString(), redirectUri, returnTo, expiresAt: Date.now() + PENDING_TTL_MS };
+    this.pending.set(state, login);
+
+    const challenge = base64url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(login.verifier)));
+    const url = new URL(doc.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: CONFIG.OIDC.CLIENT_ID!,
+      redirect_uri: redirectUri,
+      scope: CONFIG.OIDC.SCOPES,
+      state,
+      nonce: login.nonce,
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+    }).toString();
+    return url.toString();
+  }
+
+  // The UI page to return to for a login in progress, so errors can be shown there
+  returnTo(state: string): string | null {
+    const login = this.pending.get(state);
+    return login && login.expiresAt >= Date.now() ? login.returnTo : null;
+  }
+
+  /**
+   * Redeems the authorization code and verifies the ID token. Claims from the userinfo
+   * endpoint are merged in, since some providers leave groups out of the ID token.
+   */
+  async complete(code: string, state: string): Promise<Claims> {
+    const login = this.pending.get(state);
+    this.pending.delete(state);
+    if (!login || login.expiresAt < Date.now()) throw new OidcError('Login expired or was already used; try again');
+
+    const doc = await this.discover();
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+    if (CONFIG.OIDC.CLIENT_SECRET) {
+      headers.Authorization = `Basic ${btoa(`${encodeURIComponent(CONFIG.OIDC.CLIENT_ID!)}:${encodeURIComponent(CONFIG.OIDC.CLIENT_SECRET)}`)}`;
+    }
+    const res = await request(doc.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: login.redirectUri,
+        client_id: CONFIG.OIDC.CLIENT_ID!,
+        code_verifier: login.verifier,
+      }),
+    });
+    const tokens = await res.json().catch(() => ({})) as { id_token?: string; access_token?: string; error?: string; error_description?: string };
+    if (!res.ok || !tokens.id_token) {
+      throw new OidcError(`Token request failed: ${tokens.error_description || tokens.error || `HTTP ${res.status}`}`);
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, login.nonce);
+    if (doc.userinfo_endpoint && tokens.access_token) {
+      const info = await request(doc.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+      const userinfo = info.ok ? await info.json() as Record<string, unknown> : null;
+      if (userinfo?.sub === claims.sub) return { ...userinfo, ...claims };
+    }
+    return claims;
+  }
+
+  // One-time code the UI trades for its session, so tokens never appear in a URL
+  issueHandoff(handoff: Handoff): string {
+    prune(this.handoffs);
+    const code = randomString();
+    this.handoffs.set(code, { ...handoff, expiresAt: Date.now() + HANDOFF_TTL_MS });
+    return code;
+  }
+
+  redeemHandoff(code: string): Handoff | null {
+    const handoff = this.handoffs.get(code);
+    this.handoffs.delete(code);
+    return handoff && handoff.expiresAt >= Date.now() ? handoff : null;
+  }
+}
+
+/**
+ * Finds or creates the user behind the claims and applies the claim mappings.
+ * Users are matched by issuer and subject, never by username, so an SSO login can't take over a local account.
+ */
+export function provisionUser(claims: Claims): { user: User; created: boolean; matched: SsoMapping[] } {
+  let user = DB.getSsoUser(claims.iss, claims.sub);
+  const created = !user;
+  if (!user) {
+    const username = claims[CONFIG.OIDC.USERNAME_CLAIM] ?? claims.email ?? claims.sub;
+    if (typeof username !== 'string' || !USERNAME.test(username)) throw new OidcError(`Unusable username in claim ${CONFIG.OIDC.USERNAME_CLAIM}`);
+    if (username === CONFIG.AUTH.USERNAME || DB.getUser(username)) throw new OidcError(`Username ${username} is taken by a local account`);
+    user = DB.createSsoUser(claims.iss, claims.sub, username);
+  }
+
+  const matched = DB.listSsoMappings().filter(m => claimMatches(claims, m.claim, m.value));
+  DB.syncSsoUser(user.id, matched);
+  DB.touchSsoLogin(user.id);
+  return { user: DB.getUserById(user.id)!, created, matched };
+}
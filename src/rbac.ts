@@ -0,0 +1,126 @@
+import type { Action, Permission, Role } from './types';
+
+export const ACTIONS: Action[] = [
+  'pull_new_image', 'add_new_service', 'view_status', 'manage', 'view_configuration', 'edit_configuration',
+  'view_env', 'edit_env', 'reveal_secret', 'view_logs', 'admin',
+];
+
+export const GLOBAL_ACTIONS: Action[] = ['pull_new_image', 'add_new_service'];
+
+export const SERVICE_ACTIONS: Action[] = [
+  'view_status', 'manage', 'view_configuration', 'edit_configuration', 'view_env', 'edit_env', 'reveal_secret', 'view_logs',
+];
+
+// Actions that come with another one, followed transitively. reveal_secret is deliberately implied by nothing
+export const ACTION_IMPLIES: Partial<Record<Action, Action[]>> = {
+  manage: ['view_status'],
+  edit_configuration: ['view_configuration'],
+  edit_env: ['view_env'],
+};
+
+// Seeded into an empty roles table
+export const DEFAULT_ROLES: Pick<Role, 'name' | 'description' | 'actions'>[] = [
+  { name: 'viewer', description: 'Read-only: status, configuration, environment and logs', actions: ['view_status', 'view_configuration', 'view_env', 'view_logs'] },
+  { name: 'developer', description: 'Deploy, configure and edit the environment; secrets stay masked', actions: ['manage', 'edit_configuration', 'edit_env', 'view_logs'] },
+];
+
+const SCOPE = /^(global|service:[A-Za-z0-9_.*-]+|project:[A-Za-z0-9_.-]+)$/;
+
+// A permission of a user, one inherited from a group ('group:{name}'), or one that comes with administering a project
+export type Grant = Permission & { source: 'user' | `group:${string}` | `project:${string}` };
+
+export interface Context {
+  roles: Map<string, Role>;
+  projects: Map<string, string>; // Service name -> project name
+}
+
+export interface Decision {
+  allowed: boolean;
+  grant: Grant | null; // The deny that refused, or the first allow that granted; null if nothing matched
+  via?: Action; // The action of the grant (or its role) that matched, when it isn't the requested one
+}
+
+/**
+ * 'global' covers every scope, 'project:{name}' the services in that project;
+ * '*' in a pattern matches any run of characters.
+ */
+export function scopeMatches(pattern: string, scope: string, projects?: Map<string, string>): boolean {
+  if (pattern === 'global' || pattern === scope) return true;
+  if (pattern.startsWith('project:')) {
+    return scope.startsWith('service:') && projects?.get(scope.slice('service:'.length)) === pattern.slice('project:'.length);
+  }
+  if (!pattern.includes('*')) return false;
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(scope);
+}
+
+// The given actions plus everything they imply
+export function impliedActions(actions: Action[]): Set<Action> {
+  const result = new Set<Action>();
+  const pending = [...actions];
+  while (pending.length) {
+    const action = pending.pop()!;
+    if (result.has(action)) continue;
+    result.add(action);
+    pending.push(...(ACTION_IMPLIES[action] ?? []));
+  }
+  return result;
+}
+
+/**
+ * Denying an action also denies whatever implies it (no edit_env without view_env);
+ * allowing one allows whatever it implies.
+ */
+export function evaluate(grants: Grant[], { roles, projects }: Context, scope: string, action: Action): Decision {
+  const needed = impliedActions([action]);
+  let allow: Decision | null = null;
+  for (const grant of grants) {
+    if (!scopeMatches(grant.scope, scope, projects)) continue;
+    const actions = grant.action ? [grant.action] : roles.get(grant.role!)?.actions ?? [];
+    if (grant.effect === 'deny') {
+      const denied = actions.find(a => needed.has(a));
+      if (denied) return { allowed: false, grant, ...(denied !== action && { via: denied }) };
+    } else if (!allow) {
+      const granting = actions.find(a => impliedActions([a]).has(action));
+      if (granting) allow = { allowed: true, grant, ...(granting !== action && { via: granting }) };
+    }
+  }
+  return allow ?? { allowed: false, grant: null };
+}
+
+/**
+ * One sentence on why a decision came out the way it did, e.g.
+ * "Allowed by role developer on service:alumni-* (via group ops), whose manage implies view_status."
+ */
+export function explainDecision(decision: Decision, scope: string, action: Action, roles: Role[]): string {
+  const { grant, via } = decision;
+  if (!grant) {
+    const including = roles.filter(r => impliedActions(r.actions).has(action)).map(r => r.name);
+    const where = scope === 'global' ? 'global' : `${scope}, a pattern matching it, or global`;
+    return `No grant gives ${action} on ${scope}. Grant ${action}${including.length ? ` or a role that includes it (${including.join(', ')})` : ''} on ${where}.`;
+  }
+  const what = grant.role ? `role ${grant.role}` : grant.action;
+  const [kind, name] = grant.source.split(/:(.*)/);
+  const source = kind === 'user' ? 'granted directly' : kind === 'group' ? `via group ${name}` : `as admin of project ${name}`;
+  const implied = !via ? '' : decision.allowed ? `, whose ${via} implies ${action}` : `; ${action} requires ${via}`;
+  return `${decision.allowed ? 'Allowed' : 'Denied'} by ${what} on ${grant.scope} (${source})${implied}.`;
+}
+
+// Returns an error message, or null if the permission can be saved
+export function validatePermission(p: Permission, roles: Set<string>, projects: Set<string>): string | null {
+  if (!p || typeof p.scope !== 'string' || !SCOPE.test(p.scope)) return `Invalid scope: ${p?.scope}`;
+  if (p.scope.startsWith('project:') && !projects.has(p.scope.slice('project:'.length))) return `Unknown project: ${p.scope.slice('project:'.length)}`;
+  if (!p.action === !p.role) return `${p.scope}: set either an action or a role`;
+  if (p.action && !ACTIONS.includes(p.action)) return `Unknown action: ${p.action}`;
+  if (p.role && !roles.has(p.role)) return `Unknown role: ${p.role}`;
+  if (p.effect !== undefined && p.effect !== 'allow' && p.effect !== 'deny') return `${p.scope}: effect must be allow or deny`;
+  return null;
+}
+
+export function validateRole(role: Pick<Role, 'name' | 'actions'>): string | null {
+  if (typeof role.name !== 'string' || !/^[A-Za-z0-9_.-]{1,64}$/.test(role.name)) return 'Role names may only contain letters, digits, ".", "_" and "-"';
+  if (!Array.isArray(role.actions) || !role.actions.length) return 'A role needs at least one action';
+  const unknown = role.actions.find(a => !ACTIONS.includes(a));
+  if (unknown) return `Unknown action: ${unknown}`;
+  return null;
+}
@@ -0,0 +1,504 @@
+import { CONFIG } from './config';
+import { DB } from './db';
+import { decrypt } from './vault';
+import type { ImageVersion, RegistryConfig, RegistryCredential, RegistryImage, RegistryType } from './types';
+
+const TIMEOUT_MS = 10_000;
+const VERSION_CACHE_MS = 60_000; // The service list asks for every running image on each load
+const MAX_OCI_TAGS = 50; // Each tag costs a manifest HEAD
+const DOCKER_HUB = 'docker.io';
+const DOCKER_HUB_ALIASES = ['index.docker.io', 'registry-1.docker.io', 'registry.hub.docker.com'];
+
+const MANIFEST_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+].join(', ');
+
+// Just the parts of registry API responses read here
+interface GhcrVersion { name: string; created_at: string; metadata?: { container?: { tags?: string[] } } }
+interface GhcrPackage { name: string; owner: { login: string }; updated_at: string }
+interface TokenResponse { token?: string; access_token?: string }
+interface DockerHubPage<T> { results?: T[] }
+interface DockerHubTag { name: string; digest?: string; last_updated?: string; tag_last_pushed?: string }
+interface DockerHubRepository { name: string; last_updated?: string }
+interface OciManifest {
+  manifests?: { digest: string; platform?: { os?: string } }[]; // Set on multi-platform indexes
+  config?: { digest?: string };
+}
+interface OciImageConfig { created?: string }
+interface OciTagList { tags?: string[] | null }
+interface OciCatalog { repositories?: string[] | null }
+
+export interface ImageRef {
+  host: string;
+  repository: string; // Path inside the registry, e.g. "library/nginx"
+  tag: string;
+}
+
+/**
+ * Splits an image reference the way Docker resolves it: the first component is a
+ * registry host only if it looks like one, otherwise the image lives on Docker Hub.
+ */
+export function parseImageRef(image: string): ImageRef {
+  const [ref] = image.split('@');
+  const slash = ref.lastIndexOf('/');
+  const colon = ref.lastIndexOf(':');
+  const name = colon > slash ? ref.slice(0, colon) : ref;
+  const tag = colon > slash ? ref.slice(colon + 1) : 'latest';
+
+  const [first, ...rest] = name.split('/');
+  if (rest.length && (first.includes('.') || first.includes(':') || first === 'localhost')) {
+    const host = DOCKER_HUB_ALIASES.includes(first.toLowerCase()) ? DOCKER_HUB : first.toLowerCase();
+    const repository = rest.join('/').toLowerCase();
+    return { host, repository: host === DOCKER_HUB && !repository.includes('/') ? `library/${repository}` : repository, tag };
+  }
+  return { host: DOCKER_HUB, repository: rest.length ? name.toLowerCase() : `library/${name.toLowerCase()}`, tag };
+}
+
+/**
+ * What every registry backend can answer: published versions of one repository
+ * (newest first, null when they can't be listed), the repositories offered for
+ * install, and whether its login works.
+ */
+export interface RegistryProvider {
+  listVersions(repository: string): Promise<ImageVersion[] | null>;
+  listRepositories(): Promise<RegistryImage[]>;
+  verify(): Promise<void>; // Throws if the login is rejected
+}
+
+const request = (url: string, init: RequestInit = {}) => fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+
+// Newest first; versions sharing a digest are merged
+function groupByDigest(tags: Array<{ tag: string; digest: string; created_at: number }>): ImageVersion[] {
+  const byDigest = new Map<string, ImageVersion>();
+  for (const t of tags) {
+    const v = byDigest.get(t.digest) ?? { digest: t.digest, tags: [], created_at: 0 };
+    v.tags.push(t.tag);
+    v.created_at = Math.max(v.created_at, t.created_at);
+    byDigest.set(t.digest, v);
+  }
+  return [...byDigest.values()].sort((a, b) => b.created_at - a.created_at);
+}
+
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * GitHub Container Registry through the GitHub packages API, which (unlike the
+ * registry API) knows when each version was pushed. Needs a PAT with read:packages.
+ */
+class GhcrRegistry implements RegistryProvider {
+  constructor(private registry: RegistryConfig) {}
+
+  private tryFetch(path: string) {
+    return (type: 'users' | 'orgs') => request(`https://api.github.com/${type}/${path}`, {
+      headers: {
+        'Authorization': `Bearer ${this.registry.password}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28'
+      }
+    });
+  }
+
+  async listVersions(repository: string): Promise<ImageVersion[] | null> {
+    const [owner, ...pkg] = repository.split('/');
+    const tryFetch = this.tryFetch(`${owner}/packages/container/${encodeURIComponent(pkg.join('/'))}/versions?per_page=100`);
+
+    let response = await tryFetch('users');
+    if (response.status === 404) {
+      response = await tryFetch('orgs');
+    }
+    if (!response.ok) return null;
+
+    const versions = await response.json() as GhcrVersion[];
+    if (!Array.isArray(versions)) return null;
+    // GitHub returns versions sorted by created_at desc
+    return versions.map(v => ({
+      digest: v.name,
+      tags: v.metadata?.container?.tags || [],
+      created_at: Date.parse(v.created_at) || 0,
+    }));
+  }
+
+  async verify(): Promise<void> {
+    const res = await request('https://api.github.com/user', {
+      headers: { 'Authorization': `Bearer ${this.registry.password}`, 'Accept': 'application/vnd.github+json' }
+    });
+    if (!res.ok) throw new Error(`GitHub rejected the token (HTTP ${res.status})`);
+  }
+
+  async listRepositories(): Promise<RegistryImage[]> {
+    const owner = this.registry.namespace;
+    if (!owner) return [];
+    const tryFetch = this.tryFetch(`${owner}/packages?package_type=container`);
+
+    let response = await tryFetch('users');
+    if (response.status === 404 || response.status === 403) {
+      response = await tryFetch('orgs');
+    }
+    if (!response.ok) return [];
+
+    const pkgs = await response.json() as GhcrPackage[];
+    if (!Array.isArray(pkgs)) return [];
+    return pkgs.map(p => ({
+      name: p.name,
+      image: `ghcr.io/${p.owner.login}/${p.name}:latest`,
+      updated_at: p.updated_at
+    }));
+  }
+}
+
+/**
+ * Docker Hub through the hub.docker.com API: tag digests and push times in one call,
+ * without spending the registry's anonymous pull rate limit.
+ */
+class DockerHubRegistry implements RegistryProvider {
+  private token: string | null = null;
+
+  constructor(private registry: RegistryConfig) {}
+
+  private async login(): Promise<string | null> {
+    const { username, password } = this.registry;
+    if (!username || !password) return null;
+    const res = await request('https://hub.docker.com/v2/users/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    if (!res.ok) throw new Error(`Docker Hub login failed (HTTP ${res.status})`);
+    return (await res.json() as TokenResponse).token ?? null;
+  }
+
+  private async get(path: string): Promise<Response> {
+    const send = () => request(`https://hub.docker.com/v2/${path}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+    });
+    this.token ??= await this.login();
+    let res = await send();
+    if (res.status === 401 && this.token) {
+      this.token = await this.login(); // JWTs expire; retry once with a fresh one
+      res = await send();
+    }
+    return res;
+  }
+
+  async listVersions(repository: string): Promise<ImageVersion[] | null> {
+    const [namespace, ...name] = repository.split('/');
+    const res = await this.get(`namespaces/${namespace}/repositories/${name.join('/')}/tags?page_size=100&ordering=last_updated`);
+    if (!res.ok) return null;
+    const results = (await res.json() as DockerHubPage<DockerHubTag>).results;
+    if (!Array.isArray(results)) return null;
+    return groupByDigest(results
+      .filter((t): t is DockerHubTag & { digest: string } => !!t.digest)
+      .map(t => ({ tag: t.name, digest: t.digest, created_at: Date.parse(t.tag_last_pushed ?? t.last_updated ?? '') || 0 })));
+  }
+
+  async verify(): Promise<void> {
+    if (!await this.login()) throw new Error('No username/password to log in with');
+  }
+
+  async listRepositories(): Promise<RegistryImage[]> {
+    const namespace = this.registry.namespace;
+    if (!namespace) return [];
+    const res = await this.get(`namespaces/${namespace}/repositories?page_size=100`);
+    if (!res.ok) return [];
+    const results = (await res.json() as DockerHubPage<DockerHubRepository>).results;
+    if (!Array.isArray(results)) return [];
+    return results.map(r => ({
+      name: r.name,
+      image: `${namespace}/${r.name}:latest`,
+      updated_at: r.last_updated ?? '',
+    }));
+  }
+}
+
+/**
+ * Any OCI Distribution v2 registry (Harbor, GitLab, ECR, a local registry:2, ...).
+ * Tags come from /tags/list and digests from manifest HEADs; push times are read
+ * from each image's config blob. Handles Basic and Bearer token challenges.
+ */
+class OciRegistry implements RegistryProvider {
+  private tokens = new Map<string, string>(); // scope -> Authorization header
+
+  constructor(private registry: RegistryConfig) {}
+
+  private get basic(): string | undefined {
+    const { username, password } = this.registry;
+    return username && password ? `Basic ${btoa(`${username}:${password}`)}` : undefined;
+  }
+
+  private async get(path: string, scope: string, init: RequestInit = {}): Promise<Response> {
+    const url = `${this.registry.insecure ? 'http' : 'https'}://${this.registry.host}/v2/${path}`;
+    const send = (auth: string | undefined) => request(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, ...(auth ? { Authorization: auth } : {}) },
+    });
+
+    const res = await send(this.tokens.get(scope) ?? this.basic);
+    if (res.status !== 401) return res;
+
+    const auth = await this.authorize(res.headers.get('www-authenticate') ?? '', scope);
+    if (!auth) return res;
+    this.tokens.set(scope, auth);
+    return send(auth);
+  }
+
+  // Answers a `Bearer realm="...",service="..."` challenge with a token from the realm
+  private async authorize(challenge: string, scope: string): Promise<string | null> {
+    if (!/^bearer\s/i.test(challenge)) return null;
+    const params = Object.fromEntries([...challenge.matchAll(/(\w+)="([^"]*)"/g)].map(m => [m[1], m[2]]));
+    if (!params.realm) return null;
+
+    const url = new URL(params.realm);
+    if (params.service) url.searchParams.set('service', params.service);
+    const requested = params.scope ?? scope;
+    if (requested) url.searchParams.set('scope', requested);
+    const res = await request(url.toString(), { headers: this.basic ? { Authorization: this.basic } : {} });
+    if (!res.ok) return null;
+    const body = await res.json() as TokenResponse;
+    const token = body.token ?? body.access_token;
+    return token ? `Bearer ${token}` : null;
+  }
+
+  // When the image behind a manifest was built, from its config blob. 0 if unknown
+  private async createdAt(repository: string, digest: string, scope: string): Promise<number> {
+    try {
+      let res = await this.get(`${repository}/manifests/${digest}`, scope, { headers: { Accept: MANIFEST_TYPES } });
+      if (!res.ok) return 0;
+      let manifest = await res.json() as OciManifest;
+      if (Array.isArray(manifest.manifests)) {
+        // Multi-platform index: any real platform has the same creation time
+        const child = manifest.manifests.find(m => m.platform?.os !== 'unknown') ?? manifest.manifests[0];
+        if (!child) return 0;
+        res = await this.get(`${repository}/manifests/${child.digest}`, scope, { headers: { Accept: MANIFEST_TYPES } });
+        if (!res.ok) return 0;
+        manifest = await res.json() as OciManifest;
+      }
+      if (!manifest.config?.digest) return 0;
+      res = await this.get(`${repository}/blobs/${manifest.config.digest}`, scope);
+      if (!res.ok) return 0;
+      return Date.parse((await res.json() as OciImageConfig).created ?? '') || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  async listVersions(repository: string): Promise<ImageVersion[] | null> {
+    const scope = `repository:${repository}:pull`;
+    const res = await this.get(`${repository}/tags/list`, scope);
+    if (!res.ok) return null;
+    const tags = (await res.json() as OciTagList).tags ?? [];
+
+    // The list is lexical, not by date; the tail is the best guess at recent tags
+    const heads = await mapLimit(tags.slice(-MAX_OCI_TAGS), 4, async tag => {
+      const head = await this.get(`${repository}/manifests/${tag}`, scope, { method: 'HEAD', headers: { Accept: MANIFEST_TYPES } });
+      return { tag, digest: head.ok ? head.headers.get('docker-content-digest') : null };
+    });
+    const resolved = heads.filter((h): h is { tag: string; digest: string } => !!h.digest);
+
+    const digests = [...new Set(resolved.map(h => h.digest))];
+    const created = new Map(await mapLimit(digests, 4, async d => [d, await this.createdAt(repository, d, scope)] as const));
+    return groupByDigest(resolved.map(h => ({ ...h, created_at: created.get(h.digest) ?? 0 })));
+  }
+
+  async verify(): Promise<void> {
+    const res = await this.get('', '');
+    if (!res.ok) throw new Error(`${this.registry.host} answered HTTP ${res.status}`);
+  }
+
+  async listRepositories(): Promise<RegistryImage[]> {
+    // The catalog endpoint is often disabled on hosted registries; registry:2 serves it
+    const res = await this.get('_catalog?n=1000', 'registry:catalog:*');
+    if (!res.ok) return [];
+    const repositories = (await res.json() as OciCatalog).repositories ?? [];
+    const prefix = this.registry.namespace ? `${this.registry.namespace}/` : '';
+    return repositories
+      .filter(r => r.startsWith(prefix))
+      .map(r => ({ name: r.split('/').pop()!, image: `${this.registry.host}/${r}:latest`, updated_at: '' }));
+  }
+}
+
+const PROVIDERS: Record<RegistryType, new (registry: RegistryConfig) => RegistryProvider> = {
+  ghcr: GhcrRegistry,
+  dockerhub: DockerHubRegistry,
+  oci: OciRegistry,
+};
+
+export const REGISTRY_TYPES = Object.keys(PROVIDERS) as RegistryType[];
+
+const CREDENTIAL_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+export const normalizeHost = (host: string) => {
+  const h = host.trim().replace(/^https?:\/\//, '').replace(/\/+$/, '').toLowerCase();
+  return DOCKER_HUB_ALIASES.includes(h) ? DOCKER_HUB : h;
+};
+
+// Returns an error message, or null if the credential can be saved. Password is optional on update
+export function validateCredential(c: Omit<RegistryCredential, 'id' | 'created_at' | 'updated_at'>, password: string | undefined, isUpdate: boolean): string | null {
+  if (!CREDENTIAL_NAME.test(c.name)) return 'Name must be letters, digits, ".", "_" or "-"';
+  if (!c.host || /[\s/]/.test(c.host)) return `Invalid registry host "${c.host}"`;
+  if (!REGISTRY_TYPES.includes(c.type)) return `Registry type must be one of: ${REGISTRY_TYPES.join(', ')}`;
+  if (!c.username) return 'Username is required';
+  if (!password && !isUpdate) return c.type === 'ghcr' ? 'A GitHub token with read:packages is required' : 'Password or access token is required';
+  if (c.namespace && !/^[a-z0-9][a-z0-9_./-]*$/.test(c.namespace)) return 'Namespace must be a lowercase repository prefix';
+  return null;
+}
+
+// Registry login plus a cache key that changes whenever the credential is edited
+type ResolvedRegistry = RegistryConfig & { key: string };
+
+// GHCR from GITHUB_PAT/DOCKER_USERNAME, used when no stored credential covers ghcr.io
+function builtinGhcr(): ResolvedRegistry | null {
+  if (!CONFIG.GITHUB_PAT) return null;
+  return {
+    key: 'env:ghcr.io',
+    host: 'ghcr.io',
+    type: 'ghcr',
+    username: CONFIG.DOCKER_USERNAME || 'token',
+    password: CONFIG.GITHUB_PAT,
+    namespace: CONFIG.DOCKER_USERNAME || 'iiitkota',
+  };
+}
+
+// The deprecated DOCKER_PASSWORD login, so upgrades keep pulling with it until it is stored as a credential
+function legacyLogin(): ResolvedRegistry | null {
+  if (!CONFIG.DOCKER_PASSWORD) return null;
+  const host = normalizeHost(CONFIG.DOCKER_SERVER_ADDRESS);
+  return {
+    key: `env-legacy:${host}`,
+    host,
+    type: host === 'ghcr.io' ? 'ghcr' : host === DOCKER_HUB ? 'dockerhub' : 'oci',
+    username: CONFIG.DOCKER_USERNAME || 'token',
+    password: CONFIG.DOCKER_PASSWORD,
+    namespace: host === 'ghcr.io' ? CONFIG.DOCKER_USERNAME || 'iiitkota' : undefined,
+  };
+}
+
+/**
+ * Resolves images to the registry that hosts them and the login to use. Stored
+ * credentials are read from the DB on each call, so edits apply without a restart.
+ * Unknown hosts are treated as anonymous registries (public images only).
+ */
+export class RegistryManager {
+  private providers = new Map<string, RegistryProvider>();
+  private versionCache = new Map<string, { at: number; versions: ImageVersion[] | null }>();
+
+  private unseal(c: RegistryCredential): ResolvedRegistry {
+    const sealed = DB.getRegistryPassword(c.id);
+    return {
+      key: `db:${c.id}:${c.updated_at}`,
+      host: c.host,
+      type: c.type,
+      username: c.username,
+      password: sealed ? decrypt(sealed) : undefined,
+      namespace: c.namespace,
+      insecure: c.insecure,
+    };
+  }
+
+  /**
+   * The named credential if given (it must belong to the image's host, so a login is
+   * never sent to another registry). Otherwise the stored credential for the host whose
+   * namespace prefixes the repository, then any for the host, then the deprecated
+   * DOCKER_PASSWORD login, then GITHUB_PAT for GHCR.
+   */
+  private resolve(ref: ImageRef, credential?: string): ResolvedRegistry {
+    const stored = DB.listRegistryCredentials();
+    if (credential) {
+      const named = stored.find(c => c.name === credential);
+      if (!named) throw new Error(`Registry credential "${credential}" not found`);
+      if (named.host !== ref.host) throw new Error(`Registry credential "${credential}" is for ${named.host}, not ${ref.host}`);
+      return this.unseal(named);
+    }
+
+    const forHost = stored.filter(c => c.host === ref.host);
+    const match = forHost.find(c => c.namespace && ref.repository.startsWith(`${c.namespace}/`)) ?? forHost[0];
+    if (match) return this.unseal(match);
+
+    const fromEnv = [legacyLogin(), builtinGhcr()].find(r => r?.host === ref.host);
+    if (fromEnv) return fromEnv;
+    return { key: `anon:${ref.host}`, host: ref.host, type: ref.host === DOCKER_HUB ? 'dockerhub' : 'oci' };
+  }
+
+  private providerFor(registry: ResolvedRegistry): RegistryProvider {
+    let provider = this.providers.get(registry.key);
+    if (!provider) {
+      provider = new PROVIDERS[registry.type](registry);
+      this.providers.set(registry.key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Published versions of an image's repository, newest first. Null if they can't be listed.
+   */
+  async listVersions(image: string, credential?: string): Promise<ImageVersion[] | null> {
+    const ref = parseImageRef(image);
+    const name = `${ref.host}/${ref.repository}`;
+    try {
+      const registry = this.resolve(ref, credential);
+      const key = `${registry.key}|${name}`;
+      const cached = this.versionCache.get(key);
+      if (cached && Date.now() - cached.at < VERSION_CACHE_MS) return cached.versions;
+
+      const versions = await this.providerFor(registry).listVersions(ref.repository).catch((e: any) => {
+        console.error(`Error listing versions of ${name}:`, e.message);
+        return null;
+      });
+      this.versionCache.set(key, { at: Date.now(), versions });
+      return versions;
+    } catch (e: any) {
+      console.error(`Error listing versions of ${name}:`, e.message);
+      return null;
+    }
+  }
+
+  /**
+   * Images offered under "Available to Install": every stored credential with a namespace
+   * (or a catalog), plus GITHUB_PAT's GHCR owner. The first registry to offer a name wins.
+   */
+  async listRepositories(): Promise<RegistryImage[]> {
+    const registries = DB.listRegistryCredentials().map(c => this.unseal(c));
+    const ghcr = builtinGhcr();
+    if (ghcr && !registries.some(r => r.host === ghcr.host && r.namespace === ghcr.namespace)) registries.unshift(ghcr);
+
+    const lists = await Promise.all(registries.map(r =>
+      this.providerFor(r).listRepositories().catch((e: any) => {
+        console.error(`Failed to list images of ${r.host}:`, e.message);
+        return [];
+      })));
+    const seen = new Set<string>();
+    return lists.flat().filter(img => !seen.has(img.name) && !!seen.add(img.name));
+  }
+
+  /**
+   * dockerode authconfig for pulling an image, or undefined for anonymous pulls.
+   * Throws if a named credential doesn't exist or belongs to another host.
+   */
+  authFor(image: string, credential?: string): { username: string; password: string; serveraddress: string } | undefined {
+    const registry = this.resolve(parseImageRef(image), credential);
+    if (!registry.username || !registry.password) return undefined;
+    return {
+      username: registry.username,
+      password: registry.password,
+      serveraddress: registry.host === DOCKER_HUB ? 'https://index.docker.io/v1/' : registry.host,
+    };
+  }
+
+  // Logs in with a stored credential; throws with the registry's answer on failure
+  async verify(credential: RegistryCredential): Promise<void> {
+    await this.providerFor(this.unseal(credential)).verify();
+  }
+}
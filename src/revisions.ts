@@ -0,0 +1,38 @@
+import { DB } from './db';
+import { envHash } from './envversions';
+import type { DockerManager } from './docker';
+import type { DockerServiceConfig, ServiceRevision, User } from './types';
+
+export class RevisionManager {
+  constructor(private dockerMgr: DockerManager) {}
+
+  envHash(serviceName: string): string {
+    return envHash(this.dockerMgr.readEnv(serviceName));
+  }
+
+  /**
+   * Snapshot a successful deploy as the next numbered revision of the service.
+   */
+  async record(serviceName: string, image: string, config: DockerServiceConfig, user: User, source: ServiceRevision['source']): Promise<ServiceRevision> {
+    // Rollbacks deploy "repo:tag@digest"; keep the plain tag as the image
+    const [plainImage, pinnedDigest] = image.split('@');
+    const digest = pinnedDigest || await this.dockerMgr.getImageRepoDigest(image);
+
+    return DB.addRevision({
+      service: serviceName,
+      image: plainImage,
+      digest,
+      config: { ...config, image: plainImage },
+      env_hash: this.envHash(serviceName),
+      source,
+      actor: user.username,
+    });
+  }
+
+  /**
+   * Image reference to redeploy a revision exactly, pinned by digest when we have one.
+   */
+  deployImage(rev: ServiceRevision): string {
+    return rev.digest ? `${rev.image}@${rev.digest}` : rev.image;
+  }
+}
@@ -0,0 +1,55 @@
+import { DB } from './db';
+import { decrypt } from './vault';
+import { SECRET_REF, secretRefs } from './envfile';
+
+const SECRET_NAME = /^[A-Za-z0-9_.-]{1,128}$/;
+const MAX_SECRET_BYTES = 64 * 1024;
+
+export function validateSecretName(name: string): string | null {
+  if (!SECRET_NAME.test(name)) return 'Secret names may only contain letters, digits, ".", "_" and "-"';
+  return null;
+}
+
+export function validateSecretValue(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return 'Secret value is required';
+  if (Buffer.byteLength(value) > MAX_SECRET_BYTES) return 'Secret value is larger than 64 KiB';
+  return null;
+}
+
+// References in the env file without a stored secret
+export function missingSecrets(service: string, content: string): string[] {
+  const stored = new Set(DB.listSecrets(service).map(s => s.name));
+  return secretRefs(content).filter(name => !stored.has(name));
+}
+
+function unquote(value: string): string {
+  const quoted = value.match(/^(['"])(.*)\1$/);
+  return quoted ? quoted[2] : value;
+}
+
+// Single quotes are taken literally by compose; fall back to escaped double quotes
+function quote(value: string): string {
+  if (!value.includes("'") && !value.includes('\n')) return `'${value}'`;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\$/g, '$$$$')}"`;
+}
+
+/**
+ * Substitutes ${secret:name} references with decrypted values, for the env file handed
+ * to `docker compose up`. Lines without references are passed through untouched.
+ */
+export function materializeEnv(service: string, content: string): string {
+  const missing = missingSecrets(service, content);
+  if (missing.length) throw new Error(`Missing secret(s) for ${service}: ${missing.join(', ')}`);
+
+  const values = new Map<string, string>();
+  const valueOf = (name: string) => {
+    if (!values.has(name)) values.set(name, decrypt(DB.getSecretValue(service, name)!));
+    return values.get(name)!;
+  };
+
+  return content.split('\n').map(line => {
+    const match = line.match(/^(\s*[A-Za-z_][A-Za-z0-9_]*=)(.*)$/);
+    if (!match || !secretRefs(match[2]).length) return line;
+    return match[1] + quote(unquote(match[2].trim()).replace(SECRET_REF, (_, name: string) => valueOf(name)));
+  }).join('\n');
+}
@@ -0,0 +1,90 @@
+import { DB } from './db';
+import { systemActor } from './auth';
+import type { DockerManager } from './docker';
+import { decrypt, encrypt } from './vault';
+import type { DockerServiceConfig, StagedConfig, User } from './types';
+
+const STAGED_CONFIG_KEYS: (keyof StagedConfig)[] = [
+  'hostPort', 'containerPort', 'domain', 'clientMaxBodySize', 'cpuLimit', 'memoryLimit',
+  'restartPolicy', 'healthcheck', 'updateStrategy', 'autoDeploy', 'registryCredential', 'volumes', 'envGroups',
+];
+
+// The stageable part of a config as sent by the UI (which posts the whole config)
+export function pickStagedConfig(config: DockerServiceConfig): StagedConfig {
+  const picked: StagedConfig = {};
+  for (const key of STAGED_CONFIG_KEYS) {
+    if (config[key] !== undefined && config[key] !== null) (picked as Record<string, unknown>)[key] = config[key];
+  }
+  return picked;
+}
+
+// Staged fields replace the current ones; a field missing from the staged config is unset
+export function mergeStagedConfig(current: DockerServiceConfig, staged: StagedConfig): DockerServiceConfig {
+  const merged: DockerServiceConfig = { ...current };
+  for (const key of STAGED_CONFIG_KEYS) delete merged[key];
+  return { ...merged, ...staged };
+}
+
+interface StagingHandlers {
+  apply: (service: string, strategy: 'recreate' | 'blue-green', actor: User) => Promise<unknown>;
+}
+
+/**
+ * Applies staged changes whose scheduled time has passed, one service at a time,
+ * with each service's own update strategy. Failures are kept on the staged row.
+ * A staged env is encrypted with the vault key, like saved env versions.
+ */
+export class StagingManager {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(private dockerMgr: DockerManager, private handlers: StagingHandlers) {
+    // Encrypt envs staged in plaintext by earlier releases
+    for (const { service, env } of DB.listUnsealedStagedEnvs()) DB.setStagedEnv(service, encrypt(env));
+  }
+
+  stageEnv(service: string, content: string, actor: string) {
+    DB.stageChanges(service, { env: encrypt(content), config: null }, actor);
+  }
+
+  // The staged .env of a service, or null if only config (or nothing) is staged
+  env(service: string): string | null {
+    const sealed = DB.getStagedChanges(service)?.env ?? null;
+    return sealed === null ? null : decrypt(sealed);
+  }
+
+  // Strategy a scheduled apply uses: blue/green only where it can work
+  scheduledStrategy(service: string): 'recreate' | 'blue-green' {
+    const staged = DB.getStagedChanges(service);
+    const current = this.dockerMgr.readConfig(service) ?? {};
+    const config = staged?.config ? mergeStagedConfig(current, staged.config) : current;
+    return config.updateStrategy === 'blue-green' && config.domain && current.image ? 'blue-green' : 'recreate';
+  }
+
+  async applyDue(now = Date.now()) {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (const staged of DB.listStagedChanges()) {
+        if (staged.scheduled_at === null || staged.scheduled_at > now) continue;
+        // Who scheduled it goes into the audit payload; the actor is the scheduler itself
+        await this.handlers.apply(staged.service, this.scheduledStrategy(staged.service), systemActor('scheduler'))
+          .catch(e => console.error(`Scheduled apply for ${staged.service} failed:`, e.message));
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Check for due schedules at the top of each minute.
+   */
+  startScheduler() {
+    if (this.timer) return;
+    const tick = () => {
+      this.applyDue();
+      this.timer = setTimeout(tick, 60_000 - (Date.now() % 60_000));
+    };
+    this.timer = setTimeout(tick, 60_000 - (Date.now() % 60_000));
+  }
+}
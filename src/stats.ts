@@ -0,0 +1,49 @@
+import type Docker from 'dockerode';
+import type { ResourceStats } from './types';
+
+/**
+ * Reduce a raw Docker stats sample to the numbers we chart, using the same
+ * formulas as the `docker stats` CLI (cgroup v1 and v2).
+ */
+export function toResourceStats(raw: Docker.ContainerStats, cpuLimit: number | null): ResourceStats {
+  const cpuDelta = (raw.cpu_stats?.cpu_usage?.total_usage ?? 0) - (raw.precpu_stats?.cpu_usage?.total_usage ?? 0);
+  const systemDelta = (raw.cpu_stats?.system_cpu_usage ?? 0) - (raw.precpu_stats?.system_cpu_usage ?? 0);
+  const cpus = raw.cpu_stats?.online_cpus || raw.cpu_stats?.cpu_usage?.percpu_usage?.length || 1;
+  const cpuPercent = cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * cpus * 100 : 0;
+
+  // v2 reports inactive_file, v1 total_inactive_file
+  const mem = raw.memory_stats ?? ({} as Docker.MemoryStats);
+  const cache = mem.stats?.inactive_file ?? mem.stats?.total_inactive_file ?? 0;
+  const memoryUsage = Math.max((mem.usage ?? 0) - cache, 0);
+  const memoryLimit = mem.limit ?? 0;
+
+  let networkRx = 0, networkTx = 0;
+  for (const net of Object.values(raw.networks ?? {})) {
+    networkRx += net.rx_bytes;
+    networkTx += net.tx_bytes;
+  }
+
+  let blockRead = 0, blockWrite = 0;
+  for (const entry of raw.blkio_stats?.io_service_bytes_recursive ?? []) {
+    const op = entry.op.toLowerCase();
+    if (op === 'read') blockRead += entry.value;
+    else if (op === 'write') blockWrite += entry.value;
+  }
+
+  // Stopped containers report a zero "read" time
+  const read = Date.parse(raw.read);
+
+  return {
+    timestamp: read > 0 ? read : Date.now(),
+    cpuPercent: Math.round(cpuPercent * 100) / 100,
+    cpuLimit,
+    memoryUsage,
+    memoryLimit,
+    memoryPercent: memoryLimit ? Math.round((memoryUsage / memoryLimit) * 10000) / 100 : 0,
+    networkRx,
+    networkTx,
+    blockRead,
+    blockWrite,
+    pids: raw.pids_stats?.current ?? 0,
+  };
+}
@@ -0,0 +1,202 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CONFIG } from './config';
+import { DB } from './db';
+import { ENV_ADMIN_ID } from './auth';
+import { decrypt, encrypt } from './vault';
+import type { User } from './types';
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1; // Also accept the codes just before and after (clock drift, slow typing)
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CHALLENGE_ATTEMPTS = 5; // Then the password has to be entered again
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0, value = 0, out = '';
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  let bits = 0, value = 0;
+  const out: number[] = [];
+  for (const ch of input.toUpperCase().replace(/[\s=]/g, '')) {
+    const index = BASE32.indexOf(ch);
+    if (index < 0) throw new Error(`Invalid base32 character: ${ch}`);
+    value = ((value << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+// RFC 4226 with HMAC-SHA1, which is what authenticator apps expect
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const mac = createHmac('sha1', key).update(message).digest();
+  const offset = mac[mac.length - 1] & 0xf;
+  return String((mac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export const timeStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+// The time step the code belongs to, or null. Steps up to lastStep were used already and don't count
+export function verifyTotp(secret: string, code: string, lastStep: number, now = Date.now()): number | null {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+  const key = base32Decode(secret);
+  const current = timeStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (step > lastStep && timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+export function otpauthUri(secret: string, account: string): string {
+  const issuer = CONFIG.TWO_FACTOR.ISSUER;
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?${params}`;
+}
+
+// Recovery codes look like "7f3a9-c21e0"; case, dashes and spaces don't matter when typed back
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+const hashRecoveryCode = (code: string) => createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+function newRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+interface Challenge {
+  userId: number;
+  attempts: number;
+  expiresAt: number;
+}
+
+export interface TwoFactorStatus {
+  supported: boolean;
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_left: number;
+}
+
+/**
+ * TOTP second factor for password logins of database users. Login challenges
+ * (password checked, code still missing) live in memory.
+ */
+export class TwoFactorManager {
+  private challenges = new Map<string, Challenge>();
+
+  // The env admin has no database row, and SSO users get their second factor from the identity provider
+  supports(user: User): boolean {
+    return user.id !== ENV_ADMIN_ID && !user.sso;
+  }
+
+  enabled(user: User): boolean {
+    return this.supports(user) && !!user.two_factor;
+  }
+
+  // Admin rights (when REQUIRE_2FA_FOR_ADMINS is set) or a role that requires it, held directly or via a group
+  required(user: User): boolean {
+    if (!this.supports(user)) return false;
+    if (CONFIG.TWO_FACTOR.REQUIRE_FOR_ADMINS && (user.is_admin || !!user.admin_of?.length)) return true;
+    const strict = new Set(DB.listRoles().filter(r => r.require_2fa).map(r => r.name));
+    if (!strict.size) return false;
+    const grants = [...user.permissions, ...(user.groups ?? []).flatMap(g => g.permissions)];
+    return grants.some(p => p.role && p.effect !== 'deny' && strict.has(p.role));
+  }
+
+  status(user: User): TwoFactorStatus {
+    return {
+      supported: this.supports(user),
+      enabled: this.enabled(user),
+      required: this.required(user),
+      recovery_codes_left: this.enabled(user) ? DB.recoveryCodesLeft(user.id) : 0,
+    };
+  }
+
+  // Starts (or restarts) enrollment. The secret only takes effect once a code from it is confirmed
+  setup(user: User): { secret: string; uri: string } {
+    const secret = base32Encode(randomBytes(20));
+    DB.savePendingTotp(user.id, encrypt(secret));
+    return { secret, uri: otpauthUri(secret, user.username) };
+  }
+
+  // Finishes enrollment with a first code. Returns the recovery codes, or null if the code is wrong
+  enable(user: User, code: string): string[] | null {
+    const credential = DB.getTotp(user.id);
+    if (!credential || credential.enabled_at) return null;
+    const step = verifyTotp(decrypt(credential.secret), code.replace(/\s/g, ''), credential.last_step);
+    if (step === null) return null;
+    const codes = newRecoveryCodes();
+    DB.enableTotp(user.id, step, codes.map(hashRecoveryCode));
+    return codes;
+  }
+
+  // A current code from the app, or an unused recovery code (which is then spent)
+  verify(user: User, code: string): 'totp' | 'recovery' | null {
+    const credential = DB.getTotp(user.id);
+    if (!credential?.enabled_at) return null;
+    const step = verifyTotp(decrypt(credential.secret), code.replace(/\s/g, ''), credential.last_step);
+    if (step !== null) {
+      DB.setTotpStep(user.id, step);
+      return 'totp';
+    }
+    if (normalizeRecoveryCode(code).length !== 10) return null;
+    return DB.useRecoveryCode(user.id, hashRecoveryCode(code)) ? 'recovery' : null;
+  }
+
+  regenerateRecoveryCodes(user: User): string[] {
+    const codes = newRecoveryCodes();
+    DB.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+    return codes;
+  }
+
+  disable(user: User): boolean {
+    return DB.disableTotp(user.id);
+  }
+
+  startChallenge(user: User): string {
+    const now = Date.now();
+    for (const [token, c] of this.challenges) if (c.expiresAt < now) this.challenges.delete(token);
+    const token = randomBytes(32).toString('hex');
+    this.challenges.set(token, { userId: user.id, attempts: 0, expiresAt: now + CHALLENGE_TTL_MS });
+    return token;
+  }
+
+  // The user a live challenge belongs to, without counting an attempt (enrollment setup)
+  challengeUser(token: string): User | null {
+    const challenge = this.challenges.get(token);
+    if (!challenge || challenge.expiresAt < Date.now()) return null;
+    return DB.getUserById(challenge.userId);
+  }
+
+  // Counts a code attempt; the challenge is gone once it runs out of attempts
+  attempt(token: string): { user: User; attemptsLeft: number } | null {
+    const user = this.challengeUser(token);
+    const challenge = this.challenges.get(token);
+    if (!user || !challenge) return null;
+    challenge.attempts++;
+    if (challenge.attempts >= CHALLENGE_ATTEMPTS) this.challenges.delete(token);
+    return { user, attemptsLeft: CHALLENGE_ATTEMPTS - challenge.attempts };
+  }
+
+  endChallenge(token: string) {
+    this.challenges.delete(token);
+  }
+}
@@ -1,3 +1,133 @@
+export interface HealthCheckConfig {
+  type: 'http' | 'command';
+  path?: string;        // HTTP: path probed on the container port (e.g. "/health")
+  command?: string;     // Command: shell command run inside the container
+  interval?: string;    // e.g. "30s"
+  timeout?: string;     // e.g. "5s"
+  retries?: number;
+  startPeriod?: string; // Grace period before failures count, e.g. "10s"
+}
+
+export interface VolumeMount {
+  type: 'volume' | 'bind';
+  source: string;       // Volume: name (scoped to the service). Bind: absolute host path under BIND_MOUNT_ROOTS
+  target: string;       // Absolute path inside the container
+  readOnly?: boolean;
+}
+
+export interface BackupPolicy {
+  schedule?: string;   // 5-field cron (server local time) or @hourly/@daily/@weekly
+  retention?: number;  // Archives kept per service, oldest pruned first
+}
+
+// Registry version of an image (one manifest, any number of tags)
+export interface ImageVersion {
+  digest: string;
+  tags: string[];
+  created_at: number;
+}
+
+export type RegistryType = 'ghcr' | 'dockerhub' | 'oci';
+
+/**
+ * A registry login as the providers use it. `namespace` is the owner/org listed under
+ * "Available to Install"; `insecure` talks plain HTTP (local registry:2).
+ */
+export interface RegistryConfig {
+  host: string;
+  type: RegistryType;
+  username?: string;
+  password?: string;
+  namespace?: string | null;
+  insecure?: boolean;
+}
+
+// Stored registry login. The password is encrypted in the DB and never returned
+export interface RegistryCredential {
+  id: number;
+  name: string;
+  host: string;
+  type: RegistryType;
+  username: string;
+  namespace: string | null;
+  insecure: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+// Service secret, referenced from the env file as ${secret:name}. The value is encrypted and never listed
+export interface Secret {
+  id: number;
+  service: string;
+  name: string;
+  updated_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
+// Named env values shared by several services (SMTP, Sentry, ...). Services attach it by name in config.envGroups
+export interface EnvGroup {
+  id: number;
+  name: string;
+  description: string | null;
+  content: string; // .env format; ${secret:name} references resolve against each service's own secrets
+  updated_by: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface RegistryImage {
+  name: string;
+  image: string;
+  updated_at: string;
+}
+
+/**
+ * Background image update policy.
+ * - exact:   follow one tag (pattern, or the current tag) and update when it moves to a new digest
+ * - numeric: all-digit tags such as "0005", highest number wins
+ * - semver:  highest version satisfying the range in pattern (e.g. "^1.2.0", "~2.1", ">=1.0.0 <2.0.0")
+ * - regex:   most recently pushed tag matching pattern
+ */
+export interface UpdatePolicy {
+  mode: 'off' | 'notify' | 'auto';
+  match: 'exact' | 'numeric' | 'semver' | 'regex';
+  pattern?: string;
+  window?: MaintenanceWindow; // auto mode only deploys inside it; unset = any time
+}
+
+// Server local time. end < start wraps past midnight
+export interface MaintenanceWindow {
+  days?: number[]; // 0 = Sunday. Unset = every day
+  start: string;   // HH:MM
+  end: string;     // HH:MM
+}
+
+// Outcome of the latest policy evaluation for a service
+export interface UpdateCheck {
+  service: string;
+  checked_at: number;
+  current_tag: string;
+  candidate_tag: string | null;
+  candidate_digest: string | null;
+  reason: string;
+  action: 'none' | 'notified' | 'deployed' | 'deferred' | 'failed';
+  error: string | null;
+}
+
+/**
+ * One key of a service's env schema. Values containing ${secret:...} references are only
+ * checked for presence, their type is not known before compose-up.
+ */
+export interface EnvSchemaEntry {
+  key: string;
+  type?: 'string' | 'int' | 'url' | 'bool' | 'enum'; // Default: string
+  required?: boolean;
+  default?: string;      // Used at compose-up when the key is missing; satisfies required
+  description?: string;
+  values?: string[];     // enum only
+}
+
 export interface DockerServiceConfig {
   cpuLimit?: string;
   memoryLimit?: string;
@@ -8,11 +138,49 @@ export interface DockerServiceConfig {
   clientMaxBodySize?: string;
   imageTag?: string; // Tag specific (e.g. "latest", "v1")
   image?: string;    // Full image name (e.g. "nginx:alpine")
+  healthcheck?: HealthCheckConfig;
+  updateStrategy?: 'recreate' | 'blue-green'; // Default for image updates of a running service
+  autoDeploy?: boolean; // Redeploy when the registry webhook reports a push of the tracked tag
+  updatePolicy?: UpdatePolicy;
+  registryCredential?: string; // Credential name for pulls & version lookups. Unset = picked by image host
+  volumes?: VolumeMount[];
+  backup?: BackupPolicy;
+  envSchema?: EnvSchemaEntry[]; // Optional; saves of .env are validated against it
+  envGroups?: string[];         // Attached env groups. Later groups override earlier ones, the service's .env overrides all
 }
 
+export type Action = 'pull_new_image' | 'add_new_service' | 'view_status' | 'manage' | 'view_configuration' | 'edit_configuration' | 'view_env' | 'edit_env' | 'reveal_secret' | 'view_logs' | 'admin';
+
+/**
+ * One grant of a user or user group: an action or a whole role on a scope.
+ * Exactly one of action / role is set. A matching deny beats any allow.
+ */
 export interface Permission {
-  scope: string; // 'global' | 'service:{name}'
-  action: 'pull_new_image' | 'add_new_service' | 'view_status' | 'manage' | 'view_configuration' | 'edit_configuration' | 'view_env' | 'edit_env' | 'view_logs' | 'admin'; 
+  scope: string; // 'global' | 'service:{name}'. '*' matches anything, e.g. 'service:alumni-*'
+  action?: Action;
+  role?: string; // Role name
+  effect?: 'allow' | 'deny'; // Default: allow
+}
+
+// Named set of actions, granted like a single action
+export interface Role {
+  id: number;
+  name: string;
+  description: string | null;
+  actions: Action[];
+  require_2fa: boolean; // Password logins of anyone granted the role need a TOTP code
+  created_at: number;
+  updated_at: number;
+}
+
+// Users in a group get the group's permissions on top of their own
+export interface UserGroup {
+  id: number;
+  name: string;
+  description: string | null;
+  members: string[]; // Usernames
+  permissions: Permission[];
+  created_at: number;
 }
 
 export interface User {
@@ -20,7 +188,231 @@ export interface User {
   username: string;
   password_hash: string;
   is_admin: boolean; // Backwards compatibility/Super admin
-  permissions: Permission[];
+  permissions: Permission[]; // Granted to the user directly
+  groups?: { name: string; permissions: Permission[] }[];
+  admin_of?: string[]; // Projects the user administers
+  sso?: boolean; // Provisioned by an OIDC login; no usable password unless one is set
+  two_factor?: boolean; // TOTP enabled
+}
+
+// Secret is sealed with the master key. Enrollment is pending until enabled_at is set
+export interface TotpCredential {
+  user_id: number;
+  secret: string;
+  enabled_at: number | null;
+  last_step: number; // Last accepted time step; codes can't be replayed
+  created_at: number;
+}
+
+/**
+ * Turns an ID token claim into group membership or admin rights on every SSO login.
+ * A claim matches if it equals the value or, for list claims like groups, contains it.
+ */
+export interface SsoMapping {
+  id: number;
+  claim: string;
+  value: string;
+  group: string | null; // User group to put the user in
+  is_admin: boolean;
+  created_at: number;
+}
+
+/** Services grouped for delegated administration. A service belongs to at most one project. */
+export interface Project {
+  id: number;
+  name: string;
+  description: string | null;
+  services: string[];
+  admins: string[]; // Usernames; they manage the project's members and hold every service action in it
+  members: string[]; // Usernames, admins not included
+  created_at: number;
+}
+
+export interface Session {
+  id: number;
+  user_id: number; // 0 = env admin
+  username: string;
+  expires_at: number;
+  refresh_expires_at: number;
+}
+
+export interface ApiKey {
+  id: number;
+  user_id: number; // 0 = env admin
+  username: string;
+  name: string;
+  prefix: string; // First chars of the key, for display only
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+export type AuditResult = 'success' | 'failure';
+
+export interface AuditEvent {
+  id: number;
+  actor: string;
+  action: string;   // e.g. 'service.update', 'env.update', 'user.permissions'
+  scope: string;    // 'global' | 'service:{name}' | 'user:{name}'
+  payload: unknown; // Redacted diff / request details (stored as JSON)
+  result: AuditResult;
+  error: string | null;
+  created_at: number;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string;
+  scope?: string;
+  result?: AuditResult;
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ServiceRevision {
+  id: number;
+  service: string;
+  revision: number;
+  image: string;          // Image reference as deployed (tag)
+  digest: string | null;  // Registry digest resolved at deploy time
+  config: DockerServiceConfig;
+  env_hash: string;
+  source: 'deploy' | 'env' | 'rollback' | 'restore' | 'webhook' | 'auto-update' | 'staged' | 'env_group';
+  actor: string;
+  created_at: number;
+}
+
+// Deploy-affecting config fields that can be staged. Update and backup policies save without a redeploy
+export type StagedConfig = Pick<DockerServiceConfig, 'hostPort' | 'containerPort' | 'domain' | 'clientMaxBodySize' | 'cpuLimit' | 'memoryLimit' |
+  'restartPolicy' | 'healthcheck' | 'updateStrategy' | 'autoDeploy' | 'registryCredential' | 'volumes' | 'envGroups'>;
+
+/**
+ * Env and/or config changes saved for a service but not deployed yet. At most one set per service;
+ * staging again replaces the staged env or config.
+ */
+export interface StagedChanges {
+  service: string;
+  env: string | null;
+  config: StagedConfig | null;
+  staged_by: string;
+  updated_at: number;
+  scheduled_at: number | null; // Applied by the scheduler at this time, with the service's update strategy
+  scheduled_by: string | null;
+  error: string | null;        // Last failed apply; the changes stay staged
+}
+
+export type ApplyStrategy = 'recreate' | 'blue-green' | 'scheduled';
+
+// Saved state of a service's .env. Content is only returned by the diff and revert endpoints
+export interface EnvVersion {
+  id: number;
+  service: string;
+  version: number;
+  hash: string;                  // sha256 of the content, same as ServiceRevision.env_hash
+  source: 'initial' | 'save' | 'revert'; // initial: the file as found before its first recorded save
+  reverted_from: number | null;  // Version restored by a revert
+  actor: string;
+  created_at: number;
+}
+
+export interface Backup {
+  id: number;
+  service: string;
+  file: string;         // Archive path under BACKUP_DIR
+  size: number;         // Bytes
+  volumes: string[];    // Docker volume names included
+  trigger: 'manual' | 'schedule';
+  actor: string;
+  created_at: number;
+}
+
+export interface ResourceStats {
+  timestamp: number;
+  cpuPercent: number;        // 100 = one full core
+  cpuLimit: number | null;   // Cores, from the service config
+  memoryUsage: number;       // Bytes, page cache excluded (like `docker stats`)
+  memoryLimit: number;
+  memoryPercent: number;
+  networkRx: number;         // Cumulative bytes
+  networkTx: number;
+  blockRead: number;         // Cumulative bytes
+  blockWrite: number;
+  pids: number;
+}
+
+export type MetricResolution = 'raw' | '1m' | '1h';
+
+// One stored sample or downsampled bucket. I/O values are bytes per second
+export interface MetricPoint {
+  ts: number;
+  cpu: number;
+  cpuMax: number;
+  memory: number;
+  memoryMax: number;
+  memoryLimit: number;
+  networkRx: number;
+  networkTx: number;
+  blockRead: number;
+  blockWrite: number;
+  pids: number;
+}
+
+// Container lifecycle event from the Docker daemon, resolved to our service name
+export interface ContainerEvent {
+  service: string;
+  containerId: string;
+  action: string;         // start, die, stop, kill, oom, restart, destroy, health_status, ...
+  status?: string;        // health_status: healthy | unhealthy
+  exitCode?: number;
+  image?: string;
+  time: number;
+}
+
+export type AlertChannelType = 'webhook' | 'slack' | 'discord' | 'smtp';
+
+export interface AlertChannel {
+  id: number;
+  name: string;
+  type: AlertChannelType;
+  target: string;   // Webhook URL, or comma separated addresses for smtp
+  enabled: boolean;
+  created_at: number;
+}
+
+export type AlertRuleType = 'container_event' | 'restart_count' | 'cpu' | 'memory' | 'deploy_failed' | 'update_available';
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  type: AlertRuleType;
+  service: string;          // Service name or '*'
+  events: string[];         // container_event: actions such as "die", "oom", "health_status:unhealthy"
+  threshold: number | null; // restart_count: restarts; cpu/memory: percent of limit
+  window_seconds: number;   // restart_count: counting window; cpu/memory: how long the breach must last
+  cooldown_seconds: number; // Identical alerts inside this window are suppressed
+  channels: number[];
+  enabled: boolean;
+  created_at: number;
+}
+
+export interface AlertDelivery {
+  channel: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface AlertRecord {
+  id: number;
+  rule_id: number;
+  rule_name: string;
+  service: string;
+  title: string;
+  message: string;
+  deliveries: AlertDelivery[];
+  suppressed: number;       // Repeats swallowed by the cooldown since this alert was sent
+  created_at: number;
 }
 
 export interface ServicePayload {
@@ -28,6 +420,7 @@ export interface ServicePayload {
   image: string;
   config: DockerServiceConfig;
   recreate?: boolean;
+  strategy?: 'recreate' | 'blue-green'; // Overrides config.updateStrategy for this request
 }
 
 export interface NginxConfig {
@@ -53,6 +446,7 @@ export interface EnrichedService {
       edit_config: boolean;
       view_env: boolean;
       edit_env: boolean;
+      reveal_secret: boolean;
       view_logs: boolean;
   };
 }
\ No newline at end of file
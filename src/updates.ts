@@ -0,0 +1,276 @@
+import { CONFIG } from './config';
+import { DB } from './db';
+import { splitImage, withTag, type DockerManager } from './docker';
+import type { DockerServiceConfig, ImageVersion, MaintenanceWindow, UpdateCheck, UpdatePolicy } from './types';
+
+const MODES: UpdatePolicy['mode'][] = ['off', 'notify', 'auto'];
+const MATCHERS: UpdatePolicy['match'][] = ['exact', 'numeric', 'semver', 'regex'];
+const SEMVER_TAG = /^v?\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+const NUMERIC_TAG = /^\d+$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_PATTERN_LENGTH = 100;
+const MAX_REPEAT_COUNT = 32; // Largest n in {n} / {n,m}; tags are at most 128 characters anyway
+const MAX_UNBOUNDED = 4; // Open-ended quantifiers per pattern; .*.*.*.*.* on a 128-character tag already takes a second
+
+/**
+ * Why a tag pattern could backtrack catastrophically, or null. A group is risky when it holds a
+ * quantifier or alternatives at any depth; repeating a risky group, as in (a+)+, ((a+))+ or (.*a){20},
+ * is what makes matching time explode. Syntax errors are left to RegExp.
+ */
+function backtrackRisk(pattern: string): string | null {
+  const groups: boolean[] = []; // Riskiness of each open group
+  let closedRisky = false; // The atom just before the current position is a risky group
+  let unbounded = 0;
+  const markRisky = () => {
+    if (groups.length) groups[groups.length - 1] = true;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const atomWasRiskyGroup = closedRisky;
+    closedRisky = false;
+
+    if (ch === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return 'backreferences are not supported';
+      i++;
+    } else if (ch === '[') {
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) if (pattern[i] === '\\') i++;
+    } else if (ch === '(') {
+      groups.push(false);
+      const prefix = pattern.slice(i + 1).match(/^\?(?::|=|!|<=|<!|<[A-Za-z_]\w*>)/);
+      if (prefix) i += prefix[0].length;
+    } else if (ch === ')') {
+      const risky = groups.pop() ?? false;
+      if (risky) markRisky();
+      closedRisky = risky;
+    } else if (ch === '|') {
+      markRisky();
+    } else if (ch === '*' || ch === '+' || ch === '?' || ch === '{') {
+      const counted = ch === '{' ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/) : null;
+      if (ch === '{' && !counted) continue; // A literal brace
+      const min = counted ? Number(counted[1]) : 0;
+      const max = counted ? (counted[2] ? (counted[3] ? Number(counted[3]) : Infinity) : min) : ch === '?' ? 1 : Infinity;
+      if (min > MAX_REPEAT_COUNT || (max !== Infinity && max > MAX_REPEAT_COUNT)) return `repeat counts above ${MAX_REPEAT_COUNT} are not supported`;
+      if (max > 1 && atomWasRiskyGroup) return 'it repeats a group that holds quantifiers or alternatives, like (a+)+';
+      if (max === Infinity && ++unbounded > MAX_UNBOUNDED) return `more than ${MAX_UNBOUNDED} open-ended quantifiers (*, + or {n,})`;
+      markRisky();
+      if (counted) i += counted[0].length - 1;
+      if (pattern[i + 1] === '?') i++; // Lazy modifier
+    }
+  }
+  return null;
+}
+
+const compiled = new Map<string, RegExp>(); // By pattern; the poller runs the same few on every tag, every poll
+
+/**
+ * Compiles a user-supplied tag pattern once. Patterns run against every tag of the registry on each
+ * poll, so long ones and ones prone to catastrophic backtracking are refused. Throws with the reason.
+ */
+export function compileTagPattern(pattern: string): RegExp {
+  const cached = compiled.get(pattern);
+  if (cached) return cached;
+  if (pattern.length > MAX_PATTERN_LENGTH) throw new Error(`Regex is longer than ${MAX_PATTERN_LENGTH} characters`);
+  const risk = backtrackRisk(pattern);
+  if (risk) throw new Error(`Regex can take forever to match: ${risk}`);
+  const re = new RegExp(pattern);
+  compiled.set(pattern, re);
+  return re;
+}
+
+// Returns an error message, or null if the policy can be saved
+export function validateUpdatePolicy(p: UpdatePolicy): string | null {
+  if (!MODES.includes(p.mode)) return `Mode must be one of: ${MODES.join(', ')}`;
+  if (!MATCHERS.includes(p.match)) return `Tag matching must be one of: ${MATCHERS.join(', ')}`;
+  if (p.match === 'regex') {
+    if (!p.pattern) return 'A regex pattern is required';
+    try {
+      compileTagPattern(p.pattern);
+    } catch (e: any) {
+      return `Invalid regex: ${e.message}`;
+    }
+  }
+  if (p.window) {
+    if (!TIME.test(p.window.start) || !TIME.test(p.window.end)) return 'Maintenance window times must be HH:MM';
+    if (p.window.start === p.window.end) return 'Maintenance window start and end must differ';
+    if (p.window.days && !p.window.days.every(d => Number.isInteger(d) && d >= 0 && d <= 6)) return 'Maintenance window days must be 0 (Sunday) to 6';
+  }
+  return null;
+}
+
+const minutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * Whether `now` falls inside the window. A window ending before it starts runs past
+ * midnight and belongs to the day it started on.
+ */
+export function inMaintenanceWindow(window: MaintenanceWindow | undefined, now: Date): boolean {
+  if (!window) return true;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = minutes(window.start);
+  const end = minutes(window.end);
+
+  let day = now.getDay();
+  if (start < end) {
+    if (current < start || current >= end) return false;
+  } else if (current < end) {
+    day = (day + 6) % 7; // Early-morning part of a window that opened yesterday
+  } else if (current < start) {
+    return false;
+  }
+  return !window.days?.length || window.days.includes(day);
+}
+
+export type UpdateSelection =
+  | { tag: string; digest: string; reason: string }
+  | { tag: null; reason: string };
+
+const short = (digest: string | null) => digest ? digest.replace('sha256:', '').slice(0, 12) : 'unknown';
+const stripV = (tag: string) => tag.replace(/^v/, '');
+
+/**
+ * Picks the tag a policy wants to run, given the registry's versions (newest first)
+ * and what is deployed now. The reason is kept with the check and the audit event.
+ */
+export function selectUpdate(current: { tag: string; digest: string | null }, versions: ImageVersion[], policy: UpdatePolicy): UpdateSelection {
+  const tagged = versions.flatMap(v => v.tags.map(tag => ({ tag, digest: v.digest, created_at: v.created_at })));
+  let pick: { tag: string; digest: string; reason: string };
+
+  switch (policy.match) {
+    case 'exact': {
+      const tag = policy.pattern || current.tag;
+      const found = tagged.find(t => t.tag === tag);
+      if (!found) return { tag: null, reason: `Tag "${tag}" not found in the registry` };
+      pick = {
+        ...found,
+        reason: tag === current.tag
+          ? `exact: "${tag}" now points to ${short(found.digest)} (running ${short(current.digest)})`
+          : `exact: policy follows "${tag}"`,
+      };
+      break;
+    }
+    case 'numeric': {
+      const numbered = tagged.filter(t => NUMERIC_TAG.test(t.tag));
+      if (!numbered.length) return { tag: null, reason: 'No numeric tags in the registry' };
+      const best = numbered.reduce((a, b) => BigInt(b.tag) > BigInt(a.tag) ? b : a);
+      if (NUMERIC_TAG.test(current.tag) && BigInt(best.tag) <= BigInt(current.tag)) {
+        return { tag: null, reason: `${current.tag} is the highest numeric tag` };
+      }
+      pick = { ...best, reason: `numeric: ${best.tag} is the highest numeric tag (running ${current.tag})` };
+      break;
+    }
+    case 'semver': {
+      const range = policy.pattern || '*';
+      const matching = tagged.filter(t => SEMVER_TAG.test(t.tag) && Bun.semver.satisfies(stripV(t.tag), range));
+      if (!matching.length) return { tag: null, reason: `No tags satisfy "${range}"` };
+      const best = matching.reduce((a, b) => Bun.semver.order(stripV(b.tag), stripV(a.tag)) > 0 ? b : a);
+      if (SEMVER_TAG.test(current.tag) && Bun.semver.order(stripV(best.tag), stripV(current.tag)) <= 0) {
+        return { tag: null, reason: `${current.tag} is the highest version satisfying "${range}"` };
+      }
+      pick = { ...best, reason: `semver: ${best.tag} is the highest version satisfying "${range}" (running ${current.tag})` };
+      break;
+    }
+    case 'regex': {
+      let re: RegExp;
+      try {
+        re = compileTagPattern(policy.pattern!);
+      } catch (e: any) {
+        return { tag: null, reason: `Invalid regex /${policy.pattern}/: ${e.message}` }; // Saved before the limits existed
+      }
+      const newest = tagged.filter(t => re.test(t.tag)).sort((a, b) => b.created_at - a.created_at)[0];
+      if (!newest) return { tag: null, reason: `No tags match /${policy.pattern}/` };
+      const running = versions.find(v => v.digest === current.digest);
+      if (running && newest.created_at <= running.created_at) {
+        return { tag: null, reason: `Newest match ${newest.tag} is not newer than the running image` };
+      }
+      pick = { ...newest, reason: `regex: ${newest.tag} is the most recently pushed tag matching /${policy.pattern}/ (${new Date(newest.created_at).toISOString()})` };
+      break;
+    }
+  }
+
+  if (pick.digest === current.digest) return { tag: null, reason: `${pick.tag} (${short(pick.digest)}) is already running` };
+  return { tag: pick.tag, digest: pick.digest, reason: pick.reason };
+}
+
+interface UpdateHandlers {
+  deploy: (service: string, image: string, config: DockerServiceConfig, reason: string) => Promise<void>;
+  notify: (service: string, image: string, reason: string) => void;
+}
+
+/**
+ * Evaluates per-service update policies in the background: notify-only policies
+ * raise an alert once per new candidate, auto policies redeploy inside their window.
+ */
+export class UpdatePoller {
+  private running = false;
+
+  constructor(private dockerMgr: DockerManager, private handlers: UpdateHandlers) {}
+
+  startScheduler() {
+    if (CONFIG.UPDATES.POLL_MINUTES <= 0) return;
+    setInterval(() => this.checkAll(), CONFIG.UPDATES.POLL_MINUTES * 60_000);
+  }
+
+  async checkAll() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      // One at a time: each check hits the registry API and may redeploy
+      for (const service of this.dockerMgr.configuredServices()) {
+        await this.check(service).catch(e => console.error(`Update check for ${service} failed:`, e.message));
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async check(service: string): Promise<UpdateCheck | null> {
+    const config = this.dockerMgr.readConfig(service);
+    const policy = config?.updatePolicy;
+    if (!config?.image || !policy || policy.mode === 'off') return null;
+
+    const currentTag = splitImage(config.image).tag;
+    const previous = DB.getUpdateCheck(service);
+    const record = (result: Omit<UpdateCheck, 'service' | 'checked_at' | 'current_tag'>): UpdateCheck => {
+      const check = { service, checked_at: Date.now(), current_tag: currentTag, ...result };
+      DB.saveUpdateCheck(check);
+      return check;
+    };
+
+    const versions = await this.dockerMgr.listImageVersions(config.image, config.registryCredential);
+    if (!versions) {
+      return record({ candidate_tag: null, candidate_digest: null, reason: 'Could not list image versions', action: 'failed', error: 'Registry unavailable or image not supported' });
+    }
+
+    const currentDigest = DB.listRevisions(service, 1)[0]?.digest ?? await this.dockerMgr.getImageRepoDigest(config.image);
+    const pick = selectUpdate({ tag: currentTag, digest: currentDigest }, versions, policy);
+    if (!pick.tag) return record({ candidate_tag: null, candidate_digest: null, reason: pick.reason, action: 'none', error: null });
+
+    const candidate = { candidate_tag: pick.tag, candidate_digest: pick.digest, reason: pick.reason, error: null };
+    const sameCandidate = previous?.candidate_digest === pick.digest;
+    const image = withTag(config.image, pick.tag);
+
+    if (policy.mode === 'notify') {
+      if (!(sameCandidate && previous?.action === 'notified')) this.handlers.notify(service, image, pick.reason);
+      return record({ ...candidate, action: 'notified' });
+    }
+
+    // Don't retry a broken image every poll; a newer candidate gets a fresh attempt
+    if (sameCandidate && previous?.action === 'failed') {
+      return record({ ...candidate, action: 'failed', error: previous.error });
+    }
+    if (!inMaintenanceWindow(policy.window, new Date())) {
+      return record({ ...candidate, action: 'deferred', reason: `${pick.reason}; waiting for the maintenance window` });
+    }
+
+    try {
+      await this.handlers.deploy(service, image, config, pick.reason);
+      return record({ ...candidate, action: 'deployed' });
+    } catch (e: any) {
+      return record({ ...candidate, action: 'failed', error: e.message });
+    }
+  }
+}
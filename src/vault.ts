@@ -0,0 +1,44 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { CONFIG } from './config';
+import { DATA_DIR } from './db';
+
+const KEY_FILE = join(DATA_DIR, 'master.key');
+const VERSION = 'v1';
+
+let key: Buffer | null = null;
+
+// MASTER_KEY if set (any string, hashed to 32 bytes), otherwise a generated key file
+function masterKey(): Buffer {
+  if (key) return key;
+  if (CONFIG.MASTER_KEY) {
+    key = createHash('sha256').update(CONFIG.MASTER_KEY).digest();
+  } else {
+    if (!existsSync(KEY_FILE)) {
+      writeFileSync(KEY_FILE, randomBytes(32).toString('base64'), { mode: 0o600 });
+      console.warn(`⚠️ MASTER_KEY not set: generated ${KEY_FILE}. Back it up, encrypted data is unreadable without it`);
+    }
+    key = Buffer.from(readFileSync(KEY_FILE, 'utf-8').trim(), 'base64');
+  }
+  return key;
+}
+
+/**
+ * AES-256-GCM. Output is "v1:<iv>:<auth tag>:<ciphertext>", base64 parts.
+ */
+export function encrypt(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', masterKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+}
+
+// Throws if the value was encrypted with a different key or tampered with
+export function decrypt(sealed: string): string {
+  const [version, iv, tag, data] = sealed.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) throw new Error('Unrecognised encrypted value');
+  const decipher = createDecipheriv('aes-256-gcm', masterKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+}
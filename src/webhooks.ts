@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface RegistryPush {
+  repository: string; // ghcr.io/owner/name, lowercased
+  tag: string;
+  digest: string | null;
+}
+
+/**
+ * Checks GitHub's X-Hub-Signature-256 header ("sha256=<hex HMAC of the raw body>").
+ */
+export function verifySignature(secret: string, body: string, header: string | undefined): boolean {
+  if (!header?.startsWith('sha256=')) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(body).digest('hex'));
+  const given = Buffer.from(header.slice('sha256='.length));
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// The parts of GitHub's package webhook payload that are read; anything may be missing
+interface PackageEvent {
+  action?: unknown;
+  package?: PackagePayload;
+  registry_package?: PackagePayload;
+}
+
+interface PackagePayload {
+  name?: unknown;
+  namespace?: unknown;
+  package_type?: unknown;
+  owner?: { login?: unknown };
+  package_version?: {
+    version?: unknown;
+    container_metadata?: { tag?: { name?: unknown; digest?: unknown } };
+  };
+}
+
+/**
+ * Extracts the pushed container image from a GitHub `package` or `registry_package`
+ * event. Returns null for other package types, deletions, untagged pushes and malformed bodies.
+ */
+export function parseRegistryPush(event: string | undefined, payload: unknown): RegistryPush | null {
+  if (event !== 'package' && event !== 'registry_package') return null;
+  if (!payload || typeof payload !== 'object') return null;
+  const body = payload as PackageEvent;
+  if (body.action !== 'published' && body.action !== 'updated') return null;
+
+  const pkg = body.package ?? body.registry_package;
+  if (!pkg || typeof pkg !== 'object' || String(pkg.package_type).toLowerCase() !== 'container') return null;
+
+  const owner = pkg.namespace ?? pkg.owner?.login;
+  const version = pkg.package_version ?? {};
+  const tag = version.container_metadata?.tag?.name;
+  if (!owner || !pkg.name || !tag) return null;
+  if (typeof owner !== 'string' || typeof pkg.name !== 'string' || typeof tag !== 'string') return null;
+
+  const digest = version.container_metadata?.tag?.digest ?? version.version ?? null;
+  return {
+    repository: `ghcr.io/${owner}/${pkg.name}`.toLowerCase(),
+    tag,
+    digest: typeof digest === 'string' && digest.startsWith('sha256:') ? digest : null,
+  };
+}